@@ -11,9 +11,10 @@ import { createNativeStackNavigator } from "@react-navigation/native-stack";
 import FlashMessage from "react-native-flash-message";
 import { Icon } from "@rneui/themed";
 import { AuthProvider, useAuth } from "./contexts/AuthContext";
-import { SyncProvider } from "./contexts/SyncContext";
+import { SyncProvider, useSync } from "./contexts/SyncContext";
 import { DatabaseProvider } from "./contexts/DatabaseContext";
 import { ThemeProvider } from "./contexts/ThemeContext";
+import { AppLockProvider } from "./contexts/AppLockContext";
 import { useTheme } from "./contexts/ThemeContext";
 import LoginScreen from "./screens/LoginScreen";
 import LogbookScreen from "./screens/LogbookScreen";
@@ -22,6 +23,10 @@ import FlightDetailScreen from "./screens/FlightDetailScreen";
 import ProfileScreen from "./screens/ProfileScreen";
 import SyncStatusScreen from "./screens/SyncStatusScreen";
 import AirportSetupScreen from "./screens/AirportSetupScreen";
+import ConflictResolutionScreen from "./screens/ConflictResolutionScreen";
+import SyncHistoryScreen from "./screens/SyncHistoryScreen";
+import NotificationsScreen from "./screens/NotificationsScreen";
+import LockScreen from "./screens/LockScreen";
 import { shouldShowAirportSetup } from "./utils/checkAirportSetup";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 
@@ -60,12 +65,55 @@ function LogbookStack() {
           presentation: "modal",
         }}
       />
+      <Stack.Screen
+        name="SyncHistory"
+        component={SyncHistoryScreen}
+        options={{ title: "Sync History" }}
+      />
+      <Stack.Screen
+        name="Notifications"
+        component={NotificationsScreen}
+        options={{ title: "Notifications" }}
+      />
+    </Stack.Navigator>
+  );
+}
+
+function SyncStack() {
+  const { theme } = useTheme();
+
+  return (
+    <Stack.Navigator
+      id={undefined}
+      screenOptions={{
+        headerStyle: { backgroundColor: theme.colors.card },
+        headerTintColor: theme.colors.text,
+        headerTitleStyle: { color: theme.colors.text },
+        contentStyle: { backgroundColor: theme.colors.background },
+      }}
+    >
+      <Stack.Screen
+        name="SyncStatus"
+        component={SyncStatusScreen}
+        options={{ title: "Sync" }}
+      />
+      <Stack.Screen
+        name="ConflictResolution"
+        component={ConflictResolutionScreen}
+        options={{ title: "Resolve Conflicts" }}
+      />
+      <Stack.Screen
+        name="SyncHistory"
+        component={SyncHistoryScreen}
+        options={{ title: "Sync History" }}
+      />
     </Stack.Navigator>
   );
 }
 
 function MainTabs() {
   const { theme } = useTheme();
+  const { unreadNotifications } = useSync();
 
   return (
     <Tab.Navigator
@@ -103,7 +151,10 @@ function MainTabs() {
       <Tab.Screen
         name="LogbookTab"
         component={LogbookStack}
-        options={{ title: "Logbook" }}
+        options={{
+          title: "Logbook",
+          tabBarBadge: unreadNotifications > 0 ? unreadNotifications : undefined,
+        }}
       />
       <Tab.Screen
         name="Add"
@@ -115,11 +166,8 @@ function MainTabs() {
       />
       <Tab.Screen
         name="Sync"
-        component={SyncStatusScreen}
-        options={{
-          title: "Sync",
-          headerShown: true,
-        }}
+        component={SyncStack}
+        options={{ title: "Sync" }}
       />
       <Tab.Screen
         name="Profile"
@@ -234,8 +282,11 @@ export default function App() {
       <AuthProvider>
         <SyncProvider>
           <ThemeProvider>
-            <AppNavigator />
-            <FlashMessage position="top" />
+            <AppLockProvider>
+              <AppNavigator />
+              <LockScreen />
+              <FlashMessage position="top" />
+            </AppLockProvider>
           </ThemeProvider>
         </SyncProvider>
       </AuthProvider>
@@ -0,0 +1,9 @@
+import { randomBytes, randomUUID as nodeRandomUUID } from "crypto";
+
+export function getRandomBytes(length: number): Uint8Array {
+  return new Uint8Array(randomBytes(length));
+}
+
+export function randomUUID(): string {
+  return nodeRandomUUID();
+}
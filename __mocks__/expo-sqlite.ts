@@ -91,22 +91,41 @@ class MockSQLiteDatabase {
     }
   }
 
-  async closeAsync(): Promise<void> {
-    this.db.close();
-  }
+  // The in-memory file stays around for the next open, like a file on disk.
+  async closeAsync(): Promise<void> {}
 }
 
 export type SQLiteDatabase = MockSQLiteDatabase;
 
+const files = new Map<string, SqlJsDatabaseType>();
+
 export async function openDatabaseAsync(
-  _name?: string
+  name: string = ""
 ): Promise<MockSQLiteDatabase> {
   const SQL = await sqlPromise;
-  const database = new SQL.Database();
+  if (name === ":memory:") {
+    return new MockSQLiteDatabase(new SQL.Database());
+  }
+
+  let database = files.get(name);
+  if (!database) {
+    database = new SQL.Database();
+    files.set(name, database);
+  }
   return new MockSQLiteDatabase(database);
 }
 
+export async function deleteDatabaseAsync(name: string): Promise<void> {
+  const database = files.get(name);
+  if (!database) {
+    throw new Error(`Database ${name} not found`);
+  }
+  database.close();
+  files.delete(name);
+}
+
 export default {
   openDatabaseAsync,
+  deleteDatabaseAsync,
 };
 
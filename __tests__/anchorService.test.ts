@@ -0,0 +1,226 @@
+/**
+ * @jest-environment node
+ */
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+jest.mock("expo-sqlite");
+jest.mock("axios");
+jest.mock("../services/demoService", () => ({
+  __esModule: true,
+  default: { isActive: jest.fn(() => false) },
+}));
+jest.mock("../config", () => ({
+  ANCHOR_RPC_URL: "http://127.0.0.1:8545",
+  ANCHOR_CHAIN_ID: 31337,
+}));
+
+import axios from "axios";
+import database, { FlightEntry } from "../services/database";
+import { rawDatabase } from "./helpers/database";
+import AnchorService from "../services/anchorService";
+import DemoService from "../services/demoService";
+import { ApiProofStep } from "../utils/apiContract";
+import { computeEntryHash } from "../utils/entryHash";
+import { hashLeaf, hashNode } from "../utils/merkle";
+
+const CONTRACT = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+const TX_HASH = `0x${"ab".repeat(32)}`;
+const SIBLING = "cd".repeat(32);
+
+const anchoredEntry: Omit<FlightEntry, "id" | "createdAt" | "updatedAt"> = {
+  pilotId: 1,
+  status: "anchored",
+  flightDate: "2025-06-01",
+  aircraftReg: "A6-EEF",
+  picTime: 90,
+  sicTime: 0,
+  dualTime: 0,
+  nightTime: 0,
+  instrumentTime: 0,
+  totalTime: 90,
+  landingsDay: 1,
+  landingsNight: 0,
+  syncStatus: "synced",
+};
+
+// The entry is the left leaf of a two-leaf batch.
+const ROOT = hashNode(hashLeaf(computeEntryHash(anchoredEntry)), SIBLING);
+const PROOF: ApiProofStep[] = [{ hash: SIBLING, position: "right" }];
+
+const mockedPost = axios.post as jest.Mock;
+
+// Minimal stand-in for an anvil node answering the calls the verifier makes.
+function mockNode(overrides: { receipt?: any; chainId?: string } = {}) {
+  const receipt =
+    overrides.receipt === undefined
+      ? {
+          status: "0x1",
+          blockNumber: "0x10",
+          to: CONTRACT.toLowerCase(),
+          logs: [
+            {
+              address: CONTRACT.toLowerCase(),
+              topics: [`0x${"11".repeat(32)}`, `0x${ROOT}`],
+              data: "0x",
+            },
+          ],
+        }
+      : overrides.receipt;
+
+  mockedPost.mockImplementation(async (_url: string, body: any) => {
+    switch (body.method) {
+      case "eth_chainId":
+        return { data: { result: overrides.chainId ?? "0x7a69" } };
+      case "eth_getTransactionReceipt":
+        return { data: { result: receipt } };
+      case "eth_blockNumber":
+        return { data: { result: "0x14" } };
+      default:
+        return { data: { error: { code: -32601, message: "Method not found" } } };
+    }
+  });
+}
+
+async function createAnchoredEntry(proof: ApiProofStep[] | null = PROOF): Promise<number> {
+  const id = await database.createEntry(anchoredEntry, { fromServer: true });
+
+  const receipt = AnchorService.parseAnchorPayload({
+    chain_id: 31337,
+    contract_address: CONTRACT,
+    tx_hash: TX_HASH,
+    block_number: 16,
+    merkle_root: `0x${ROOT}`,
+    proof: proof ?? undefined,
+  });
+  await AnchorService.recordReceipt(id, receipt!);
+  return id;
+}
+
+const receiptWithLog = (log: { topics: string[]; data: string }) => ({
+  status: "0x1",
+  blockNumber: "0x10",
+  to: CONTRACT.toLowerCase(),
+  logs: [{ address: CONTRACT.toLowerCase(), ...log }],
+});
+
+describe("AnchorService", () => {
+  afterEach(() => {
+    mockedPost.mockReset();
+  });
+
+  it("should reject incomplete anchor payloads", () => {
+    expect(AnchorService.parseAnchorPayload(undefined)).toBeNull();
+    expect(AnchorService.parseAnchorPayload({ tx_hash: TX_HASH })).toBeNull();
+  });
+
+  it("should verify a root emitted by the anchor contract", async () => {
+    mockNode();
+    const id = await createAnchoredEntry();
+
+    const result = await AnchorService.verifyAnchor(id);
+
+    expect(result.status).toBe("verified");
+    expect(result.confirmations).toBe(5);
+    await expect(database.getAnchorReceipt(id)).resolves.toMatchObject({
+      verificationStatus: "verified",
+    });
+  });
+
+  it("should flag a receipt whose root was never logged", async () => {
+    mockNode({
+      receipt: {
+        status: "0x1",
+        blockNumber: "0x10",
+        to: CONTRACT.toLowerCase(),
+        logs: [],
+      },
+    });
+    const id = await createAnchoredEntry();
+
+    await expect(AnchorService.verifyAnchor(id)).resolves.toMatchObject({
+      status: "mismatch",
+      reason: "Merkle root not found in contract logs",
+    });
+  });
+
+  it("should read the root from the first data word of an unindexed event", async () => {
+    const id = await createAnchoredEntry();
+
+    mockNode({
+      receipt: receiptWithLog({ topics: [`0x${"11".repeat(32)}`], data: `0x${ROOT}${"00".repeat(32)}` }),
+    });
+    await expect(AnchorService.verifyAnchor(id)).resolves.toMatchObject({ status: "verified" });
+
+    // The root appearing anywhere else in the data proves nothing.
+    mockNode({
+      receipt: receiptWithLog({ topics: [`0x${"11".repeat(32)}`], data: `0x${"00".repeat(32)}${ROOT}` }),
+    });
+    await expect(AnchorService.verifyAnchor(id)).resolves.toMatchObject({
+      status: "mismatch",
+      reason: "Merkle root not found in contract logs",
+    });
+  });
+
+  it("should reject a root the entry is not included in", async () => {
+    mockNode();
+    const missingProof = await createAnchoredEntry(null);
+    await expect(AnchorService.verifyAnchor(missingProof)).resolves.toMatchObject({
+      status: "mismatch",
+      reason: "Receipt has no inclusion proof",
+    });
+
+    const id = await createAnchoredEntry();
+    const db = await rawDatabase();
+    await db.runAsync("UPDATE flight_entries SET pic_time = 95 WHERE id = ?", [id]);
+
+    await expect(AnchorService.verifyAnchor(id)).resolves.toMatchObject({
+      status: "mismatch",
+      reason: "Entry is not included in the anchored root",
+    });
+    expect(mockedPost).not.toHaveBeenCalled();
+  });
+
+  it("should report unknown transactions and other chains", async () => {
+    const id = await createAnchoredEntry();
+
+    mockNode({ receipt: null });
+    await expect(AnchorService.verifyAnchor(id)).resolves.toMatchObject({
+      status: "not_found",
+    });
+
+    mockNode({ chainId: "0x89" });
+    await expect(AnchorService.verifyAnchor(id)).resolves.toMatchObject({
+      status: "mismatch",
+    });
+  });
+
+  it("should treat RPC failures as unreachable", async () => {
+    mockedPost.mockRejectedValue(new Error("connect ECONNREFUSED 127.0.0.1:8545"));
+    const id = await createAnchoredEntry();
+
+    await expect(AnchorService.verifyAnchor(id)).resolves.toMatchObject({
+      status: "unreachable",
+    });
+  });
+
+  it("should not reach the chain from the demo", async () => {
+    mockNode();
+    (DemoService.isActive as jest.Mock).mockReturnValueOnce(true);
+    const id = await createAnchoredEntry();
+
+    await expect(AnchorService.verifyAnchor(id)).resolves.toMatchObject({
+      status: "unreachable",
+      reason: "Not available in the demo",
+    });
+    expect(mockedPost).not.toHaveBeenCalled();
+  });
+
+  it("should only build explorer links for public networks", () => {
+    expect(AnchorService.getExplorerUrl({ chainId: 137, txHash: TX_HASH })).toBe(
+      `https://polygonscan.com/tx/${TX_HASH}`
+    );
+    expect(AnchorService.getExplorerUrl({ chainId: 31337, txHash: TX_HASH })).toBeNull();
+  });
+});
@@ -0,0 +1,139 @@
+import {
+  ApiContractError,
+  entryListResponse,
+  parseResponse,
+  sessionResponse,
+  syncResponse,
+} from "../utils/apiContract";
+
+const user = { id: 7, email: "pilot@flightlog.test", name: "Alex Morgan", role: "pilot" };
+
+describe("API contract", () => {
+  it("should accept a valid session and keep unknown fields", () => {
+    const session = parseResponse(
+      sessionResponse,
+      { access_token: "a", refresh_token: "r", user: { ...user, license_no: null }, extra: 1 },
+      "POST /auth/login"
+    );
+
+    expect(session.user.license_no).toBeUndefined();
+    expect(session).toMatchObject({ access_token: "a", extra: 1 });
+  });
+
+  it("should name the endpoint and field of a malformed response", () => {
+    const parse = () =>
+      parseResponse(
+        sessionResponse,
+        { accessToken: "a", refresh_token: "r", user },
+        "POST /auth/login"
+      );
+
+    expect(parse).toThrow(ApiContractError);
+    expect(parse).toThrow(
+      "Invalid response from POST /auth/login: access_token must be a string, got undefined"
+    );
+  });
+
+  it("should report the path to a nested field", () => {
+    expect(() =>
+      parseResponse(
+        syncResponse,
+        { synced: [{ client_uuid: "u-1", server_id: 4 }, { client_uuid: "u-2", server_id: "5" }] },
+        "POST /pilots/me/entries/sync"
+      )
+    ).toThrow("synced[1].server_id must be an integer, got string");
+  });
+
+  it("should require an id and a known status on server entries", () => {
+    const entry = {
+      pilot_id: 1,
+      status: "submitted",
+      flight_date: "2025-09-01",
+      aircraft_reg: "A6-EWA",
+    };
+
+    expect(() =>
+      parseResponse(entryListResponse, { entries: [entry] }, "GET /pilots/me/entries")
+    ).toThrow("entries[0].id must be an integer, got undefined");
+    expect(() =>
+      parseResponse(
+        entryListResponse,
+        { entries: [{ ...entry, id: 3, status: "archived" }] },
+        "GET /pilots/me/entries"
+      )
+    ).toThrow(/entries\[0\]\.status must be one of draft, .*got string/);
+    expect(
+      parseResponse(
+        entryListResponse,
+        { entries: [{ ...entry, server_id: 3 }], meta: { total_pages: 1 } },
+        "GET /pilots/me/entries"
+      ).meta
+    ).toEqual({ total_pages: 1 });
+  });
+
+  it("should check the wire fields of server entries", () => {
+    const entry = {
+      id: 3,
+      pilot_id: 1,
+      status: "submitted",
+      flight_date: "2025-09-01",
+      aircraft_reg: "A6-EWA",
+    };
+    const parse = (fields: Record<string, unknown>) =>
+      parseResponse(
+        entryListResponse,
+        { entries: [{ ...entry, ...fields }] },
+        "GET /pilots/me/entries"
+      );
+
+    expect(() => parse({ pic_time: "90" })).toThrow(
+      "entries[0].pic_time must be a number, got string"
+    );
+    expect(() => parse({ additional_data: { crew_members: [{ name: "Sam" }] } })).toThrow(
+      "entries[0].additional_data.crew_members[0].role must be one of PIC, SIC, RELIEF"
+    );
+    expect(() => parse({ attachments: [{ filename: "techlog.jpg" }] })).toThrow(
+      "entries[0].attachments[0].size must be an integer, got undefined"
+    );
+    // Formats 1 and 2 sent attachments as a JSON string; unknown keys pass through.
+    expect(
+      parse({ attachments: "[]", additional_data: { tail_note: "ok" } }).entries[0]
+    ).toMatchObject({ attachments: "[]", additional_data: { tail_note: "ok" } });
+  });
+
+  it("should check the anchor of server entries and sync results", () => {
+    expect(() =>
+      parseResponse(
+        entryListResponse,
+        {
+          entries: [
+            {
+              id: 3,
+              pilot_id: 1,
+              status: "anchored",
+              flight_date: "2025-09-01",
+              aircraft_reg: "A6-EWA",
+              anchor: { block_number: "16" },
+            },
+          ],
+        },
+        "GET /pilots/me/entries"
+      )
+    ).toThrow("entries[0].anchor.block_number must be an integer, got string");
+    expect(() =>
+      parseResponse(
+        syncResponse,
+        { synced: [{ server_id: 4, anchor: { proof: [{ hash: "ab", position: "up" }] } }] },
+        "POST /pilots/me/entries/sync"
+      )
+    ).toThrow("synced[0].anchor.proof[0].position must be one of left, right");
+    // An anchor still under way carries only some of its fields.
+    expect(
+      parseResponse(
+        syncResponse,
+        { synced: [{ server_id: 4, anchor: { tx_hash: "0xab" } }] },
+        "POST /pilots/me/entries/sync"
+      ).synced[0].anchor
+    ).toEqual({ tx_hash: "0xab" });
+  });
+});
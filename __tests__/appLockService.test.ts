@@ -0,0 +1,157 @@
+/**
+ * @jest-environment node
+ */
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+jest.mock("expo-sqlite");
+jest.mock("expo-crypto");
+jest.mock("expo-secure-store", () => {
+  const store = new Map<string, string>();
+  return {
+    getItemAsync: jest.fn(async (key: string) => store.get(key) ?? null),
+    setItemAsync: jest.fn(async (key: string, value: string) => {
+      store.set(key, value);
+    }),
+    deleteItemAsync: jest.fn(async (key: string) => {
+      store.delete(key);
+    }),
+  };
+});
+jest.mock("expo-file-system", () => {
+  const directories = new Set(["file:///documents/attachments/"]);
+  return {
+    __directories: directories,
+    Paths: { document: { uri: "file:///documents/" } },
+    Directory: class {
+      uri: string;
+      constructor(parent: { uri: string }, name: string) {
+        this.uri = `${parent.uri}${name}/`;
+      }
+      get exists() {
+        return directories.has(this.uri);
+      }
+      delete() {
+        directories.delete(this.uri);
+      }
+    },
+  };
+});
+jest.mock("react-native", () => ({
+  AppState: { currentState: "active", addEventListener: jest.fn(() => ({ remove: jest.fn() })) },
+}));
+jest.mock("../services/apiClient", () => ({
+  __esModule: true,
+  default: { clearTokens: jest.fn(async () => {}) },
+}));
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as SecureStore from "expo-secure-store";
+import { AppState } from "react-native";
+import ApiClient from "../services/apiClient";
+import AppLockService, { WIPE_AFTER_ATTEMPTS } from "../services/appLockService";
+import database, { FlightEntry } from "../services/database";
+import { hashPin, verifyPin } from "../utils/pinHash";
+
+const draft: Omit<FlightEntry, "id" | "createdAt" | "updatedAt"> = {
+  pilotId: 4,
+  status: "draft",
+  flightDate: "2025-10-02",
+  aircraftReg: "A6-LCK",
+  picTime: 60,
+  sicTime: 0,
+  dualTime: 0,
+  nightTime: 0,
+  instrumentTime: 0,
+  totalTime: 60,
+  landingsDay: 1,
+  landingsNight: 0,
+  syncStatus: "pending",
+};
+
+const appStateHandler = () =>
+  (AppState.addEventListener as jest.Mock).mock.calls[0][1] as (state: string) => void;
+
+describe("app lock", () => {
+  afterEach(async () => {
+    await AppLockService.disable();
+    jest.useRealTimers();
+  });
+
+  it("should store the PIN only as a salted hash", async () => {
+    const first = await hashPin("4821", new Uint8Array(16).fill(1), 1000);
+    const second = await hashPin("4821", new Uint8Array(16).fill(2), 1000);
+
+    expect(first.hash).not.toEqual(second.hash);
+    await expect(verifyPin("4821", first)).resolves.toBe(true);
+    await expect(verifyPin("4822", first)).resolves.toBe(false);
+
+    await AppLockService.setPin("4821");
+    const stored = await SecureStore.getItemAsync("app_lock_pin");
+    expect(stored).not.toContain("4821");
+    expect(JSON.parse(stored!)).toMatchObject({ iterations: expect.any(Number) });
+  });
+
+  it("should lock on launch and unlock with the right PIN", async () => {
+    await AppLockService.setPin("135790");
+
+    await expect(AppLockService.start()).resolves.toMatchObject({
+      enabled: true,
+      locked: true,
+    });
+    await expect(AppLockService.unlock("000000")).resolves.toEqual({
+      status: "invalid",
+      attemptsRemaining: WIPE_AFTER_ATTEMPTS - 1,
+    });
+    await expect(AppLockService.unlock("135790")).resolves.toEqual({
+      status: "unlocked",
+    });
+    expect(AppLockService.getState()).toMatchObject({ locked: false, failedAttempts: 0 });
+  });
+
+  it("should lock after the auto-lock period in the background", async () => {
+    await AppLockService.setPin("2468");
+    await AppLockService.setAutoLockTimeout(60);
+    await AppLockService.start();
+    await AppLockService.unlock("2468");
+    jest.useFakeTimers({ now: Date.parse("2025-10-02T10:00:00Z") });
+
+    appStateHandler()("background");
+    jest.setSystemTime(Date.parse("2025-10-02T10:00:30Z"));
+    appStateHandler()("active");
+    expect(AppLockService.getState().locked).toBe(false);
+
+    appStateHandler()("background");
+    jest.setSystemTime(Date.parse("2025-10-02T10:02:00Z"));
+    appStateHandler()("active");
+    expect(AppLockService.getState().locked).toBe(true);
+  });
+
+  it("should erase local data after too many wrong PINs", async () => {
+    await database.init();
+    const id = await database.createEntry(draft);
+    await AsyncStorage.setItem("user", JSON.stringify({ id: 4, email: "p@x.test" }));
+    await AppLockService.setPin("9753");
+    await AppLockService.start();
+    const wiped = jest.fn();
+    const unsubscribe = AppLockService.onWipe(wiped);
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    for (let attempt = 1; attempt < WIPE_AFTER_ATTEMPTS; attempt += 1) {
+      await AppLockService.unlock("1111");
+    }
+    const result = await AppLockService.unlock("1111");
+    warn.mockRestore();
+    unsubscribe();
+
+    expect(result).toEqual({ status: "wiped" });
+    expect(wiped).toHaveBeenCalledTimes(1);
+    expect(ApiClient.clearTokens).toHaveBeenCalled();
+    await expect(database.getEntry(id)).resolves.toBeNull();
+    await expect(AsyncStorage.getItem("user")).resolves.toBeNull();
+    await expect(SecureStore.getItemAsync("app_lock_pin")).resolves.toBeNull();
+    expect(require("expo-file-system").__directories.size).toBe(0);
+    expect(AppLockService.getState()).toMatchObject({ enabled: false, locked: false });
+  }, 20000);
+});
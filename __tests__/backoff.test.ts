@@ -0,0 +1,28 @@
+import { computeBackoffDelay } from "../utils/backoff";
+
+const options = { baseDelayMs: 1000, maxDelayMs: 60000 };
+
+describe("computeBackoffDelay", () => {
+  it("should double the delay with each attempt", () => {
+    const upper = (attempt: number) => computeBackoffDelay(attempt, options, () => 1);
+
+    expect(upper(1)).toBe(1000);
+    expect(upper(2)).toBe(2000);
+    expect(upper(4)).toBe(8000);
+  });
+
+  it("should cap the delay", () => {
+    expect(computeBackoffDelay(20, options, () => 1)).toBe(60000);
+  });
+
+  it("should jitter between half and the full delay", () => {
+    expect(computeBackoffDelay(3, options, () => 0)).toBe(2000);
+    expect(computeBackoffDelay(3, options, () => 0.5)).toBe(3000);
+
+    for (let i = 0; i < 50; i += 1) {
+      const delay = computeBackoffDelay(3, options);
+      expect(delay).toBeGreaterThanOrEqual(2000);
+      expect(delay).toBeLessThanOrEqual(4000);
+    }
+  });
+});
@@ -0,0 +1,28 @@
+import { detectContentType } from "../utils/contentType";
+
+const bytes = (...values: number[]) => new Uint8Array(values);
+const text = (value: string) => new Uint8Array([...value].map((char) => char.charCodeAt(0)));
+
+describe("detectContentType", () => {
+  it("should read the type from the file signature", () => {
+    expect(detectContentType(bytes(0xff, 0xd8, 0xff, 0xe1))).toBe("image/jpeg");
+    expect(
+      detectContentType(bytes(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a))
+    ).toBe("image/png");
+    expect(detectContentType(text("%PDF-1.7"))).toBe("application/pdf");
+    expect(detectContentType(text("RIFF\0\0\0\0WEBPVP8 "))).toBe("image/webp");
+  });
+
+  it("should recognise HEIC photos named as JPEG", () => {
+    expect(detectContentType(text("\0\0\0\x18ftypheic"), "IMG_0001.jpg")).toBe(
+      "image/heic"
+    );
+  });
+
+  it("should fall back to the extension, then to a generic type", () => {
+    expect(detectContentType(bytes(1, 2, 3), "scan.PNG")).toBe("image/png");
+    expect(detectContentType(bytes(1, 2, 3), "notes.bin")).toBe(
+      "application/octet-stream"
+    );
+  });
+});
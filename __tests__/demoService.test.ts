@@ -0,0 +1,144 @@
+/**
+ * @jest-environment node
+ */
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+jest.mock("expo-sqlite");
+jest.mock("expo-crypto");
+jest.mock("@react-native-community/netinfo", () => ({
+  fetch: jest.fn(async () => ({ isConnected: true })),
+}));
+jest.mock("expo-task-manager", () => ({
+  defineTask: jest.fn(),
+  isTaskRegisteredAsync: jest.fn(async () => false),
+}));
+jest.mock("expo-background-fetch", () => ({
+  BackgroundFetchResult: { NoData: 1, NewData: 2, Failed: 3 },
+  registerTaskAsync: jest.fn(),
+  unregisterTaskAsync: jest.fn(),
+}));
+jest.mock("react-native", () => ({
+  AppState: { currentState: "active", addEventListener: jest.fn() },
+}));
+jest.mock("expo-secure-store", () => {
+  const store = new Map<string, string>();
+  return {
+    getItemAsync: jest.fn(async (key: string) => store.get(key) ?? null),
+    setItemAsync: jest.fn(async (key: string, value: string) => {
+      store.set(key, value);
+    }),
+    deleteItemAsync: jest.fn(async (key: string) => {
+      store.delete(key);
+    }),
+  };
+});
+jest.mock("expo-file-system", () => ({ File: class {} }));
+// Nothing listens here, so any request that escapes the demo fails.
+jest.mock("../config", () => ({
+  API_BASE_URL: "http://127.0.0.1:9/api/v1",
+  ANCHOR_RPC_URL: "http://127.0.0.1:9",
+  ANCHOR_CHAIN_ID: 31337,
+  SYNC_BATCH_SIZE: 50,
+  STATUS_CHANNEL_URL: null,
+}));
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import ApiClient from "../services/apiClient";
+import database, { Airport, FlightEntry } from "../services/database";
+import DemoService from "../services/demoService";
+import { DEMO_USER } from "../services/demoBackend";
+import SubmissionService from "../services/submissionService";
+import SyncService from "../services/syncService";
+import { buildDemoLogbook, DEMO_AIRPORTS } from "../utils/demoLogbook";
+
+const realEntry: Omit<FlightEntry, "id" | "createdAt" | "updatedAt"> = {
+  pilotId: 7,
+  status: "draft",
+  flightDate: "2025-09-14",
+  aircraftReg: "A6-REAL",
+  picTime: 90,
+  sicTime: 0,
+  dualTime: 0,
+  nightTime: 0,
+  instrumentTime: 0,
+  totalTime: 90,
+  landingsDay: 1,
+  landingsNight: 0,
+  syncStatus: "pending",
+};
+
+const registrations = (entries: FlightEntry[]) =>
+  new Set(entries.map((entry) => entry.aircraftReg));
+
+describe("demo logbook", () => {
+  it("should cover several months of varied flying", () => {
+    const airports: Record<string, Airport> = {};
+    DEMO_AIRPORTS.forEach((code, index) => {
+      airports[code] = {
+        id: index + 1,
+        icaoCode: code,
+        name: code,
+        latitude: 25,
+        longitude: 55,
+        timezone: "UTC",
+        active: true,
+      };
+    });
+
+    const entries = buildDemoLogbook({
+      pilotId: 0,
+      organizationId: 1,
+      airports,
+      today: new Date("2025-10-02T12:00:00Z"),
+    });
+    const dates = entries.map((entry) => entry.flightDate).sort();
+
+    expect(dates[0] < "2025-06-15").toBe(true);
+    expect(dates[dates.length - 1] < "2025-10-02").toBe(true);
+    expect(new Set(entries.map((entry) => entry.aircraftType)).size).toBeGreaterThan(2);
+    expect(new Set(entries.map((entry) => entry.routeTo)).size).toBeGreaterThan(4);
+    expect(entries.some((entry) => entry.nightTime > 0)).toBe(true);
+    expect(new Set(entries.map((entry) => entry.status))).toEqual(
+      new Set(["draft", "submitted", "approved", "rejected"])
+    );
+  });
+});
+
+describe("DemoService", () => {
+  it("should keep the demo in its own database with the API stubbed", async () => {
+    await database.init();
+    await database.createEntry(realEntry);
+
+    await DemoService.enter();
+    expect(DemoService.isActive()).toBe(true);
+
+    const demoEntries = await database.getAllEntries();
+    expect(demoEntries.length).toBeGreaterThan(30);
+    expect(registrations(demoEntries).has("A6-REAL")).toBe(false);
+    await expect(ApiClient.getProfile()).resolves.toEqual({ user: DEMO_USER });
+
+    const sync = await SyncService.syncNow();
+    expect(sync).toMatchObject({ success: true });
+    expect(sync.synced).toBeGreaterThan(0);
+    expect((await database.getStats()).pending).toBe(0);
+
+    await expect(SubmissionService.getOrganizations()).resolves.toHaveLength(1);
+    const draft = (await database.getAllEntries()).find((entry) => entry.status === "draft")!;
+    await expect(SubmissionService.submit(draft.id!, 1)).resolves.toMatchObject({
+      status: "submitted",
+    });
+
+    await DemoService.exit();
+    expect(DemoService.isActive()).toBe(false);
+
+    const realEntries = await database.getAllEntries();
+    expect(realEntries).toHaveLength(1);
+    expect(realEntries[0]).toMatchObject({ aircraftReg: "A6-REAL", syncStatus: "pending" });
+    await expect(AsyncStorage.getItem("@flightlog:organizations")).resolves.toBeNull();
+
+    // Back on the real API, which is not reachable here.
+    await expect(ApiClient.getProfile()).rejects.toThrow();
+  }, 30000);
+});
@@ -0,0 +1,217 @@
+/**
+ * @jest-environment node
+ */
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+jest.mock("expo-sqlite");
+
+import database, { FlightEntry } from "../services/database";
+import { rawDatabase } from "./helpers/database";
+import IntegrityService from "../services/integrityService";
+import {
+  canonicalizeEntry,
+  computeEntryHash,
+  HashableEntry,
+} from "../utils/entryHash";
+
+const baseEntry: Omit<FlightEntry, "id" | "createdAt" | "updatedAt"> = {
+  pilotId: 7,
+  status: "submitted",
+  flightDate: "2025-03-15",
+  aircraftReg: "A6-EXH",
+  aircraftType: "A380",
+  routeFrom: "OMDB",
+  routeTo: "EGLL",
+  departureTimezone: "Asia/Dubai",
+  arrivalTimezone: "Europe/London",
+  departureTimeUtc: "2025-03-15T03:30:00.000Z",
+  arrivalTimeUtc: "2025-03-15T11:05:00.000Z",
+  picTime: 455,
+  sicTime: 0,
+  dualTime: 0,
+  nightTime: 120,
+  instrumentTime: 30,
+  totalTime: 455,
+  landingsDay: 1,
+  landingsNight: 0,
+  nightTimeMethod: "calculated",
+  additionalData: JSON.stringify({ flightNumber: "EK1", actualOut: "0730" }),
+  syncStatus: "pending",
+};
+
+describe("Entry hashing", () => {
+  it("should produce a 64 character hex digest", () => {
+    expect(computeEntryHash(baseEntry)).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("should ignore key order inside additional data", () => {
+    const reordered: HashableEntry = {
+      ...baseEntry,
+      additionalData: JSON.stringify({ actualOut: "0730", flightNumber: "EK1" }),
+    };
+
+    expect(computeEntryHash(reordered)).toBe(computeEntryHash(baseEntry));
+  });
+
+  it("should ignore local bookkeeping fields", () => {
+    const synced = {
+      ...baseEntry,
+      id: 42,
+      serverId: 900,
+      status: "approved" as const,
+      syncStatus: "synced" as const,
+      lastSyncedAt: "2025-03-16T00:00:00Z",
+    };
+
+    expect(computeEntryHash(synced)).toBe(computeEntryHash(baseEntry));
+  });
+
+  it("should ignore device-local attachment URIs", () => {
+    const first = {
+      ...baseEntry,
+      attachments: JSON.stringify([
+        { uri: "file:///a/photo.jpg", filename: "photo.jpg", size: 10 },
+      ]),
+    };
+    const second = {
+      ...baseEntry,
+      attachments: JSON.stringify([
+        { uri: "file:///b/photo.jpg", filename: "photo.jpg", size: 10 },
+      ]),
+    };
+
+    expect(computeEntryHash(first)).toBe(computeEntryHash(second));
+  });
+
+  it("should change when any logged field changes", () => {
+    const original = computeEntryHash(baseEntry);
+
+    expect(computeEntryHash({ ...baseEntry, picTime: 456 })).not.toBe(original);
+    expect(computeEntryHash({ ...baseEntry, routeTo: "EGKK" })).not.toBe(original);
+    expect(computeEntryHash({ ...baseEntry, arrivalAirportIcao: "EGKK" })).not.toBe(
+      original
+    );
+    expect(
+      computeEntryHash({
+        ...baseEntry,
+        arrivalTimeUtc: "2025-03-15T11:06:00.000Z",
+      })
+    ).not.toBe(original);
+    expect(
+      computeEntryHash({
+        ...baseEntry,
+        additionalData: JSON.stringify({ flightNumber: "EK2", actualOut: "0730" }),
+      })
+    ).not.toBe(original);
+  });
+
+  it("should treat missing optional fields as null", () => {
+    const canonical = JSON.parse(
+      canonicalizeEntry({ ...baseEntry, remarks: undefined })
+    );
+
+    expect(canonical.remarks).toBeNull();
+  });
+});
+
+describe("Local tamper detection", () => {
+  const airport = (icaoCode: string) => ({
+    icaoCode,
+    name: icaoCode,
+    latitude: 0,
+    longitude: 0,
+    timezone: "UTC",
+    active: true,
+  });
+
+  afterEach(async () => {
+    const db = await rawDatabase();
+    await db.runAsync("DELETE FROM airports");
+  });
+
+  it("should rehash when only the airports change", async () => {
+    await database.bulkInsertAirports([airport("OMDB"), airport("OMAA")]);
+    const omaa = await database.getAirportByCode("OMAA");
+    const id = await database.createEntry(
+      { ...baseEntry, flightDate: "2025-05-02" },
+      { fromServer: true }
+    );
+
+    const updatedId = await database.updateEntry(id, { departureAirportId: omaa!.id });
+    const updated = await database.getEntry(updatedId);
+    expect(updated?.departureAirportIcao).toBe("OMAA");
+    expect(updated?.entryHash).toBe(
+      computeEntryHash({
+        ...baseEntry,
+        flightDate: "2025-05-02",
+        departureAirportIcao: "OMAA",
+      })
+    );
+  });
+
+  it("should hash the same entry alike on devices with different airport ids", async () => {
+    const logOn = async (airportOrder: string[]) => {
+      await database.bulkInsertAirports(airportOrder.map(airport));
+      const [omdb, egll] = await Promise.all([
+        database.getAirportByCode("OMDB"),
+        database.getAirportByCode("EGLL"),
+      ]);
+      const id = await database.createEntry(
+        {
+          ...baseEntry,
+          flightDate: "2025-05-03",
+          departureAirportId: omdb!.id,
+          arrivalAirportId: egll!.id,
+        },
+        { fromServer: true }
+      );
+      const db = await rawDatabase();
+      await db.runAsync("DELETE FROM airports");
+      return database.getEntry(id);
+    };
+
+    const first = await logOn(["OMDB", "EGLL", "KJFK"]);
+    const second = await logOn(["KJFK", "EGLL", "OMDB"]);
+
+    expect(second?.departureAirportId).not.toBe(first?.departureAirportId);
+    expect(second?.entryHash).toBe(first?.entryHash);
+    expect(first?.entryHash).toBe(
+      computeEntryHash({
+        ...baseEntry,
+        flightDate: "2025-05-03",
+        departureAirportIcao: "OMDB",
+        arrivalAirportIcao: "EGLL",
+      })
+    );
+  });
+
+  it("should hash entries on create and update", async () => {
+    const id = await database.createEntry(baseEntry, { fromServer: true });
+    const created = await database.getEntry(id);
+    expect(created?.entryHash).toBe(computeEntryHash(baseEntry));
+
+    const updatedId = await database.updateEntry(id, { remarks: "Hand flown approach" });
+    const updated = await database.getEntry(updatedId);
+    expect(updated?.entryHash).toBe(
+      computeEntryHash({ ...baseEntry, remarks: "Hand flown approach" })
+    );
+  });
+
+  it("should flag rows modified outside the database service", async () => {
+    const id = await database.createEntry({ ...baseEntry, flightDate: "2025-04-01" }, { fromServer: true });
+
+    const before = await IntegrityService.verifyAllEntries();
+    expect(before.flagged).toHaveLength(0);
+
+    // Simulate a direct write that bypasses hashing.
+    const db = await rawDatabase();
+    await db.runAsync("UPDATE flight_entries SET pic_time = 999 WHERE id = ?", [id]);
+
+    const after = await IntegrityService.verifyAllEntries();
+    expect(after.flagged).toEqual([
+      expect.objectContaining({ entryId: id, status: "mismatch" }),
+    ]);
+  });
+});
@@ -0,0 +1,138 @@
+import { FlightEntry } from "../services/database";
+import { computeEntryHash } from "../utils/entryHash";
+import {
+  decodeWireEntry,
+  encodeWireEntry,
+  WIRE_FORMAT_VERSION,
+} from "../utils/entryWire";
+
+const additionalData = {
+  flightNumber: "EK201",
+  actualOut: "08:05",
+  actualOutUtc: "2025-09-01T04:05:00.000Z",
+  fdpHours: 9.5,
+  crewMembers: [
+    { name: "A. Pilot", role: "PIC", licenseNo: "ATPL-1" },
+    { name: "B. Pilot", role: "SIC" },
+  ],
+  cargoNote: "Live animals",
+};
+
+const entry: FlightEntry = {
+  id: 12,
+  serverId: 340,
+  pilotId: 3,
+  status: "submitted",
+  flightDate: "2025-09-01",
+  aircraftReg: "A6-EWA",
+  aircraftType: "B77W",
+  routeFrom: "OMDB",
+  routeTo: "EGLL",
+  departureAirportId: 1,
+  arrivalAirportId: 2,
+  departureAirportIcao: "OMDB",
+  arrivalAirportIcao: "EGLL",
+  departureTimezone: "Asia/Dubai",
+  arrivalTimezone: "Europe/London",
+  departureTimeUtc: "2025-09-01T04:05:00.000Z",
+  arrivalTimeUtc: "2025-09-01T11:35:00.000Z",
+  picTime: 450,
+  sicTime: 0,
+  dualTime: 0,
+  nightTime: 30,
+  instrumentTime: 0,
+  totalTime: 450,
+  landingsDay: 1,
+  landingsNight: 0,
+  nightTimeMethod: "calculated",
+  nightTimeCalculatedAt: "2025-09-01T12:00:00.000Z",
+  additionalData: JSON.stringify(additionalData),
+  attachments: JSON.stringify([{ uri: "file:///techlog.jpg", filename: "techlog.jpg", size: 2048 }]),
+  syncStatus: "pending",
+  createdAt: "2025-09-01T12:00:00.000Z",
+  updatedAt: "2025-09-01T12:00:00.000Z",
+};
+
+describe("entry wire format", () => {
+  it("should encode the extended schema with airport ICAO codes", () => {
+    const wire = encodeWireEntry(entry);
+
+    expect(wire).toMatchObject({
+      format_version: WIRE_FORMAT_VERSION,
+      departure_airport_icao: "OMDB",
+      arrival_airport_icao: "EGLL",
+      departure_time_utc: "2025-09-01T04:05:00.000Z",
+      night_time_method: "calculated",
+      additional_data: {
+        flight_number: "EK201",
+        actual_out_utc: "2025-09-01T04:05:00.000Z",
+        fdp_hours: 9.5,
+        crew_members: [
+          { name: "A. Pilot", role: "PIC", license_no: "ATPL-1" },
+          { name: "B. Pilot", role: "SIC" },
+        ],
+        cargoNote: "Live animals",
+      },
+    });
+  });
+
+  it("should round-trip every logged field without changing the hash", () => {
+    const wire = JSON.parse(
+      JSON.stringify(
+        encodeWireEntry(entry, {
+          attachments: [
+            {
+              filename: "techlog.jpg",
+              size: 2048,
+              contentType: "image/jpeg",
+              checksum: "ab".repeat(32),
+              remoteId: "77",
+            },
+          ],
+        })
+      )
+    );
+
+    const decoded = decodeWireEntry(wire);
+
+    expect(decoded!.entry).toMatchObject({
+      departureAirportIcao: "OMDB",
+      arrivalAirportIcao: "EGLL",
+    });
+    expect(JSON.parse(decoded!.entry.additionalData!)).toEqual(additionalData);
+    expect(JSON.parse(decoded!.entry.attachments!)).toEqual([
+      expect.objectContaining({ filename: "techlog.jpg", remoteId: "77" }),
+    ]);
+    expect(computeEntryHash(decoded!.entry)).toBe(computeEntryHash(entry));
+  });
+
+  it("should leave extended fields out of version 1 payloads", () => {
+    const decoded = decodeWireEntry({
+      id: 5,
+      pilot_id: 3,
+      status: "submitted",
+      flight_date: "2025-09-01",
+      aircraft_reg: "A6-EWA",
+    });
+
+    expect(decoded?.entry).not.toHaveProperty("additionalData");
+    expect(decoded?.entry).not.toHaveProperty("departureTimeUtc");
+  });
+
+  it("should reject payloads from a newer format", () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect(
+      decodeWireEntry({
+        id: 5,
+        pilot_id: 3,
+        status: "submitted",
+        flight_date: "2025-09-01",
+        aircraft_reg: "A6-EWA",
+        format_version: WIRE_FORMAT_VERSION + 1,
+      })
+    ).toBeNull();
+
+    warn.mockRestore();
+  });
+});
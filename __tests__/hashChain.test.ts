@@ -0,0 +1,139 @@
+/**
+ * @jest-environment node
+ */
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+jest.mock("expo-sqlite");
+
+import database from "../services/database";
+import { rawDatabase } from "./helpers/database";
+import { entryFor } from "./helpers/entries";
+import IntegrityService from "../services/integrityService";
+import { computeChainHash, GENESIS_HASH } from "../utils/hashChain";
+
+describe("Hash chain", () => {
+  afterEach(async () => {
+    const db = await rawDatabase();
+    await db.runAsync("DELETE FROM flight_entries");
+  });
+
+  it("should link entries in commit order starting from genesis", async () => {
+    const firstId = await database.createEntry(entryFor({}), { fromServer: true });
+    const draftId = await database.createEntry(entryFor({ status: "draft" }));
+    const secondId = await database.createEntry(entryFor({ aircraftReg: "A6-EFB" }), { fromServer: true });
+
+    const first = await database.getEntry(firstId);
+    const second = await database.getEntry(secondId);
+    const draft = await database.getEntry(draftId);
+
+    expect(first?.chainSeq).toBe(1);
+    expect(first?.prevHash).toBe(GENESIS_HASH);
+    expect(first?.chainHash).toBe(computeChainHash(GENESIS_HASH, first!.entryHash!));
+    expect(second?.chainSeq).toBe(2);
+    expect(second?.prevHash).toBe(first?.chainHash);
+    expect(draft?.chainSeq).toBeUndefined();
+
+    await database.updateEntry(draftId, { status: "submitted" });
+    await expect(database.getEntry(draftId)).resolves.toMatchObject({
+      chainSeq: 3,
+      prevHash: second?.chainHash,
+    });
+
+    await expect(IntegrityService.auditChain()).resolves.toMatchObject({
+      valid: true,
+      length: 3,
+    });
+  });
+
+  it("should edit drafts in place", async () => {
+    const id = await database.createEntry(entryFor({ status: "draft" }));
+
+    await expect(database.updateEntry(id, { picTime: 45 })).resolves.toBe(id);
+    await expect(database.getEntry(id)).resolves.toMatchObject({
+      picTime: 45,
+      version: "1",
+    });
+  });
+
+  it("should version edits to submitted entries", async () => {
+    const id = await database.createEntry(entryFor({ serverId: 40 }), { fromServer: true });
+
+    const newId = await database.updateEntry(id, { remarks: "Corrected block time" });
+    expect(newId).not.toBe(id);
+
+    const original = await database.getEntry(id);
+    const revised = await database.getEntry(newId);
+
+    expect(original?.remarks).toBeUndefined();
+    expect(original?.supersededBy).toBe(newId);
+    expect(revised).toMatchObject({
+      version: "2",
+      supersedesId: id,
+      serverId: 40,
+      remarks: "Corrected block time",
+      chainSeq: 2,
+      prevHash: original?.chainHash,
+    });
+
+    const visible = await database.getAllEntries();
+    expect(visible.map((entry) => entry.id)).toEqual([newId]);
+
+    await expect(
+      database.updateEntry(id, { remarks: "Second try" })
+    ).rejects.toThrow("superseded");
+    await expect(database.deleteEntry(newId)).rejects.toThrow();
+  });
+
+  it("should not version a save that leaves the content unchanged", async () => {
+    const id = await database.createEntry(
+      entryFor({ nightTimeMethod: "calculated", nightTimeCalculatedAt: "2025-07-01T20:00:00Z" }),
+      { fromServer: true }
+    );
+    const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...saved } =
+      (await database.getEntry(id))!;
+
+    await expect(database.updateEntry(id, saved)).resolves.toBe(id);
+    await expect(database.getEntry(id)).resolves.toMatchObject({
+      version: "1",
+      chainSeq: 1,
+    });
+    expect(await database.getAllEntries()).toHaveLength(1);
+  });
+
+  it("should report the first broken link", async () => {
+    await database.createEntry(entryFor({}), { fromServer: true });
+    const tamperedId = await database.createEntry(entryFor({ aircraftReg: "A6-EFC" }), { fromServer: true });
+    await database.createEntry(entryFor({ aircraftReg: "A6-EFD" }), { fromServer: true });
+
+    const db = await rawDatabase();
+    await db.runAsync(
+      "UPDATE flight_entries SET pic_time = 120, entry_hash = NULL WHERE id = ?",
+      [tamperedId]
+    );
+
+    await expect(IntegrityService.auditChain()).resolves.toMatchObject({
+      valid: false,
+      firstBreak: {
+        entryId: tamperedId,
+        chainSeq: 2,
+        reason: "Entry contents changed after it was chained",
+      },
+    });
+  });
+
+  it("should detect removed entries", async () => {
+    await database.createEntry(entryFor({}), { fromServer: true });
+    const removedId = await database.createEntry(entryFor({ aircraftReg: "A6-EFE" }), { fromServer: true });
+    const lastId = await database.createEntry(entryFor({ aircraftReg: "A6-EFF" }), { fromServer: true });
+
+    const db = await rawDatabase();
+    await db.runAsync("DELETE FROM flight_entries WHERE id = ?", [removedId]);
+
+    await expect(IntegrityService.auditChain()).resolves.toMatchObject({
+      valid: false,
+      firstBreak: { entryId: lastId, chainSeq: 3 },
+    });
+  });
+});
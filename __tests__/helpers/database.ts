@@ -0,0 +1,12 @@
+import * as SQLite from "expo-sqlite";
+import database from "../../services/database";
+
+type WithConnection = { getDb(): Promise<SQLite.SQLiteDatabase> };
+
+/**
+ * The connection behind the database service, for tests that need to write
+ * around it, e.g. to simulate tampering or state left by an older build.
+ */
+export function rawDatabase(): Promise<SQLite.SQLiteDatabase> {
+  return (database as unknown as WithConnection).getDb();
+}
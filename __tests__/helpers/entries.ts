@@ -0,0 +1,21 @@
+import { FlightEntry } from "../../services/database";
+
+/** A one-hour submitted flight, ready for `createEntry`, with `overrides` applied. */
+export const entryFor = (
+  overrides: Partial<FlightEntry>
+): Omit<FlightEntry, "id" | "createdAt" | "updatedAt"> => ({
+  pilotId: 1,
+  status: "submitted",
+  flightDate: "2025-07-01",
+  aircraftReg: "A6-EFA",
+  picTime: 60,
+  sicTime: 0,
+  dualTime: 0,
+  nightTime: 0,
+  instrumentTime: 0,
+  totalTime: 60,
+  landingsDay: 1,
+  landingsNight: 0,
+  syncStatus: "pending",
+  ...overrides,
+});
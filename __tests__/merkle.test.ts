@@ -0,0 +1,113 @@
+/**
+ * @jest-environment node
+ */
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+jest.mock("expo-sqlite");
+
+import database from "../services/database";
+import { rawDatabase } from "./helpers/database";
+import { entryFor } from "./helpers/entries";
+import MerkleService from "../services/merkleService";
+import { sha256Hex } from "../utils/entryHash";
+import {
+  buildMerkleTree,
+  getMerkleProof,
+  hashLeaf,
+  verifyMerkleProof,
+} from "../utils/merkle";
+
+const leaves = (count: number) =>
+  Array.from({ length: count }, (_, i) => sha256Hex(`entry-${i}`));
+
+describe("Merkle tree", () => {
+  it("should use the hashed leaf as root of a single-entry tree", () => {
+    const [leaf] = leaves(1);
+    const tree = buildMerkleTree([leaf]);
+
+    expect(tree.root).toBe(hashLeaf(leaf));
+    expect(getMerkleProof(tree, 0)).toEqual([]);
+  });
+
+  it.each([2, 3, 5, 8, 13])(
+    "should verify every inclusion proof in a tree of %i leaves",
+    (count) => {
+      const hashes = leaves(count);
+      const tree = buildMerkleTree(hashes);
+
+      hashes.forEach((hash, index) => {
+        const proof = getMerkleProof(tree, index);
+        expect(verifyMerkleProof(hash, proof, tree.root)).toBe(true);
+      });
+    }
+  );
+
+  it("should reject a proof for a different leaf", () => {
+    const hashes = leaves(4);
+    const tree = buildMerkleTree(hashes);
+    const proof = getMerkleProof(tree, 1);
+
+    expect(verifyMerkleProof(hashes[2], proof, tree.root)).toBe(false);
+  });
+
+  it("should reject an empty tree", () => {
+    expect(() => buildMerkleTree([])).toThrow();
+  });
+});
+
+describe("MerkleService", () => {
+  it("should batch submitted entries and verify their inclusion", async () => {
+    const draftId = await database.createEntry(entryFor({ status: "draft" }));
+    const firstId = await database.createEntry(entryFor({ aircraftReg: "A6-EEB" }), { fromServer: true });
+    const secondId = await database.createEntry(entryFor({ aircraftReg: "A6-EEC" }), { fromServer: true });
+
+    const batches = await MerkleService.batchPendingEntries();
+    expect(batches).toHaveLength(1);
+    expect(batches[0].leafCount).toBe(2);
+
+    const draft = await database.getEntry(draftId);
+    expect(draft?.batchId).toBeUndefined();
+
+    const first = await database.getEntry(firstId);
+    expect(first?.batchId).toBe(batches[0].id.toString());
+
+    await expect(MerkleService.verifyInclusion(firstId)).resolves.toMatchObject({
+      valid: true,
+      leafIndex: 0,
+    });
+    await expect(MerkleService.verifyInclusion(secondId)).resolves.toMatchObject({
+      valid: true,
+      leafIndex: 1,
+    });
+  });
+
+  it("should batch an entry whose root matches an earlier batch", async () => {
+    const firstId = await database.createEntry(entryFor({ aircraftReg: "A6-EEF" }), { fromServer: true });
+    const [first] = await MerkleService.batchPendingEntries();
+
+    // Identical contents hash to the same single-leaf root.
+    const secondId = await database.createEntry(entryFor({ aircraftReg: "A6-EEF" }), { fromServer: true });
+    const [second] = await MerkleService.batchPendingEntries();
+
+    expect(second.root).toBe(first.root);
+    expect(second.id).not.toBe(first.id);
+    await expect(MerkleService.verifyInclusion(firstId)).resolves.toMatchObject({ valid: true });
+    await expect(MerkleService.verifyInclusion(secondId)).resolves.toMatchObject({ valid: true });
+  });
+
+  it("should report entries changed after batching as invalid", async () => {
+    const id = await database.createEntry(entryFor({ aircraftReg: "A6-EED" }), { fromServer: true });
+    await MerkleService.batchPendingEntries();
+
+    // Simulate a direct write that bypasses versioning.
+    const db = await rawDatabase();
+    await db.runAsync("UPDATE flight_entries SET pic_time = 75 WHERE id = ?", [id]);
+
+    await expect(MerkleService.verifyInclusion(id)).resolves.toMatchObject({
+      valid: false,
+      reason: "Entry changed after it was batched",
+    });
+  });
+});
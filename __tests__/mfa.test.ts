@@ -0,0 +1,47 @@
+import { AxiosError, AxiosHeaders } from "axios";
+import { isWellFormedMfaCode, normalizeMfaCode, toMfaError } from "../utils/mfa";
+
+const httpError = (status: number, data: object) =>
+  new AxiosError("Request failed", "ERR_BAD_REQUEST", undefined, undefined, {
+    status,
+    statusText: "",
+    data,
+    headers: {},
+    config: { headers: new AxiosHeaders() },
+  });
+
+describe("two-factor codes", () => {
+  it("should check authenticator and recovery code formats", () => {
+    expect(isWellFormedMfaCode("123 456", "totp")).toBe(true);
+    expect(isWellFormedMfaCode("12345", "totp")).toBe(false);
+    expect(isWellFormedMfaCode("12a456", "totp")).toBe(false);
+
+    expect(normalizeMfaCode(" 7kq2-m9xd ", "recovery_code")).toBe("7KQ2-M9XD");
+    expect(isWellFormedMfaCode("7kq2-m9xd", "recovery_code")).toBe(true);
+    expect(isWellFormedMfaCode("7KQ2M9XD", "recovery_code")).toBe(true);
+    expect(isWellFormedMfaCode("7KQ2", "recovery_code")).toBe(false);
+  });
+
+  it("should describe wrong codes, lockouts and expired challenges", () => {
+    expect(
+      toMfaError(httpError(401, { code: "invalid_code", attempts_remaining: 1 }))
+    ).toMatchObject({
+      reason: "invalid_code",
+      message: "Incorrect code. 1 attempt left.",
+      attemptsRemaining: 1,
+    });
+    expect(toMfaError(httpError(423, { retry_after: 840 }))).toMatchObject({
+      reason: "locked",
+      message: "Too many incorrect codes. Try again in 14 minutes.",
+      retryAfterSeconds: 840,
+    });
+    expect(toMfaError(httpError(401, { code: "challenge_expired" }))).toMatchObject({
+      reason: "expired",
+    });
+  });
+
+  it("should leave other failures alone", () => {
+    expect(toMfaError(httpError(401, { error: "Invalid email or password" }))).toBeNull();
+    expect(toMfaError(new Error("Network Error"))).toBeNull();
+  });
+});
@@ -39,14 +39,14 @@ describe("Database Migration System", () => {
       expect(result?.count).toBe(1);
     });
 
-    it("should run migration v2 and mark as complete", async () => {
+    it("should run all migrations and mark as complete", async () => {
       await MigrationManager.checkAndRunMigrations(db);
 
       const version = await db.getFirstAsync<{ version: number }>(
         "SELECT MAX(version) as version FROM schema_migrations"
       );
 
-      expect(version?.version).toBe(2);
+      expect(version?.version).toBe(17);
     });
 
     it("should create airports table", async () => {
@@ -134,6 +134,16 @@ describe("Database Migration System", () => {
       expect(columnNames).toContain("night_time_method");
       expect(columnNames).toContain("night_time_calculated_at");
       expect(columnNames).toContain("additional_data");
+      expect(columnNames).toContain("batch_id");
+      expect(columnNames).toContain("prev_hash");
+      expect(columnNames).toContain("chain_hash");
+      expect(columnNames).toContain("signature");
+      expect(columnNames).toContain("signer_public_key");
+      expect(columnNames).toContain("base_revision");
+      expect(columnNames).toContain("deleted_at");
+      expect(columnNames).toContain("client_uuid");
+      expect(columnNames).toContain("rejection_reason");
+      expect(columnNames).toContain("version");
     });
 
     it("should preserve existing data after migration", async () => {
@@ -166,6 +176,16 @@ describe("Database Migration System", () => {
       expect(entry?.additional_data).toBeNull();
     });
 
+    it("should give existing entries a client UUID", async () => {
+      await MigrationManager.checkAndRunMigrations(db);
+
+      const entry = await db.getFirstAsync<{ client_uuid: string | null }>(
+        "SELECT client_uuid FROM flight_entries WHERE id = 1"
+      );
+
+      expect(entry?.client_uuid).toMatch(/^[0-9a-f-]{36}$/);
+    });
+
     it("should create indexes on new columns", async () => {
       await MigrationManager.checkAndRunMigrations(db);
 
@@ -179,6 +199,26 @@ describe("Database Migration System", () => {
       expect(indexNames).toContain("idx_arrival_airport");
       expect(indexNames).toContain("idx_departure_time_utc");
     });
+
+    it("should create verification and sync tables", async () => {
+      await MigrationManager.checkAndRunMigrations(db);
+
+      const tables = await db.getAllAsync<{ name: string }>(
+        `SELECT name FROM sqlite_master WHERE type='table'`
+      );
+
+      const tableNames = tables.map((table) => table.name);
+      expect(tableNames).toContain("merkle_batches");
+      expect(tableNames).toContain("merkle_proofs");
+      expect(tableNames).toContain("anchor_receipts");
+      expect(tableNames).toContain("entry_conflicts");
+      expect(tableNames).toContain("sync_outbox");
+      expect(tableNames).toContain("sync_operations");
+      expect(tableNames).toContain("attachment_uploads");
+      expect(tableNames).toContain("sync_runs");
+      expect(tableNames).toContain("sync_run_entries");
+      expect(tableNames).toContain("notifications");
+    });
   });
 
   describe("Session Caching", () => {
@@ -268,12 +308,12 @@ describe("Database Migration System", () => {
       const version = await db.getFirstAsync<{ version: number }>(
         "SELECT MAX(version) as version FROM schema_migrations"
       );
-      expect(version?.version).toBe(2);
+      expect(version?.version).toBe(17);
 
       const count = await db.getFirstAsync<{ count: number }>(
         "SELECT COUNT(*) as count FROM schema_migrations"
       );
-      expect(count?.count).toBe(1);
+      expect(count?.count).toBe(16);
     });
   });
 
@@ -306,6 +346,22 @@ describe("Database Migration System", () => {
       spy.mockRestore();
     });
 
+    it("should not skip check when the schema version changed", async () => {
+      const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+      await AsyncStorage.setItem("@flightlog:last_migration_check", oneHourAgo);
+      await AsyncStorage.setItem("@flightlog:last_migration_version", "1");
+
+      const spy = jest.spyOn(console, "log").mockImplementation(() => {});
+      MigrationManager.resetSessionCache();
+
+      await MigrationManager.checkAndRunMigrations(db);
+
+      expect(spy).toHaveBeenCalledWith(
+        expect.stringContaining("Checking schema version")
+      );
+      spy.mockRestore();
+    });
+
     it("should check again after 24 hours", async () => {
       const yesterday = new Date(Date.now() - 25 * 60 * 60 * 1000).toISOString();
       await AsyncStorage.setItem("@flightlog:last_migration_check", yesterday);
@@ -0,0 +1,298 @@
+/**
+ * @jest-environment node
+ */
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+jest.mock("expo-sqlite");
+jest.mock("expo-crypto");
+jest.mock("react-native", () => ({
+  AppState: { currentState: "active", addEventListener: jest.fn() },
+}));
+jest.mock("@react-native-community/netinfo", () => ({
+  fetch: jest.fn(async () => ({ isConnected: true })),
+}));
+jest.mock("expo-task-manager", () => ({
+  defineTask: jest.fn(),
+  isTaskRegisteredAsync: jest.fn(async () => false),
+}));
+jest.mock("expo-background-fetch", () => ({
+  BackgroundFetchResult: { NoData: 1, NewData: 2, Failed: 3 },
+  registerTaskAsync: jest.fn(),
+  unregisterTaskAsync: jest.fn(),
+}));
+jest.mock("expo-secure-store", () => {
+  const store = new Map<string, string>();
+  return {
+    getItemAsync: jest.fn(async (key: string) => store.get(key) ?? null),
+    setItemAsync: jest.fn(async (key: string, value: string) => {
+      store.set(key, value);
+    }),
+    deleteItemAsync: jest.fn(async (key: string) => {
+      store.delete(key);
+    }),
+  };
+});
+jest.mock("expo-file-system", () => ({ File: class {} }));
+// The port is derived from the worker's pid so parallel runs do not collide.
+jest.mock("../config", () => ({
+  API_BASE_URL: `http://127.0.0.1:${40000 + (process.pid % 10000)}/api/v1`,
+  ANCHOR_RPC_URL: "http://127.0.0.1:8545",
+  ANCHOR_CHAIN_ID: 31337,
+  SYNC_BATCH_SIZE: 10,
+  STATUS_CHANNEL_URL: null,
+}));
+
+import axios from "axios";
+import ApiClient from "../services/apiClient";
+import database, { FlightEntry } from "../services/database";
+import { rawDatabase } from "./helpers/database";
+import SyncService from "../services/syncService";
+import SubmissionService from "../services/submissionService";
+import StatusRefreshService from "../services/statusRefreshService";
+import { isMfaChallenge, MfaChallengeResponse } from "../utils/apiContract";
+import { toMfaError } from "../utils/mfa";
+
+const { createMockServer } = require("../mock-server/server");
+
+const PORT = 40000 + (process.pid % 10000);
+const CONTROL_URL = `http://127.0.0.1:${PORT}/__mock`;
+
+const draft = (
+  overrides: Partial<FlightEntry> = {}
+): Omit<FlightEntry, "id" | "createdAt" | "updatedAt"> => ({
+  pilotId: 1,
+  status: "draft",
+  flightDate: "2025-09-28",
+  aircraftReg: "A6-MCK",
+  picTime: 95,
+  sicTime: 0,
+  dualTime: 0,
+  nightTime: 0,
+  instrumentTime: 0,
+  totalTime: 95,
+  landingsDay: 1,
+  landingsNight: 0,
+  syncStatus: "pending",
+  ...overrides,
+});
+
+const control = (path: string, body?: unknown) =>
+  axios.post(`${CONTROL_URL}${path}`, body).then((response) => response.data);
+
+describe("mock backend", () => {
+  let mock: any;
+
+  beforeAll(async () => {
+    mock = createMockServer();
+    await mock.listen(PORT);
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  beforeEach(async () => {
+    mock.reset();
+    const session = await ApiClient.login("pilot@flightlog.test", "password123");
+    if (isMfaChallenge(session)) {
+      throw new Error("The seeded pilot should sign in without a second factor");
+    }
+    await ApiClient.setTokens(session.access_token, session.refresh_token);
+
+    await database.init();
+    const db = await rawDatabase();
+    await db.runAsync("DELETE FROM flight_entries");
+    await db.runAsync("DELETE FROM sync_operations");
+    await db.runAsync("DELETE FROM sync_outbox");
+    await db.runAsync("DELETE FROM notifications");
+  });
+
+  it("should answer a password sign-in with a two-factor challenge", async () => {
+    const challenge = await ApiClient.login("totp@flightlog.test", "password123");
+    expect(challenge).toMatchObject({
+      mfa_required: true,
+      methods: ["totp", "recovery_code"],
+    });
+    const challengeToken = (challenge as MfaChallengeResponse).challenge_token;
+
+    const { code } = (await axios.get(`${CONTROL_URL}/totp/totp@flightlog.test`)).data;
+    await expect(
+      ApiClient.verifyMfa({ challenge_token: challengeToken, totp_code: code })
+    ).resolves.toMatchObject({ user: { email: "totp@flightlog.test" } });
+  });
+
+  it("should accept each recovery code once", async () => {
+    const verify = async () => {
+      const challenge = await ApiClient.login("totp@flightlog.test", "password123");
+      return ApiClient.verifyMfa({
+        challenge_token: (challenge as MfaChallengeResponse).challenge_token,
+        recovery_code: "7kq2m9xd",
+      });
+    };
+
+    await expect(verify()).resolves.toHaveProperty("access_token");
+    const error = await verify().catch((failure) => failure);
+    expect(toMfaError(error)).toMatchObject({
+      reason: "invalid_code",
+      attemptsRemaining: 4,
+    });
+  });
+
+  it("should lock two-factor sign-in after repeated wrong codes", async () => {
+    const challenge = await ApiClient.login("totp@flightlog.test", "password123");
+    const challengeToken = (challenge as MfaChallengeResponse).challenge_token;
+    const attempt = () =>
+      ApiClient.verifyMfa({ challenge_token: challengeToken, totp_code: "000000" }).catch(
+        (failure) => toMfaError(failure)
+      );
+
+    for (let remaining = 4; remaining > 0; remaining -= 1) {
+      await expect(attempt()).resolves.toMatchObject({
+        reason: "invalid_code",
+        attemptsRemaining: remaining,
+      });
+    }
+    await expect(attempt()).resolves.toMatchObject({
+      reason: "locked",
+      message: "Too many incorrect codes. Try again in 15 minutes.",
+    });
+    await expect(
+      ApiClient.login("totp@flightlog.test", "password123").catch((failure) =>
+        toMfaError(failure)
+      )
+    ).resolves.toMatchObject({ reason: "locked" });
+  });
+
+  it("should push local entries and pull the seeded ones", async () => {
+    const id = await database.createEntry(draft());
+
+    const result = await SyncService.syncNow({ silent: true });
+
+    expect(result).toMatchObject({ success: true, synced: 1, pulled: 4 });
+    await expect(database.getEntry(id)).resolves.toMatchObject({
+      syncStatus: "synced",
+      serverId: 2000,
+    });
+    await expect(database.getEntryByServerId(1003)).resolves.toMatchObject({
+      status: "rejected",
+      rejectionReason: "PIC time exceeds total block time",
+    });
+  });
+
+  it("should carry a rejection from the reviewer back to the pilot", async () => {
+    const id = await database.createEntry(draft());
+    const submitted = await SubmissionService.submit(id, 2);
+    await control(`/entries/${submitted.serverId}/review`, {
+      status: "rejected",
+      reason: "Missing landing count",
+    });
+
+    await StatusRefreshService.refresh();
+
+    await expect(database.getEntry(id)).resolves.toMatchObject({
+      status: "rejected",
+      rejectionReason: "Missing landing count",
+    });
+    await expect(database.getUnreadNotificationCount()).resolves.toBe(1);
+  });
+
+  it("should refresh an expired access token and retry", async () => {
+    await control("/expire-tokens");
+
+    await expect(ApiClient.getOrganizations()).resolves.toEqual({
+      organizations: [
+        { id: 1, name: "Gulf Training Academy" },
+        { id: 2, name: "Desert Air Operations" },
+      ],
+    });
+  });
+
+  it("should share one token refresh between parallel requests", async () => {
+    await control("/expire-tokens");
+    const network = axios.getAdapter(axios.defaults.adapter);
+    const urls: string[] = [];
+    ApiClient.setAdapter((config) => {
+      urls.push(config.url ?? "");
+      return network(config);
+    });
+
+    await Promise.all([
+      ApiClient.getOrganizations(),
+      ApiClient.getEntries(),
+      ApiClient.getOrganizations(),
+    ]);
+    ApiClient.setAdapter(null);
+    const refreshes = urls.filter((url) => url === "/auth/refresh");
+
+    expect(refreshes).toHaveLength(1);
+  });
+
+  it("should end the session once when the refresh token is refused", async () => {
+    const id = await database.createEntry(draft());
+    await control("/expire-tokens", { revoke: true });
+    const events: string[] = [];
+    const unsubscribe = ApiClient.onAuthEvent((event) => events.push(event));
+
+    const results = await Promise.allSettled([
+      ApiClient.getOrganizations(),
+      ApiClient.getEntries(),
+    ]);
+    unsubscribe();
+
+    expect(results.map((result) => result.status)).toEqual(["rejected", "rejected"]);
+    expect(events).toEqual(["session_expired"]);
+    await expect(ApiClient.getAccessToken()).resolves.toBeNull();
+    await expect(database.getEntry(id)).resolves.toMatchObject({
+      syncStatus: "pending",
+    });
+  });
+
+  it("should keep entries the server failed in a partial sync pending", async () => {
+    const first = await database.createEntry(draft({ aircraftReg: "A6-PS1" }));
+    const second = await database.createEntry(draft({ aircraftReg: "A6-PS2" }));
+    await control("/fault", { mode: "partial_sync", count: 1 });
+
+    const result = await SyncService.syncNow({ silent: true });
+
+    expect(result).toMatchObject({ success: false, synced: 1, failed: 1 });
+    await expect(database.getEntry(first)).resolves.toMatchObject({
+      syncStatus: "synced",
+    });
+    await expect(database.getEntry(second)).resolves.toMatchObject({
+      syncStatus: "pending",
+    });
+  });
+
+  it("should keep entries pending when the sync response is malformed", async () => {
+    const id = await database.createEntry(draft());
+    await control("/fault", { mode: "malformed", count: 1 });
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    const result = await SyncService.pushEntry(id);
+    warn.mockRestore();
+
+    expect(result).toMatchObject({ success: false, synced: 0 });
+    expect(result.error).toBe(
+      "Invalid response from POST /pilots/me/entries/sync: synced must be an array, got undefined"
+    );
+    await expect(database.getEntry(id)).resolves.toMatchObject({
+      syncStatus: "pending",
+    });
+  });
+
+  it("should report server errors without losing local changes", async () => {
+    const id = await database.createEntry(draft());
+    await control("/fault", { mode: "server_error" });
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    const result = await SyncService.syncNow({ silent: true });
+    warn.mockRestore();
+
+    expect(result).toMatchObject({ success: false, httpStatus: 500 });
+    await expect(database.getEntry(id)).resolves.toMatchObject({
+      syncStatus: "pending",
+    });
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * @jest-environment node
+ */
+
+jest.mock("@react-native-community/netinfo", () => {
+  const listeners: ((state: unknown) => void)[] = [];
+  return {
+    __listeners: listeners,
+    addEventListener: jest.fn((listener: (state: unknown) => void) => {
+      listeners.push(listener);
+      return () => listeners.splice(listeners.indexOf(listener), 1);
+    }),
+  };
+});
+jest.mock("react-native", () => ({
+  AppState: { currentState: "active", addEventListener: jest.fn(() => ({ remove: jest.fn() })) },
+}));
+jest.mock("../services/apiClient", () => {
+  const authListeners: ((event: string) => void)[] = [];
+  return {
+    __esModule: true,
+    default: {
+      __authListeners: authListeners,
+      getProfile: jest.fn(),
+      clearTokens: jest.fn(async () => {}),
+      onAuthEvent: jest.fn((listener: (event: string) => void) => {
+        authListeners.push(listener);
+        return () => authListeners.splice(authListeners.indexOf(listener), 1);
+      }),
+    },
+  };
+});
+
+import NetInfo from "@react-native-community/netinfo";
+import { AxiosError, AxiosHeaders } from "axios";
+import ApiClient from "../services/apiClient";
+import SessionService from "../services/sessionService";
+
+const listeners = (NetInfo as any).__listeners as ((state: unknown) => void)[];
+const authListeners = (ApiClient as any).__authListeners as ((event: string) => void)[];
+const mockedGetProfile = ApiClient.getProfile as jest.Mock;
+
+const pilot = { id: 4, email: "pilot@flightlog.test", name: "Sara Haddad" };
+
+function httpError(status: number) {
+  return new AxiosError("Request failed", "ERR_BAD_RESPONSE", undefined, undefined, {
+    status,
+    statusText: "",
+    headers: {},
+    config: { headers: new AxiosHeaders() },
+    data: {},
+  });
+}
+
+const networkError = () => new AxiosError("Network Error", "ERR_NETWORK");
+
+async function emit(state: object) {
+  listeners.forEach((listener) => listener(state));
+  await new Promise((resolve) => setImmediate(resolve));
+}
+
+describe("SessionService", () => {
+  const changes = jest.fn();
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    mockedGetProfile.mockReset();
+    changes.mockReset();
+    unsubscribe = SessionService.onStatusChange(changes);
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    SessionService.stop();
+  });
+
+  it("should restore offline and go online once the server confirms", async () => {
+    mockedGetProfile.mockRejectedValueOnce(networkError());
+    const log = jest.spyOn(console, "log").mockImplementation(() => {});
+
+    SessionService.start(false);
+    await expect(SessionService.revalidate()).resolves.toBe("offline");
+    log.mockRestore();
+
+    mockedGetProfile.mockResolvedValueOnce({ user: pilot });
+    await emit({ isConnected: true });
+
+    expect(SessionService.getStatus()).toBe("online");
+    expect(changes).toHaveBeenLastCalledWith("online", pilot);
+  });
+
+  it("should go offline when the connection drops", async () => {
+    SessionService.start(true);
+    await emit({ isConnected: false });
+
+    expect(SessionService.getStatus()).toBe("offline");
+    expect(mockedGetProfile).not.toHaveBeenCalled();
+  });
+
+  it("should keep the session and its tokens on a server error or a 401", async () => {
+    mockedGetProfile.mockRejectedValueOnce(httpError(503));
+    const log = jest.spyOn(console, "log").mockImplementation(() => {});
+    SessionService.start(false);
+    await expect(SessionService.revalidate()).resolves.toBe("offline");
+
+    // The refresh behind this 401 may have failed on the network.
+    mockedGetProfile.mockRejectedValueOnce(httpError(401));
+    await expect(SessionService.revalidate()).resolves.toBe("offline");
+    expect(ApiClient.clearTokens).not.toHaveBeenCalled();
+    log.mockRestore();
+
+    authListeners.forEach((listener) => listener("session_expired"));
+    expect(SessionService.getStatus()).toBe("expired");
+
+    // Only a new sign-in brings it back.
+    mockedGetProfile.mockResolvedValueOnce({ user: pilot });
+    await expect(SessionService.revalidate()).resolves.toBe("expired");
+    SessionService.start(true);
+    expect(SessionService.getStatus()).toBe("online");
+  });
+
+  it("should expire when ApiClient reports a refused refresh", () => {
+    SessionService.start(true);
+    authListeners.forEach((listener) => listener("session_expired"));
+
+    expect(SessionService.getStatus()).toBe("expired");
+    expect(changes).toHaveBeenLastCalledWith("expired", undefined);
+  });
+
+  it("should share one profile request between concurrent checks", async () => {
+    mockedGetProfile.mockResolvedValue({ user: pilot });
+    SessionService.start(false);
+
+    await Promise.all([SessionService.revalidate(), SessionService.revalidate()]);
+
+    expect(mockedGetProfile).toHaveBeenCalledTimes(1);
+  });
+});
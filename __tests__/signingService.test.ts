@@ -0,0 +1,90 @@
+/**
+ * @jest-environment node
+ */
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+jest.mock("expo-sqlite");
+jest.mock("expo-crypto");
+jest.mock("expo-secure-store", () => {
+  const store = new Map<string, string>();
+  return {
+    getItemAsync: jest.fn(async (key: string) => store.get(key) ?? null),
+    setItemAsync: jest.fn(async (key: string, value: string) => {
+      store.set(key, value);
+    }),
+    deleteItemAsync: jest.fn(async (key: string) => {
+      store.delete(key);
+    }),
+  };
+});
+
+import * as SecureStore from "expo-secure-store";
+import database from "../services/database";
+import { entryFor } from "./helpers/entries";
+import SigningService from "../services/signingService";
+import { computeEntryHash } from "../utils/entryHash";
+import { verifyEntrySignature } from "../utils/entrySignature";
+
+// Signing keys are per pilot, and new entries start as drafts.
+const pilotDraft = { pilotId: 7, status: "draft" } as const;
+
+describe("SigningService", () => {
+  it("should keep one device key per pilot in secure storage", async () => {
+    const first = await SigningService.getPublicKey(7);
+    const again = await SigningService.getPublicKey(7);
+    const other = await SigningService.getPublicKey(8);
+
+    expect(first).toMatch(/^0[23][0-9a-f]{64}$/);
+    expect(again).toBe(first);
+    expect(other).not.toBe(first);
+    await expect(SecureStore.getItemAsync("signing_key_7")).resolves.toMatch(
+      /^[0-9a-f]{64}$/
+    );
+  });
+
+  it("should sign the canonical entry hash", async () => {
+    const id = await database.createEntry(entryFor(pilotDraft));
+    const entry = (await database.getEntry(id))!;
+
+    const signed = await SigningService.signEntry(entry);
+
+    expect(signed.publicKey).toBe(await SigningService.getPublicKey(7));
+    expect(
+      verifyEntrySignature(computeEntryHash(entry), signed.signature, signed.publicKey)
+    ).toBe(true);
+
+    const stored = (await database.getEntry(id))!;
+    expect(stored.signature).toBe(signed.signature);
+    expect(SigningService.verifyEntry(stored)).toBe("valid");
+  });
+
+  it("should reject signatures over other contents or from other keys", async () => {
+    const id = await database.createEntry(entryFor({ ...pilotDraft, aircraftReg: "A6-EGB" }));
+    const signed = await SigningService.signEntry((await database.getEntry(id))!);
+    const entry = (await database.getEntry(id))!;
+
+    expect(SigningService.verifyEntry({ ...entry, picTime: 61 })).toBe("invalid");
+    expect(
+      SigningService.verifyEntry({
+        ...entry,
+        signerPublicKey: await SigningService.getPublicKey(8),
+      })
+    ).toBe("invalid");
+    expect(
+      verifyEntrySignature(computeEntryHash(entry), signed.signature, "not-a-key")
+    ).toBe(false);
+  });
+
+  it("should drop the signature when a draft is edited", async () => {
+    const id = await database.createEntry(entryFor({ ...pilotDraft, aircraftReg: "A6-EGC" }));
+    await SigningService.signEntry((await database.getEntry(id))!);
+
+    await database.updateEntry(id, { remarks: "Crosswind landing" });
+
+    const edited = (await database.getEntry(id))!;
+    expect(edited.signature).toBeUndefined();
+    expect(SigningService.verifyEntry(edited)).toBe("unsigned");
+  });
+});
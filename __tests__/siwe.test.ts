@@ -0,0 +1,61 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  buildSiweMessage,
+  deriveAddress,
+  recoverPersonalMessageSigner,
+  signPersonalMessage,
+  toChecksumAddress,
+} from "../utils/siwe";
+
+// First default anvil / hardhat account.
+const PRIVATE_KEY = "ac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+const ADDRESS = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266";
+
+describe("Sign-In with Ethereum", () => {
+  it("should derive the checksummed address of a key", () => {
+    expect(deriveAddress(PRIVATE_KEY)).toBe(ADDRESS);
+    expect(toChecksumAddress(ADDRESS.toLowerCase())).toBe(ADDRESS);
+  });
+
+  it("should build an EIP-4361 message", () => {
+    const message = buildSiweMessage({
+      domain: "api.flightlog.example.com",
+      address: ADDRESS.toLowerCase(),
+      statement: "Sign in to FlightLog with your pilot wallet.",
+      uri: "https://api.flightlog.example.com",
+      chainId: 137,
+      nonce: "k3Jd8sQ2pL",
+      issuedAt: "2025-09-01T10:00:00.000Z",
+      expirationTime: "2025-09-01T10:05:00.000Z",
+    });
+
+    expect(message).toBe(
+      [
+        "api.flightlog.example.com wants you to sign in with your Ethereum account:",
+        ADDRESS,
+        "",
+        "Sign in to FlightLog with your pilot wallet.",
+        "",
+        "URI: https://api.flightlog.example.com",
+        "Version: 1",
+        "Chain ID: 137",
+        "Nonce: k3Jd8sQ2pL",
+        "Issued At: 2025-09-01T10:00:00.000Z",
+        "Expiration Time: 2025-09-01T10:05:00.000Z",
+      ].join("\n")
+    );
+  });
+
+  it("should produce personal_sign signatures that recover to the signer", () => {
+    const message = "FlightLog test message";
+    const signature = signPersonalMessage(message, PRIVATE_KEY);
+
+    expect(signature).toMatch(/^0x[0-9a-f]{128}(1b|1c)$/);
+    expect(recoverPersonalMessageSigner(message, signature)).toBe(ADDRESS);
+    expect(recoverPersonalMessageSigner(`${message}!`, signature)).not.toBe(ADDRESS);
+    expect(recoverPersonalMessageSigner(message, "0x1234")).toBeNull();
+  });
+});
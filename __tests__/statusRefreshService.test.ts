@@ -0,0 +1,162 @@
+/**
+ * @jest-environment node
+ */
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+jest.mock("expo-sqlite");
+jest.mock("expo-crypto");
+jest.mock("expo-secure-store", () => ({}));
+jest.mock("expo-file-system", () => ({}));
+jest.mock("react-native", () => ({
+  AppState: { currentState: "active", addEventListener: jest.fn() },
+}));
+jest.mock("../config", () => ({
+  ANCHOR_RPC_URL: "http://127.0.0.1:8545",
+  ANCHOR_CHAIN_ID: 31337,
+  STATUS_CHANNEL_URL: null,
+}));
+jest.mock("../services/apiClient", () => ({
+  __esModule: true,
+  default: {
+    getEntries: jest.fn(),
+  },
+}));
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import ApiClient from "../services/apiClient";
+import database, { FlightEntry } from "../services/database";
+import { rawDatabase } from "./helpers/database";
+import NotificationService from "../services/notificationService";
+import StatusRefreshService from "../services/statusRefreshService";
+
+const mockedGetEntries = ApiClient.getEntries as jest.Mock;
+
+const submitted: Omit<FlightEntry, "id" | "createdAt" | "updatedAt"> = {
+  pilotId: 3,
+  serverId: 70,
+  status: "submitted",
+  flightDate: "2025-09-20",
+  aircraftReg: "A6-REV",
+  picTime: 60,
+  sicTime: 0,
+  dualTime: 0,
+  nightTime: 0,
+  instrumentTime: 0,
+  totalTime: 60,
+  landingsDay: 1,
+  landingsNight: 0,
+  syncStatus: "synced",
+};
+
+const serverCopy = (overrides: Record<string, unknown> = {}) => ({
+  id: 70,
+  pilot_id: 3,
+  status: "submitted",
+  flight_date: "2025-09-20",
+  aircraft_reg: "A6-REV",
+  pic_time: 60,
+  sic_time: 0,
+  dual_time: 0,
+  night_time: 0,
+  instrument_time: 0,
+  total_time: 60,
+  landings_day: 1,
+  landings_night: 0,
+  ...overrides,
+});
+
+describe("StatusRefreshService", () => {
+  afterEach(async () => {
+    mockedGetEntries.mockReset();
+    await AsyncStorage.clear();
+    const db = await rawDatabase();
+    await db.runAsync("DELETE FROM flight_entries");
+    await db.runAsync("DELETE FROM notifications");
+  });
+
+  it("should apply a review result and put it in the inbox", async () => {
+    await database.createEntry(submitted, { fromServer: true });
+    mockedGetEntries.mockResolvedValueOnce({
+      entries: [
+        serverCopy({
+          status: "rejected",
+          reviewed_at: "2025-09-21T09:00:00.000Z",
+          rejection_reason: "Missing instructor signature",
+        }),
+      ],
+      meta: { total_pages: 1, server_time: "2025-09-21T09:05:00.000Z" },
+    });
+
+    await expect(StatusRefreshService.refresh()).resolves.toBe(1);
+
+    await expect(database.getEntryByServerId(70)).resolves.toMatchObject({
+      status: "rejected",
+      rejectionReason: "Missing instructor signature",
+    });
+    await expect(NotificationService.getUnreadCount()).resolves.toBe(1);
+    const [notification] = await NotificationService.getNotifications();
+    expect(notification).toMatchObject({
+      aircraftReg: "A6-REV",
+      fromStatus: "submitted",
+      toStatus: "rejected",
+      reason: "Missing instructor signature",
+    });
+  });
+
+  it("should only ask for entries changed since the last check", async () => {
+    await database.createEntry(submitted, { fromServer: true });
+    mockedGetEntries.mockResolvedValue({
+      entries: [],
+      meta: { total_pages: 1, server_time: "2025-09-21T09:05:00.000Z" },
+    });
+
+    await StatusRefreshService.refresh();
+    await StatusRefreshService.refresh();
+
+    expect(mockedGetEntries.mock.calls[0][0].updated_since).toBeUndefined();
+    expect(mockedGetEntries.mock.calls[1][0]).toMatchObject({
+      updated_since: "2025-09-21T09:05:00.000Z",
+    });
+  });
+
+  it("should not poll when no entries are awaiting review", async () => {
+    await database.createEntry({ ...submitted, serverId: undefined, status: "draft" });
+
+    await expect(StatusRefreshService.refresh()).resolves.toBe(0);
+    expect(mockedGetEntries).not.toHaveBeenCalled();
+  });
+
+  it("should leave content changes to the next sync", async () => {
+    await database.createEntry(submitted, { fromServer: true });
+    mockedGetEntries.mockResolvedValueOnce({
+      entries: [serverCopy({ status: "approved", pic_time: 45, total_time: 45 })],
+      meta: { total_pages: 1 },
+    });
+
+    await StatusRefreshService.refresh();
+
+    await expect(database.getEntryByServerId(70)).resolves.toMatchObject({
+      status: "approved",
+      picTime: 60,
+    });
+  });
+
+  it("should mark notifications read", async () => {
+    await database.createEntry(submitted, { fromServer: true });
+    mockedGetEntries.mockResolvedValueOnce({
+      entries: [serverCopy({ status: "approved" })],
+      meta: { total_pages: 1 },
+    });
+    await StatusRefreshService.refresh();
+
+    const listener = jest.fn();
+    const unsubscribe = NotificationService.onUnreadCountChange(listener);
+    await NotificationService.markAllRead();
+    unsubscribe();
+
+    expect(listener).toHaveBeenLastCalledWith(0);
+    await expect(NotificationService.getUnreadCount()).resolves.toBe(0);
+  });
+});
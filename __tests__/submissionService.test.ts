@@ -0,0 +1,192 @@
+/**
+ * @jest-environment node
+ */
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+jest.mock("expo-sqlite");
+jest.mock("expo-crypto");
+jest.mock("expo-secure-store", () => ({}));
+jest.mock("expo-file-system", () => ({}));
+jest.mock("../services/apiClient", () => ({
+  __esModule: true,
+  default: {
+    getOrganizations: jest.fn(),
+    submitEntry: jest.fn(),
+  },
+}));
+jest.mock("../services/syncService", () => {
+  const { default: db } = jest.requireActual("../services/database");
+  let nextServerId = 500;
+  return {
+    __esModule: true,
+    default: {
+      pushEntry: jest.fn(async (entryId: number) => {
+        await db.markAsSynced(entryId, nextServerId++);
+        return { success: true, synced: 1 };
+      }),
+    },
+  };
+});
+
+import ApiClient from "../services/apiClient";
+import database, { FlightEntry } from "../services/database";
+import { rawDatabase } from "./helpers/database";
+import SubmissionService from "../services/submissionService";
+import SyncService from "../services/syncService";
+import {
+  canTransition,
+  isStatusReachable,
+  StatusTransitionError,
+} from "../utils/entryStatus";
+
+const mockedSubmitEntry = ApiClient.submitEntry as jest.Mock;
+const mockedGetOrganizations = ApiClient.getOrganizations as jest.Mock;
+
+const draft: Omit<FlightEntry, "id" | "createdAt" | "updatedAt"> = {
+  pilotId: 3,
+  status: "draft",
+  flightDate: "2025-09-24",
+  aircraftReg: "A6-SUB",
+  picTime: 90,
+  sicTime: 0,
+  dualTime: 0,
+  nightTime: 0,
+  instrumentTime: 0,
+  totalTime: 90,
+  landingsDay: 1,
+  landingsNight: 0,
+  syncStatus: "pending",
+};
+
+describe("entry status workflow", () => {
+  it("should allow only the review steps", () => {
+    expect(canTransition("draft", "submitted")).toBe(true);
+    expect(canTransition("submitted", "rejected")).toBe(true);
+    expect(canTransition("rejected", "submitted")).toBe(true);
+    expect(canTransition("draft", "approved")).toBe(false);
+    expect(canTransition("approved", "rejected")).toBe(false);
+  });
+
+  it("should accept server statuses several steps ahead but never backwards", () => {
+    expect(isStatusReachable("submitted", "anchored")).toBe(true);
+    expect(isStatusReachable("rejected", "approved")).toBe(true);
+    expect(isStatusReachable("anchored", "submitted")).toBe(false);
+    expect(isStatusReachable("approved", "draft")).toBe(false);
+  });
+});
+
+describe("SubmissionService", () => {
+  afterEach(async () => {
+    mockedSubmitEntry.mockReset();
+    (SyncService.pushEntry as jest.Mock).mockClear();
+    const db = await rawDatabase();
+    await db.runAsync("DELETE FROM flight_entries");
+    await db.runAsync("DELETE FROM sync_operations");
+  });
+
+  it("should push an unsent draft and submit it to the chosen organization", async () => {
+    const id = await database.createEntry(draft);
+    mockedSubmitEntry.mockResolvedValueOnce({ submitted_at: "2025-09-25T08:00:00.000Z" });
+
+    const submitted = await SubmissionService.submit(id, 12);
+
+    expect(SyncService.pushEntry).toHaveBeenCalledWith(id);
+    expect(mockedSubmitEntry).toHaveBeenCalledWith(submitted.serverId, 12);
+    expect(submitted).toMatchObject({
+      status: "submitted",
+      organizationId: 12,
+      submittedAt: "2025-09-25T08:00:00.000Z",
+    });
+    // Leaving draft seals the entry into the hash chain.
+    expect(submitted.chainSeq).toBeDefined();
+  });
+
+  it("should refuse to submit an entry that is already under review", async () => {
+    const id = await database.createEntry(draft);
+    mockedSubmitEntry.mockResolvedValue({});
+    await SubmissionService.submit(id, 12);
+
+    await expect(SubmissionService.submit(id, 12)).rejects.toBeInstanceOf(
+      StatusTransitionError
+    );
+    expect(mockedSubmitEntry).toHaveBeenCalledTimes(1);
+  });
+
+  it("should resubmit a rejected entry after it was edited", async () => {
+    const id = await database.createEntry(draft);
+    mockedSubmitEntry.mockResolvedValue({});
+    await SubmissionService.submit(id, 12);
+    await database.updateEntry(id, {
+      status: "rejected",
+      rejectionReason: "PIC time exceeds block time",
+    });
+
+    const editedId = await database.updateEntry(id, { picTime: 80, totalTime: 80 });
+    const edited = await database.getEntry(editedId);
+    expect(edited).toMatchObject({
+      status: "rejected",
+      rejectionReason: "PIC time exceeds block time",
+      syncStatus: "pending",
+    });
+
+    const resubmitted = await SubmissionService.submit(editedId, 12);
+
+    expect(SyncService.pushEntry).toHaveBeenLastCalledWith(editedId);
+    expect(resubmitted).toMatchObject({ status: "submitted", picTime: 80 });
+    expect(resubmitted.rejectionReason).toBeUndefined();
+  });
+
+  it("should keep the entry unchanged when the server refuses the submission", async () => {
+    const id = await database.createEntry(draft);
+    mockedSubmitEntry.mockRejectedValueOnce(new Error("Not a member of this organization"));
+
+    await expect(SubmissionService.submit(id, 99)).rejects.toThrow(
+      "Not a member of this organization"
+    );
+    await expect(database.getEntry(id)).resolves.toMatchObject({ status: "draft" });
+  });
+
+  it("should refuse to move an entry backwards through the workflow", async () => {
+    const id = await database.createEntry(draft);
+
+    await expect(database.updateEntry(id, { status: "submitted" })).resolves.toBe(id);
+    await database.updateEntry(id, { status: "approved" });
+    await expect(database.updateEntry(id, { status: "rejected" })).rejects.toBeInstanceOf(
+      StatusTransitionError
+    );
+  });
+
+  it("should leave skipping review steps and non-draft creates to the server", async () => {
+    const id = await database.createEntry(draft);
+
+    await expect(database.updateEntry(id, { status: "approved" })).rejects.toBeInstanceOf(
+      StatusTransitionError
+    );
+    await expect(database.createEntry({ ...draft, status: "approved" })).rejects.toThrow(
+      "New entries start as drafts, not approved"
+    );
+
+    await database.updateEntry(id, { status: "approved" }, { fromServer: true });
+    await expect(database.getEntry(id)).resolves.toMatchObject({ status: "approved" });
+    await expect(
+      database.createEntry({ ...draft, status: "approved" }, { fromServer: true })
+    ).resolves.toBeGreaterThan(0);
+  });
+
+  it("should fall back to the cached organizations offline", async () => {
+    mockedGetOrganizations.mockResolvedValueOnce({
+      organizations: [{ id: 12, name: "Gulf Training Academy" }],
+    });
+    await SubmissionService.getOrganizations();
+
+    mockedGetOrganizations.mockRejectedValueOnce(new Error("Network Error"));
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    await expect(SubmissionService.getOrganizations()).resolves.toEqual([
+      { id: 12, name: "Gulf Training Academy" },
+    ]);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * @jest-environment node
+ */
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+jest.mock("@react-native-community/netinfo", () => {
+  const listeners: ((state: unknown) => void)[] = [];
+  return {
+    __listeners: listeners,
+    NetInfoStateType: { wifi: "wifi", cellular: "cellular", ethernet: "ethernet" },
+    fetch: jest.fn(),
+    addEventListener: jest.fn((listener: (state: unknown) => void) => {
+      listeners.push(listener);
+      return () => listeners.splice(listeners.indexOf(listener), 1);
+    }),
+  };
+});
+jest.mock("../services/syncService", () => ({
+  __esModule: true,
+  default: {
+    syncNow: jest.fn(async () => ({ success: true })),
+    registerBackgroundSync: jest.fn(),
+    unregisterBackgroundSync: jest.fn(),
+  },
+}));
+
+import NetInfo from "@react-native-community/netinfo";
+import SyncService from "../services/syncService";
+import SyncScheduler from "../services/syncScheduler";
+import { DEFAULT_SYNC_POLICY, syncBlockedReason } from "../utils/syncPolicy";
+
+const listeners = (NetInfo as any).__listeners as ((state: unknown) => void)[];
+const mockedFetch = NetInfo.fetch as jest.Mock;
+const mockedSyncNow = SyncService.syncNow as jest.Mock;
+
+const offline = { type: "none", isConnected: false, isInternetReachable: false, details: null };
+const wifi = { type: "wifi", isConnected: true, isInternetReachable: true, details: {} };
+const cellular = (carrier: string) => ({
+  type: "cellular",
+  isConnected: true,
+  isInternetReachable: true,
+  details: { carrier, isConnectionExpensive: true },
+});
+
+async function emit(state: object) {
+  mockedFetch.mockResolvedValue(state);
+  listeners.forEach((listener) => listener(state));
+  await new Promise((resolve) => setImmediate(resolve));
+}
+
+describe("sync policy", () => {
+  it("should only allow Wi-Fi when the policy asks for it", () => {
+    const policy = { ...DEFAULT_SYNC_POLICY, wifiOnly: true };
+
+    expect(syncBlockedReason(wifi as any, policy, null)).toBeNull();
+    expect(syncBlockedReason(cellular("Etisalat") as any, policy, null)).toBe(
+      "Waiting for Wi-Fi"
+    );
+  });
+
+  it("should pause on a foreign carrier when avoiding roaming", () => {
+    expect(
+      syncBlockedReason(cellular("Vodafone UK") as any, DEFAULT_SYNC_POLICY, "Etisalat")
+    ).toBe("Paused while roaming");
+    expect(
+      syncBlockedReason(cellular("Etisalat") as any, DEFAULT_SYNC_POLICY, "Etisalat")
+    ).toBeNull();
+
+    const roamingAllowed = { ...DEFAULT_SYNC_POLICY, avoidRoaming: false };
+    expect(
+      syncBlockedReason(cellular("Vodafone UK") as any, roamingAllowed, "Etisalat")
+    ).toBeNull();
+  });
+});
+
+describe("SyncScheduler", () => {
+  beforeEach(async () => {
+    await SyncScheduler.stop();
+    await SyncScheduler.setPolicy({ ...DEFAULT_SYNC_POLICY });
+    await SyncScheduler.start();
+    jest.clearAllMocks();
+  });
+
+  afterAll(async () => {
+    await SyncScheduler.stop();
+  });
+
+  it("should sync when connectivity returns", async () => {
+    await emit(offline);
+    expect(mockedSyncNow).not.toHaveBeenCalled();
+
+    await emit(wifi);
+    expect(mockedSyncNow).toHaveBeenCalledWith({ silent: true, trigger: "auto" });
+
+    // Staying online is not a reconnect.
+    await emit(wifi);
+    expect(mockedSyncNow).toHaveBeenCalledTimes(1);
+  });
+
+  it("should wait for Wi-Fi under a Wi-Fi only policy", async () => {
+    await SyncScheduler.setPolicy({ wifiOnly: true });
+
+    await emit(offline);
+    await emit(cellular("Etisalat"));
+    expect(mockedSyncNow).not.toHaveBeenCalled();
+
+    await emit(wifi);
+    expect(mockedSyncNow).toHaveBeenCalledTimes(1);
+  });
+
+  it("should debounce syncs requested after saves", async () => {
+    jest.useFakeTimers();
+    mockedFetch.mockResolvedValue(wifi);
+
+    SyncScheduler.requestSync();
+    jest.advanceTimersByTime(3000);
+    SyncScheduler.requestSync();
+    jest.advanceTimersByTime(3000);
+    expect(mockedSyncNow).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(2000);
+    jest.useRealTimers();
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(mockedSyncNow).toHaveBeenCalledTimes(1);
+  });
+
+  it("should re-register the background task when the interval changes", async () => {
+    await SyncScheduler.setPolicy({ backgroundIntervalMinutes: 60 });
+
+    expect(SyncService.registerBackgroundSync).toHaveBeenCalledWith(60);
+  });
+});
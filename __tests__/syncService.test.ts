@@ -0,0 +1,1157 @@
+/**
+ * @jest-environment node
+ */
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+jest.mock("expo-sqlite");
+jest.mock("@react-native-community/netinfo", () => ({
+  fetch: jest.fn(async () => ({ isConnected: true })),
+}));
+jest.mock("expo-task-manager", () => ({
+  defineTask: jest.fn(),
+  isTaskRegisteredAsync: jest.fn(async () => false),
+}));
+jest.mock("expo-background-fetch", () => ({
+  BackgroundFetchResult: { NoData: 1, NewData: 2, Failed: 3 },
+  registerTaskAsync: jest.fn(),
+  unregisterTaskAsync: jest.fn(),
+}));
+jest.mock("expo-crypto");
+jest.mock("react-native", () => ({
+  AppState: { currentState: "active", addEventListener: jest.fn() },
+}));
+jest.mock("expo-secure-store", () => {
+  const store = new Map<string, string>();
+  return {
+    getItemAsync: jest.fn(async (key: string) => store.get(key) ?? null),
+    setItemAsync: jest.fn(async (key: string, value: string) => {
+      store.set(key, value);
+    }),
+    deleteItemAsync: jest.fn(async (key: string) => {
+      store.delete(key);
+    }),
+  };
+});
+jest.mock("expo-file-system", () => {
+  const files = new Map<string, Uint8Array>();
+  return {
+    __files: files,
+    Paths: { document: { uri: "file:///documents/" } },
+    Directory: class {
+      uri: string;
+      constructor(parent: { uri: string }, name: string) {
+        this.uri = `${parent.uri}${name}/`;
+      }
+    },
+    File: class {
+      uri: string;
+      constructor(fileUri: string) {
+        this.uri = fileUri;
+      }
+      get exists() {
+        return files.has(this.uri);
+      }
+      async bytes() {
+        return files.get(this.uri)!;
+      }
+      delete() {
+        files.delete(this.uri);
+      }
+    },
+  };
+});
+jest.mock("../config", () => ({
+  ANCHOR_RPC_URL: "http://127.0.0.1:8545",
+  ANCHOR_CHAIN_ID: 31337,
+  SYNC_BATCH_SIZE: 2,
+  STATUS_CHANNEL_URL: null,
+}));
+jest.mock("../services/apiClient", () => ({
+  __esModule: true,
+  default: {
+    getEntries: jest.fn(),
+    syncEntries: jest.fn(),
+    deleteEntry: jest.fn(),
+    uploadAttachment: jest.fn(),
+  },
+}));
+
+import ApiClient from "../services/apiClient";
+import database from "../services/database";
+import { rawDatabase } from "./helpers/database";
+import SyncService from "../services/syncService";
+import ConflictService from "../services/conflictService";
+import { computeEntryHash } from "../utils/entryHash";
+
+const mockedGetEntries = ApiClient.getEntries as jest.Mock;
+
+const serverEntry = (id: number, overrides: Record<string, unknown> = {}) => ({
+  id,
+  pilot_id: 3,
+  status: "submitted",
+  flight_date: "2025-09-01",
+  aircraft_reg: `A6-S${id}`,
+  route_from: "OMDB",
+  route_to: "OERK",
+  pic_time: 120,
+  sic_time: 0,
+  dual_time: 0,
+  night_time: 0,
+  instrument_time: 0,
+  total_time: 120,
+  landings_day: 1,
+  landings_night: 0,
+  ...overrides,
+});
+
+// Serve `entries` in pages of `per_page`, like the backend does.
+function mockServer(entries: any[]) {
+  mockedGetEntries.mockImplementation(async ({ page, per_page }) => ({
+    entries: entries.slice((page - 1) * per_page, page * per_page),
+    meta: { total_pages: Math.max(Math.ceil(entries.length / per_page), 1) },
+  }));
+}
+
+describe("SyncService pull", () => {
+  afterEach(async () => {
+    mockedGetEntries.mockReset();
+    const db = await rawDatabase();
+    await db.runAsync("DELETE FROM flight_entries");
+  });
+
+  it("should download every page into an empty logbook", async () => {
+    mockServer(Array.from({ length: 130 }, (_, i) => serverEntry(i + 1)));
+
+    const result = await SyncService.syncNow({ silent: true });
+
+    expect(result).toMatchObject({ success: true, pulled: 130 });
+    expect(mockedGetEntries).toHaveBeenCalledTimes(2);
+
+    const local = await database.getEntryByServerId(42);
+    expect(local).toMatchObject({
+      aircraftReg: "A6-S42",
+      routeFrom: "OMDB",
+      syncStatus: "synced",
+    });
+  });
+
+  it("should update status changes on entries matched by server id", async () => {
+    mockServer([serverEntry(7)]);
+    await SyncService.syncNow({ silent: true });
+    const local = await database.getEntryByServerId(7);
+
+    mockServer([serverEntry(7, { status: "approved" })]);
+    const result = await SyncService.syncNow({ silent: true });
+
+    expect(result.pulled).toBe(1);
+    await expect(database.getEntry(local!.id!)).resolves.toMatchObject({
+      status: "approved",
+    });
+    await expect(database.getAllEntries()).resolves.toHaveLength(1);
+  });
+
+  it("should leave matched entries alone when nothing changed", async () => {
+    mockServer([serverEntry(8)]);
+    await SyncService.syncNow({ silent: true });
+
+    const result = await SyncService.syncNow({ silent: true });
+
+    expect(result.pulled).toBe(0);
+  });
+
+  it("should keep unsynced local edits over server content", async () => {
+    mockServer([serverEntry(9)]);
+    await SyncService.syncNow({ silent: true });
+    const local = await database.getEntryByServerId(9);
+    const editedId = await database.updateEntry(local!.id!, {
+      remarks: "Edited offline",
+    });
+
+    (ApiClient.syncEntries as jest.Mock).mockRejectedValueOnce(
+      new Error("Request failed with status code 500")
+    );
+    mockServer([serverEntry(9, { remarks: "Server copy" })]);
+    await SyncService.syncNow({ silent: true });
+
+    await expect(database.getEntry(editedId)).resolves.toMatchObject({
+      remarks: "Edited offline",
+    });
+  });
+});
+
+describe("SyncService conflicts", () => {
+  const mockedSyncEntries = ApiClient.syncEntries as jest.Mock;
+
+  afterEach(async () => {
+    mockedGetEntries.mockReset();
+    mockedSyncEntries.mockReset();
+    const db = await rawDatabase();
+    await db.runAsync("DELETE FROM flight_entries");
+    await db.runAsync("DELETE FROM entry_conflicts");
+  });
+
+  // Pull entry 20 at revision 1, then edit it locally while offline.
+  async function editedOffline(): Promise<number> {
+    mockServer([serverEntry(20, { revision: 1 })]);
+    await SyncService.syncNow({ silent: true });
+    const local = await database.getEntryByServerId(20);
+    return database.updateEntry(local!.id!, { remarks: "Mine", picTime: 110 });
+  }
+
+  it("should record a conflict when both sides changed", async () => {
+    const localId = await editedOffline();
+    expect((await database.getEntry(localId))?.baseRevision).toBe("1");
+
+    mockedSyncEntries.mockRejectedValueOnce(new Error("Request failed"));
+    mockServer([serverEntry(20, { revision: 2, remarks: "Theirs" })]);
+    const result = await SyncService.syncNow({ silent: true });
+
+    expect(result.conflicts).toBe(1);
+    await expect(database.getEntry(localId)).resolves.toMatchObject({
+      remarks: "Mine",
+      syncStatus: "conflict",
+    });
+    await expect(database.getPendingSyncEntries()).resolves.toHaveLength(0);
+
+    const [detail] = await ConflictService.getOpenConflicts();
+    expect(detail.differingFields).toEqual(["picTime", "remarks"]);
+    expect(detail.server.remarks).toBe("Theirs");
+  });
+
+  it("should not flag pending edits when the server did not move", async () => {
+    await editedOffline();
+
+    mockedSyncEntries.mockResolvedValueOnce({ synced: [], failed: [{ local_id: -1 }] });
+    mockServer([serverEntry(20, { revision: 1 })]);
+    const result = await SyncService.syncNow({ silent: true });
+
+    expect(result.conflicts).toBe(0);
+    await expect(ConflictService.getOpenConflicts()).resolves.toHaveLength(0);
+  });
+
+  it("should record conflicts reported by the server on push", async () => {
+    const localId = await editedOffline();
+
+    mockedSyncEntries.mockResolvedValueOnce({
+      synced: [],
+      conflicts: [
+        { local_id: localId, server: serverEntry(20, { revision: 3, remarks: "Theirs" }) },
+      ],
+    });
+    mockServer([serverEntry(20, { revision: 3, remarks: "Theirs" })]);
+    const result = await SyncService.syncNow({ silent: true });
+
+    expect(result.conflicts).toBeGreaterThanOrEqual(1);
+    await expect(database.getEntry(localId)).resolves.toMatchObject({
+      syncStatus: "conflict",
+    });
+    await expect(ConflictService.getOpenConflicts()).resolves.toHaveLength(1);
+  });
+
+  it("should merge the fields the pilot picked", async () => {
+    await editedOffline();
+    mockedSyncEntries.mockRejectedValueOnce(new Error("Request failed"));
+    mockServer([serverEntry(20, { revision: 2, remarks: "Theirs" })]);
+    await SyncService.syncNow({ silent: true });
+
+    const [detail] = await ConflictService.getOpenConflicts();
+    await ConflictService.resolve(detail.conflict.id, { remarks: "server" });
+
+    await expect(database.getEntryByServerId(20)).resolves.toMatchObject({
+      remarks: "Theirs",
+      picTime: 110,
+      baseRevision: "2",
+      syncStatus: "pending",
+    });
+    await expect(ConflictService.getOpenConflicts()).resolves.toHaveLength(0);
+  });
+
+  it("should show and take conflicts on the extended fields", async () => {
+    await editedOffline();
+    mockedSyncEntries.mockRejectedValueOnce(new Error("Request failed"));
+    const server = serverEntry(20, {
+      revision: 2,
+      format_version: 3,
+      departure_time_utc: "2025-09-01T04:05:00.000Z",
+      additional_data: { flight_number: "EK201" },
+    });
+    mockServer([server]);
+    await SyncService.syncNow({ silent: true });
+
+    const [detail] = await ConflictService.getOpenConflicts();
+    expect(detail.differingFields).toEqual(
+      expect.arrayContaining(["departureTimeUtc", "additionalData"])
+    );
+
+    await ConflictService.resolve(detail.conflict.id, "server");
+    const resolved = await database.getEntryByServerId(20);
+    expect(resolved).toMatchObject({
+      departureTimeUtc: "2025-09-01T04:05:00.000Z",
+      syncStatus: "synced",
+    });
+    expect(computeEntryHash(resolved!)).toBe(computeEntryHash(detail.server));
+  });
+
+  it("should take the server copy when asked", async () => {
+    await editedOffline();
+    mockedSyncEntries.mockRejectedValueOnce(new Error("Request failed"));
+    mockServer([serverEntry(20, { revision: 2, remarks: "Theirs" })]);
+    await SyncService.syncNow({ silent: true });
+
+    const [detail] = await ConflictService.getOpenConflicts();
+    await ConflictService.resolve(detail.conflict.id, "server");
+
+    await expect(database.getEntryByServerId(20)).resolves.toMatchObject({
+      remarks: "Theirs",
+      picTime: 120,
+      syncStatus: "synced",
+    });
+  });
+});
+
+describe("SyncService outbox", () => {
+  const mockedSyncEntries = ApiClient.syncEntries as jest.Mock;
+
+  const draftFor = (aircraftReg: string) => ({
+    pilotId: 3,
+    status: "submitted" as const,
+    flightDate: "2025-09-10",
+    aircraftReg,
+    picTime: 60,
+    sicTime: 0,
+    dualTime: 0,
+    nightTime: 0,
+    instrumentTime: 0,
+    totalTime: 60,
+    landingsDay: 1,
+    landingsNight: 0,
+    syncStatus: "pending" as const,
+  });
+
+  beforeEach(() => {
+    mockServer([]);
+  });
+
+  afterEach(async () => {
+    mockedGetEntries.mockReset();
+    mockedSyncEntries.mockReset();
+    const db = await rawDatabase();
+    await db.runAsync("DELETE FROM flight_entries");
+    await db.runAsync("DELETE FROM sync_outbox");
+  });
+
+  it("should keep entries pending after a network error", async () => {
+    const id = await database.createEntry(draftFor("A6-OBA"), { fromServer: true });
+    const networkError = Object.assign(new Error("Network Error"), {
+      isAxiosError: true,
+    });
+    mockedSyncEntries.mockRejectedValueOnce(networkError);
+
+    const result = await SyncService.syncNow({ silent: true, force: true });
+
+    expect(result).toMatchObject({ success: false, synced: 0, failed: 1 });
+    await expect(database.getEntry(id)).resolves.toMatchObject({
+      syncStatus: "pending",
+      serverId: undefined,
+    });
+
+    const [item] = await SyncService.getRetryQueue();
+    expect(item).toMatchObject({ entryId: id, attempts: 1, lastError: "Network Error" });
+    expect(new Date(item.nextAttemptAt!).getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it("should hold entries back in background syncs until their retry is due", async () => {
+    await database.createEntry(draftFor("A6-OBB"), { fromServer: true });
+    mockedSyncEntries.mockRejectedValueOnce(new Error("Request failed"));
+    await SyncService.syncNow({ silent: true, force: true });
+
+    await SyncService.syncNow({ silent: true });
+    expect(mockedSyncEntries).toHaveBeenCalledTimes(1);
+
+    mockedSyncEntries.mockRejectedValueOnce(new Error("Still failing"));
+    await SyncService.syncNow({ silent: false });
+    expect(mockedSyncEntries).toHaveBeenCalledTimes(2);
+
+    const [item] = await SyncService.getRetryQueue();
+    expect(item).toMatchObject({ attempts: 2, lastError: "Still failing" });
+  });
+
+  it("should only mark entries the server confirmed", async () => {
+    const confirmedId = await database.createEntry(draftFor("A6-OBC"), { fromServer: true });
+    const ignoredId = await database.createEntry(draftFor("A6-OBD"), { fromServer: true });
+    mockedSyncEntries.mockResolvedValueOnce({
+      synced: [{ local_id: confirmedId, server_id: 501 }],
+      failed: [],
+    });
+
+    const result = await SyncService.syncNow({ silent: true });
+
+    expect(result).toMatchObject({ synced: 1, failed: 1 });
+    await expect(database.getEntry(confirmedId)).resolves.toMatchObject({
+      syncStatus: "synced",
+      serverId: 501,
+    });
+    await expect(database.getEntry(ignoredId)).resolves.toMatchObject({
+      syncStatus: "pending",
+    });
+    await expect(SyncService.getRetryQueue()).resolves.toEqual([
+      expect.objectContaining({
+        entryId: ignoredId,
+        lastError: "Not acknowledged by server",
+      }),
+    ]);
+  });
+
+  it("should clear the outbox once a retry succeeds", async () => {
+    const id = await database.createEntry(draftFor("A6-OBE"), { fromServer: true });
+    mockedSyncEntries.mockRejectedValueOnce(new Error("Request failed"));
+    await SyncService.syncNow({ silent: true, force: true });
+
+    mockedSyncEntries.mockResolvedValueOnce({
+      synced: [{ local_id: id, server_id: 502 }],
+    });
+    await SyncService.syncNow();
+
+    await expect(SyncService.getRetryQueue()).resolves.toHaveLength(0);
+  });
+});
+
+describe("SyncService operation log", () => {
+  const mockedSyncEntries = ApiClient.syncEntries as jest.Mock;
+  const mockedDeleteEntry = ApiClient.deleteEntry as jest.Mock;
+
+  const entryFor = (aircraftReg: string, status: "draft" | "submitted" = "draft") => ({
+    pilotId: 3,
+    status,
+    flightDate: "2025-09-12",
+    aircraftReg,
+    picTime: 45,
+    sicTime: 0,
+    dualTime: 0,
+    nightTime: 0,
+    instrumentTime: 0,
+    totalTime: 45,
+    landingsDay: 1,
+    landingsNight: 0,
+    syncStatus: "pending" as const,
+  });
+
+  // Create an entry and have the server confirm it as `serverId`.
+  async function syncedEntry(
+    aircraftReg: string,
+    serverId: number,
+    status: "draft" | "submitted" = "draft"
+  ): Promise<number> {
+    const id = await database.createEntry(entryFor(aircraftReg, status), { fromServer: true });
+    mockedSyncEntries.mockResolvedValueOnce({
+      synced: [{ local_id: id, server_id: serverId }],
+    });
+    await SyncService.syncNow();
+    return id;
+  }
+
+  beforeEach(() => {
+    mockServer([]);
+  });
+
+  afterEach(async () => {
+    mockedGetEntries.mockReset();
+    mockedSyncEntries.mockReset();
+    mockedDeleteEntry.mockReset();
+    const db = await rawDatabase();
+    await db.runAsync("DELETE FROM flight_entries");
+    await db.runAsync("DELETE FROM sync_outbox");
+    await db.runAsync("DELETE FROM sync_operations");
+  });
+
+  it("should drop entries the server never saw without calling it", async () => {
+    const id = await database.createEntry(entryFor("A6-OPA"));
+    await database.deleteEntry(id);
+
+    await SyncService.syncNow();
+
+    await expect(database.getEntry(id)).resolves.toBeNull();
+    expect(mockedSyncEntries).not.toHaveBeenCalled();
+    expect(mockedDeleteEntry).not.toHaveBeenCalled();
+    await expect(database.getPendingOperations()).resolves.toHaveLength(0);
+  });
+
+  it("should tombstone synced entries until the server confirms the delete", async () => {
+    const id = await syncedEntry("A6-OPB", 601);
+    await database.deleteEntry(id);
+
+    await expect(database.getAllEntries()).resolves.toHaveLength(0);
+    await expect(database.getEntry(id)).resolves.toMatchObject({
+      serverId: 601,
+      syncStatus: "pending",
+    });
+
+    const result = await SyncService.syncNow();
+
+    expect(mockedDeleteEntry).toHaveBeenCalledWith(601);
+    expect(result).toMatchObject({ success: true, deleted: 1 });
+    await expect(database.getEntry(id)).resolves.toBeNull();
+  });
+
+  it("should keep the tombstone through a failed delete and a pull", async () => {
+    const id = await syncedEntry("A6-OPC", 602);
+    await database.deleteEntry(id);
+
+    mockedDeleteEntry.mockRejectedValueOnce(new Error("Request failed"));
+    mockServer([serverEntry(602, { status: "draft", aircraft_reg: "A6-OPC" })]);
+    const result = await SyncService.syncNow();
+
+    expect(result).toMatchObject({ success: false, failed: 1 });
+    await expect(database.getAllEntries()).resolves.toHaveLength(0);
+    expect((await database.getEntry(id))?.deletedAt).toBeDefined();
+
+    mockedDeleteEntry.mockResolvedValueOnce(undefined);
+    await SyncService.syncNow();
+    await expect(database.getEntry(id)).resolves.toBeNull();
+  });
+
+  it("should treat a delete the server already applied as done", async () => {
+    const id = await syncedEntry("A6-OPD", 603);
+    await database.deleteEntry(id);
+
+    mockedDeleteEntry.mockRejectedValueOnce(
+      Object.assign(new Error("Not Found"), {
+        isAxiosError: true,
+        response: { status: 404 },
+      })
+    );
+    const result = await SyncService.syncNow();
+
+    expect(result.deleted).toBe(1);
+    await expect(database.getEntry(id)).resolves.toBeNull();
+  });
+
+  it("should push edits to synced entries under their server id", async () => {
+    const id = await syncedEntry("A6-OPE", 604, "submitted");
+    const editedId = await database.updateEntry(id, {
+      remarks: "Corrected",
+      syncStatus: "pending",
+    });
+
+    mockedSyncEntries.mockResolvedValueOnce({
+      synced: [{ local_id: editedId, server_id: 604 }],
+    });
+    await SyncService.syncNow();
+
+    const [payload] = mockedSyncEntries.mock.calls[1][0];
+    expect(payload).toMatchObject({ server_id: 604, remarks: "Corrected" });
+    await expect(database.getPendingOperations()).resolves.toHaveLength(0);
+  });
+
+  it("should replay operations in the order they were made", async () => {
+    const deletedId = await syncedEntry("A6-OPF", 605);
+    await database.deleteEntry(deletedId);
+    const createdId = await database.createEntry(entryFor("A6-OPG"));
+
+    mockedDeleteEntry.mockResolvedValueOnce(undefined);
+    mockedSyncEntries.mockResolvedValueOnce({
+      synced: [{ local_id: createdId, server_id: 606 }],
+    });
+    await SyncService.syncNow();
+
+    expect(mockedDeleteEntry.mock.invocationCallOrder[0]).toBeLessThan(
+      mockedSyncEntries.mock.invocationCallOrder[1]
+    );
+    await expect(database.getEntry(createdId)).resolves.toMatchObject({
+      serverId: 606,
+      syncStatus: "synced",
+    });
+  });
+});
+
+describe("SyncService wire format", () => {
+  const mockedSyncEntries = ApiClient.syncEntries as jest.Mock;
+
+  const airport = (icaoCode: string, timezone: string) => ({
+    icaoCode,
+    name: icaoCode,
+    latitude: 0,
+    longitude: 0,
+    timezone,
+    active: true,
+  });
+
+  beforeAll(async () => {
+    await database.bulkInsertAirports([
+      airport("OMDB", "Asia/Dubai"),
+      airport("EGLL", "Europe/London"),
+    ]);
+  });
+
+  afterEach(async () => {
+    mockedGetEntries.mockReset();
+    mockedSyncEntries.mockReset();
+    const db = await rawDatabase();
+    await db.runAsync("DELETE FROM flight_entries");
+    await db.runAsync("DELETE FROM sync_outbox");
+    await db.runAsync("DELETE FROM sync_operations");
+  });
+
+  it("should push airports by ICAO code along with the additional data", async () => {
+    const omdb = await database.getAirportByCode("OMDB");
+    const id = await database.createEntry({
+      pilotId: 3,
+      status: "draft",
+      flightDate: "2025-09-14",
+      aircraftReg: "A6-WFA",
+      departureAirportId: omdb!.id,
+      departureTimeUtc: "2025-09-14T04:00:00.000Z",
+      picTime: 60,
+      sicTime: 0,
+      dualTime: 0,
+      nightTime: 0,
+      instrumentTime: 0,
+      totalTime: 60,
+      landingsDay: 1,
+      landingsNight: 0,
+      additionalData: JSON.stringify({ flightNumber: "EK1" }),
+      syncStatus: "pending",
+    });
+    mockedSyncEntries.mockResolvedValueOnce({ synced: [{ local_id: id, server_id: 701 }] });
+    mockServer([]);
+
+    await SyncService.syncNow();
+
+    const [payload] = mockedSyncEntries.mock.calls[0][0];
+    expect(payload).toMatchObject({
+      departure_airport_icao: "OMDB",
+      departure_time_utc: "2025-09-14T04:00:00.000Z",
+      additional_data: { flight_number: "EK1" },
+    });
+  });
+
+  it("should resolve pulled airport codes to local airports", async () => {
+    mockServer([
+      serverEntry(702, {
+        format_version: 2,
+        arrival_airport_icao: "EGLL",
+        additional_data: { flight_number: "EK3" },
+      }),
+    ]);
+
+    await SyncService.syncNow({ silent: true });
+
+    const local = await database.getEntryByServerId(702);
+    const egll = await database.getAirportByCode("EGLL");
+    expect(local?.arrivalAirportId).toBe(egll!.id);
+    expect(JSON.parse(local!.additionalData!)).toEqual({ flightNumber: "EK3" });
+  });
+});
+
+describe("SyncService attachments", () => {
+  const mockedSyncEntries = ApiClient.syncEntries as jest.Mock;
+  const mockedUpload = ApiClient.uploadAttachment as jest.Mock;
+  const files: Map<string, Uint8Array> = require("expo-file-system").__files;
+
+  const photo = (uri: string, filename: string) => ({ uri, filename, size: 4 });
+
+  async function entryWithPhotos(photos: ReturnType<typeof photo>[]): Promise<number> {
+    return database.createEntry({
+      pilotId: 3,
+      status: "draft",
+      flightDate: "2025-09-15",
+      aircraftReg: "A6-ATA",
+      picTime: 60,
+      sicTime: 0,
+      dualTime: 0,
+      nightTime: 0,
+      instrumentTime: 0,
+      totalTime: 60,
+      landingsDay: 1,
+      landingsNight: 0,
+      attachments: JSON.stringify(photos),
+      syncStatus: "pending",
+    });
+  }
+
+  beforeEach(() => {
+    mockServer([]);
+    files.set("file:///techlog-1.jpg", new Uint8Array([0xff, 0xd8, 0xff, 0xe0]));
+    files.set("file:///techlog-2.jpg", new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+  });
+
+  afterEach(async () => {
+    mockedGetEntries.mockReset();
+    mockedSyncEntries.mockReset();
+    mockedUpload.mockReset();
+    files.clear();
+    const db = await rawDatabase();
+    await db.runAsync("DELETE FROM flight_entries");
+    await db.runAsync("DELETE FROM sync_outbox");
+    await db.runAsync("DELETE FROM sync_operations");
+    await db.runAsync("DELETE FROM attachment_uploads");
+  });
+
+  it("should delete the copies of a deleted entry once the server confirms", async () => {
+    const copy = "file:///documents/attachments/1f0c-techlog-1.jpg";
+    const sharedCopy = "file:///documents/attachments/7a2e-techlog-2.jpg";
+    for (const uri of [copy, sharedCopy]) {
+      files.set(uri, new Uint8Array([0xff, 0xd8, 0xff, 0xe0]));
+    }
+    const id = await entryWithPhotos([
+      photo(copy, "techlog-1.jpg"),
+      photo(sharedCopy, "techlog-2.jpg"),
+      photo("file:///techlog-1.jpg", "picked.jpg"),
+    ]);
+    await entryWithPhotos([photo(sharedCopy, "techlog-2.jpg")]);
+    const db = await rawDatabase();
+    await db.runAsync("UPDATE flight_entries SET server_id = id + 700, sync_status = 'synced'");
+
+    await database.deleteEntry(id);
+    expect(files.has(copy)).toBe(true);
+
+    (ApiClient.deleteEntry as jest.Mock).mockResolvedValueOnce(undefined);
+    await SyncService.syncNow();
+
+    await expect(database.getEntry(id)).resolves.toBeNull();
+    expect(files.has(copy)).toBe(false);
+    // Still listed by the other entry, and never ours to delete.
+    expect(files.has(sharedCopy)).toBe(true);
+    expect(files.has("file:///techlog-1.jpg")).toBe(true);
+  });
+
+  it("should upload attachments with their real content type before pushing", async () => {
+    const id = await entryWithPhotos([
+      photo("file:///techlog-1.jpg", "techlog-1.jpg"),
+      photo("file:///techlog-2.jpg", "techlog-2.jpg"),
+    ]);
+    mockedUpload.mockResolvedValueOnce({ id: 91 }).mockResolvedValueOnce({ id: 92 });
+    mockedSyncEntries.mockResolvedValueOnce({ synced: [{ local_id: id, server_id: 801 }] });
+
+    await SyncService.syncNow();
+
+    expect(mockedUpload.mock.calls.map((call) => call[2])).toEqual([
+      "image/jpeg",
+      "image/png",
+    ]);
+    const [payload] = mockedSyncEntries.mock.calls[0][0];
+    expect(payload.attachments).toEqual([
+      expect.objectContaining({ remote_id: "91", content_type: "image/jpeg" }),
+      expect.objectContaining({ remote_id: "92", content_type: "image/png" }),
+    ]);
+    expect(payload.attachments[0].checksum).toMatch(/^[0-9a-f]{64}$/);
+    await expect(database.getEntry(id)).resolves.toMatchObject({ syncStatus: "synced" });
+  });
+
+  it("should keep the entry pending and resume after a failed upload", async () => {
+    const id = await entryWithPhotos([
+      photo("file:///techlog-1.jpg", "techlog-1.jpg"),
+      photo("file:///techlog-2.jpg", "techlog-2.jpg"),
+    ]);
+    mockedUpload
+      .mockResolvedValueOnce({ id: 93 })
+      .mockRejectedValueOnce(new Error("Upload failed"));
+
+    const result = await SyncService.syncNow();
+
+    expect(result).toMatchObject({ success: false, failed: 1 });
+    expect(mockedSyncEntries).not.toHaveBeenCalled();
+    await expect(database.getEntry(id)).resolves.toMatchObject({ syncStatus: "pending" });
+
+    mockedUpload.mockResolvedValueOnce({ id: 94 });
+    mockedSyncEntries.mockResolvedValueOnce({ synced: [{ local_id: id, server_id: 802 }] });
+    await SyncService.syncNow();
+
+    expect(mockedUpload).toHaveBeenCalledTimes(3);
+    expect(mockedUpload.mock.calls[2][1]).toBe("techlog-2.jpg");
+    await expect(database.getEntry(id)).resolves.toMatchObject({ syncStatus: "synced" });
+  });
+
+  it("should hold back entries whose attachment is missing until the pilot fixes them", async () => {
+    const id = await entryWithPhotos([photo("file:///gone.jpg", "gone.jpg")]);
+
+    const result = await SyncService.syncNow();
+    expect(result).toMatchObject({ success: false, missingAttachments: 1 });
+    await expect(database.getEntry(id)).resolves.toMatchObject({ syncStatus: "error" });
+
+    const [item] = await SyncService.getRetryQueue();
+    expect(item).toMatchObject({
+      entryId: id,
+      attempts: 1,
+      permanent: true,
+      lastError: "Attachment gone.jpg is no longer on this device",
+    });
+
+    // Retrying cannot bring the file back.
+    await SyncService.syncNow();
+    await expect(SyncService.getRetryQueue()).resolves.toEqual([
+      expect.objectContaining({ attempts: 1 }),
+    ]);
+
+    await database.updateEntry(id, { attachments: undefined, syncStatus: "pending" });
+    mockedSyncEntries.mockResolvedValueOnce({ synced: [{ local_id: id, server_id: 803 }] });
+    await SyncService.syncNow();
+    await expect(database.getEntry(id)).resolves.toMatchObject({ syncStatus: "synced" });
+  });
+});
+
+describe("SyncService batches", () => {
+  const mockedSyncEntries = ApiClient.syncEntries as jest.Mock;
+
+  // Confirm every entry in a batch request.
+  const confirmAll = async (entries: any[]) => ({
+    synced: entries.map((entry) => ({
+      local_id: entry.local_id,
+      server_id: 900 + entry.local_id,
+    })),
+  });
+
+  async function createPending(count: number): Promise<number[]> {
+    const ids = [];
+    for (let i = 0; i < count; i += 1) {
+      ids.push(
+        await database.createEntry({
+          pilotId: 3,
+          status: "draft",
+          flightDate: "2025-09-20",
+          aircraftReg: `A6-BT${i}`,
+          picTime: 30,
+          sicTime: 0,
+          dualTime: 0,
+          nightTime: 0,
+          instrumentTime: 0,
+          totalTime: 30,
+          landingsDay: 1,
+          landingsNight: 0,
+          syncStatus: "pending",
+        })
+      );
+    }
+    return ids;
+  }
+
+  beforeEach(() => {
+    mockServer([]);
+  });
+
+  afterEach(async () => {
+    mockedGetEntries.mockReset();
+    mockedSyncEntries.mockReset();
+    const db = await rawDatabase();
+    await db.runAsync("DELETE FROM flight_entries");
+    await db.runAsync("DELETE FROM sync_outbox");
+    await db.runAsync("DELETE FROM sync_operations");
+  });
+
+  it("should push in batches and report progress after each one", async () => {
+    await createPending(5);
+    mockedSyncEntries.mockImplementation(confirmAll);
+    const progress: number[] = [];
+    const unsubscribe = SyncService.onSyncStatusChange((status) => {
+      if (status.message?.startsWith("Sent")) {
+        progress.push(status.progress);
+      }
+    });
+
+    const result = await SyncService.syncNow();
+    unsubscribe();
+
+    expect(mockedSyncEntries.mock.calls.map((call) => call[0].length)).toEqual([2, 2, 1]);
+    expect(result).toMatchObject({ synced: 5, batches: 3, failedBatches: 0 });
+    expect(progress).toEqual([36, 72, 90]);
+  });
+
+  it("should carry on past a failed batch and retry only its entries", async () => {
+    const ids = await createPending(5);
+    mockedSyncEntries
+      .mockImplementationOnce(confirmAll)
+      .mockRejectedValueOnce(new Error("timeout of 30000ms exceeded"))
+      .mockImplementationOnce(confirmAll);
+
+    const result = await SyncService.syncNow();
+
+    expect(result).toMatchObject({
+      success: false,
+      synced: 3,
+      failed: 2,
+      batches: 3,
+      failedBatches: 1,
+    });
+    await expect(database.getEntry(ids[4])).resolves.toMatchObject({
+      syncStatus: "synced",
+    });
+
+    mockedSyncEntries.mockImplementation(confirmAll);
+    await SyncService.syncNow();
+
+    expect(mockedSyncEntries.mock.calls[3][0].map((entry: any) => entry.local_id)).toEqual([
+      ids[2],
+      ids[3],
+    ]);
+    await expect(database.getPendingSyncEntries()).resolves.toHaveLength(0);
+  });
+});
+
+describe("SyncService idempotency", () => {
+  const mockedSyncEntries = ApiClient.syncEntries as jest.Mock;
+
+  const newEntry = () =>
+    database.createEntry({
+      pilotId: 3,
+      status: "submitted",
+      flightDate: "2025-09-22",
+      aircraftReg: "A6-IDA",
+      picTime: 50,
+      sicTime: 0,
+      dualTime: 0,
+      nightTime: 0,
+      instrumentTime: 0,
+      totalTime: 50,
+      landingsDay: 1,
+      landingsNight: 0,
+      syncStatus: "pending",
+    }, { fromServer: true });
+
+  beforeEach(() => {
+    mockServer([]);
+  });
+
+  afterEach(async () => {
+    mockedGetEntries.mockReset();
+    mockedSyncEntries.mockReset();
+    const db = await rawDatabase();
+    await db.runAsync("DELETE FROM flight_entries");
+    await db.runAsync("DELETE FROM sync_outbox");
+    await db.runAsync("DELETE FROM sync_operations");
+  });
+
+  it("should keep one client UUID across versions of an entry", async () => {
+    const id = await newEntry();
+    const { clientUuid } = (await database.getEntry(id))!;
+
+    const editedId = await database.updateEntry(id, { remarks: "Amended" });
+
+    expect(clientUuid).toMatch(/^[0-9a-f-]{36}$/);
+    expect(editedId).not.toBe(id);
+    await expect(database.getEntry(editedId)).resolves.toMatchObject({ clientUuid });
+  });
+
+  it("should resend a timed-out batch under the same idempotency key", async () => {
+    const id = await newEntry();
+    const { clientUuid } = (await database.getEntry(id))!;
+    mockedSyncEntries.mockRejectedValueOnce(new Error("timeout of 30000ms exceeded"));
+    await SyncService.syncNow();
+
+    mockedSyncEntries.mockResolvedValueOnce({
+      synced: [{ client_uuid: clientUuid, server_id: 1001 }],
+    });
+    await SyncService.syncNow();
+
+    const [first, retry] = mockedSyncEntries.mock.calls;
+    expect(first[0][0].client_uuid).toBe(clientUuid);
+    expect(retry[1]).toBe(first[1]);
+    expect(retry[1]).toMatch(/^[0-9a-f]{64}$/);
+    await expect(database.getEntry(id)).resolves.toMatchObject({ serverId: 1001 });
+  });
+
+  it("should match server results by client UUID rather than row id", async () => {
+    const id = await newEntry();
+    mockedSyncEntries.mockResolvedValueOnce({
+      synced: [{ client_uuid: "someone-else", local_id: id, server_id: 1002 }],
+    });
+
+    await SyncService.syncNow();
+
+    await expect(database.getEntry(id)).resolves.toMatchObject({
+      syncStatus: "pending",
+      serverId: undefined,
+    });
+  });
+
+  it("should link a pulled entry to an unconfirmed local push", async () => {
+    const id = await newEntry();
+    const local = (await database.getEntry(id))!;
+    mockedSyncEntries.mockRejectedValueOnce(new Error("timeout of 30000ms exceeded"));
+    mockServer([
+      serverEntry(1003, {
+        client_uuid: local.clientUuid,
+        flight_date: local.flightDate,
+        aircraft_reg: local.aircraftReg,
+        route_from: null,
+        route_to: null,
+        pic_time: 50,
+        total_time: 50,
+      }),
+    ]);
+
+    await SyncService.syncNow();
+
+    await expect(database.getAllEntries()).resolves.toHaveLength(1);
+    await expect(database.getEntry(id)).resolves.toMatchObject({ serverId: 1003 });
+  });
+});
+
+describe("SyncService history", () => {
+  const mockedSyncEntries = ApiClient.syncEntries as jest.Mock;
+
+  const newEntry = (aircraftReg: string) =>
+    database.createEntry({
+      pilotId: 3,
+      status: "submitted",
+      flightDate: "2025-09-23",
+      aircraftReg,
+      picTime: 40,
+      sicTime: 0,
+      dualTime: 0,
+      nightTime: 0,
+      instrumentTime: 0,
+      totalTime: 40,
+      landingsDay: 1,
+      landingsNight: 0,
+      syncStatus: "pending",
+    }, { fromServer: true });
+
+  beforeEach(async () => {
+    mockServer([]);
+    // Earlier suites leave their runs behind.
+    const db = await rawDatabase();
+    await db.runAsync("DELETE FROM sync_runs");
+    await db.runAsync("DELETE FROM sync_run_entries");
+  });
+
+  afterEach(async () => {
+    mockedGetEntries.mockReset();
+    mockedSyncEntries.mockReset();
+    const db = await rawDatabase();
+    await db.runAsync("DELETE FROM flight_entries");
+    await db.runAsync("DELETE FROM sync_outbox");
+    await db.runAsync("DELETE FROM sync_operations");
+  });
+
+  it("should record each run with its trigger and per-entry outcomes", async () => {
+    const sentId = await newEntry("A6-HIA");
+    const rejectedId = await newEntry("A6-HIB");
+    const [sent, rejected] = await Promise.all([
+      database.getEntry(sentId),
+      database.getEntry(rejectedId),
+    ]);
+    mockedSyncEntries.mockResolvedValueOnce({
+      synced: [{ client_uuid: sent!.clientUuid, server_id: 2001 }],
+      failed: [{ client_uuid: rejected!.clientUuid, error: "Aircraft not on fleet list" }],
+    });
+
+    await SyncService.syncNow({ trigger: "auto" });
+
+    const [run] = await SyncService.getSyncHistory();
+    expect(run).toMatchObject({
+      trigger: "auto",
+      success: false,
+      pushed: 1,
+      failed: 1,
+    });
+
+    const entries = await SyncService.getSyncRunEntries(run.id);
+    expect(entries).toEqual([
+      expect.objectContaining({ aircraftReg: "A6-HIA", action: "push", outcome: "synced" }),
+      expect.objectContaining({
+        aircraftReg: "A6-HIB",
+        action: "push",
+        outcome: "failed",
+        error: "Aircraft not on fleet list",
+      }),
+    ]);
+  });
+
+  it("should keep HTTP status codes and follow an entry across runs", async () => {
+    const id = await newEntry("A6-HIC");
+    const { clientUuid } = (await database.getEntry(id))!;
+    mockedSyncEntries.mockRejectedValueOnce({
+      isAxiosError: true,
+      message: "Request failed with status code 503",
+      response: { status: 503, data: { error: "Maintenance" } },
+    });
+    await SyncService.syncNow();
+
+    mockedSyncEntries.mockResolvedValueOnce({
+      synced: [{ client_uuid: clientUuid, server_id: 2002 }],
+    });
+    await SyncService.syncNow();
+
+    const history = await SyncService.getEntrySyncHistory(clientUuid!);
+    expect(history).toEqual([
+      expect.objectContaining({ outcome: "synced" }),
+      expect.objectContaining({ outcome: "failed", httpStatus: 503, error: "Maintenance" }),
+    ]);
+    await expect(SyncService.getSyncHistory()).resolves.toEqual([
+      expect.objectContaining({ trigger: "manual", success: true }),
+      expect.objectContaining({ trigger: "manual", success: false }),
+    ]);
+  });
+
+  it("should record the status of a request that failed the whole run", async () => {
+    mockedGetEntries.mockRejectedValueOnce({
+      isAxiosError: true,
+      message: "Request failed with status code 401",
+      response: { status: 401, data: { error: "Token expired" } },
+    });
+
+    await SyncService.syncNow({ silent: true, trigger: "background" });
+
+    const [run] = await SyncService.getSyncHistory();
+    expect(run).toMatchObject({
+      trigger: "background",
+      success: false,
+      httpStatus: 401,
+      error: "Token expired",
+    });
+  });
+});
+
+describe("SyncService review workflow", () => {
+  afterEach(async () => {
+    mockedGetEntries.mockReset();
+    const db = await rawDatabase();
+    await db.runAsync("DELETE FROM flight_entries");
+  });
+
+  it("should pull a rejection with the reviewer's reason", async () => {
+    mockServer([serverEntry(60, { status: "submitted", organization_id: 12 })]);
+    await SyncService.syncNow({ silent: true });
+
+    mockServer([
+      serverEntry(60, {
+        status: "rejected",
+        organization_id: 12,
+        reviewed_at: "2025-09-26T10:00:00.000Z",
+        rejection_reason: "Night landing without night time",
+      }),
+    ]);
+    const result = await SyncService.syncNow({ silent: true });
+
+    expect(result.pulled).toBe(1);
+    await expect(database.getEntryByServerId(60)).resolves.toMatchObject({
+      status: "rejected",
+      organizationId: 12,
+      rejectionReason: "Night landing without night time",
+    });
+    await expect(database.getNotifications(1)).resolves.toEqual([
+      expect.objectContaining({
+        fromStatus: "submitted",
+        toStatus: "rejected",
+        reason: "Night landing without night time",
+      }),
+    ]);
+  });
+
+  it("should ignore a server status that would move an entry backwards", async () => {
+    mockServer([serverEntry(61, { status: "anchored" })]);
+    await SyncService.syncNow({ silent: true });
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    mockServer([serverEntry(61, { status: "submitted" })]);
+    const result = await SyncService.syncNow({ silent: true });
+
+    expect(result.success).toBe(true);
+    await expect(database.getEntryByServerId(61)).resolves.toMatchObject({
+      status: "anchored",
+    });
+    warn.mockRestore();
+  });
+});
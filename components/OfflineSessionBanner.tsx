@@ -0,0 +1,69 @@
+import React, { useState } from "react";
+import { ActivityIndicator, StyleSheet, TouchableOpacity } from "react-native";
+import { Icon, Text } from "@rneui/themed";
+import { useAuth } from "../contexts/AuthContext";
+import { useTheme } from "../contexts/ThemeContext";
+
+/**
+ * Shown while the session has not been confirmed by the server. Logging
+ * carries on as normal; tapping checks the session again.
+ */
+export default function OfflineSessionBanner() {
+  const { sessionStatus, revalidateSession } = useAuth();
+  const { theme } = useTheme();
+  const [checking, setChecking] = useState(false);
+
+  const styles = StyleSheet.create({
+    banner: {
+      flexDirection: "row",
+      alignItems: "center",
+      paddingHorizontal: 15,
+      paddingVertical: 10,
+      backgroundColor: theme.colors.inputBackground,
+      borderLeftWidth: 3,
+      borderLeftColor: theme.colors.warning,
+    },
+    text: {
+      flex: 1,
+      marginLeft: 10,
+      color: theme.colors.text,
+      fontSize: 13,
+    },
+  });
+
+  if (sessionStatus !== "offline") {
+    return null;
+  }
+
+  const handlePress = async () => {
+    setChecking(true);
+    try {
+      await revalidateSession();
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <TouchableOpacity
+      style={styles.banner}
+      onPress={handlePress}
+      disabled={checking}
+      accessibilityRole="button"
+    >
+      <Icon
+        type="ionicon"
+        name="cloud-offline-outline"
+        size={20}
+        color={theme.colors.warning}
+      />
+      <Text style={styles.text}>
+        Offline mode. Flights are saved on this device and sync once you are
+        back online.
+      </Text>
+      {checking ? (
+        <ActivityIndicator size="small" color={theme.colors.textSecondary} />
+      ) : null}
+    </TouchableOpacity>
+  );
+}
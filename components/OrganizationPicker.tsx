@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { Button, Icon, Text } from "@rneui/themed";
+import { useTheme } from "../contexts/ThemeContext";
+import SubmissionService, { Organization } from "../services/submissionService";
+
+interface OrganizationPickerProps {
+  visible: boolean;
+  onSelect: (organization: Organization) => void;
+  onCancel: () => void;
+}
+
+export default function OrganizationPicker({
+  visible,
+  onSelect,
+  onCancel,
+}: OrganizationPickerProps) {
+  const { theme } = useTheme();
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    SubmissionService.getOrganizations()
+      .then((items) => {
+        if (!cancelled) {
+          setOrganizations(items);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [visible]);
+
+  const styles = StyleSheet.create({
+    backdrop: {
+      flex: 1,
+      justifyContent: "flex-end",
+      backgroundColor: "rgba(0, 0, 0, 0.4)",
+    },
+    sheet: {
+      maxHeight: "70%",
+      paddingTop: 16,
+      paddingBottom: 32,
+      borderTopLeftRadius: 16,
+      borderTopRightRadius: 16,
+      backgroundColor: theme.colors.card,
+    },
+    title: {
+      fontSize: 12,
+      fontWeight: "bold",
+      color: theme.colors.textSecondary,
+      letterSpacing: 1,
+      paddingHorizontal: 20,
+      marginBottom: 8,
+    },
+    option: {
+      flexDirection: "row",
+      alignItems: "center",
+      paddingVertical: 14,
+      paddingHorizontal: 20,
+      borderBottomWidth: StyleSheet.hairlineWidth,
+      borderBottomColor: theme.colors.border,
+    },
+    optionText: {
+      flex: 1,
+      marginLeft: 12,
+      fontSize: 16,
+      color: theme.colors.text,
+    },
+    emptyText: {
+      padding: 20,
+      fontSize: 14,
+      color: theme.colors.textSecondary,
+      textAlign: "center",
+    },
+  });
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onCancel}>
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <Text style={styles.title}>SUBMIT TO</Text>
+          {loading ? (
+            <ActivityIndicator color={theme.colors.primary} />
+          ) : organizations.length === 0 ? (
+            <Text style={styles.emptyText}>
+              You are not a member of any organization. Ask your operator to add
+              you before submitting entries.
+            </Text>
+          ) : (
+            <ScrollView>
+              {organizations.map((organization) => (
+                <TouchableOpacity
+                  key={organization.id}
+                  style={styles.option}
+                  onPress={() => onSelect(organization)}
+                >
+                  <Icon
+                    name="business-outline"
+                    type="ionicon"
+                    color={theme.colors.primary}
+                    size={22}
+                  />
+                  <Text style={styles.optionText}>{organization.name}</Text>
+                  <Icon
+                    name="chevron-forward"
+                    type="ionicon"
+                    color={theme.colors.textSecondary}
+                    size={18}
+                  />
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          )}
+          <Button title="Cancel" type="clear" onPress={onCancel} />
+        </View>
+      </View>
+    </Modal>
+  );
+}
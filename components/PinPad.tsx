@@ -0,0 +1,168 @@
+import React, { useState } from "react";
+import { ActivityIndicator, StyleSheet, TouchableOpacity, View } from "react-native";
+import { Icon, Text } from "@rneui/themed";
+import { useTheme } from "../contexts/ThemeContext";
+import { PIN_MAX_LENGTH, PIN_MIN_LENGTH } from "../utils/pinHash";
+
+interface PinPadProps {
+  title: string;
+  subtitle?: string;
+  error?: string | null;
+  busy?: boolean;
+  /** The pad clears itself after each submit. */
+  onSubmit: (pin: string) => void;
+}
+
+const DIGIT_ROWS = [
+  ["1", "2", "3"],
+  ["4", "5", "6"],
+  ["7", "8", "9"],
+];
+
+export default function PinPad({ title, subtitle, error, busy, onSubmit }: PinPadProps) {
+  const { theme } = useTheme();
+  const [pin, setPin] = useState("");
+
+  const styles = StyleSheet.create({
+    container: {
+      alignItems: "center",
+    },
+    title: {
+      fontSize: 20,
+      fontWeight: "bold",
+      color: theme.colors.text,
+      textAlign: "center",
+    },
+    subtitle: {
+      marginTop: 8,
+      fontSize: 14,
+      color: theme.colors.textSecondary,
+      textAlign: "center",
+    },
+    dots: {
+      flexDirection: "row",
+      height: 16,
+      marginTop: 28,
+    },
+    dot: {
+      width: 14,
+      height: 14,
+      marginHorizontal: 8,
+      borderRadius: 7,
+      borderWidth: 1.5,
+      borderColor: theme.colors.primary,
+    },
+    dotFilled: {
+      backgroundColor: theme.colors.primary,
+    },
+    error: {
+      minHeight: 20,
+      marginTop: 16,
+      fontSize: 14,
+      color: theme.colors.error,
+      textAlign: "center",
+    },
+    keypad: {
+      marginTop: 16,
+    },
+    row: {
+      flexDirection: "row",
+    },
+    key: {
+      width: 72,
+      height: 72,
+      margin: 8,
+      borderRadius: 36,
+      justifyContent: "center",
+      alignItems: "center",
+      backgroundColor: theme.colors.inputBackground,
+    },
+    keyBlank: {
+      backgroundColor: "transparent",
+    },
+    keyText: {
+      fontSize: 28,
+      color: theme.colors.text,
+    },
+  });
+
+  const press = (digit: string) => {
+    if (!busy && pin.length < PIN_MAX_LENGTH) {
+      setPin(pin + digit);
+    }
+  };
+
+  const submit = () => {
+    if (!busy && pin.length >= PIN_MIN_LENGTH) {
+      onSubmit(pin);
+      setPin("");
+    }
+  };
+
+  const renderKey = (digit: string) => (
+    <TouchableOpacity key={digit} style={styles.key} onPress={() => press(digit)}>
+      <Text style={styles.keyText}>{digit}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>{title}</Text>
+      {subtitle ? <Text style={styles.subtitle}>{subtitle}</Text> : null}
+
+      <View style={styles.dots}>
+        {busy ? (
+          <ActivityIndicator color={theme.colors.primary} />
+        ) : (
+          Array.from({ length: Math.max(pin.length, PIN_MIN_LENGTH) }, (_, index) => (
+            <View
+              key={index}
+              style={[styles.dot, index < pin.length && styles.dotFilled]}
+            />
+          ))
+        )}
+      </View>
+      <Text style={styles.error}>{error ?? ""}</Text>
+
+      <View style={styles.keypad}>
+        {DIGIT_ROWS.map((row) => (
+          <View key={row.join("")} style={styles.row}>
+            {row.map(renderKey)}
+          </View>
+        ))}
+        <View style={styles.row}>
+          <TouchableOpacity
+            style={[styles.key, styles.keyBlank]}
+            onPress={() => setPin(pin.slice(0, -1))}
+            accessibilityLabel="Delete"
+          >
+            <Icon
+              name="backspace-outline"
+              type="ionicon"
+              color={theme.colors.text}
+              size={26}
+            />
+          </TouchableOpacity>
+          {renderKey("0")}
+          <TouchableOpacity
+            style={[styles.key, styles.keyBlank]}
+            onPress={submit}
+            disabled={pin.length < PIN_MIN_LENGTH}
+            accessibilityLabel="Enter"
+          >
+            <Icon
+              name="checkmark-circle"
+              type="ionicon"
+              color={
+                pin.length >= PIN_MIN_LENGTH
+                  ? theme.colors.primary
+                  : theme.colors.textSecondary
+              }
+              size={36}
+            />
+          </TouchableOpacity>
+        </View>
+      </View>
+    </View>
+  );
+}
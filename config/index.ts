@@ -5,28 +5,61 @@ type EnvKey = "development" | "staging" | "production";
 const ENV =
   (Constants.expoConfig?.extra?.env as EnvKey | undefined) ?? "development";
 
-const configs: Record<EnvKey, { API_BASE_URL: string; APP_NAME: string; ENABLE_LOGS: boolean }> = {
+interface EnvConfig {
+  API_BASE_URL: string;
+  APP_NAME: string;
+  ENABLE_LOGS: boolean;
+  ANCHOR_RPC_URL: string;
+  ANCHOR_CHAIN_ID: number;
+  // Entries sent per sync request
+  SYNC_BATCH_SIZE: number;
+  // WebSocket pushing review status changes; polling is used without one
+  STATUS_CHANNEL_URL: string | null;
+}
+
+const configs: Record<EnvKey, EnvConfig> = {
   development: {
     API_BASE_URL: "http://localhost:3000/api/v1",
     APP_NAME: "FlightLog Dev",
     ENABLE_LOGS: true,
+    // Local anvil / hardhat node
+    ANCHOR_RPC_URL: "http://127.0.0.1:8545",
+    ANCHOR_CHAIN_ID: 31337,
+    SYNC_BATCH_SIZE: 25,
+    STATUS_CHANNEL_URL: null,
   },
   staging: {
     API_BASE_URL: "https://staging-api.flightlog.example.com/api/v1",
     APP_NAME: "FlightLog Staging",
     ENABLE_LOGS: true,
+    ANCHOR_RPC_URL: "https://rpc-amoy.polygon.technology",
+    ANCHOR_CHAIN_ID: 80002,
+    SYNC_BATCH_SIZE: 50,
+    STATUS_CHANNEL_URL: null,
   },
   production: {
     API_BASE_URL: "https://api.flightlog.example.com/api/v1",
     APP_NAME: "FlightLog",
     ENABLE_LOGS: false,
+    ANCHOR_RPC_URL: "https://polygon-rpc.com",
+    ANCHOR_CHAIN_ID: 137,
+    SYNC_BATCH_SIZE: 50,
+    STATUS_CHANNEL_URL: null,
   },
 };
 
 const config = configs[ENV] ?? configs.development;
 
-export const API_BASE_URL = config.API_BASE_URL;
+export const API_BASE_URL =
+  process.env.EXPO_PUBLIC_API_BASE_URL || config.API_BASE_URL;
 export const APP_NAME = config.APP_NAME;
 export const ENABLE_LOGS = config.ENABLE_LOGS;
+export const ANCHOR_RPC_URL =
+  process.env.EXPO_PUBLIC_ANCHOR_RPC_URL ?? config.ANCHOR_RPC_URL;
+export const ANCHOR_CHAIN_ID = config.ANCHOR_CHAIN_ID;
+export const SYNC_BATCH_SIZE =
+  Number(process.env.EXPO_PUBLIC_SYNC_BATCH_SIZE) || config.SYNC_BATCH_SIZE;
+export const STATUS_CHANNEL_URL =
+  process.env.EXPO_PUBLIC_STATUS_CHANNEL_URL || config.STATUS_CHANNEL_URL;
 
 export default config;
@@ -0,0 +1,58 @@
+import React, { createContext, useContext, useEffect, useState } from "react";
+import AppLockService, {
+  AppLockState,
+  UnlockResult,
+} from "../services/appLockService";
+
+interface AppLockContextType extends AppLockState {
+  /** False until the settings are loaded; nothing may show before then. */
+  ready: boolean;
+  unlock: (pin: string) => Promise<UnlockResult>;
+  checkPin: (pin: string) => Promise<boolean>;
+  setPin: (pin: string) => Promise<void>;
+  disable: () => Promise<void>;
+  setAutoLockTimeout: (seconds: number) => Promise<void>;
+  lockNow: () => void;
+}
+
+const AppLockContext = createContext<AppLockContextType | undefined>(undefined);
+
+export function AppLockProvider({ children }: { children: React.ReactNode }) {
+  const [ready, setReady] = useState(false);
+  const [state, setState] = useState<AppLockState>(AppLockService.getState());
+
+  useEffect(() => {
+    const unsubscribe = AppLockService.onStateChange(setState);
+    AppLockService.start().finally(() => setReady(true));
+
+    return () => {
+      unsubscribe();
+      AppLockService.stop();
+    };
+  }, []);
+
+  return (
+    <AppLockContext.Provider
+      value={{
+        ...state,
+        ready,
+        unlock: (pin) => AppLockService.unlock(pin),
+        checkPin: (pin) => AppLockService.checkPin(pin),
+        setPin: (pin) => AppLockService.setPin(pin),
+        disable: () => AppLockService.disable(),
+        setAutoLockTimeout: (seconds) => AppLockService.setAutoLockTimeout(seconds),
+        lockNow: () => AppLockService.lock(),
+      }}
+    >
+      {children}
+    </AppLockContext.Provider>
+  );
+}
+
+export function useAppLock() {
+  const context = useContext(AppLockContext);
+  if (!context) {
+    throw new Error("useAppLock must be used within AppLockProvider");
+  }
+  return context;
+}
@@ -1,52 +1,137 @@
 import React, { createContext, useState, useContext, useEffect } from "react";
 import * as SecureStore from "expo-secure-store";
+import { isAxiosError } from "axios";
+import { showMessage } from "react-native-flash-message";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import ApiClient from "../services/apiClient";
+import AppLockService from "../services/appLockService";
+import DemoService from "../services/demoService";
+import { DEMO_USER } from "../services/demoBackend";
+import SessionService, { SessionStatus } from "../services/sessionService";
+import WalletService from "../services/walletService";
+import { buildSiweMessage } from "../utils/siwe";
+import {
+  ApiContractError,
+  ApiErrorBody,
+  ApiUser,
+  isMfaChallenge,
+  MfaMethod,
+  SessionResponse,
+} from "../utils/apiContract";
+import { MfaError, normalizeMfaCode, toMfaError } from "../utils/mfa";
+import { ANCHOR_CHAIN_ID, API_BASE_URL, APP_NAME } from "../config";
 
-interface User {
-  id: number;
+type User = ApiUser;
+
+/** A password sign-in waiting for its second factor. */
+export interface MfaChallenge {
   email: string;
-  name: string;
-  role: string;
-  license_no?: string;
+  challengeToken: string;
+  methods: MfaMethod[];
+  expiresAt?: number;
 }
 
+export type LoginOutcome = "signed_in" | "mfa_required";
+
 interface AuthContextType {
   user: User | null;
   loading: boolean;
   isAuthenticated: boolean;
-  login: (email: string, password: string, totpCode?: string) => Promise<void>;
+  /** Signed in to the sample logbook rather than a real account. */
+  isDemo: boolean;
+  /** Whether the server has confirmed the session; null when signed out. */
+  sessionStatus: SessionStatus | null;
+  /** Set when the server ended the session; cleared by the next sign-in. */
+  expiredSession: { email: string } | null;
+  mfaChallenge: MfaChallenge | null;
+  login: (email: string, password: string) => Promise<LoginOutcome>;
+  verifyMfa: (code: string, method: MfaMethod) => Promise<void>;
+  cancelMfa: () => void;
+  loginWithWallet: () => Promise<void>;
+  startDemo: () => Promise<void>;
   logout: () => Promise<void>;
   refreshUser: () => Promise<void>;
+  revalidateSession: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-const DEMO_EMAIL = "12345@gamil.com";
-const DEMO_PASSWORD = "12345";
-const DEMO_USER: User = {
-  id: 0,
-  email: DEMO_EMAIL,
-  name: "Demo Pilot",
-  role: "demo",
-  license_no: "DEMO-0000",
-};
+// Sign-In with Ethereum binds the message to the API origin it is sent to.
+const API_ORIGIN = API_BASE_URL.match(/^https?:\/\/[^/]+/)?.[0] ?? API_BASE_URL;
+const SIWE_DOMAIN = API_ORIGIN.replace(/^https?:\/\//, "");
+const SIWE_TTL_MS = 5 * 60 * 1000;
+
+/** The server's message, or a descriptive one for a malformed response. */
+function authErrorMessage(error: unknown, fallback: string): string {
+  if (isAxiosError<ApiErrorBody>(error)) {
+    return error.response?.data?.error || fallback;
+  }
+  if (error instanceof ApiContractError) {
+    return error.message;
+  }
+  return fallback;
+}
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const [isDemo, setIsDemo] = useState(false);
+  const [sessionStatus, setSessionStatus] = useState<SessionStatus | null>(null);
+  const [mfaChallenge, setMfaChallenge] = useState<MfaChallenge | null>(null);
+  const [expiredSession, setExpiredSession] = useState<{ email: string } | null>(
+    null
+  );
 
   useEffect(() => {
     loadStoredAuth();
   }, []);
 
+  useEffect(
+    () =>
+      SessionService.onStatusChange((status, profile) => {
+        setSessionStatus(status);
+        if (profile) {
+          void updateStoredUser(profile);
+        }
+        if (status === "expired") {
+          void handleSessionExpired();
+        }
+      }),
+    []
+  );
+
+  // Too many wrong PINs erased the device, tokens and stored user included.
+  useEffect(
+    () =>
+      AppLockService.onWipe(() => {
+        SessionService.stop();
+        setSessionStatus(null);
+        setMfaChallenge(null);
+        setExpiredSession(null);
+        setIsDemo(false);
+        setUser(null);
+      }),
+    []
+  );
+
   const loadStoredAuth = async () => {
     try {
+      if (DemoService.isActive()) {
+        setIsDemo(true);
+        setSessionStatus("online");
+        setUser(DEMO_USER);
+        return;
+      }
+
       const accessToken = await SecureStore.getItemAsync("access_token");
       const storedUser = await AsyncStorage.getItem("user");
 
       if (accessToken && storedUser) {
-        setUser(JSON.parse(storedUser));
+        const restored: User = JSON.parse(storedUser);
+        setUser(restored);
+        // Let the pilot straight in on the stored session, offline or not,
+        // and confirm it with the server in the background.
+        SessionService.start(false);
       }
     } catch (error) {
       console.error("Failed to load stored auth:", error);
@@ -55,36 +140,169 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const login = async (email: string, password: string, totpCode?: string) => {
-    if (email === DEMO_EMAIL && password === DEMO_PASSWORD) {
-      await ApiClient.setTokens("demo-access-token", "demo-refresh-token");
-      await AsyncStorage.setItem("user", JSON.stringify(DEMO_USER));
-      setUser(DEMO_USER);
-      return;
+  /** Keep the cached profile current with what the server last returned. */
+  const updateStoredUser = async (profile: User) => {
+    try {
+      await AsyncStorage.setItem("user", JSON.stringify(profile));
+      setUser(profile);
+    } catch (error) {
+      console.error("Failed to update stored user:", error);
     }
+  };
 
+  /**
+   * The server refused the session, and its tokens have been dropped.
+   * Return to sign-in; entries on the device stay and sync after it.
+   */
+  const handleSessionExpired = async () => {
     try {
-      const response = await ApiClient.login(email, password, totpCode);
-      const { access_token, refresh_token, user: userData } = response;
+      const storedUser = await AsyncStorage.getItem("user");
+      const previous: User | null = storedUser ? JSON.parse(storedUser) : null;
+      if (!previous) {
+        return;
+      }
+
+      SessionService.stop();
+      await AsyncStorage.removeItem("user");
+      setSessionStatus(null);
+      setMfaChallenge(null);
+      setExpiredSession({ email: previous.email });
+      setUser(null);
+      showMessage({
+        message: "Your session expired",
+        description: "Sign in again to resume syncing.",
+        type: "warning",
+      });
+    } catch (error) {
+      console.error("Failed to end expired session:", error);
+    }
+  };
 
-      await ApiClient.setTokens(access_token, refresh_token);
-      await AsyncStorage.setItem("user", JSON.stringify(userData));
+  const login = async (email: string, password: string): Promise<LoginOutcome> => {
+    setMfaChallenge(null);
+
+    try {
+      const response = await ApiClient.login(email, password);
+      if (isMfaChallenge(response)) {
+        setMfaChallenge({
+          email,
+          challengeToken: response.challenge_token,
+          methods: response.methods,
+          expiresAt: response.expires_in
+            ? Date.now() + response.expires_in * 1000
+            : undefined,
+        });
+        return "mfa_required";
+      }
 
-      setUser(userData);
-    } catch (error: any) {
+      await startSession(response);
+      return "signed_in";
+    } catch (error) {
       console.error("Login error:", error);
-      throw new Error(error.response?.data?.error || "Login failed");
+      throw toMfaError(error) ?? new Error(authErrorMessage(error, "Login failed"));
+    }
+  };
+
+  /**
+   * Finish a password sign-in with an authenticator or recovery code. A
+   * wrong code or a network error keeps the challenge so the pilot can try
+   * again; a lockout or an expired challenge ends it.
+   */
+  const verifyMfa = async (code: string, method: MfaMethod) => {
+    const challenge = mfaChallenge;
+    if (!challenge || (challenge.expiresAt && challenge.expiresAt <= Date.now())) {
+      setMfaChallenge(null);
+      throw new MfaError(
+        "expired",
+        "The sign-in request expired. Enter your password again."
+      );
+    }
+
+    const normalized = normalizeMfaCode(code, method);
+    try {
+      const response = await ApiClient.verifyMfa({
+        challenge_token: challenge.challengeToken,
+        ...(method === "totp"
+          ? { totp_code: normalized }
+          : { recovery_code: normalized }),
+      });
+      setMfaChallenge(null);
+      await startSession(response);
+    } catch (error) {
+      const mfaError = toMfaError(error);
+      if (!mfaError) {
+        console.error("Two-factor verification error:", error);
+      } else if (mfaError.reason !== "invalid_code") {
+        setMfaChallenge(null);
+      }
+      throw mfaError ?? new Error(authErrorMessage(error, "Verification failed"));
     }
   };
 
+  const cancelMfa = () => setMfaChallenge(null);
+
+  const loginWithWallet = async () => {
+    try {
+      const address = await WalletService.getAddress();
+      const { nonce } = await ApiClient.getSiweNonce(address);
+
+      const issuedAt = new Date();
+      const message = buildSiweMessage({
+        domain: SIWE_DOMAIN,
+        address,
+        statement: `Sign in to ${APP_NAME} with your pilot wallet.`,
+        uri: API_ORIGIN,
+        chainId: ANCHOR_CHAIN_ID,
+        nonce,
+        issuedAt: issuedAt.toISOString(),
+        expirationTime: new Date(issuedAt.getTime() + SIWE_TTL_MS).toISOString(),
+      });
+
+      const signature = await WalletService.signMessage(message);
+      const response = await ApiClient.loginWithSiwe(message, signature);
+      await startSession(response);
+    } catch (error) {
+      console.error("Wallet login error:", error);
+      throw new Error(authErrorMessage(error, "Wallet sign-in failed"));
+    }
+  };
+
+  /**
+   * Open the sample logbook. Only offered while signed out, so there are no
+   * real tokens around for the demo to use.
+   */
+  const startDemo = async () => {
+    setMfaChallenge(null);
+    await DemoService.enter();
+    setExpiredSession(null);
+    setSessionStatus("online");
+    setIsDemo(true);
+    setUser(DEMO_USER);
+  };
+
+  const startSession = async (response: SessionResponse) => {
+    const { access_token, refresh_token, user: userData } = response;
+
+    await ApiClient.setTokens(access_token, refresh_token);
+    await AsyncStorage.setItem("user", JSON.stringify(userData));
+
+    SessionService.start(true);
+    setExpiredSession(null);
+    setUser(userData);
+  };
+
   const logout = async () => {
     try {
-      if (user?.email === DEMO_EMAIL) {
-        await ApiClient.clearTokens();
+      SessionService.stop();
+      if (DemoService.isActive()) {
+        await DemoService.exit();
+        setIsDemo(false);
       } else {
         await ApiClient.logout();
+        await AsyncStorage.removeItem("user");
       }
-      await AsyncStorage.removeItem("user");
+      setSessionStatus(null);
+      setExpiredSession(null);
       setUser(null);
     } catch (error) {
       console.error("Logout error:", error);
@@ -102,15 +320,30 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  const revalidateSession = async () => {
+    if (user && !isDemo) {
+      await SessionService.revalidate();
+    }
+  };
+
   return (
     <AuthContext.Provider
       value={{
         user,
         loading,
         isAuthenticated: !!user,
+        isDemo,
+        sessionStatus,
+        expiredSession,
+        mfaChallenge,
         login,
+        verifyMfa,
+        cancelMfa,
+        loginWithWallet,
+        startDemo,
         logout,
         refreshUser,
+        revalidateSession,
       }}
     >
       {children}
@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useEffect, useState } from "react";
 import database from "../services/database";
+import DemoService from "../services/demoService";
 
 interface DatabaseContextType {
   dbReady: boolean;
@@ -11,6 +12,9 @@ const DatabaseContext = createContext<DatabaseContextType | undefined>(
 
 export function DatabaseProvider({ children }: { children: React.ReactNode }) {
   const [dbReady, setDbReady] = useState(false);
+  // Nothing below may open the database before we know whether it is the
+  // demo's file or the real one.
+  const [modeChecked, setModeChecked] = useState(false);
 
   useEffect(() => {
     initializeDatabase();
@@ -18,6 +22,7 @@ export function DatabaseProvider({ children }: { children: React.ReactNode }) {
 
   const initializeDatabase = async () => {
     try {
+      await DemoService.restore().finally(() => setModeChecked(true));
       await database.init();
       setDbReady(true);
       console.log("Database initialized successfully");
@@ -29,7 +34,7 @@ export function DatabaseProvider({ children }: { children: React.ReactNode }) {
 
   return (
     <DatabaseContext.Provider value={{ dbReady }}>
-      {children}
+      {modeChecked ? children : null}
     </DatabaseContext.Provider>
   );
 }
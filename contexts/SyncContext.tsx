@@ -10,24 +10,42 @@ import SyncService, {
   SyncStatus,
   SyncStats,
 } from "../services/syncService";
+import SyncScheduler from "../services/syncScheduler";
+import StatusRefreshService from "../services/statusRefreshService";
+import NotificationService from "../services/notificationService";
+import AppLockService from "../services/appLockService";
+import DemoService from "../services/demoService";
+import { useAuth } from "./AuthContext";
+import { DEFAULT_SYNC_POLICY, SyncPolicy } from "../utils/syncPolicy";
 
 interface SyncContextType {
   syncStatus: SyncStatus;
   syncStats: SyncStats | null;
   isSyncing: boolean;
+  syncPolicy: SyncPolicy;
+  unreadNotifications: number;
   syncNow: () => Promise<void>;
   refreshStats: () => Promise<void>;
+  updateSyncPolicy: (updates: Partial<SyncPolicy>) => Promise<void>;
+  scheduleSync: () => void;
+  refreshEntryStatuses: () => Promise<number>;
 }
 
 const SyncContext = createContext<SyncContextType | undefined>(undefined);
 
 export function SyncProvider({ children }: { children: React.ReactNode }) {
+  const { isAuthenticated, sessionStatus } = useAuth();
+  // Logging out clears the user; an expired session is refused by the server
+  // until the pilot signs in again.
+  const signedIn = isAuthenticated && sessionStatus !== "expired";
   const [syncStatus, setSyncStatus] = useState<SyncStatus>({
     status: "idle",
     progress: 0,
   });
   const [syncStats, setSyncStats] = useState<SyncStats | null>(null);
   const [isSyncing, setIsSyncing] = useState(false);
+  const [syncPolicy, setSyncPolicy] = useState<SyncPolicy>(DEFAULT_SYNC_POLICY);
+  const [unreadNotifications, setUnreadNotifications] = useState(0);
 
   const refreshStats = useCallback(async () => {
     try {
@@ -39,21 +57,82 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
   }, []);
 
   useEffect(() => {
-    SyncService.registerBackgroundSync();
+    if (!signedIn) {
+      return;
+    }
 
+    SyncScheduler.start();
+    StatusRefreshService.start();
+    // Entering or leaving the demo swaps the database it refreshes.
+    const unsubscribeDemo = DemoService.onChange(() => {
+      StatusRefreshService.stop();
+      StatusRefreshService.start();
+    });
+
+    return () => {
+      unsubscribeDemo();
+      SyncScheduler.stop();
+      StatusRefreshService.stop();
+    };
+  }, [signedIn]);
+
+  useEffect(() => {
     const unsubscribe = SyncService.onSyncStatusChange((status) => {
       setSyncStatus(status);
       setIsSyncing(status.status === "syncing");
     });
+    const unsubscribePolicy = SyncScheduler.onPolicyChange(setSyncPolicy);
+    const unsubscribeAutoSync = SyncScheduler.onAutoSync(() => {
+      refreshStats();
+    });
+    const unsubscribeStatusRefresh = StatusRefreshService.onStatusRefresh(() => {
+      refreshStats();
+    });
+    const unsubscribeUnread =
+      NotificationService.onUnreadCountChange(setUnreadNotifications);
+    const unsubscribeWipe = AppLockService.onWipe(() => {
+      setUnreadNotifications(0);
+      refreshStats();
+    });
+    // Entering or leaving the demo swaps the whole database.
+    const unsubscribeDemo = DemoService.onChange(() => {
+      refreshStats();
+      NotificationService.getUnreadCount()
+        .then(setUnreadNotifications)
+        .catch((error) => console.warn("Failed to count notifications:", error));
+    });
 
     refreshStats();
 
     return () => {
       unsubscribe();
-      SyncService.unregisterBackgroundSync();
+      unsubscribePolicy();
+      unsubscribeAutoSync();
+      unsubscribeStatusRefresh();
+      unsubscribeUnread();
+      unsubscribeWipe();
+      unsubscribeDemo();
     };
   }, [refreshStats]);
 
+  const updateSyncPolicy = useCallback(async (updates: Partial<SyncPolicy>) => {
+    try {
+      await SyncScheduler.setPolicy(updates);
+    } catch (error) {
+      console.error("Failed to update sync policy:", error);
+      showMessage({ message: "Failed to save sync settings", type: "danger" });
+    }
+  }, []);
+
+  const scheduleSync = useCallback(() => {
+    SyncScheduler.requestSync();
+  }, []);
+
+  const refreshEntryStatuses = useCallback(
+    () => StatusRefreshService.refresh(),
+    []
+  );
+
   const syncNow = useCallback(async () => {
     if (isSyncing) {
       showMessage({
@@ -71,6 +150,16 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
           message: `Successfully synced ${result.synced} entries`,
           type: "success",
         });
+      } else if (result.deleted && result.deleted > 0) {
+        showMessage({
+          message: `Deleted ${result.deleted} entries from the server`,
+          type: "success",
+        });
+      } else if (result.pulled && result.pulled > 0) {
+        showMessage({
+          message: `Downloaded ${result.pulled} entries from the server`,
+          type: "success",
+        });
       } else {
         showMessage({
           message: "Everything is up to date",
@@ -85,6 +174,20 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
         });
       }
 
+      if (result.conflicts && result.conflicts > 0) {
+        showMessage({
+          message: `${result.conflicts} entries need conflict resolution`,
+          type: "warning",
+        });
+      }
+
+    } else if (result.missingAttachments && result.missingAttachments > 0) {
+      showMessage({
+        message: result.error || "An attachment is missing",
+        description:
+          "Its photo is no longer on this device. Open the entry to remove or replace it.",
+        type: "danger",
+      });
     } else {
       showMessage({
         message: result.error || "Sync failed",
@@ -101,8 +204,13 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
         syncStatus,
         syncStats,
         isSyncing,
+        syncPolicy,
+        unreadNotifications,
         syncNow,
         refreshStats,
+        updateSyncPolicy,
+        scheduleSync,
+        refreshEntryStatuses,
       }}
     >
       {children}
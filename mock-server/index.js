@@ -0,0 +1,72 @@
+#!/usr/bin/env node
+"use strict";
+
+/**
+ * Run the local mock backend:
+ *
+ *   npm run mock-server -- [--port 3000] [--host 127.0.0.1] [--latency 300]
+ *                          [--fault server_error] [--auto-review 30]
+ *
+ * `--auto-review` approves submitted entries after that many seconds. Fault
+ * modes can also be switched while it runs, e.g.
+ *
+ *   curl -X POST localhost:3000/__mock/fault -H 'Content-Type: application/json' \
+ *     -d '{"mode":"partial_sync"}'
+ */
+
+const { createMockServer, FAULT_MODES } = require("./server");
+const { TOTP_SECRET, RECOVERY_CODES, USERS } = require("./seed");
+
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i += 1) {
+    const [flag, inline] = argv[i].split("=");
+    if (flag.startsWith("--")) {
+      args[flag.slice(2)] = inline ?? argv[i + 1];
+      if (inline === undefined) {
+        i += 1;
+      }
+    }
+  }
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const port = Number(args.port ?? process.env.MOCK_PORT ?? 3000);
+  const host = args.host ?? process.env.MOCK_HOST ?? "127.0.0.1";
+  const fault = args.fault ?? process.env.MOCK_FAULT ?? "none";
+
+  if (!FAULT_MODES.includes(fault)) {
+    console.error(`Unknown fault mode "${fault}". Use one of: ${FAULT_MODES.join(", ")}`);
+    process.exit(1);
+  }
+
+  const mock = createMockServer({
+    latencyMs: Number(args.latency ?? process.env.MOCK_LATENCY_MS ?? 0),
+    autoReviewMs: Number(args["auto-review"] ?? 0) * 1000,
+    log: true,
+  });
+  mock.setFault(fault);
+
+  const baseUrl = await mock.listen(port, host);
+  console.log(`FlightLog mock API listening on ${baseUrl}`);
+  console.log("Seeded accounts (password: password123):");
+  for (const user of USERS) {
+    console.log(`  ${user.email}${user.totp_secret ? " (two-factor)" : ""}`);
+  }
+  console.log(`Two-factor secret: ${TOTP_SECRET}`);
+  console.log(`Recovery codes: ${RECOVERY_CODES.join(", ")}`);
+  console.log(`Current code: GET ${baseUrl.replace(/\/api\/v1$/, "")}/__mock/totp/<email>`);
+
+  const shutdown = () => {
+    mock.close().then(() => process.exit(0));
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,118 @@
+"use strict";
+
+/**
+ * Data every fresh mock server starts with. Passwords are plain text on
+ * purpose: this server only ever runs on a developer machine or in tests.
+ */
+
+const TOTP_SECRET = "JBSWY3DPEHPK3PXP";
+// One-time backup codes for the two-factor account.
+const RECOVERY_CODES = ["7KQ2-M9XD", "P4LW-8RTN", "C3VH-6JZB"];
+
+const USERS = [
+  {
+    id: 1,
+    email: "pilot@flightlog.test",
+    password: "password123",
+    name: "Alex Morgan",
+    role: "pilot",
+    license_no: "ATPL-104233",
+    organization_ids: [1, 2],
+  },
+  {
+    id: 2,
+    email: "totp@flightlog.test",
+    password: "password123",
+    name: "Sam Carter",
+    role: "pilot",
+    license_no: "CPL-220871",
+    totp_secret: TOTP_SECRET,
+    recovery_codes: RECOVERY_CODES,
+    organization_ids: [1],
+  },
+];
+
+const ORGANIZATIONS = [
+  { id: 1, name: "Gulf Training Academy" },
+  { id: 2, name: "Desert Air Operations" },
+];
+
+const entry = (id, fields) => ({
+  id,
+  format_version: 3,
+  pilot_id: 1,
+  status: "draft",
+  aircraft_type: "A320",
+  sic_time: 0,
+  dual_time: 0,
+  night_time: 0,
+  instrument_time: 0,
+  landings_night: 0,
+  attachments: [],
+  additional_data: null,
+  ...fields,
+});
+
+const ENTRIES = [
+  entry(1001, {
+    client_uuid: "7f1c2a8e-0d0b-4a38-9a53-5b3d1f0c1001",
+    status: "anchored",
+    flight_date: "2025-08-02",
+    aircraft_reg: "A6-FLA",
+    route_from: "OMDB",
+    route_to: "OERK",
+    pic_time: 125,
+    total_time: 125,
+    landings_day: 1,
+    organization_id: 1,
+    submitted_at: "2025-08-03T07:10:00.000Z",
+    reviewed_at: "2025-08-04T12:00:00.000Z",
+  }),
+  entry(1002, {
+    client_uuid: "7f1c2a8e-0d0b-4a38-9a53-5b3d1f0c1002",
+    status: "approved",
+    flight_date: "2025-08-10",
+    aircraft_reg: "A6-FLB",
+    route_from: "OERK",
+    route_to: "OMDB",
+    pic_time: 118,
+    night_time: 40,
+    total_time: 118,
+    landings_night: 1,
+    landings_day: 0,
+    organization_id: 1,
+    submitted_at: "2025-08-11T09:00:00.000Z",
+    reviewed_at: "2025-08-12T15:30:00.000Z",
+  }),
+  entry(1003, {
+    client_uuid: "7f1c2a8e-0d0b-4a38-9a53-5b3d1f0c1003",
+    status: "rejected",
+    flight_date: "2025-08-21",
+    aircraft_reg: "A6-FLC",
+    route_from: "OMDB",
+    route_to: "OOMS",
+    pic_time: 75,
+    total_time: 70,
+    landings_day: 1,
+    organization_id: 2,
+    submitted_at: "2025-08-22T06:45:00.000Z",
+    reviewed_at: "2025-08-23T10:15:00.000Z",
+    rejection_reason: "PIC time exceeds total block time",
+  }),
+  entry(1004, {
+    client_uuid: "7f1c2a8e-0d0b-4a38-9a53-5b3d1f0c1004",
+    status: "submitted",
+    flight_date: "2025-09-05",
+    aircraft_reg: "A6-FLA",
+    route_from: "OOMS",
+    route_to: "OMDB",
+    pic_time: 68,
+    instrument_time: 20,
+    total_time: 68,
+    landings_day: 1,
+    organization_id: 2,
+    submitted_at: "2025-09-06T08:20:00.000Z",
+  }),
+];
+
+module.exports = { TOTP_SECRET, RECOVERY_CODES, USERS, ORGANIZATIONS, ENTRIES };
@@ -0,0 +1,879 @@
+"use strict";
+
+const http = require("http");
+const crypto = require("crypto");
+const seed = require("./seed");
+const { generateTotp, verifyTotp } = require("./totp");
+
+const API_PREFIX = "/api/v1";
+const CONTROL_PREFIX = "/__mock";
+const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+const MFA_CHALLENGE_TTL_SECONDS = 5 * 60;
+const MFA_MAX_ATTEMPTS = 5;
+const MFA_LOCKOUT_SECONDS = 15 * 60;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+const FAULT_MODES = [
+  "none",
+  "unauthorized",
+  "server_error",
+  "timeout",
+  "partial_sync",
+  "malformed",
+];
+const REVIEW_STATUSES = ["approved", "rejected", "anchored"];
+const LOCKED_STATUSES = ["submitted", "approved", "anchored"];
+
+// Fields the server owns; values sent by the app for these are ignored.
+const SERVER_FIELDS = [
+  "id",
+  "server_id",
+  "local_id",
+  "pilot_id",
+  "status",
+  "organization_id",
+  "submitted_at",
+  "reviewed_at",
+  "rejection_reason",
+  "revision",
+  "base_revision",
+  "sync_status",
+  "last_synced_at",
+  "anchor",
+  "created_at",
+  "updated_at",
+];
+
+class HttpError extends Error {
+  constructor(status, message, extra = {}) {
+    super(message);
+    this.status = status;
+    this.extra = extra;
+  }
+}
+
+const randomToken = (prefix) => `${prefix}_${crypto.randomBytes(24).toString("hex")}`;
+
+const publicUser = ({
+  password,
+  totp_secret,
+  recovery_codes,
+  organization_ids,
+  ...user
+}) => user;
+
+const normalizeRecoveryCode = (code) => String(code).replace(/[\s-]/g, "").toUpperCase();
+
+function createState() {
+  const now = new Date().toISOString();
+  let revision = 0;
+
+  const entries = new Map(
+    seed.ENTRIES.map((entry) => {
+      revision += 1;
+      return [
+        entry.id,
+        { ...entry, revision: String(revision), created_at: now, updated_at: now },
+      ];
+    })
+  );
+
+  return {
+    users: seed.USERS.map((user) => ({
+      ...user,
+      organization_ids: [...user.organization_ids],
+      recovery_codes: user.recovery_codes ? [...user.recovery_codes] : undefined,
+    })),
+    organizations: seed.ORGANIZATIONS.map((organization) => ({ ...organization })),
+    entries,
+    revision,
+    nextEntryId: 2000,
+    nextUploadId: 1,
+    nextUserId: 100,
+    accessTokens: new Map(),
+    refreshTokens: new Map(),
+    nonces: new Map(),
+    mfaChallenges: new Map(),
+    mfaLockouts: new Map(),
+    uploads: new Map(),
+    idempotency: new Map(),
+  };
+}
+
+/**
+ * An in-memory stand-in for the FlightLog API. It serves every endpoint in
+ * `services/apiClient.ts` under `/api/v1`, and control endpoints under
+ * `/__mock` to switch fault modes, expire tokens and review entries.
+ *
+ * Options: `latencyMs` delays every API response; `autoReviewMs` approves
+ * submitted entries after that long; `log` prints one line per request.
+ */
+function createMockServer(options = {}) {
+  let state = createState();
+  let latencyMs = options.latencyMs ?? 0;
+  let fault = { mode: "none", remaining: null };
+  const reviewTimers = new Set();
+
+  const log = options.log ? (...args) => console.log("[mock]", ...args) : () => {};
+
+  // ---------------------------------------------------------------- helpers
+
+  const nextRevision = () => {
+    state.revision += 1;
+    return String(state.revision);
+  };
+
+  const touch = (entry) => {
+    entry.revision = nextRevision();
+    entry.updated_at = new Date().toISOString();
+    return entry;
+  };
+
+  const toWire = (entry) => ({ ...entry, server_id: entry.id });
+
+  const issueSession = (user) => {
+    const accessToken = randomToken("access");
+    const refreshToken = randomToken("refresh");
+    state.accessTokens.set(accessToken, {
+      userId: user.id,
+      expiresAt: Date.now() + ACCESS_TOKEN_TTL_SECONDS * 1000,
+    });
+    state.refreshTokens.set(refreshToken, user.id);
+
+    return {
+      access_token: accessToken,
+      refresh_token: refreshToken,
+      token_type: "Bearer",
+      expires_in: ACCESS_TOKEN_TTL_SECONDS,
+      user: publicUser(user),
+    };
+  };
+
+  const assertNotLocked = (user) => {
+    const lockedUntil = state.mfaLockouts.get(user.id) ?? 0;
+    if (lockedUntil > Date.now()) {
+      throw new HttpError(423, "Too many incorrect codes", {
+        code: "mfa_locked",
+        retry_after: Math.ceil((lockedUntil - Date.now()) / 1000),
+      });
+    }
+  };
+
+  // A matching recovery code is used up.
+  const verifySecondFactor = (user, body) => {
+    if (body?.totp_code) {
+      return verifyTotp(user.totp_secret, String(body.totp_code));
+    }
+    if (body?.recovery_code) {
+      const wanted = normalizeRecoveryCode(body.recovery_code);
+      const index = (user.recovery_codes ?? []).findIndex(
+        (code) => normalizeRecoveryCode(code) === wanted
+      );
+      if (index >= 0) {
+        user.recovery_codes.splice(index, 1);
+        return true;
+      }
+    }
+    return false;
+  };
+
+  const authenticate = (req) => {
+    if (fault.mode === "unauthorized") {
+      consumeFault();
+      throw new HttpError(401, "Session revoked");
+    }
+
+    const token = /^Bearer (.+)$/.exec(req.headers.authorization ?? "")?.[1];
+    const session = token ? state.accessTokens.get(token) : undefined;
+    if (!session || session.expiresAt <= Date.now()) {
+      throw new HttpError(401, "Invalid or expired token");
+    }
+
+    return state.users.find((user) => user.id === session.userId);
+  };
+
+  const ownedEntry = (user, id) => {
+    const entry = state.entries.get(Number(id));
+    if (!entry || entry.pilot_id !== user.id) {
+      throw new HttpError(404, "Entry not found");
+    }
+    return entry;
+  };
+
+  const findByClientUuid = (user, clientUuid) => {
+    if (!clientUuid) {
+      return undefined;
+    }
+    for (const entry of state.entries.values()) {
+      if (entry.pilot_id === user.id && entry.client_uuid === clientUuid) {
+        return entry;
+      }
+    }
+    return undefined;
+  };
+
+  // Entries the app has pushed before carry their server id; a push the
+  // server committed but never confirmed is still matched by client UUID.
+  const findExisting = (user, payload) => {
+    const byId = state.entries.get(Number(payload?.server_id));
+    if (byId?.pilot_id === user.id) {
+      return byId;
+    }
+    return findByClientUuid(user, payload?.client_uuid);
+  };
+
+  const clientFields = (payload) => {
+    const fields = {};
+    for (const [key, value] of Object.entries(payload ?? {})) {
+      if (!SERVER_FIELDS.includes(key) && value !== undefined) {
+        fields[key] = value;
+      }
+    }
+    return fields;
+  };
+
+  const validateEntry = (payload) => {
+    if (!payload?.flight_date || !payload?.aircraft_reg) {
+      throw new HttpError(422, "flight_date and aircraft_reg are required");
+    }
+  };
+
+  const createEntry = (user, payload) => {
+    validateEntry(payload);
+    const now = new Date().toISOString();
+    const entry = {
+      ...clientFields(payload),
+      id: state.nextEntryId++,
+      pilot_id: user.id,
+      status: "draft",
+      created_at: now,
+    };
+    state.entries.set(entry.id, touch(entry));
+    return entry;
+  };
+
+  const updateEntry = (entry, payload) => {
+    if (LOCKED_STATUSES.includes(entry.status)) {
+      throw new HttpError(422, `Entry is ${entry.status} and cannot be changed`);
+    }
+    Object.assign(entry, clientFields(payload));
+    validateEntry(entry);
+    return touch(entry);
+  };
+
+  const review = (entry, status, reason) => {
+    const now = new Date().toISOString();
+    entry.status = status;
+    if (status === "anchored") {
+      entry.anchor = {
+        chain_id: 31337,
+        contract_address: "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+        tx_hash: `0x${crypto.randomBytes(32).toString("hex")}`,
+        block_number: 1000 + state.revision,
+        // A batch of one: the root is the leaf hash and the proof is empty.
+        merkle_root: `0x${crypto
+          .createHash("sha256")
+          .update(Buffer.concat([Buffer.from([0]), Buffer.from(entry.entry_hash ?? "", "hex")]))
+          .digest("hex")}`,
+        proof: [],
+      };
+    } else {
+      entry.reviewed_at = now;
+      entry.rejection_reason = status === "rejected" ? reason ?? "Returned by reviewer" : null;
+    }
+    touch(entry);
+    log(`entry ${entry.id} ${status}${reason ? `: ${reason}` : ""}`);
+    return entry;
+  };
+
+  const scheduleAutoReview = (entryId) => {
+    if (!options.autoReviewMs) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      reviewTimers.delete(timer);
+      const entry = state.entries.get(entryId);
+      if (entry?.status === "submitted") {
+        review(entry, "approved");
+      }
+    }, options.autoReviewMs);
+    reviewTimers.add(timer);
+  };
+
+  const consumeFault = () => {
+    if (fault.remaining == null) {
+      return;
+    }
+    fault.remaining -= 1;
+    if (fault.remaining <= 0) {
+      fault = { mode: "none", remaining: null };
+    }
+  };
+
+  // ----------------------------------------------------------------- routes
+
+  const apiRoutes = [
+    [
+      "POST",
+      /^\/auth\/login$/,
+      ({ body }) => {
+        const user = state.users.find(
+          (candidate) =>
+            candidate.email.toLowerCase() === String(body?.email ?? "").toLowerCase()
+        );
+        if (!user || user.password !== body?.password) {
+          throw new HttpError(401, "Invalid email or password");
+        }
+        if (user.totp_secret) {
+          assertNotLocked(user);
+          const challengeToken = randomToken("mfa");
+          state.mfaChallenges.set(challengeToken, {
+            userId: user.id,
+            attempts: 0,
+            expiresAt: Date.now() + MFA_CHALLENGE_TTL_SECONDS * 1000,
+          });
+          return {
+            mfa_required: true,
+            challenge_token: challengeToken,
+            methods: ["totp", "recovery_code"],
+            expires_in: MFA_CHALLENGE_TTL_SECONDS,
+          };
+        }
+        return issueSession(user);
+      },
+    ],
+    [
+      "POST",
+      /^\/auth\/mfa\/verify$/,
+      ({ body }) => {
+        const challenge = state.mfaChallenges.get(body?.challenge_token);
+        if (!challenge || challenge.expiresAt <= Date.now()) {
+          state.mfaChallenges.delete(body?.challenge_token);
+          throw new HttpError(401, "Sign-in challenge expired", {
+            code: "challenge_expired",
+          });
+        }
+
+        const user = state.users.find((candidate) => candidate.id === challenge.userId);
+        assertNotLocked(user);
+
+        if (!verifySecondFactor(user, body)) {
+          challenge.attempts += 1;
+          if (challenge.attempts >= MFA_MAX_ATTEMPTS) {
+            state.mfaChallenges.delete(body.challenge_token);
+            state.mfaLockouts.set(user.id, Date.now() + MFA_LOCKOUT_SECONDS * 1000);
+            log(`${user.email} locked out of two-factor sign-in`);
+            assertNotLocked(user);
+          }
+          throw new HttpError(401, "Invalid two-factor code", {
+            code: "invalid_code",
+            attempts_remaining: MFA_MAX_ATTEMPTS - challenge.attempts,
+          });
+        }
+
+        state.mfaChallenges.delete(body.challenge_token);
+        return issueSession(user);
+      },
+    ],
+    [
+      "POST",
+      /^\/auth\/refresh$/,
+      ({ body }) => {
+        const userId = state.refreshTokens.get(body?.refresh_token);
+        const user = state.users.find((candidate) => candidate.id === userId);
+        if (!user) {
+          throw new HttpError(401, "Invalid refresh token");
+        }
+
+        const accessToken = randomToken("access");
+        state.accessTokens.set(accessToken, {
+          userId,
+          expiresAt: Date.now() + ACCESS_TOKEN_TTL_SECONDS * 1000,
+        });
+        return { access_token: accessToken, expires_in: ACCESS_TOKEN_TTL_SECONDS };
+      },
+    ],
+    [
+      "POST",
+      /^\/auth\/logout$/,
+      ({ req, body }) => {
+        const token = /^Bearer (.+)$/.exec(req.headers.authorization ?? "")?.[1];
+        state.accessTokens.delete(token);
+        state.refreshTokens.delete(body?.refresh_token);
+        return { success: true };
+      },
+    ],
+    [
+      "GET",
+      /^\/auth\/siwe\/nonce$/,
+      ({ query }) => {
+        const address = query.get("address");
+        if (!address) {
+          throw new HttpError(422, "address is required");
+        }
+        const nonce = crypto.randomBytes(8).toString("hex");
+        state.nonces.set(nonce, address.toLowerCase());
+        return { nonce };
+      },
+    ],
+    [
+      "POST",
+      /^\/auth\/siwe\/verify$/,
+      ({ body }) => {
+        // The signature itself is not checked; the mock only enforces that
+        // the message carries a nonce it issued for that address.
+        const message = String(body?.message ?? "");
+        const address = message.split("\n")[1]?.trim().toLowerCase();
+        const nonce = /^Nonce: (.+)$/m.exec(message)?.[1];
+        if (!address || !nonce || state.nonces.get(nonce) !== address) {
+          throw new HttpError(401, "Invalid or expired nonce");
+        }
+        state.nonces.delete(nonce);
+
+        let user = state.users.find(
+          (candidate) => candidate.wallet_address?.toLowerCase() === address
+        );
+        if (!user) {
+          user = {
+            id: state.nextUserId++,
+            email: `${address.slice(0, 10)}@wallet.flightlog.test`,
+            name: "Wallet Pilot",
+            role: "pilot",
+            wallet_address: address,
+            organization_ids: [1],
+          };
+          state.users.push(user);
+        }
+        return issueSession(user);
+      },
+    ],
+    [
+      "GET",
+      /^\/pilots\/me\/entries$/,
+      ({ user, query }) => {
+        const status = query.get("status");
+        const updatedSince = query.get("updated_since");
+        const page = Math.max(Number(query.get("page")) || 1, 1);
+        const perPage = Math.min(
+          Math.max(Number(query.get("per_page")) || DEFAULT_PAGE_SIZE, 1),
+          MAX_PAGE_SIZE
+        );
+
+        const matching = [...state.entries.values()]
+          .filter((entry) => entry.pilot_id === user.id)
+          .filter((entry) => !status || entry.status === status)
+          .filter((entry) => !updatedSince || entry.updated_at >= updatedSince)
+          .sort((a, b) => a.id - b.id);
+
+        return {
+          entries: matching.slice((page - 1) * perPage, page * perPage).map(toWire),
+          meta: {
+            page,
+            per_page: perPage,
+            total: matching.length,
+            total_pages: Math.max(Math.ceil(matching.length / perPage), 1),
+            server_time: new Date().toISOString(),
+          },
+        };
+      },
+    ],
+    [
+      "POST",
+      /^\/pilots\/me\/entries\/sync$/,
+      ({ req, user, body }) => {
+        const key = req.headers["idempotency-key"];
+        const cacheKey = key ? `${user.id}:${key}` : null;
+        if (cacheKey && state.idempotency.has(cacheKey)) {
+          return state.idempotency.get(cacheKey);
+        }
+
+        if (!Array.isArray(body?.entries)) {
+          throw new HttpError(422, "entries must be an array");
+        }
+
+        const result = { synced: [], failed: [], conflicts: [] };
+        body.entries.forEach((payload, index) => {
+          const ref = { client_uuid: payload?.client_uuid, local_id: payload?.local_id };
+
+          if (fault.mode === "partial_sync" && index % 2 === 1) {
+            result.failed.push({ ...ref, error: "Simulated sync failure" });
+            return;
+          }
+
+          try {
+            const existing = findExisting(user, payload);
+
+            if (
+              existing &&
+              payload.base_revision != null &&
+              payload.base_revision !== existing.revision
+            ) {
+              result.conflicts.push({ ...ref, server: toWire(existing) });
+              return;
+            }
+
+            const entry = existing
+              ? updateEntry(existing, payload)
+              : createEntry(user, payload);
+            result.synced.push({
+              ...ref,
+              server_id: entry.id,
+              revision: entry.revision,
+              updated_at: entry.updated_at,
+            });
+          } catch (error) {
+            result.failed.push({ ...ref, error: error.message });
+          }
+        });
+
+        if (fault.mode === "partial_sync") {
+          consumeFault();
+        }
+        if (cacheKey) {
+          state.idempotency.set(cacheKey, result);
+        }
+        return result;
+      },
+    ],
+    [
+      "GET",
+      /^\/pilots\/me\/entries\/(\d+)$/,
+      ({ user, params }) => toWire(ownedEntry(user, params[0])),
+    ],
+    [
+      "POST",
+      /^\/pilots\/me\/entries$/,
+      ({ user, body }) => toWire(createEntry(user, body?.entry)),
+      201,
+    ],
+    [
+      "PATCH",
+      /^\/pilots\/me\/entries\/(\d+)$/,
+      ({ user, params, body }) => toWire(updateEntry(ownedEntry(user, params[0]), body?.entry)),
+    ],
+    [
+      "DELETE",
+      /^\/pilots\/me\/entries\/(\d+)$/,
+      ({ user, params }) => {
+        const entry = ownedEntry(user, params[0]);
+        if (LOCKED_STATUSES.includes(entry.status)) {
+          throw new HttpError(422, `Entry is ${entry.status} and cannot be deleted`);
+        }
+        state.entries.delete(entry.id);
+        return null;
+      },
+      204,
+    ],
+    [
+      "POST",
+      /^\/pilots\/me\/entries\/(\d+)\/submit$/,
+      ({ user, params, body }) => {
+        const entry = ownedEntry(user, params[0]);
+        const organizationId = Number(body?.organization_id);
+        if (!user.organization_ids.includes(organizationId)) {
+          throw new HttpError(403, "Not a member of this organization");
+        }
+        if (entry.status !== "draft" && entry.status !== "rejected") {
+          throw new HttpError(422, `Entry is already ${entry.status}`);
+        }
+
+        Object.assign(entry, {
+          status: "submitted",
+          organization_id: organizationId,
+          submitted_at: new Date().toISOString(),
+          reviewed_at: null,
+          rejection_reason: null,
+        });
+        touch(entry);
+        scheduleAutoReview(entry.id);
+        return toWire(entry);
+      },
+    ],
+    ["GET", /^\/pilots\/me$/, ({ user }) => ({ user: publicUser(user) })],
+    [
+      "GET",
+      /^\/pilots\/me\/organizations$/,
+      ({ user }) => ({
+        organizations: state.organizations.filter((organization) =>
+          user.organization_ids.includes(organization.id)
+        ),
+      }),
+    ],
+    [
+      "POST",
+      /^\/uploads$/,
+      ({ req, raw }) => {
+        const parts = parseMultipart(raw, req.headers["content-type"]);
+        const file = parts?.file;
+        if (!file) {
+          throw new HttpError(422, "file is required");
+        }
+
+        const checksum = crypto.createHash("sha256").update(file.data).digest("hex");
+        const claimed = parts.checksum?.data.toString();
+        if (claimed && claimed !== checksum) {
+          throw new HttpError(422, "Checksum mismatch");
+        }
+
+        if (!state.uploads.has(checksum)) {
+          state.uploads.set(checksum, {
+            id: state.nextUploadId++,
+            checksum,
+            size: file.data.length,
+            filename: file.filename,
+            content_type: file.type ?? "application/octet-stream",
+          });
+        }
+        return state.uploads.get(checksum);
+      },
+      201,
+    ],
+  ];
+
+  const publicRoutes = /^\/auth\/(login|refresh|logout|mfa\/|siwe\/)/;
+
+  const controlRoutes = [
+    [
+      "GET",
+      /^\/state$/,
+      () => ({
+        fault,
+        latency_ms: latencyMs,
+        users: state.users.map(publicUser),
+        entries: [...state.entries.values()].map(toWire),
+      }),
+    ],
+    [
+      "POST",
+      /^\/fault$/,
+      ({ body }) => {
+        const mode = body?.mode ?? "none";
+        if (!FAULT_MODES.includes(mode)) {
+          throw new HttpError(422, `mode must be one of ${FAULT_MODES.join(", ")}`);
+        }
+        setFault(mode, body?.count);
+        return { fault };
+      },
+    ],
+    [
+      "POST",
+      /^\/latency$/,
+      ({ body }) => {
+        latencyMs = Math.max(Number(body?.ms) || 0, 0);
+        return { latency_ms: latencyMs };
+      },
+    ],
+    [
+      "POST",
+      /^\/expire-tokens$/,
+      ({ body }) => {
+        state.accessTokens.clear();
+        if (body?.revoke) {
+          state.refreshTokens.clear();
+        }
+        return { success: true };
+      },
+    ],
+    [
+      "GET",
+      /^\/totp\/(.+)$/,
+      ({ params }) => {
+        const user = state.users.find(
+          (candidate) => candidate.email === decodeURIComponent(params[0])
+        );
+        if (!user?.totp_secret) {
+          throw new HttpError(404, "User has no two-factor secret");
+        }
+        return { code: generateTotp(user.totp_secret) };
+      },
+    ],
+    [
+      "POST",
+      /^\/entries\/(\d+)\/review$/,
+      ({ params, body }) => {
+        const entry = state.entries.get(Number(params[0]));
+        if (!entry) {
+          throw new HttpError(404, "Entry not found");
+        }
+        if (!REVIEW_STATUSES.includes(body?.status)) {
+          throw new HttpError(422, `status must be one of ${REVIEW_STATUSES.join(", ")}`);
+        }
+        return toWire(review(entry, body.status, body.reason));
+      },
+    ],
+    [
+      "POST",
+      /^\/reset$/,
+      () => {
+        reset();
+        return { success: true };
+      },
+    ],
+  ];
+
+  // ---------------------------------------------------------------- server
+
+  const dispatch = async (routes, path, context) => {
+    for (const [method, pattern, handler, status = 200] of routes) {
+      const match = pattern.exec(path);
+      if (match && method === context.req.method) {
+        return { status, body: await handler({ ...context, params: match.slice(1) }) };
+      }
+    }
+    throw new HttpError(404, `No route for ${context.req.method} ${path}`);
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const send = (status, body) => {
+      log(`${req.method} ${url.pathname} -> ${status}`);
+      if (body == null) {
+        res.writeHead(status);
+        res.end();
+        return;
+      }
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    try {
+      const raw = await readBody(req);
+      const isJson = (req.headers["content-type"] ?? "").includes("application/json");
+      const body = isJson && raw.length > 0 ? JSON.parse(raw.toString()) : undefined;
+      const context = { req, raw, body, query: url.searchParams };
+
+      if (url.pathname.startsWith(CONTROL_PREFIX)) {
+        const path = url.pathname.slice(CONTROL_PREFIX.length);
+        const response = await dispatch(controlRoutes, path, context);
+        send(response.status, response.body);
+        return;
+      }
+
+      if (!url.pathname.startsWith(API_PREFIX)) {
+        throw new HttpError(404, "Not found");
+      }
+
+      if (latencyMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, latencyMs));
+      }
+
+      if (fault.mode === "timeout") {
+        consumeFault();
+        log(`${req.method} ${url.pathname} -> (no response)`);
+        return;
+      }
+      if (fault.mode === "server_error") {
+        consumeFault();
+        throw new HttpError(500, "Simulated server error");
+      }
+
+      const path = url.pathname.slice(API_PREFIX.length);
+      const user = publicRoutes.test(path) ? undefined : authenticate(req);
+      const response = await dispatch(apiRoutes, path, { ...context, user });
+      if (fault.mode === "malformed" && response.body != null) {
+        // The request still takes effect; only the reply is garbled.
+        consumeFault();
+        send(response.status, { ok: true });
+        return;
+      }
+      send(response.status, response.body);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        send(error.status, { error: error.message, ...error.extra });
+      } else {
+        console.error("[mock] Unhandled error:", error);
+        send(500, { error: "Internal server error" });
+      }
+    }
+  });
+
+  function setFault(mode, count) {
+    fault = {
+      mode,
+      remaining: mode !== "none" && Number(count) > 0 ? Number(count) : null,
+    };
+    log(`fault mode: ${mode}${fault.remaining ? ` (next ${fault.remaining})` : ""}`);
+  }
+
+  function reset() {
+    reviewTimers.forEach(clearTimeout);
+    reviewTimers.clear();
+    state = createState();
+    fault = { mode: "none", remaining: null };
+  }
+
+  return {
+    server,
+    setFault,
+    reset,
+    get state() {
+      return state;
+    },
+    /** Start listening; resolves with the API base URL. */
+    listen(port = 3000, host = "127.0.0.1") {
+      return new Promise((resolve, reject) => {
+        server.once("error", reject);
+        server.listen(port, host, () => {
+          const address = server.address();
+          resolve(`http://${host}:${address.port}${API_PREFIX}`);
+        });
+      });
+    },
+    close() {
+      reviewTimers.forEach(clearTimeout);
+      reviewTimers.clear();
+      server.closeAllConnections();
+      return new Promise((resolve) => server.close(() => resolve()));
+    },
+  };
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on("data", (chunk) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+/** Minimal multipart/form-data reader: enough for the attachment upload. */
+function parseMultipart(buffer, contentType) {
+  const match = /boundary=(?:"([^"]+)"|([^;]+))/.exec(contentType ?? "");
+  if (!match) {
+    return null;
+  }
+
+  const boundary = Buffer.from(`--${match[1] ?? match[2]}`);
+  const parts = {};
+  let start = buffer.indexOf(boundary);
+
+  while (start !== -1) {
+    const next = buffer.indexOf(boundary, start + boundary.length);
+    if (next === -1) {
+      break;
+    }
+
+    // Each part sits between the CRLF after one boundary and the CRLF
+    // before the next.
+    const part = buffer.subarray(start + boundary.length + 2, next - 2);
+    const headerEnd = part.indexOf("\r\n\r\n");
+    if (headerEnd !== -1) {
+      const headers = part.subarray(0, headerEnd).toString();
+      const name = /name="([^"]*)"/.exec(headers)?.[1];
+      if (name) {
+        parts[name] = {
+          filename: /filename="([^"]*)"/.exec(headers)?.[1],
+          type: /content-type:\s*([^\r\n]+)/i.exec(headers)?.[1],
+          data: part.subarray(headerEnd + 4),
+        };
+      }
+    }
+    start = next;
+  }
+
+  return parts;
+}
+
+module.exports = { createMockServer, FAULT_MODES };
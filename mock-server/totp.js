@@ -0,0 +1,50 @@
+"use strict";
+
+const crypto = require("crypto");
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+
+function decodeBase32(secret) {
+  const clean = secret.replace(/=+$/, "").replace(/\s+/g, "").toUpperCase();
+  let bits = "";
+  for (const char of clean) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    bits += value.toString(2).padStart(5, "0");
+  }
+
+  const bytes = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) {
+    bytes.push(parseInt(bits.slice(i, i + 8), 2));
+  }
+  return Buffer.from(bytes);
+}
+
+/** RFC 6238 code (HMAC-SHA1, 6 digits, 30 s step) for the given time. */
+function generateTotp(secret, timeMs = Date.now()) {
+  const counter = Math.floor(timeMs / 1000 / STEP_SECONDS);
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac("sha1", decodeBase32(secret)).update(message).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, "0");
+}
+
+/** Accept the current code and one step either side for clock drift. */
+function verifyTotp(secret, code, timeMs = Date.now()) {
+  if (typeof code !== "string" || !/^\d{6}$/.test(code)) {
+    return false;
+  }
+
+  return [-1, 0, 1].some(
+    (drift) => generateTotp(secret, timeMs + drift * STEP_SECONDS * 1000) === code
+  );
+}
+
+module.exports = { generateTotp, verifyTotp };
@@ -22,6 +22,7 @@ import DateTimePicker from "@react-native-community/datetimepicker";
 import * as ImagePicker from "expo-image-picker";
 import { useNavigation, useRoute } from "@react-navigation/native";
 import { useAuth } from "../contexts/AuthContext";
+import { useSync } from "../contexts/SyncContext";
 import { useTheme } from "../contexts/ThemeContext";
 import database, {
   AdditionalFlightData,
@@ -29,10 +30,14 @@ import database, {
   FlightEntry,
 } from "../services/database";
 import { showMessage } from "react-native-flash-message";
+import OrganizationPicker from "../components/OrganizationPicker";
+import SubmissionService, { Organization } from "../services/submissionService";
+import AttachmentService from "../services/attachmentService";
 import AirportAutocomplete, {
   useAirportSelection,
 } from "../components/AirportAutocomplete";
 import { NightTimeCalculator } from "../utils/nightTimeCalculator";
+import { canSubmit } from "../utils/entryStatus";
 import {
   calculateFlightDuration,
   decimalToHoursMinutes,
@@ -73,6 +78,7 @@ export default function AddFlightScreen() {
   const navigation = useNavigation<any>();
   const route = useRoute<any>();
   const { user } = useAuth();
+  const { scheduleSync } = useSync();
   const { theme } = useTheme();
 
   const params = route.params as RouteParams | undefined;
@@ -90,6 +96,15 @@ export default function AddFlightScreen() {
 
   const [saving, setSaving] = useState(false);
   const [isEditMode, setIsEditMode] = useState(false);
+  const [entryStatus, setEntryStatus] = useState<FlightEntry["status"]>("draft");
+  const [entrySyncStatus, setEntrySyncStatus] =
+    useState<FlightEntry["syncStatus"]>("pending");
+  const [savedNight, setSavedNight] = useState<Pick<
+    FlightEntry,
+    "nightTime" | "nightTimeMethod" | "nightTimeCalculatedAt"
+  > | null>(null);
+  // Saved entry waiting for the pilot to pick an organization to submit to.
+  const [submittingId, setSubmittingId] = useState<number | null>(null);
 
   const [flightDate, setFlightDate] = useState(new Date());
   const [showDatePicker, setShowDatePicker] = useState(false);
@@ -120,6 +135,8 @@ export default function AddFlightScreen() {
   const [landingsNight, setLandingsNight] = useState("");
   const [remarks, setRemarks] = useState("");
   const [attachments, setAttachments] = useState<Attachment[]>([]);
+  // Copies the saved entry still lists are deleted once the form is saved.
+  const [removedAttachments, setRemovedAttachments] = useState<Attachment[]>([]);
 
   useEffect(() => {
     if (entryId) {
@@ -320,6 +337,9 @@ export default function AddFlightScreen() {
       setDepartureAirport(depAirport);
       setArrivalAirport(arrAirport);
 
+      setEntryStatus(entry.status);
+      setEntrySyncStatus(entry.syncStatus);
+      setSavedNight(entry);
       setFlightDate(new Date(entry.flightDate));
       setAircraftReg(entry.aircraftReg);
       setAircraftType(entry.aircraftType ?? "");
@@ -514,6 +534,21 @@ export default function AddFlightScreen() {
       setter(digitsOnly.slice(0, 4));
     };
 
+  const addAttachment = (asset: ImagePicker.ImagePickerAsset) => {
+    const filename = asset.fileName ?? `photo_${Date.now()}.jpg`;
+    try {
+      const newAttachment: Attachment = {
+        uri: AttachmentService.keepLocalCopy(asset.uri, filename),
+        filename,
+        size: asset.fileSize ?? 0,
+      };
+      setAttachments((prev) => [...prev, newAttachment]);
+    } catch (error) {
+      console.error("Failed to store attachment:", error);
+      showMessage({ message: "Could not attach the photo", type: "danger" });
+    }
+  };
+
   const pickImage = async () => {
     const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
     if (!permission.granted) {
@@ -531,13 +566,7 @@ export default function AddFlightScreen() {
     });
 
     if (!result.canceled && result.assets?.[0]) {
-      const asset = result.assets[0];
-      const newAttachment: Attachment = {
-        uri: asset.uri,
-        filename: asset.fileName ?? `photo_${Date.now()}.jpg`,
-        size: asset.fileSize ?? 0,
-      };
-      setAttachments((prev) => [...prev, newAttachment]);
+      addAttachment(result.assets[0]);
     }
   };
 
@@ -554,21 +583,21 @@ export default function AddFlightScreen() {
     });
 
     if (!result.canceled && result.assets?.[0]) {
-      const asset = result.assets[0];
-      const newAttachment: Attachment = {
-        uri: asset.uri,
-        filename: asset.fileName ?? `photo_${Date.now()}.jpg`,
-        size: asset.fileSize ?? 0,
-      };
-      setAttachments((prev) => [...prev, newAttachment]);
+      addAttachment(result.assets[0]);
     }
   };
 
   const removeAttachment = (index: number) => {
+    const removed = attachments[index];
     setAttachments((prev) => prev.filter((_, i) => i !== index));
+    setRemovedAttachments((prev) => [...prev, removed]);
+    // A photo picked since the last save is listed nowhere, so it goes now.
+    AttachmentService.deleteLocalCopies([removed]).catch((error) =>
+      console.warn("Failed to delete attachment:", error)
+    );
   };
 
-  const handleSave = async (asDraft = true) => {
+  const handleSave = async (submit = false) => {
     if (!user) {
       showMessage({
         message: "You must be logged in to log a flight",
@@ -653,10 +682,15 @@ export default function AddFlightScreen() {
       }
 
       const currentNightMethod = autoCalculateNight ? nightTimeMethod : "manual";
+      // An unchanged night time keeps its calculation time, so re-saving the
+      // form does not change the entry's content.
+      const nightUnchanged =
+        savedNight?.nightTime === nightTime &&
+        savedNight.nightTimeMethod === currentNightMethod;
 
       const payload: Omit<FlightEntry, "id" | "createdAt" | "updatedAt"> = {
         pilotId: user.id,
-        status: asDraft ? "draft" : "submitted",
+        status: "draft",
         flightDate: dateStr,
         aircraftReg: aircraftReg.toUpperCase().trim(),
         aircraftType: aircraftType.trim() || undefined,
@@ -681,25 +715,40 @@ export default function AddFlightScreen() {
           attachments.length > 0 ? JSON.stringify(attachments) : undefined,
         nightTimeMethod: currentNightMethod,
         nightTimeCalculatedAt:
-          currentNightMethod !== "manual" ? new Date().toISOString() : undefined,
+          currentNightMethod === "manual"
+            ? undefined
+            : nightUnchanged
+              ? savedNight.nightTimeCalculatedAt
+              : new Date().toISOString(),
         additionalData:
           Object.keys(additionalData).length > 0
             ? JSON.stringify(additionalData)
             : undefined,
-        syncStatus: "pending",
+        // An open conflict holds the entry back until the pilot resolves it.
+        syncStatus: entrySyncStatus === "conflict" ? "conflict" : "pending",
       };
 
+      let savedId: number;
       if (isEditMode && entryId) {
-        await database.updateEntry(entryId, payload);
-        showMessage({ message: "Flight entry updated", type: "success" });
+        // Editing never changes the review status; resubmitting does.
+        const { status: _status, ...changes } = payload;
+        savedId = await database.updateEntry(entryId, changes);
       } else {
-        await database.createEntry(payload);
-        showMessage({
-          message: `Flight entry ${asDraft ? "saved as draft" : "saved"}`,
-          type: "success",
-        });
+        savedId = await database.createEntry(payload);
       }
+      await AttachmentService.deleteLocalCopies(removedAttachments);
+
+      scheduleSync();
 
+      if (submit) {
+        setSubmittingId(savedId);
+        return;
+      }
+
+      showMessage({
+        message: isEditMode ? "Flight entry updated" : "Flight entry saved as draft",
+        type: "success",
+      });
       navigation.goBack();
     } catch (error) {
       console.error("Save error:", error);
@@ -709,6 +758,37 @@ export default function AddFlightScreen() {
     }
   };
 
+  const handleSubmitTo = async (organization: Organization) => {
+    const id = submittingId!;
+    setSubmittingId(null);
+    setSaving(true);
+
+    try {
+      await SubmissionService.submit(id, organization.id);
+      showMessage({
+        message: `Flight entry submitted to ${organization.name}`,
+        type: "success",
+      });
+      navigation.goBack();
+    } catch (error) {
+      console.error("Submit error:", error);
+      showMessage({
+        message: "Saved, but the entry could not be submitted",
+        description: error instanceof Error ? error.message : undefined,
+        type: "warning",
+      });
+      navigation.goBack();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSubmitCancel = () => {
+    setSubmittingId(null);
+    showMessage({ message: "Flight entry saved; not submitted", type: "info" });
+    navigation.goBack();
+  };
+
   const styles = useMemo(
     () =>
       StyleSheet.create({
@@ -1412,19 +1492,27 @@ export default function AddFlightScreen() {
 
         <View style={styles.buttonContainer}>
           <Button
-            title="Save as Draft"
-            onPress={() => handleSave(true)}
-            loading={saving}
-            buttonStyle={styles.draftButton}
-          />
-          <Button
-            title={isEditMode ? "Update" : "Save"}
+            title={isEditMode ? "Save Changes" : "Save as Draft"}
             onPress={() => handleSave(false)}
             loading={saving}
-            buttonStyle={styles.saveButton}
+            buttonStyle={styles.draftButton}
           />
+          {canSubmit(entryStatus) ? (
+            <Button
+              title={entryStatus === "rejected" ? "Save & Resubmit" : "Save & Submit"}
+              onPress={() => handleSave(true)}
+              loading={saving}
+              buttonStyle={styles.saveButton}
+            />
+          ) : null}
         </View>
 
+        <OrganizationPicker
+          visible={submittingId !== null}
+          onSelect={handleSubmitTo}
+          onCancel={handleSubmitCancel}
+        />
+
         <View style={styles.bottomPadding} />
       </ScrollView>
     </KeyboardAvoidingView>
@@ -0,0 +1,332 @@
+import React, { useCallback, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { Button, Card, Divider, Icon, Text } from "@rneui/themed";
+import { format } from "date-fns";
+import { useFocusEffect } from "@react-navigation/native";
+import { showMessage } from "react-native-flash-message";
+import ConflictService, {
+  CONFLICT_FIELDS,
+  ConflictDetail,
+  ConflictField,
+  ConflictResolution,
+  ConflictSide,
+} from "../services/conflictService";
+import { useSync } from "../contexts/SyncContext";
+import { useTheme } from "../contexts/ThemeContext";
+
+const TIME_FIELDS: ConflictField[] = [
+  "picTime",
+  "sicTime",
+  "dualTime",
+  "nightTime",
+  "instrumentTime",
+  "totalTime",
+];
+
+const UTC_FIELDS: ConflictField[] = [
+  "departureTimeUtc",
+  "arrivalTimeUtc",
+  "nightTimeCalculatedAt",
+];
+
+const fieldLabel = (key: ConflictField) =>
+  CONFLICT_FIELDS.find((field) => field.key === key)?.label ?? key;
+
+const formatValue = (key: ConflictField, value: unknown) => {
+  if (value === undefined || value === null || value === "") {
+    return "—";
+  }
+  if (TIME_FIELDS.includes(key) && typeof value === "number") {
+    return `${Math.floor(value / 60)}h ${value % 60}m`;
+  }
+  if (UTC_FIELDS.includes(key) && typeof value === "string") {
+    return `${value.slice(0, 16).replace("T", " ")}Z`;
+  }
+  return String(value);
+};
+
+export default function ConflictResolutionScreen() {
+  const { theme } = useTheme();
+  const { refreshStats } = useSync();
+
+  const [conflicts, setConflicts] = useState<ConflictDetail[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [resolvingId, setResolvingId] = useState<number | null>(null);
+  // Per-conflict field picks for a merge; unpicked fields keep the local value.
+  const [picks, setPicks] = useState<
+    Record<number, Partial<Record<ConflictField, ConflictSide>>>
+  >({});
+
+  const loadConflicts = useCallback(async () => {
+    try {
+      setConflicts(await ConflictService.getOpenConflicts());
+    } catch (error) {
+      console.error("Failed to load conflicts:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadConflicts();
+    }, [loadConflicts])
+  );
+
+  const styles = useMemo(
+    () =>
+      StyleSheet.create({
+        container: {
+          flex: 1,
+          backgroundColor: theme.colors.background,
+        },
+        loadingContainer: {
+          flex: 1,
+          justifyContent: "center",
+          alignItems: "center",
+          backgroundColor: theme.colors.background,
+        },
+        emptyContainer: {
+          alignItems: "center",
+          padding: 40,
+        },
+        emptyText: {
+          marginTop: 12,
+          fontSize: 16,
+          color: theme.colors.textSecondary,
+          textAlign: "center",
+        },
+        card: {
+          borderRadius: 12,
+          marginHorizontal: 16,
+          marginTop: 16,
+          backgroundColor: theme.colors.card,
+          borderWidth: StyleSheet.hairlineWidth,
+          borderColor: theme.colors.border,
+          shadowColor: "#000",
+          shadowOffset: { width: 0, height: 2 },
+          shadowOpacity: 0.1,
+          shadowRadius: 4,
+          elevation: 3,
+        },
+        cardTitle: {
+          fontSize: 12,
+          fontWeight: "bold",
+          color: theme.colors.textSecondary,
+          letterSpacing: 1,
+        },
+        subtitle: {
+          fontSize: 12,
+          color: theme.colors.textSecondary,
+          textAlign: "center",
+        },
+        divider: {
+          marginVertical: 10,
+          backgroundColor: theme.colors.border,
+        },
+        headerRow: {
+          flexDirection: "row",
+          paddingBottom: 6,
+        },
+        fieldRow: {
+          flexDirection: "row",
+          alignItems: "stretch",
+          paddingVertical: 4,
+        },
+        fieldLabel: {
+          width: 90,
+          fontSize: 13,
+          color: theme.colors.textSecondary,
+          alignSelf: "center",
+        },
+        columnLabel: {
+          flex: 1,
+          fontSize: 11,
+          fontWeight: "bold",
+          color: theme.colors.textSecondary,
+          textAlign: "center",
+          letterSpacing: 1,
+        },
+        option: {
+          flex: 1,
+          marginLeft: 6,
+          padding: 8,
+          borderRadius: 8,
+          borderWidth: 1,
+          borderColor: theme.colors.border,
+          backgroundColor: theme.colors.background,
+        },
+        optionSelected: {
+          borderColor: theme.colors.primary,
+        },
+        optionText: {
+          fontSize: 13,
+          color: theme.colors.text,
+          textAlign: "center",
+        },
+        actions: {
+          flexDirection: "row",
+          justifyContent: "space-between",
+          marginTop: 12,
+        },
+        actionButton: {
+          borderRadius: 8,
+          paddingVertical: 10,
+        },
+        actionContainer: {
+          flex: 1,
+          marginHorizontal: 4,
+        },
+        note: {
+          fontSize: 12,
+          color: theme.colors.textSecondary,
+          marginTop: 8,
+        },
+      }),
+    [theme]
+  );
+
+  const pick = (conflictId: number, field: ConflictField, side: ConflictSide) => {
+    setPicks((current) => ({
+      ...current,
+      [conflictId]: { ...current[conflictId], [field]: side },
+    }));
+  };
+
+  const resolve = async (conflictId: number, resolution: ConflictResolution) => {
+    setResolvingId(conflictId);
+    try {
+      await ConflictService.resolve(conflictId, resolution);
+      showMessage({ message: "Conflict resolved", type: "success" });
+      await loadConflicts();
+      await refreshStats();
+    } catch (error: any) {
+      console.error("Resolve conflict error:", error);
+      showMessage({
+        message: error?.message || "Failed to resolve conflict",
+        type: "danger",
+      });
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={theme.colors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container}>
+      {conflicts.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Icon
+            name="checkmark-circle"
+            type="ionicon"
+            color={theme.colors.success}
+            size={48}
+          />
+          <Text style={styles.emptyText}>No conflicts to resolve</Text>
+        </View>
+      ) : null}
+
+      {conflicts.map(({ conflict, local, server, differingFields }) => {
+        const selection = picks[conflict.id] ?? {};
+        const busy = resolvingId === conflict.id;
+
+        return (
+          <Card key={conflict.id} containerStyle={styles.card}>
+            <Card.Title style={styles.cardTitle}>
+              {local.aircraftReg} · {local.flightDate}
+            </Card.Title>
+            <Text style={styles.subtitle}>
+              Detected {format(new Date(conflict.detectedAt), "MMM dd, yyyy hh:mm a")}
+            </Text>
+            <Divider style={styles.divider} />
+
+            <View style={styles.headerRow}>
+              <View style={{ width: 90 }} />
+              <Text style={styles.columnLabel}>MINE</Text>
+              <Text style={styles.columnLabel}>SERVER</Text>
+            </View>
+
+            {differingFields.map((field) => {
+              const side = selection[field] ?? "local";
+              return (
+                <View key={field} style={styles.fieldRow}>
+                  <Text style={styles.fieldLabel}>{fieldLabel(field)}</Text>
+                  <TouchableOpacity
+                    style={[styles.option, side === "local" && styles.optionSelected]}
+                    onPress={() => pick(conflict.id, field, "local")}
+                  >
+                    <Text style={styles.optionText}>
+                      {formatValue(field, local[field])}
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.option, side === "server" && styles.optionSelected]}
+                    onPress={() => pick(conflict.id, field, "server")}
+                  >
+                    <Text style={styles.optionText}>
+                      {formatValue(field, server[field])}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              );
+            })}
+
+            {differingFields.length === 0 ? (
+              <Text style={styles.note}>
+                Both copies now match. Keep yours to clear the conflict.
+              </Text>
+            ) : (
+              <Text style={styles.note}>
+                Tap a value to pick it for a merge. Kept and merged changes are
+                pushed on the next sync.
+              </Text>
+            )}
+
+            <View style={styles.actions}>
+              <Button
+                title="Keep Mine"
+                type="outline"
+                disabled={busy}
+                onPress={() => resolve(conflict.id, "local")}
+                buttonStyle={styles.actionButton}
+                containerStyle={styles.actionContainer}
+              />
+              <Button
+                title="Use Server"
+                type="outline"
+                disabled={busy}
+                onPress={() => resolve(conflict.id, "server")}
+                buttonStyle={styles.actionButton}
+                containerStyle={styles.actionContainer}
+              />
+              <Button
+                title="Merge"
+                loading={busy}
+                disabled={busy || differingFields.length === 0}
+                onPress={() => resolve(conflict.id, selection)}
+                buttonStyle={[
+                  styles.actionButton,
+                  { backgroundColor: theme.colors.primary },
+                ]}
+                containerStyle={styles.actionContainer}
+              />
+            </View>
+          </Card>
+        );
+      })}
+    </ScrollView>
+  );
+}
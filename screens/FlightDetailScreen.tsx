@@ -2,6 +2,7 @@ import React, { useEffect, useMemo, useState } from "react";
 import {
   ActivityIndicator,
   Alert,
+  Linking,
   Platform,
   ScrollView,
   StyleSheet,
@@ -17,6 +18,16 @@ import {
 import { format } from "date-fns";
 import { useNavigation, useRoute } from "@react-navigation/native";
 import database, { FlightEntry } from "../services/database";
+import AttachmentService, { parseAttachments } from "../services/attachmentService";
+import IntegrityService from "../services/integrityService";
+import MerkleService, { InclusionResult } from "../services/merkleService";
+import AnchorService, {
+  AnchorVerificationResult,
+} from "../services/anchorService";
+import SigningService from "../services/signingService";
+import SubmissionService, { Organization } from "../services/submissionService";
+import OrganizationPicker from "../components/OrganizationPicker";
+import { canSubmit, isEditableStatus } from "../utils/entryStatus";
 import { useTheme } from "../contexts/ThemeContext";
 import { showMessage } from "react-native-flash-message";
 
@@ -29,6 +40,11 @@ export default function FlightDetailScreen() {
   const [entry, setEntry] = useState<FlightEntry | null>(null);
   const [loading, setLoading] = useState(true);
   const [deleting, setDeleting] = useState(false);
+  const [inclusion, setInclusion] = useState<InclusionResult | null>(null);
+  const [anchor, setAnchor] = useState<AnchorVerificationResult | null>(null);
+  const [verifyingAnchor, setVerifyingAnchor] = useState(false);
+  const [pickingOrganization, setPickingOrganization] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
 
   useEffect(() => {
     const loadEntry = async () => {
@@ -38,6 +54,9 @@ export default function FlightDetailScreen() {
           throw new Error("Entry not found");
         }
         setEntry(data);
+        if (data.batchId) {
+          setInclusion(await MerkleService.verifyInclusion(entryId));
+        }
       } catch (error) {
         console.error("Failed to load entry:", error);
         showMessage({ message: "Failed to load entry", type: "danger" });
@@ -50,6 +69,31 @@ export default function FlightDetailScreen() {
     loadEntry();
   }, [entryId, navigation]);
 
+  useEffect(() => {
+    if (entry?.status !== "anchored" || !entry.id) {
+      return;
+    }
+
+    let isMounted = true;
+    setVerifyingAnchor(true);
+
+    AnchorService.verifyAnchor(entry.id)
+      .then((result) => {
+        if (isMounted) {
+          setAnchor(result);
+        }
+      })
+      .finally(() => {
+        if (isMounted) {
+          setVerifyingAnchor(false);
+        }
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [entry?.id, entry?.status]);
+
   const styles = useMemo(
     () =>
       StyleSheet.create({
@@ -127,6 +171,26 @@ export default function FlightDetailScreen() {
           flex: 1,
           textAlign: "right",
         },
+        rejectionReason: {
+          fontSize: 14,
+          color: theme.colors.text,
+          lineHeight: 20,
+          marginTop: 4,
+        },
+        submitButton: {
+          backgroundColor: theme.colors.success,
+          borderRadius: 8,
+          paddingVertical: 12,
+        },
+        submitButtonContainer: {
+          marginHorizontal: 22,
+          marginTop: 20,
+        },
+        verificationNote: {
+          fontSize: 12,
+          color: theme.colors.error,
+          textAlign: "right",
+        },
         timeGrid: {
           flexDirection: "row",
           flexWrap: "wrap",
@@ -211,6 +275,8 @@ export default function FlightDetailScreen() {
         return theme.colors.primary;
       case "approved":
         return theme.colors.success;
+      case "rejected":
+        return theme.colors.error;
       case "anchored":
         return theme.colors.info;
       case "draft":
@@ -219,13 +285,67 @@ export default function FlightDetailScreen() {
     }
   }, [entry?.status, theme.colors]);
 
+  const integrity = useMemo(
+    () => (entry ? IntegrityService.verifyEntry(entry) : null),
+    [entry]
+  );
+
+  const signatureLabel = useMemo(() => {
+    switch (entry ? SigningService.verifyEntry(entry) : null) {
+      case "valid":
+        return { text: "Signed by pilot", color: theme.colors.success };
+      case "invalid":
+        return { text: "Signature invalid", color: theme.colors.error };
+      case "unsigned":
+        return { text: "Not signed yet", color: theme.colors.textSecondary };
+      default:
+        return null;
+    }
+  }, [entry, theme.colors]);
+
+  const anchorStatusLabel = useMemo(() => {
+    switch (anchor?.status) {
+      case "verified":
+        return { text: "Verified on-chain", color: theme.colors.success };
+      case "not_found":
+        return { text: "Transaction not found", color: theme.colors.error };
+      case "mismatch":
+        return { text: "Verification failed", color: theme.colors.error };
+      case "unreachable":
+        return { text: "RPC unreachable", color: theme.colors.warning };
+      case "missing":
+        return { text: "No receipt stored", color: theme.colors.textSecondary };
+      default:
+        return null;
+    }
+  }, [anchor?.status, theme.colors]);
+
+  const explorerUrl = anchor?.receipt
+    ? AnchorService.getExplorerUrl(anchor.receipt)
+    : null;
+
   const handleEdit = () => {
     if (!entry) {
       return;
     }
 
-    if (entry.status === "draft" || entry.status === "submitted") {
+    if (entry.supersededBy) {
+      Alert.alert(
+        "Cannot Edit",
+        "This version has been superseded. Edit the latest version instead.",
+        [{ text: "OK" }]
+      );
+      return;
+    }
+
+    if (isEditableStatus(entry.status)) {
       navigation.navigate("AddFlight", { entryId: entry.id });
+    } else if (entry.status === "submitted") {
+      Alert.alert(
+        "Cannot Edit",
+        "This entry is being reviewed. You can edit it if it is sent back to you.",
+        [{ text: "OK" }]
+      );
     } else {
       Alert.alert(
         "Cannot Edit",
@@ -235,6 +355,31 @@ export default function FlightDetailScreen() {
     }
   };
 
+  const handleSubmitTo = async (organization: Organization) => {
+    if (!entry?.id) {
+      return;
+    }
+
+    setPickingOrganization(false);
+    setSubmitting(true);
+    try {
+      setEntry(await SubmissionService.submit(entry.id, organization.id));
+      showMessage({
+        message: `Submitted to ${organization.name}`,
+        type: "success",
+      });
+    } catch (error) {
+      console.error("Submit error:", error);
+      showMessage({
+        message: "Failed to submit entry",
+        description: error instanceof Error ? error.message : undefined,
+        type: "danger",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
   const handleDelete = () => {
     if (!entry) {
       return;
@@ -256,6 +401,8 @@ export default function FlightDetailScreen() {
           setDeleting(true);
           try {
             await database.deleteEntry(entryId);
+            // A tombstone still lists its photos; sync deletes them after the server does.
+            await AttachmentService.deleteLocalCopies(parseAttachments(entry.attachments));
             showMessage({ message: "Entry deleted", type: "success" });
             navigation.goBack();
           } catch (error) {
@@ -292,9 +439,42 @@ export default function FlightDetailScreen() {
         <Text style={styles.statusText}>
           {entry.status.toUpperCase()}
           {entry.syncStatus === "pending" ? " • PENDING SYNC" : ""}
+          {entry.syncStatus === "conflict" ? " • SYNC CONFLICT" : ""}
+          {entry.syncStatus === "error" ? " • SYNC FAILED" : ""}
         </Text>
       </View>
 
+      {entry.status === "rejected" ? (
+        <Card containerStyle={styles.card}>
+          <Card.Title style={styles.cardTitle}>RETURNED BY REVIEWER</Card.Title>
+          <Divider style={styles.divider} />
+          <Text style={styles.rejectionReason}>
+            {entry.rejectionReason || "No reason was given."}
+          </Text>
+          {entry.reviewedAt ? (
+            <View style={styles.infoRow}>
+              <Text style={styles.label}>Reviewed</Text>
+              <Text style={styles.value}>
+                {format(new Date(entry.reviewedAt), "MMM dd, yyyy HH:mm")}
+              </Text>
+            </View>
+          ) : null}
+        </Card>
+      ) : null}
+
+      {entry.status === "submitted" && entry.submittedAt ? (
+        <Card containerStyle={styles.card}>
+          <Card.Title style={styles.cardTitle}>REVIEW</Card.Title>
+          <Divider style={styles.divider} />
+          <View style={styles.infoRow}>
+            <Text style={styles.label}>Submitted</Text>
+            <Text style={styles.value}>
+              {format(new Date(entry.submittedAt), "MMM dd, yyyy HH:mm")}
+            </Text>
+          </View>
+        </Card>
+      ) : null}
+
       <Card containerStyle={styles.card}>
         <Card.Title style={styles.cardTitle}>FLIGHT INFORMATION</Card.Title>
         <Divider style={styles.divider} />
@@ -388,28 +568,173 @@ export default function FlightDetailScreen() {
               {entry.entryHash}
             </Text>
           </View>
+          {integrity ? (
+            <View style={styles.infoRow}>
+              <Text style={styles.label}>Integrity</Text>
+              <Text
+                style={[
+                  styles.value,
+                  {
+                    color:
+                      integrity.status === "valid"
+                        ? theme.colors.success
+                        : theme.colors.error,
+                  },
+                ]}
+              >
+                {integrity.status === "valid" ? "Hash verified" : "Hash mismatch"}
+              </Text>
+            </View>
+          ) : null}
+          {signatureLabel ? (
+            <View style={styles.infoRow}>
+              <Text style={styles.label}>Signature</Text>
+              <Text style={[styles.value, { color: signatureLabel.color }]}>
+                {signatureLabel.text}
+              </Text>
+            </View>
+          ) : null}
+          {entry.signerPublicKey ? (
+            <View style={styles.infoRow}>
+              <Text style={styles.label}>Signer Key</Text>
+              <Text style={styles.hashValue} numberOfLines={1} ellipsizeMode="middle">
+                {entry.signerPublicKey}
+              </Text>
+            </View>
+          ) : null}
           {entry.batchId ? (
             <View style={styles.infoRow}>
               <Text style={styles.label}>Batch ID</Text>
               <Text style={styles.value}>#{entry.batchId}</Text>
             </View>
           ) : null}
+          {inclusion ? (
+            <View style={styles.infoRow}>
+              <Text style={styles.label}>Inclusion Proof</Text>
+              <Text
+                style={[
+                  styles.value,
+                  {
+                    color: inclusion.valid
+                      ? theme.colors.success
+                      : theme.colors.error,
+                  },
+                ]}
+              >
+                {inclusion.valid ? "Proof valid" : "Proof invalid"}
+              </Text>
+            </View>
+          ) : null}
+          {inclusion && !inclusion.valid && inclusion.reason ? (
+            <Text style={styles.verificationNote}>{inclusion.reason}</Text>
+          ) : null}
           {entry.version ? (
             <View style={styles.infoRow}>
               <Text style={styles.label}>Version</Text>
               <Text style={styles.value}>{entry.version}</Text>
             </View>
           ) : null}
+          {entry.chainSeq ? (
+            <>
+              <View style={styles.infoRow}>
+                <Text style={styles.label}>Chain Position</Text>
+                <Text style={styles.value}>#{entry.chainSeq}</Text>
+              </View>
+              <View style={styles.infoRow}>
+                <Text style={styles.label}>Chain Hash</Text>
+                <Text style={styles.hashValue} numberOfLines={1} ellipsizeMode="middle">
+                  {entry.chainHash}
+                </Text>
+              </View>
+            </>
+          ) : null}
+          {entry.supersededBy ? (
+            <Text style={styles.verificationNote}>
+              Superseded by a newer version of this entry
+            </Text>
+          ) : null}
+        </Card>
+      ) : null}
+
+      {entry.status === "anchored" ? (
+        <Card containerStyle={styles.card}>
+          <Card.Title style={styles.cardTitle}>ON-CHAIN ANCHOR</Card.Title>
+          <Divider style={styles.divider} />
+          {verifyingAnchor ? (
+            <ActivityIndicator color={theme.colors.primary} />
+          ) : null}
+          {anchor?.receipt ? (
+            <>
+              <View style={styles.infoRow}>
+                <Text style={styles.label}>Chain ID</Text>
+                <Text style={styles.value}>{anchor.receipt.chainId}</Text>
+              </View>
+              <View style={styles.infoRow}>
+                <Text style={styles.label}>Transaction</Text>
+                <Text style={styles.hashValue} numberOfLines={1} ellipsizeMode="middle">
+                  {anchor.receipt.txHash}
+                </Text>
+              </View>
+              <View style={styles.infoRow}>
+                <Text style={styles.label}>Block</Text>
+                <Text style={styles.value}>{anchor.receipt.blockNumber}</Text>
+              </View>
+              <View style={styles.infoRow}>
+                <Text style={styles.label}>Merkle Root</Text>
+                <Text style={styles.hashValue} numberOfLines={1} ellipsizeMode="middle">
+                  {anchor.receipt.merkleRoot}
+                </Text>
+              </View>
+            </>
+          ) : null}
+          {anchorStatusLabel ? (
+            <View style={styles.infoRow}>
+              <Text style={styles.label}>Status</Text>
+              <Text style={[styles.value, { color: anchorStatusLabel.color }]}>
+                {anchorStatusLabel.text}
+                {anchor?.confirmations
+                  ? ` (${anchor.confirmations} conf.)`
+                  : ""}
+              </Text>
+            </View>
+          ) : null}
+          {anchor?.reason && anchor.status !== "verified" ? (
+            <Text style={styles.verificationNote}>{anchor.reason}</Text>
+          ) : null}
+          {explorerUrl ? (
+            <Button
+              title="View on Explorer"
+              type="clear"
+              onPress={() => Linking.openURL(explorerUrl)}
+              icon={{
+                name: "open-outline",
+                type: "ionicon",
+                color: theme.colors.primary,
+                size: 16,
+              }}
+              iconRight
+            />
+          ) : null}
         </Card>
       ) : null}
 
+      {canSubmit(entry.status) && !entry.supersededBy ? (
+        <Button
+          title={entry.status === "rejected" ? "Resubmit for Review" : "Submit for Review"}
+          onPress={() => setPickingOrganization(true)}
+          loading={submitting}
+          buttonStyle={styles.submitButton}
+          containerStyle={styles.submitButtonContainer}
+        />
+      ) : null}
+
       <View style={styles.buttonContainer}>
         <Button
           title="Edit"
           onPress={handleEdit}
           buttonStyle={styles.editButton}
           containerStyle={styles.button}
-          disabled={entry.status === "approved" || entry.status === "anchored"}
+          disabled={!isEditableStatus(entry.status)}
         />
         <Button
           title="Delete"
@@ -421,6 +746,28 @@ export default function FlightDetailScreen() {
         />
       </View>
 
+      {entry.clientUuid ? (
+        <Button
+          title="Sync History"
+          type="clear"
+          onPress={() =>
+            navigation.navigate("SyncHistory", { clientUuid: entry.clientUuid })
+          }
+          icon={{
+            name: "time-outline",
+            type: "ionicon",
+            color: theme.colors.primary,
+            size: 16,
+          }}
+        />
+      ) : null}
+
+      <OrganizationPicker
+        visible={pickingOrganization}
+        onSelect={handleSubmitTo}
+        onCancel={() => setPickingOrganization(false)}
+      />
+
       <View style={styles.bottomPadding} />
     </ScrollView>
   );
@@ -0,0 +1,85 @@
+import React, { useMemo, useState } from "react";
+import { StyleSheet, View } from "react-native";
+import { showMessage } from "react-native-flash-message";
+import { useAppLock } from "../contexts/AppLockContext";
+import { useTheme } from "../contexts/ThemeContext";
+import PinPad from "../components/PinPad";
+import { WIPE_AFTER_ATTEMPTS } from "../services/appLockService";
+
+// Warn once this few attempts are left before the wipe.
+const WIPE_WARNING_THRESHOLD = 3;
+
+/**
+ * Covers the whole app while it is locked, and while the lock settings are
+ * still loading so nothing shows before we know whether to lock.
+ */
+export default function LockScreen() {
+  const { ready, locked, failedAttempts, unlock } = useAppLock();
+  const { theme } = useTheme();
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const styles = useMemo(
+    () =>
+      StyleSheet.create({
+        overlay: {
+          ...StyleSheet.absoluteFillObject,
+          justifyContent: "center",
+          alignItems: "center",
+          backgroundColor: theme.colors.background,
+        },
+      }),
+    [theme]
+  );
+
+  if (ready && !locked) {
+    return null;
+  }
+  if (!ready) {
+    return <View style={styles.overlay} />;
+  }
+
+  const remaining = WIPE_AFTER_ATTEMPTS - failedAttempts;
+  // Also shown after a restart, since the count of wrong PINs survives it.
+  const wipeWarning =
+    failedAttempts > 0 && remaining <= WIPE_WARNING_THRESHOLD
+      ? `${remaining} ${remaining === 1 ? "attempt" : "attempts"} left before all local data is erased.`
+      : null;
+
+  const handleSubmit = async (pin: string) => {
+    setBusy(true);
+    try {
+      const result = await unlock(pin);
+      if (result.status === "unlocked") {
+        setError(null);
+      } else if (result.status === "wiped") {
+        setError(null);
+        showMessage({
+          message: "Local data erased",
+          description: `The wrong PIN was entered ${WIPE_AFTER_ATTEMPTS} times. Sign in to download your synced entries.`,
+          type: "danger",
+          duration: 8000,
+        });
+      } else {
+        setError("Wrong PIN.");
+      }
+    } catch (unlockError) {
+      console.error("Failed to unlock:", unlockError);
+      setError("Could not check the PIN. Try again.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <View style={styles.overlay}>
+      <PinPad
+        title="FlightLog is locked"
+        subtitle="Enter your PIN to continue"
+        error={[error, wipeWarning].filter(Boolean).join(" ") || null}
+        busy={busy}
+        onSubmit={handleSubmit}
+      />
+    </View>
+  );
+}
@@ -2,6 +2,7 @@ import React, {
   useState,
   useEffect,
   useCallback,
+  useLayoutEffect,
   useMemo,
 } from "react";
 import {
@@ -15,27 +16,31 @@ import {
 import {
   Text,
   Badge,
+  Icon,
   SearchBar,
   ButtonGroup,
 } from "@rneui/themed";
 import { useFocusEffect } from "@react-navigation/native";
 import { format } from "date-fns";
 import Database, { FlightEntry } from "../services/database";
+import StatusRefreshService from "../services/statusRefreshService";
+import OfflineSessionBanner from "../components/OfflineSessionBanner";
 import { useSync } from "../contexts/SyncContext";
 import { useTheme } from "../contexts/ThemeContext";
 
-const filters = ["All", "Draft", "Submitted", "Approved", "Anchored"];
+const filters = ["All", "Draft", "Submitted", "Rejected", "Approved", "Anchored"];
 const statusMap: Record<number, FlightEntry["status"] | undefined> = {
   0: undefined,
   1: "draft",
   2: "submitted",
-  3: "approved",
-  4: "anchored",
+  3: "rejected",
+  4: "approved",
+  5: "anchored",
 };
 
 export default function LogbookScreen({ navigation }: any) {
   const { theme } = useTheme();
-  const { syncNow, isSyncing, syncStats } = useSync();
+  const { syncNow, isSyncing, syncStats, unreadNotifications } = useSync();
 
   const [entries, setEntries] = useState<FlightEntry[]>([]);
   const [filteredEntries, setFilteredEntries] = useState<FlightEntry[]>([]);
@@ -214,6 +219,15 @@ export default function LogbookScreen({ navigation }: any) {
           shadowRadius: 8,
           elevation: 8,
         },
+        inboxButton: {
+          marginRight: 4,
+          padding: 4,
+        },
+        inboxBadge: {
+          position: "absolute",
+          top: -2,
+          right: -4,
+        },
         fabIcon: {
           fontSize: 32,
           color: "#FFFFFF",
@@ -245,6 +259,37 @@ export default function LogbookScreen({ navigation }: any) {
     }, [loadEntries])
   );
 
+  // Statuses can change under the list when a review result comes in.
+  useEffect(
+    () => StatusRefreshService.onStatusRefresh(() => loadEntries()),
+    [loadEntries]
+  );
+
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerRight: () => (
+        <TouchableOpacity
+          style={styles.inboxButton}
+          onPress={() => navigation.navigate("Notifications")}
+        >
+          <Icon
+            name="notifications-outline"
+            type="ionicon"
+            color={theme.colors.text}
+            size={24}
+          />
+          {unreadNotifications > 0 ? (
+            <Badge
+              value={unreadNotifications > 99 ? "99+" : unreadNotifications}
+              status="error"
+              containerStyle={styles.inboxBadge}
+            />
+          ) : null}
+        </TouchableOpacity>
+      ),
+    });
+  }, [navigation, styles, theme, unreadNotifications]);
+
   useEffect(() => {
     if (!search) {
       setFilteredEntries(entries);
@@ -288,10 +333,18 @@ export default function LogbookScreen({ navigation }: any) {
     if (syncStatus === "pending") {
       text = "Pending Sync";
       color = theme.colors.warning;
+    } else if (syncStatus === "conflict") {
+      text = "Conflict";
+      color = theme.colors.error;
+    } else if (syncStatus === "error") {
+      text = "Sync Failed";
+      color = theme.colors.error;
     } else if (status === "submitted") {
       color = theme.colors.primary;
     } else if (status === "approved") {
       color = theme.colors.success;
+    } else if (status === "rejected") {
+      color = theme.colors.error;
     } else if (status === "anchored") {
       color = theme.colors.info;
     }
@@ -364,6 +417,7 @@ export default function LogbookScreen({ navigation }: any) {
 
   return (
     <View style={styles.container}>
+      <OfflineSessionBanner />
       <View style={styles.statsHeader}>
         <View style={styles.statCard}>
           <Text style={styles.statValue}>{syncStats?.total ?? 0}</Text>
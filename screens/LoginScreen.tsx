@@ -6,20 +6,33 @@ import {
   StyleSheet,
   View,
 } from "react-native";
-import { Input, Button, Text } from "@rneui/themed";
+import { Input, Button, Text, Icon } from "@rneui/themed";
 import { useAuth } from "../contexts/AuthContext";
 import { useTheme } from "../contexts/ThemeContext";
 import { showMessage } from "react-native-flash-message";
+import { MfaMethod } from "../utils/apiContract";
+import { isWellFormedMfaCode, MfaError, TOTP_CODE_LENGTH } from "../utils/mfa";
 
 export default function LoginScreen() {
-  const { login } = useAuth();
+  const {
+    login,
+    loginWithWallet,
+    startDemo,
+    mfaChallenge,
+    verifyMfa,
+    cancelMfa,
+    expiredSession,
+  } = useAuth();
   const { theme } = useTheme();
 
-  const [email, setEmail] = useState("");
+  const [email, setEmail] = useState(expiredSession?.email ?? "");
   const [password, setPassword] = useState("");
-  const [totpCode, setTotpCode] = useState("");
   const [loading, setLoading] = useState(false);
-  const [showTotpInput, setShowTotpInput] = useState(false);
+  const [walletLoading, setWalletLoading] = useState(false);
+  const [demoLoading, setDemoLoading] = useState(false);
+  const [mfaMethod, setMfaMethod] = useState<MfaMethod>("totp");
+  const [mfaCode, setMfaCode] = useState("");
+  const [mfaError, setMfaError] = useState<string | null>(null);
 
   const styles = useMemo(
     () =>
@@ -95,11 +108,69 @@ export default function LoginScreen() {
           marginTop: 10,
           marginBottom: 20,
         },
+        separator: {
+          flexDirection: "row",
+          alignItems: "center",
+          marginBottom: 20,
+        },
+        separatorLine: {
+          flex: 1,
+          height: 1,
+          backgroundColor: theme.colors.border,
+        },
+        separatorText: {
+          marginHorizontal: 10,
+          color: theme.colors.textSecondary,
+          fontSize: 12,
+        },
+        walletButton: {
+          borderColor: theme.colors.primary,
+          borderRadius: 10,
+          paddingVertical: 15,
+        },
+        walletButtonTitle: {
+          color: theme.colors.primary,
+        },
         helperText: {
           textAlign: "center",
           color: theme.colors.textSecondary,
           fontSize: 14,
         },
+        expiredNotice: {
+          flexDirection: "row",
+          alignItems: "center",
+          backgroundColor: theme.colors.inputBackground,
+          borderLeftWidth: 3,
+          borderLeftColor: theme.colors.warning,
+          borderRadius: 10,
+          padding: 12,
+          marginBottom: 15,
+        },
+        expiredNoticeText: {
+          flex: 1,
+          marginLeft: 8,
+          color: theme.colors.text,
+          fontSize: 13,
+        },
+        stepTitle: {
+          fontSize: 18,
+          fontWeight: "bold",
+          color: theme.colors.text,
+          marginBottom: 8,
+        },
+        stepText: {
+          color: theme.colors.textSecondary,
+          fontSize: 14,
+          marginBottom: 20,
+        },
+        errorText: {
+          color: theme.colors.error,
+          fontSize: 13,
+        },
+        linkButtonTitle: {
+          color: theme.colors.primary,
+          fontSize: 14,
+        },
         footer: {
           marginTop: 40,
           alignItems: "center",
@@ -121,20 +192,102 @@ export default function LoginScreen() {
     setLoading(true);
 
     try {
-      await login(email, password, totpCode || undefined);
+      const outcome = await login(email, password);
+      if (outcome === "mfa_required") {
+        setMfaMethod("totp");
+        setMfaCode("");
+        setMfaError(null);
+      } else {
+        showMessage({ message: "Welcome back!", type: "success" });
+      }
+    } catch (error: any) {
+      showMessage({ message: error?.message || "Login failed", type: "danger" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    if (!isWellFormedMfaCode(mfaCode, mfaMethod)) {
+      setMfaError(
+        mfaMethod === "totp"
+          ? `Enter the ${TOTP_CODE_LENGTH}-digit code from your authenticator app`
+          : "Enter one of your recovery codes"
+      );
+      return;
+    }
+
+    setLoading(true);
+    setMfaError(null);
+
+    try {
+      await verifyMfa(mfaCode, mfaMethod);
       showMessage({ message: "Welcome back!", type: "success" });
     } catch (error: any) {
-      if (typeof error.message === "string" && error.message.includes("2FA")) {
-        setShowTotpInput(true);
-        showMessage({ message: "Please enter your 2FA code", type: "info" });
+      if (error instanceof MfaError && error.reason === "invalid_code") {
+        setMfaCode("");
+        setMfaError(error.message);
       } else {
-        showMessage({ message: error?.message || "Login failed", type: "danger" });
+        // Lockouts and expired challenges return to the password step.
+        setPassword("");
+        showMessage({
+          message: error?.message || "Verification failed",
+          type: "danger",
+          duration: error instanceof MfaError ? 5000 : undefined,
+        });
       }
     } finally {
       setLoading(false);
     }
   };
 
+  const switchMfaMethod = () => {
+    setMfaMethod(mfaMethod === "totp" ? "recovery_code" : "totp");
+    setMfaCode("");
+    setMfaError(null);
+  };
+
+  const handleCancelMfa = () => {
+    cancelMfa();
+    setPassword("");
+    setMfaCode("");
+    setMfaError(null);
+  };
+
+  const handleWalletLogin = async () => {
+    setWalletLoading(true);
+
+    try {
+      await loginWithWallet();
+      showMessage({ message: "Welcome back!", type: "success" });
+    } catch (error: any) {
+      showMessage({
+        message: error?.message || "Wallet sign-in failed",
+        type: "danger",
+      });
+    } finally {
+      setWalletLoading(false);
+    }
+  };
+
+  const handleTryDemo = async () => {
+    setDemoLoading(true);
+
+    try {
+      await startDemo();
+      showMessage({
+        message: "Demo mode",
+        description: "Sample flights only. Nothing you do here is sent to a server.",
+        type: "info",
+      });
+    } catch (error) {
+      console.error("Failed to start demo:", error);
+      showMessage({ message: "Could not open the demo", type: "danger" });
+    } finally {
+      setDemoLoading(false);
+    }
+  };
+
   return (
     <KeyboardAvoidingView
       style={styles.container}
@@ -151,73 +304,171 @@ export default function LoginScreen() {
           <Text style={styles.subtitle}>Web3 Pilot Logbook</Text>
         </View>
 
-        <View style={styles.formContainer}>
-          <Input
-            placeholder="Email"
-            leftIcon={{
-              type: "ionicon",
-              name: "mail-outline",
-              color: theme.colors.primary,
-            }}
-            value={email}
-            onChangeText={setEmail}
-            autoCapitalize="none"
-            keyboardType="email-address"
-            autoComplete="email"
-            containerStyle={styles.inputContainer}
-            inputContainerStyle={styles.inputInner}
-            inputStyle={styles.inputStyle}
-            placeholderTextColor={theme.colors.textSecondary}
-          />
-
-          <Input
-            placeholder="Password"
-            leftIcon={{
-              type: "ionicon",
-              name: "lock-closed-outline",
-              color: theme.colors.primary,
-            }}
-            value={password}
-            onChangeText={setPassword}
-            secureTextEntry
-            autoComplete="password"
-            containerStyle={styles.inputContainer}
-            inputContainerStyle={styles.inputInner}
-            inputStyle={styles.inputStyle}
-            placeholderTextColor={theme.colors.textSecondary}
-          />
-
-          {showTotpInput && (
+        {mfaChallenge ? (
+          <View style={styles.formContainer}>
+            <Text style={styles.stepTitle}>Two-step verification</Text>
+            <Text style={styles.stepText}>
+              {mfaMethod === "totp"
+                ? `Enter the ${TOTP_CODE_LENGTH}-digit code from your authenticator app for ${mfaChallenge.email}.`
+                : `Enter one of the recovery codes you saved for ${mfaChallenge.email}. Each code works once.`}
+            </Text>
+
             <Input
-              placeholder="2FA Code"
+              placeholder={mfaMethod === "totp" ? "Authentication code" : "Recovery code"}
               leftIcon={{
                 type: "ionicon",
-                name: "shield-checkmark-outline",
+                name: mfaMethod === "totp" ? "shield-checkmark-outline" : "key-outline",
                 color: theme.colors.primary,
               }}
-              value={totpCode}
-              onChangeText={setTotpCode}
-              keyboardType="number-pad"
-              maxLength={6}
+              value={mfaCode}
+              onChangeText={(value) => {
+                setMfaCode(value);
+                setMfaError(null);
+              }}
+              keyboardType={mfaMethod === "totp" ? "number-pad" : "default"}
+              autoCapitalize={mfaMethod === "totp" ? "none" : "characters"}
+              autoComplete={mfaMethod === "totp" ? "one-time-code" : "off"}
+              autoCorrect={false}
+              autoFocus
+              maxLength={mfaMethod === "totp" ? TOTP_CODE_LENGTH : 32}
+              onSubmitEditing={handleVerify}
+              errorMessage={mfaError ?? undefined}
+              errorStyle={styles.errorText}
               containerStyle={styles.inputContainer}
               inputContainerStyle={styles.inputInner}
               inputStyle={styles.inputStyle}
               placeholderTextColor={theme.colors.textSecondary}
             />
-          )}
-
-          <Button
-            title="Sign In"
-            onPress={handleLogin}
-            loading={loading}
-            buttonStyle={styles.loginButton}
-            containerStyle={styles.loginButtonContainer}
-          />
-
-          <Text style={styles.helperText}>
-            Don&apos;t have an account? Contact your organization administrator.
-          </Text>
-        </View>
+
+            <Button
+              title="Verify"
+              onPress={handleVerify}
+              loading={loading}
+              buttonStyle={styles.loginButton}
+              containerStyle={styles.loginButtonContainer}
+            />
+
+            {mfaChallenge.methods.includes(
+              mfaMethod === "totp" ? "recovery_code" : "totp"
+            ) && (
+              <Button
+                title={
+                  mfaMethod === "totp"
+                    ? "Use a recovery code instead"
+                    : "Use your authenticator app instead"
+                }
+                type="clear"
+                onPress={switchMfaMethod}
+                disabled={loading}
+                titleStyle={styles.linkButtonTitle}
+              />
+            )}
+            <Button
+              title="Back to sign in"
+              type="clear"
+              onPress={handleCancelMfa}
+              disabled={loading}
+              titleStyle={styles.linkButtonTitle}
+            />
+          </View>
+        ) : (
+          <View style={styles.formContainer}>
+            {expiredSession && (
+              <View style={styles.expiredNotice}>
+                <Icon
+                  type="ionicon"
+                  name="time-outline"
+                  size={20}
+                  color={theme.colors.warning}
+                />
+                <Text style={styles.expiredNoticeText}>
+                  Your session expired. Sign in again to resume syncing; entries
+                  saved on this device are kept.
+                </Text>
+              </View>
+            )}
+
+            <Input
+              placeholder="Email"
+              leftIcon={{
+                type: "ionicon",
+                name: "mail-outline",
+                color: theme.colors.primary,
+              }}
+              value={email}
+              onChangeText={setEmail}
+              autoCapitalize="none"
+              keyboardType="email-address"
+              autoComplete="email"
+              containerStyle={styles.inputContainer}
+              inputContainerStyle={styles.inputInner}
+              inputStyle={styles.inputStyle}
+              placeholderTextColor={theme.colors.textSecondary}
+            />
+
+            <Input
+              placeholder="Password"
+              leftIcon={{
+                type: "ionicon",
+                name: "lock-closed-outline",
+                color: theme.colors.primary,
+              }}
+              value={password}
+              onChangeText={setPassword}
+              secureTextEntry
+              autoComplete="password"
+              containerStyle={styles.inputContainer}
+              inputContainerStyle={styles.inputInner}
+              inputStyle={styles.inputStyle}
+              placeholderTextColor={theme.colors.textSecondary}
+            />
+
+            <Button
+              title="Sign In"
+              onPress={handleLogin}
+              loading={loading}
+              disabled={walletLoading}
+              buttonStyle={styles.loginButton}
+              containerStyle={styles.loginButtonContainer}
+            />
+
+            <View style={styles.separator}>
+              <View style={styles.separatorLine} />
+              <Text style={styles.separatorText}>OR</Text>
+              <View style={styles.separatorLine} />
+            </View>
+
+            <Button
+              title="Sign in with Ethereum"
+              type="outline"
+              icon={{
+                type: "ionicon",
+                name: "wallet-outline",
+                color: theme.colors.primary,
+              }}
+              onPress={handleWalletLogin}
+              loading={walletLoading}
+              disabled={loading}
+              buttonStyle={styles.walletButton}
+              titleStyle={styles.walletButtonTitle}
+              containerStyle={styles.loginButtonContainer}
+            />
+
+            <Button
+              title="Try the demo"
+              type="clear"
+              onPress={handleTryDemo}
+              loading={demoLoading}
+              disabled={loading || walletLoading}
+              titleStyle={styles.linkButtonTitle}
+              containerStyle={styles.loginButtonContainer}
+            />
+
+            <Text style={styles.helperText}>
+              Don&apos;t have an account? Contact your organization administrator.
+            </Text>
+          </View>
+        )}
 
         <View style={styles.footer}>
           <Text style={styles.footerText}>Secured by blockchain technology</Text>
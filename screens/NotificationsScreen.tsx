@@ -0,0 +1,219 @@
+import React, { useCallback, useLayoutEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { Button, Icon, Text } from "@rneui/themed";
+import { formatDistanceToNow } from "date-fns";
+import { useFocusEffect, useNavigation } from "@react-navigation/native";
+import { showMessage } from "react-native-flash-message";
+import database, { EntryNotification, FlightEntry } from "../services/database";
+import NotificationService from "../services/notificationService";
+import { useTheme } from "../contexts/ThemeContext";
+
+const STATUS_MESSAGES: Record<FlightEntry["status"], string> = {
+  draft: "Returned to draft",
+  submitted: "Submitted for review",
+  approved: "Approved",
+  rejected: "Returned by reviewer",
+  anchored: "Anchored on-chain",
+};
+
+const STATUS_ICONS: Record<FlightEntry["status"], string> = {
+  draft: "create-outline",
+  submitted: "paper-plane-outline",
+  approved: "checkmark-circle-outline",
+  rejected: "arrow-undo-outline",
+  anchored: "link-outline",
+};
+
+/** Inbox of review status changes; opening one marks it read. */
+export default function NotificationsScreen() {
+  const { theme } = useTheme();
+  const navigation = useNavigation<any>();
+  const [notifications, setNotifications] = useState<EntryNotification[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadNotifications = useCallback(async () => {
+    try {
+      setNotifications(await NotificationService.getNotifications());
+    } catch (error) {
+      console.error("Failed to load notifications:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadNotifications();
+    }, [loadNotifications])
+  );
+
+  const markAllRead = useCallback(async () => {
+    await NotificationService.markAllRead();
+    await loadNotifications();
+  }, [loadNotifications]);
+
+  const hasUnread = notifications.some((notification) => !notification.readAt);
+
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerRight: () =>
+        hasUnread ? (
+          <Button title="Mark All Read" type="clear" onPress={markAllRead} />
+        ) : null,
+    });
+  }, [navigation, hasUnread, markAllRead]);
+
+  const openNotification = async (notification: EntryNotification) => {
+    await NotificationService.markRead(notification.id);
+
+    // Edits add new versions; open whichever one is current.
+    const entry = notification.clientUuid
+      ? await database.getEntryByClientUuid(notification.clientUuid)
+      : notification.entryId
+        ? await database.getEntry(notification.entryId)
+        : null;
+
+    if (!entry?.id || entry.deletedAt) {
+      showMessage({ message: "This entry is no longer in your logbook", type: "info" });
+      await loadNotifications();
+      return;
+    }
+
+    navigation.navigate("FlightDetail", { entryId: entry.id });
+  };
+
+  const styles = useMemo(
+    () =>
+      StyleSheet.create({
+        container: {
+          flex: 1,
+          backgroundColor: theme.colors.background,
+        },
+        loadingContainer: {
+          flex: 1,
+          justifyContent: "center",
+          alignItems: "center",
+          backgroundColor: theme.colors.background,
+        },
+        emptyContainer: {
+          alignItems: "center",
+          padding: 40,
+        },
+        emptyText: {
+          marginTop: 12,
+          fontSize: 16,
+          color: theme.colors.textSecondary,
+          textAlign: "center",
+        },
+        row: {
+          flexDirection: "row",
+          alignItems: "flex-start",
+          paddingVertical: 14,
+          paddingHorizontal: 16,
+          backgroundColor: theme.colors.card,
+          borderBottomWidth: StyleSheet.hairlineWidth,
+          borderBottomColor: theme.colors.border,
+        },
+        content: {
+          flex: 1,
+          marginLeft: 12,
+        },
+        title: {
+          fontSize: 15,
+          color: theme.colors.text,
+        },
+        titleUnread: {
+          fontWeight: "bold",
+        },
+        detail: {
+          fontSize: 13,
+          color: theme.colors.textSecondary,
+          marginTop: 2,
+        },
+        reason: {
+          fontSize: 13,
+          color: theme.colors.error,
+          marginTop: 4,
+        },
+        unreadDot: {
+          width: 8,
+          height: 8,
+          borderRadius: 4,
+          marginTop: 6,
+          backgroundColor: theme.colors.primary,
+        },
+      }),
+    [theme]
+  );
+
+  const statusColor = (status: FlightEntry["status"]) => {
+    switch (status) {
+      case "approved":
+        return theme.colors.success;
+      case "rejected":
+        return theme.colors.error;
+      case "anchored":
+        return theme.colors.info;
+      default:
+        return theme.colors.warning;
+    }
+  };
+
+  const renderNotification = ({ item }: { item: EntryNotification }) => (
+    <TouchableOpacity style={styles.row} onPress={() => openNotification(item)}>
+      <Icon
+        name={STATUS_ICONS[item.toStatus]}
+        type="ionicon"
+        color={statusColor(item.toStatus)}
+        size={24}
+      />
+      <View style={styles.content}>
+        <Text style={[styles.title, !item.readAt && styles.titleUnread]}>
+          {STATUS_MESSAGES[item.toStatus]}
+        </Text>
+        <Text style={styles.detail}>
+          {item.aircraftReg} · {item.flightDate} ·{" "}
+          {formatDistanceToNow(new Date(item.createdAt), { addSuffix: true })}
+        </Text>
+        {item.reason ? <Text style={styles.reason}>{item.reason}</Text> : null}
+      </View>
+      {!item.readAt ? <View style={styles.unreadDot} /> : null}
+    </TouchableOpacity>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={theme.colors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <FlatList
+      style={styles.container}
+      data={notifications}
+      keyExtractor={(item) => item.id.toString()}
+      renderItem={renderNotification}
+      ListEmptyComponent={
+        <View style={styles.emptyContainer}>
+          <Icon
+            name="notifications-off-outline"
+            type="ionicon"
+            color={theme.colors.textSecondary}
+            size={48}
+          />
+          <Text style={styles.emptyText}>
+            Review results for your submitted entries will appear here
+          </Text>
+        </View>
+      }
+    />
+  );
+}
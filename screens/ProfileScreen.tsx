@@ -1,7 +1,8 @@
-import React, { useMemo } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import {
   Alert,
   Linking,
+  Modal,
   ScrollView,
   StyleSheet,
   TouchableOpacity,
@@ -14,21 +15,50 @@ import {
   Divider,
   Icon,
   ListItem,
+  Switch,
   Text,
 } from "@rneui/themed";
+import { showMessage } from "react-native-flash-message";
 import { useAuth } from "../contexts/AuthContext";
 import { useSync } from "../contexts/SyncContext";
 import { useTheme } from "../contexts/ThemeContext";
+import { useAppLock } from "../contexts/AppLockContext";
+import PinPad from "../components/PinPad";
+import {
+  AUTO_LOCK_OPTIONS,
+  formatAutoLock,
+  WIPE_AFTER_ATTEMPTS,
+} from "../services/appLockService";
+import {
+  BACKGROUND_INTERVAL_OPTIONS,
+  formatSyncInterval,
+} from "../utils/syncPolicy";
 
 const SUPPORT_EMAIL = "support@flightlog.example.com";
 const PRIVACY_URL = "https://flightlog.example.com/privacy";
 const TERMS_URL = "https://flightlog.example.com/terms";
 const APP_VERSION = "1.0.0";
 
+// Setting a PIN asks for it twice; changing or removing one asks for the
+// current PIN first.
+type PinFlow =
+  | { purpose: "enable" | "change"; step: "current" | "new" | "confirm"; newPin?: string }
+  | { purpose: "disable"; step: "current" };
+
+const PIN_STEP_TITLES = {
+  current: "Enter your current PIN",
+  new: "Choose a PIN",
+  confirm: "Enter the PIN again",
+};
+
 export default function ProfileScreen() {
-  const { user, logout } = useAuth();
-  const { syncStats } = useSync();
+  const { user, isDemo, logout } = useAuth();
+  const { syncStats, syncPolicy, updateSyncPolicy } = useSync();
   const { theme } = useTheme();
+  const appLock = useAppLock();
+  const [pinFlow, setPinFlow] = useState<PinFlow | null>(null);
+  const [pinError, setPinError] = useState<string | null>(null);
+  const [pinBusy, setPinBusy] = useState(false);
 
   const styles = useMemo(
     () =>
@@ -115,6 +145,33 @@ export default function ProfileScreen() {
           fontSize: 13,
           marginTop: 2,
         },
+        intervalRow: {
+          flexDirection: "row",
+          flexWrap: "wrap",
+          paddingTop: 4,
+          paddingBottom: 10,
+        },
+        intervalOption: {
+          paddingVertical: 6,
+          paddingHorizontal: 12,
+          marginRight: 8,
+          marginTop: 8,
+          borderRadius: 16,
+          borderWidth: StyleSheet.hairlineWidth,
+          borderColor: theme.colors.border,
+        },
+        intervalOptionActive: {
+          backgroundColor: theme.colors.primary,
+          borderColor: theme.colors.primary,
+        },
+        intervalOptionText: {
+          fontSize: 13,
+          color: theme.colors.text,
+        },
+        intervalOptionTextActive: {
+          color: "white",
+          fontWeight: "600",
+        },
         blockchainCard: {
           borderRadius: 12,
           marginTop: 16,
@@ -171,6 +228,12 @@ export default function ProfileScreen() {
           color: theme.colors.primary,
           marginHorizontal: 8,
         },
+        pinSheet: {
+          flex: 1,
+          justifyContent: "center",
+          alignItems: "center",
+          backgroundColor: theme.colors.background,
+        },
         logoutButton: {
           backgroundColor: theme.colors.error,
           borderRadius: 10,
@@ -191,6 +254,24 @@ export default function ProfileScreen() {
   );
 
   const handleLogout = () => {
+    if (isDemo) {
+      Alert.alert(
+        "Exit demo",
+        "The sample logbook and any changes you made to it are discarded.",
+        [
+          { text: "Cancel", style: "cancel" },
+          {
+            text: "Exit demo",
+            style: "destructive",
+            onPress: async () => {
+              await logout();
+            },
+          },
+        ]
+      );
+      return;
+    }
+
     Alert.alert("Logout", "Are you sure you want to logout?", [
       { text: "Cancel", style: "cancel" },
       {
@@ -203,6 +284,62 @@ export default function ProfileScreen() {
     ]);
   };
 
+  // The lock screen must not end up underneath an open PIN sheet.
+  useEffect(() => {
+    if (appLock.locked) {
+      setPinFlow(null);
+    }
+  }, [appLock.locked]);
+
+  const startPinFlow = (flow: PinFlow) => {
+    setPinError(null);
+    setPinFlow(flow);
+  };
+
+  const closePinFlow = () => {
+    setPinFlow(null);
+    setPinError(null);
+  };
+
+  const handlePin = async (pin: string) => {
+    if (!pinFlow) {
+      return;
+    }
+
+    setPinBusy(true);
+    setPinError(null);
+    try {
+      if (pinFlow.step === "current") {
+        if (!(await appLock.checkPin(pin))) {
+          setPinError("Wrong PIN.");
+        } else if (pinFlow.purpose === "disable") {
+          await appLock.disable();
+          closePinFlow();
+          showMessage({ message: "App lock turned off", type: "info" });
+        } else {
+          setPinFlow({ ...pinFlow, step: "new" });
+        }
+      } else if (pinFlow.step === "new") {
+        setPinFlow({ ...pinFlow, step: "confirm", newPin: pin });
+      } else if (pin !== pinFlow.newPin) {
+        setPinFlow({ ...pinFlow, step: "new", newPin: undefined });
+        setPinError("The PINs did not match. Choose a PIN again.");
+      } else {
+        await appLock.setPin(pin);
+        closePinFlow();
+        showMessage({
+          message: pinFlow.purpose === "enable" ? "App lock turned on" : "PIN changed",
+          type: "success",
+        });
+      }
+    } catch (error: any) {
+      console.error("Failed to update app lock:", error);
+      setPinError(error?.message || "Failed to update the PIN");
+    } finally {
+      setPinBusy(false);
+    }
+  };
+
   const handleSupport = () => Linking.openURL(`mailto:${SUPPORT_EMAIL}`);
   const handlePrivacy = () => Linking.openURL(PRIVACY_URL);
   const handleTerms = () => Linking.openURL(TERMS_URL);
@@ -231,6 +368,11 @@ export default function ProfileScreen() {
           {user?.license_no ? (
             <Text style={styles.licenseNo}>License: {user.license_no}</Text>
           ) : null}
+          {isDemo ? (
+            <Text style={styles.licenseNo}>
+              Demo mode: sample data, nothing is sent to a server
+            </Text>
+          ) : null}
         </View>
       </Card>
 
@@ -286,6 +428,138 @@ export default function ProfileScreen() {
         </ListItem>
       </Card>
 
+      <Card containerStyle={styles.cardBase}>
+        <Card.Title style={styles.cardTitle}>SYNC</Card.Title>
+        <Divider style={styles.divider} />
+        <ListItem bottomDivider containerStyle={styles.listItem}>
+          <ListItem.Content>
+            <ListItem.Title style={styles.listItemTitle}>Wi-Fi Only</ListItem.Title>
+            <ListItem.Subtitle style={styles.listItemSubtitle}>
+              Never sync automatically over cellular data
+            </ListItem.Subtitle>
+          </ListItem.Content>
+          <Switch
+            value={syncPolicy.wifiOnly}
+            onValueChange={(value) => updateSyncPolicy({ wifiOnly: value })}
+          />
+        </ListItem>
+        <ListItem bottomDivider containerStyle={styles.listItem}>
+          <ListItem.Content>
+            <ListItem.Title style={styles.listItemTitle}>
+              Pause When Roaming
+            </ListItem.Title>
+            <ListItem.Subtitle style={styles.listItemSubtitle}>
+              Detected on Android only; use Wi-Fi only abroad on iOS
+            </ListItem.Subtitle>
+          </ListItem.Content>
+          <Switch
+            value={syncPolicy.avoidRoaming}
+            disabled={syncPolicy.wifiOnly}
+            onValueChange={(value) => updateSyncPolicy({ avoidRoaming: value })}
+          />
+        </ListItem>
+        <ListItem containerStyle={styles.listItem}>
+          <ListItem.Content>
+            <ListItem.Title style={styles.listItemTitle}>
+              Background Sync
+            </ListItem.Title>
+            <ListItem.Subtitle style={styles.listItemSubtitle}>
+              How often to sync while the app is closed
+            </ListItem.Subtitle>
+          </ListItem.Content>
+        </ListItem>
+        <View style={styles.intervalRow}>
+          {BACKGROUND_INTERVAL_OPTIONS.map((minutes) => {
+            const active = syncPolicy.backgroundIntervalMinutes === minutes;
+            return (
+              <TouchableOpacity
+                key={minutes}
+                style={[styles.intervalOption, active && styles.intervalOptionActive]}
+                onPress={() =>
+                  updateSyncPolicy({ backgroundIntervalMinutes: minutes })
+                }
+              >
+                <Text
+                  style={[
+                    styles.intervalOptionText,
+                    active && styles.intervalOptionTextActive,
+                  ]}
+                >
+                  {formatSyncInterval(minutes)}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </Card>
+
+      <Card containerStyle={styles.cardBase}>
+        <Card.Title style={styles.cardTitle}>SECURITY</Card.Title>
+        <Divider style={styles.divider} />
+        <ListItem bottomDivider containerStyle={styles.listItem}>
+          <ListItem.Content>
+            <ListItem.Title style={styles.listItemTitle}>App Lock</ListItem.Title>
+            <ListItem.Subtitle style={styles.listItemSubtitle}>
+              Require a PIN to open the logbook. {WIPE_AFTER_ATTEMPTS} wrong
+              PINs erase all local data.
+            </ListItem.Subtitle>
+          </ListItem.Content>
+          <Switch
+            value={appLock.enabled}
+            onValueChange={(value) =>
+              startPinFlow(
+                value
+                  ? { purpose: "enable", step: "new" }
+                  : { purpose: "disable", step: "current" }
+              )
+            }
+          />
+        </ListItem>
+        {appLock.enabled ? (
+          <>
+            <ListItem
+              bottomDivider
+              onPress={() => startPinFlow({ purpose: "change", step: "current" })}
+              containerStyle={styles.listItem}
+            >
+              <ListItem.Content>
+                <ListItem.Title style={styles.listItemTitle}>Change PIN</ListItem.Title>
+              </ListItem.Content>
+              <ListItem.Chevron color={theme.colors.textSecondary} />
+            </ListItem>
+            <ListItem containerStyle={styles.listItem}>
+              <ListItem.Content>
+                <ListItem.Title style={styles.listItemTitle}>Auto-Lock</ListItem.Title>
+                <ListItem.Subtitle style={styles.listItemSubtitle}>
+                  Lock after this long in the background
+                </ListItem.Subtitle>
+              </ListItem.Content>
+            </ListItem>
+            <View style={styles.intervalRow}>
+              {AUTO_LOCK_OPTIONS.map((seconds) => {
+                const active = appLock.autoLockSeconds === seconds;
+                return (
+                  <TouchableOpacity
+                    key={seconds}
+                    style={[styles.intervalOption, active && styles.intervalOptionActive]}
+                    onPress={() => appLock.setAutoLockTimeout(seconds)}
+                  >
+                    <Text
+                      style={[
+                        styles.intervalOptionText,
+                        active && styles.intervalOptionTextActive,
+                      ]}
+                    >
+                      {formatAutoLock(seconds)}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </>
+        ) : null}
+      </Card>
+
       <Card containerStyle={styles.cardBase}>
         <Card.Title style={styles.cardTitle}>ABOUT</Card.Title>
         <Divider style={styles.divider} />
@@ -352,7 +626,7 @@ export default function ProfileScreen() {
       </Card>
 
       <Button
-        title="Logout"
+        title={isDemo ? "Exit Demo" : "Logout"}
         onPress={handleLogout}
         buttonStyle={styles.logoutButton}
         containerStyle={styles.logoutButtonContainer}
@@ -360,6 +634,26 @@ export default function ProfileScreen() {
       />
 
       <View style={styles.bottomPadding} />
+
+      <Modal
+        visible={pinFlow !== null}
+        animationType="slide"
+        onRequestClose={closePinFlow}
+      >
+        <View style={styles.pinSheet}>
+          {pinFlow ? (
+            <PinPad
+              key={pinFlow.step}
+              title={PIN_STEP_TITLES[pinFlow.step]}
+              subtitle={pinFlow.step === "new" ? "4 to 8 digits" : undefined}
+              error={pinError}
+              busy={pinBusy}
+              onSubmit={handlePin}
+            />
+          ) : null}
+          <Button title="Cancel" type="clear" onPress={closePinFlow} disabled={pinBusy} />
+        </View>
+      </Modal>
     </ScrollView>
   );
 }
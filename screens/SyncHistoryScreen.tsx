@@ -0,0 +1,310 @@
+import React, { useCallback, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { Card, Divider, Icon, Text } from "@rneui/themed";
+import { format } from "date-fns";
+import { useFocusEffect, useNavigation, useRoute } from "@react-navigation/native";
+import SyncService from "../services/syncService";
+import { SyncRun, SyncRunEntry, SyncTrigger } from "../services/database";
+import { useTheme } from "../contexts/ThemeContext";
+
+const TRIGGER_LABELS: Record<SyncTrigger, string> = {
+  manual: "Manual",
+  background: "Background",
+  auto: "Automatic",
+};
+
+const ACTION_LABELS: Record<SyncRunEntry["action"], string> = {
+  push: "Upload",
+  delete: "Delete",
+  pull: "Download",
+  attachment: "Attachment",
+};
+
+const formatTime = (value: string) => format(new Date(value), "MMM dd, HH:mm:ss");
+
+const formatDuration = (run: SyncRun) => {
+  const ms = new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime();
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+};
+
+const summarize = (run: SyncRun) => {
+  const parts = [
+    run.pushed > 0 ? `${run.pushed} sent` : null,
+    run.pulled > 0 ? `${run.pulled} received` : null,
+    run.deleted > 0 ? `${run.deleted} deleted` : null,
+    run.failed > 0 ? `${run.failed} failed` : null,
+    run.conflicts > 0 ? `${run.conflicts} conflicts` : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" · ") : "No changes";
+};
+
+/**
+ * Timeline of recorded sync runs. Opened with a `clientUuid` param it lists
+ * every sync attempt for that one entry instead.
+ */
+export default function SyncHistoryScreen() {
+  const { theme } = useTheme();
+  const navigation = useNavigation<any>();
+  const route = useRoute<any>();
+  const clientUuid: string | undefined = route.params?.clientUuid;
+
+  const [runs, setRuns] = useState<SyncRun[]>([]);
+  const [entryHistory, setEntryHistory] = useState<SyncRunEntry[]>([]);
+  const [runEntries, setRunEntries] = useState<Record<number, SyncRunEntry[]>>({});
+  const [expandedRunId, setExpandedRunId] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      if (clientUuid) {
+        setEntryHistory(await SyncService.getEntrySyncHistory(clientUuid));
+      } else {
+        setRuns(await SyncService.getSyncHistory());
+      }
+    } catch (error) {
+      console.error("Failed to load sync history:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [clientUuid]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadHistory();
+    }, [loadHistory])
+  );
+
+  const toggleRun = async (runId: number) => {
+    if (expandedRunId === runId) {
+      setExpandedRunId(null);
+      return;
+    }
+
+    setExpandedRunId(runId);
+    if (!runEntries[runId]) {
+      try {
+        const entries = await SyncService.getSyncRunEntries(runId);
+        setRunEntries((current) => ({ ...current, [runId]: entries }));
+      } catch (error) {
+        console.error("Failed to load sync run details:", error);
+      }
+    }
+  };
+
+  const styles = useMemo(
+    () =>
+      StyleSheet.create({
+        container: {
+          flex: 1,
+          backgroundColor: theme.colors.background,
+        },
+        loadingContainer: {
+          flex: 1,
+          justifyContent: "center",
+          alignItems: "center",
+          backgroundColor: theme.colors.background,
+        },
+        emptyContainer: {
+          alignItems: "center",
+          padding: 40,
+        },
+        emptyText: {
+          marginTop: 12,
+          fontSize: 16,
+          color: theme.colors.textSecondary,
+          textAlign: "center",
+        },
+        card: {
+          borderRadius: 12,
+          marginHorizontal: 16,
+          marginTop: 12,
+          backgroundColor: theme.colors.card,
+          borderWidth: StyleSheet.hairlineWidth,
+          borderColor: theme.colors.border,
+          shadowColor: "#000",
+          shadowOffset: { width: 0, height: 2 },
+          shadowOpacity: 0.1,
+          shadowRadius: 4,
+          elevation: 3,
+        },
+        runHeader: {
+          flexDirection: "row",
+          alignItems: "center",
+        },
+        runInfo: {
+          flex: 1,
+          marginLeft: 12,
+        },
+        runTitle: {
+          fontSize: 15,
+          fontWeight: "600",
+          color: theme.colors.text,
+        },
+        runDetail: {
+          fontSize: 12,
+          color: theme.colors.textSecondary,
+          marginTop: 2,
+        },
+        runError: {
+          fontSize: 12,
+          color: theme.colors.error,
+          marginTop: 4,
+        },
+        divider: {
+          marginVertical: 10,
+          backgroundColor: theme.colors.border,
+        },
+        entryRow: {
+          paddingVertical: 8,
+          borderBottomWidth: StyleSheet.hairlineWidth,
+          borderBottomColor: theme.colors.border,
+        },
+        entryHeader: {
+          flexDirection: "row",
+          justifyContent: "space-between",
+        },
+        entryTitle: {
+          fontSize: 14,
+          fontWeight: "600",
+          color: theme.colors.text,
+        },
+        entryOutcome: {
+          fontSize: 12,
+          fontWeight: "600",
+        },
+        bottomPadding: {
+          height: 32,
+        },
+      }),
+    [theme]
+  );
+
+  const outcomeColor = (outcome: SyncRunEntry["outcome"]) => {
+    switch (outcome) {
+      case "failed":
+        return theme.colors.error;
+      case "conflict":
+        return theme.colors.warning;
+      default:
+        return theme.colors.success;
+    }
+  };
+
+  const renderEntry = (entry: SyncRunEntry, showRun: boolean) => (
+    <TouchableOpacity
+      key={entry.id}
+      style={styles.entryRow}
+      disabled={showRun || !entry.clientUuid}
+      onPress={() =>
+        navigation.push("SyncHistory", { clientUuid: entry.clientUuid })
+      }
+    >
+      <View style={styles.entryHeader}>
+        <Text style={styles.entryTitle}>
+          {entry.aircraftReg} · {entry.flightDate}
+        </Text>
+        <Text style={[styles.entryOutcome, { color: outcomeColor(entry.outcome) }]}>
+          {ACTION_LABELS[entry.action]} {entry.outcome}
+        </Text>
+      </View>
+      {showRun ? <Text style={styles.runDetail}>Run #{entry.runId}</Text> : null}
+      {entry.httpStatus ? (
+        <Text style={styles.runDetail}>HTTP {entry.httpStatus}</Text>
+      ) : null}
+      {entry.error ? <Text style={styles.runError}>{entry.error}</Text> : null}
+    </TouchableOpacity>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={theme.colors.primary} />
+      </View>
+    );
+  }
+
+  if (clientUuid) {
+    return (
+      <ScrollView style={styles.container}>
+        <Card containerStyle={styles.card}>
+          {entryHistory.length === 0 ? (
+            <Text style={styles.runDetail}>No sync attempts recorded for this entry.</Text>
+          ) : (
+            entryHistory.map((entry) => renderEntry(entry, true))
+          )}
+        </Card>
+        <View style={styles.bottomPadding} />
+      </ScrollView>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container}>
+      {runs.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Icon name="time-outline" type="ionicon" color={theme.colors.textSecondary} size={48} />
+          <Text style={styles.emptyText}>No syncs recorded yet</Text>
+        </View>
+      ) : null}
+
+      {runs.map((run) => {
+        const expanded = expandedRunId === run.id;
+        const entries = runEntries[run.id];
+
+        return (
+          <Card key={run.id} containerStyle={styles.card}>
+            <TouchableOpacity style={styles.runHeader} onPress={() => toggleRun(run.id)}>
+              <Icon
+                name={run.success ? "checkmark-circle" : "alert-circle"}
+                type="ionicon"
+                color={run.success ? theme.colors.success : theme.colors.error}
+                size={24}
+              />
+              <View style={styles.runInfo}>
+                <Text style={styles.runTitle}>
+                  {TRIGGER_LABELS[run.trigger]} · {formatTime(run.startedAt)}
+                </Text>
+                <Text style={styles.runDetail}>
+                  {summarize(run)} · {formatDuration(run)}
+                </Text>
+                {run.error ? (
+                  <Text style={styles.runError}>
+                    {run.httpStatus ? `HTTP ${run.httpStatus}: ` : ""}
+                    {run.error}
+                  </Text>
+                ) : null}
+              </View>
+              <Icon
+                name={expanded ? "chevron-up" : "chevron-down"}
+                type="ionicon"
+                color={theme.colors.textSecondary}
+                size={18}
+              />
+            </TouchableOpacity>
+
+            {expanded ? (
+              <>
+                <Divider style={styles.divider} />
+                {!entries ? (
+                  <ActivityIndicator color={theme.colors.primary} />
+                ) : entries.length === 0 ? (
+                  <Text style={styles.runDetail}>No entries changed in this run.</Text>
+                ) : (
+                  entries.map((entry) => renderEntry(entry, false))
+                )}
+              </>
+            ) : null}
+          </Card>
+        );
+      })}
+
+      <View style={styles.bottomPadding} />
+    </ScrollView>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useEffect, useMemo } from "react";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
 import { ScrollView, StyleSheet, View } from "react-native";
 import {
   Card,
@@ -8,19 +8,48 @@ import {
   Button,
 } from "@rneui/themed";
 import { useNetInfo } from "@react-native-community/netinfo";
+import { useFocusEffect, useNavigation } from "@react-navigation/native";
 import { format } from "date-fns";
 import { useSync } from "../contexts/SyncContext";
+import SyncService from "../services/syncService";
+import { OutboxItem } from "../services/database";
 import { useTheme } from "../contexts/ThemeContext";
+import SyncScheduler from "../services/syncScheduler";
+import { describeSyncPolicy, syncBlockedReason } from "../utils/syncPolicy";
 
 export default function SyncStatusScreen() {
-  const { syncStatus, syncStats, isSyncing, syncNow, refreshStats } = useSync();
+  const { syncStatus, syncStats, isSyncing, syncPolicy, syncNow, refreshStats } =
+    useSync();
   const { theme } = useTheme();
   const netInfo = useNetInfo();
+  const navigation = useNavigation<any>();
+
+  const [retryQueue, setRetryQueue] = useState<OutboxItem[]>([]);
 
   useEffect(() => {
     refreshStats();
   }, [refreshStats]);
 
+  const loadRetryQueue = useCallback(async () => {
+    try {
+      setRetryQueue(await SyncService.getRetryQueue());
+    } catch (error) {
+      console.error("Failed to load retry queue:", error);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadRetryQueue();
+    }, [loadRetryQueue])
+  );
+
+  useEffect(() => {
+    if (syncStatus.status !== "syncing") {
+      loadRetryQueue();
+    }
+  }, [syncStatus.status, loadRetryQueue]);
+
   const styles = useMemo(
     () =>
       StyleSheet.create({
@@ -147,6 +176,50 @@ export default function SyncStatusScreen() {
           letterSpacing: 1,
           marginBottom: 15,
         },
+        conflictText: {
+          fontSize: 14,
+          color: theme.colors.text,
+          lineHeight: 20,
+          marginBottom: 12,
+        },
+        conflictButton: {
+          backgroundColor: theme.colors.warning,
+          borderRadius: 8,
+          paddingVertical: 10,
+        },
+        retryRow: {
+          paddingVertical: 10,
+          borderBottomWidth: StyleSheet.hairlineWidth,
+          borderBottomColor: theme.colors.border,
+        },
+        retryHeader: {
+          flexDirection: "row",
+          justifyContent: "space-between",
+        },
+        retryTitle: {
+          fontSize: 14,
+          fontWeight: "600",
+          color: theme.colors.text,
+        },
+        retryAttempts: {
+          fontSize: 12,
+          fontWeight: "600",
+          color: theme.colors.warning,
+        },
+        retryDetail: {
+          fontSize: 12,
+          color: theme.colors.textSecondary,
+          marginTop: 2,
+        },
+        retryError: {
+          fontSize: 12,
+          color: theme.colors.error,
+          marginTop: 2,
+        },
+        historyButton: {
+          marginHorizontal: 16,
+          marginTop: 8,
+        },
         infoText: {
           fontSize: 14,
           color: theme.colors.text,
@@ -214,6 +287,11 @@ export default function SyncStatusScreen() {
     }
   }, [syncStatus.status, syncStatus.message]);
 
+  const autoSyncBlocked = useMemo(
+    () => syncBlockedReason(netInfo, syncPolicy, SyncScheduler.getHomeCarrier()),
+    [netInfo, syncPolicy]
+  );
+
   const lastSyncDisplay = useMemo(() => {
     const value = syncStats?.lastSyncedAt;
     if (!value) {
@@ -322,11 +400,79 @@ export default function SyncStatusScreen() {
         </Card>
       </View>
 
+      {syncStats?.conflicts ? (
+        <Card containerStyle={styles.infoCard}>
+          <Card.Title style={styles.cardTitle}>CONFLICTS</Card.Title>
+          <Text style={styles.conflictText}>
+            {syncStats.conflicts === 1
+              ? "1 entry was changed both here and on the server."
+              : `${syncStats.conflicts} entries were changed both here and on the server.`}{" "}
+            They will not sync until you choose which version to keep.
+          </Text>
+          <Button
+            title="Review Conflicts"
+            onPress={() => navigation.navigate("ConflictResolution")}
+            buttonStyle={styles.conflictButton}
+            icon={{
+              name: "git-compare",
+              type: "ionicon",
+              color: "white",
+              size: 20,
+            }}
+          />
+        </Card>
+      ) : null}
+
+      {retryQueue.length > 0 ? (
+        <Card containerStyle={styles.infoCard}>
+          <Card.Title style={styles.cardTitle}>RETRY QUEUE</Card.Title>
+          {retryQueue.map((item) => (
+            <View key={item.entryId} style={styles.retryRow}>
+              <View style={styles.retryHeader}>
+                <Text style={styles.retryTitle}>
+                  {item.aircraftReg} · {item.flightDate}
+                </Text>
+                <Text style={styles.retryAttempts}>
+                  {item.attempts} {item.attempts === 1 ? "attempt" : "attempts"}
+                </Text>
+              </View>
+              {item.permanent ? (
+                <Text style={styles.retryDetail}>
+                  Not retried until you fix the entry
+                </Text>
+              ) : item.nextAttemptAt ? (
+                <Text style={styles.retryDetail}>
+                  Next retry {format(new Date(item.nextAttemptAt), "MMM dd, hh:mm a")}
+                </Text>
+              ) : null}
+              {item.lastError ? (
+                <Text style={styles.retryError} numberOfLines={2}>
+                  {item.lastError}
+                </Text>
+              ) : null}
+            </View>
+          ))}
+        </Card>
+      ) : null}
+
+      <Button
+        title="View Sync History"
+        type="clear"
+        onPress={() => navigation.navigate("SyncHistory")}
+        containerStyle={styles.historyButton}
+        icon={{
+          name: "time-outline",
+          type: "ionicon",
+          color: theme.colors.primary,
+          size: 18,
+        }}
+      />
+
       <Card containerStyle={styles.infoCard}>
         <Card.Title style={styles.cardTitle}>ABOUT SYNC</Card.Title>
         <Text style={styles.infoText}>
-          • Entries are automatically synced in the background when a stable
-          connection is available.
+          • Entries sync automatically when you reconnect, shortly after you
+          save, and in the background. Change when in Profile → Sync.
         </Text>
         <Text style={styles.infoText}>
           • Tap "Sync Now" to trigger an immediate sync cycle.
@@ -334,6 +480,9 @@ export default function SyncStatusScreen() {
         <Text style={styles.infoText}>
           • Draft entries remain on device and sync once you reconnect.
         </Text>
+        <Text style={styles.infoText}>
+          • Failed uploads stay queued and are retried with increasing delays.
+        </Text>
         <Text style={styles.infoText}>
           • After syncing, submit entries to your organization for verification.
         </Text>
@@ -369,6 +518,21 @@ export default function SyncStatusScreen() {
             </Text>
           </View>
         </View>
+        <View style={styles.networkRow}>
+          <Icon
+            name="options"
+            type="ionicon"
+            color={autoSyncBlocked ? theme.colors.warning : theme.colors.success}
+            size={24}
+          />
+          <View style={styles.networkInfo}>
+            <Text style={styles.networkLabel}>Automatic Sync</Text>
+            <Text style={styles.networkValue}>{describeSyncPolicy(syncPolicy)}</Text>
+            {autoSyncBlocked ? (
+              <Text style={styles.networkLabel}>{autoSyncBlocked}</Text>
+            ) : null}
+          </View>
+        </View>
       </Card>
     </ScrollView>
   );
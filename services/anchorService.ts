@@ -0,0 +1,265 @@
+import axios from "axios";
+import { ANCHOR_CHAIN_ID, ANCHOR_RPC_URL } from "../config";
+import database, {
+  AnchorReceipt,
+  AnchorVerificationStatus,
+} from "./database";
+import DemoService from "./demoService";
+import MerkleService from "./merkleService";
+import { ApiAnchor, ApiProofStep } from "../utils/apiContract";
+import { MerkleProofStep } from "../utils/merkle";
+
+const RPC_TIMEOUT_MS = 10000;
+
+// The anchor contract emits `Anchored(bytes32 indexed root, ...)`: the root
+// is the first indexed topic, or the first data word when emitted unindexed.
+const ROOT_TOPIC_INDEX = 1;
+const ROOT_DATA_WORD = 0;
+const WORD_HEX_LENGTH = 64;
+
+const EXPLORER_TX_URLS: Record<number, string> = {
+  1: "https://etherscan.io/tx/",
+  11155111: "https://sepolia.etherscan.io/tx/",
+  137: "https://polygonscan.com/tx/",
+  80002: "https://amoy.polygonscan.com/tx/",
+};
+
+export interface AnchorVerificationResult {
+  entryId: number;
+  status: AnchorVerificationStatus | "missing";
+  receipt?: AnchorReceipt;
+  confirmations?: number;
+  reason?: string;
+  checkedAt: string;
+}
+
+type AnchorReceiptInput = Omit<
+  AnchorReceipt,
+  "entryId" | "verificationStatus" | "verifiedAt" | "createdAt"
+>;
+
+interface RpcLog {
+  address: string;
+  topics: string[];
+  data: string;
+}
+
+interface RpcTransactionReceipt {
+  status: string;
+  blockNumber: string;
+  to: string | null;
+  logs: RpcLog[];
+}
+
+interface ReceiptCheck {
+  status: AnchorVerificationStatus;
+  confirmations?: number;
+  reason?: string;
+}
+
+class RpcError extends Error {
+  constructor(message: string, public readonly code?: number) {
+    super(message);
+    this.name = "RpcError";
+  }
+}
+
+function normalizeHex(value: string): string {
+  const lower = value.toLowerCase();
+  return lower.startsWith("0x") ? lower.slice(2) : lower;
+}
+
+function readWord(data: string, index: number): string | null {
+  const hex = normalizeHex(data);
+  const start = index * WORD_HEX_LENGTH;
+  return hex.length >= start + WORD_HEX_LENGTH
+    ? hex.slice(start, start + WORD_HEX_LENGTH)
+    : null;
+}
+
+function logsRoot(log: RpcLog, root: string): boolean {
+  const topic = log.topics[ROOT_TOPIC_INDEX];
+  return (
+    (topic !== undefined && normalizeHex(topic) === root) ||
+    readWord(log.data, ROOT_DATA_WORD) === root
+  );
+}
+
+// The API contract checks the shape of each step; the hashes must also be words.
+function parseProof(proof: ApiProofStep[] | undefined): MerkleProofStep[] | undefined {
+  if (!proof?.every((step) => /^(0x)?[0-9a-fA-F]{64}$/.test(step.hash))) {
+    return undefined;
+  }
+  return proof.map((step) => ({ hash: normalizeHex(step.hash), position: step.position }));
+}
+
+class AnchorService {
+  private requestId = 0;
+
+  constructor(private rpcUrl: string = ANCHOR_RPC_URL) {}
+
+  /**
+   * Read the `anchor` object of a server entry payload. Returns null when the
+   * payload carries no (or incomplete) anchoring data.
+   */
+  parseAnchorPayload(anchor: ApiAnchor | undefined): AnchorReceiptInput | null {
+    if (
+      anchor?.block_number === undefined ||
+      anchor.contract_address === undefined ||
+      anchor.tx_hash === undefined ||
+      anchor.merkle_root === undefined
+    ) {
+      return null;
+    }
+
+    return {
+      chainId: anchor.chain_id ?? ANCHOR_CHAIN_ID,
+      contractAddress: anchor.contract_address,
+      txHash: anchor.tx_hash,
+      blockNumber: anchor.block_number,
+      merkleRoot: anchor.merkle_root,
+      proof: parseProof(anchor.proof),
+    };
+  }
+
+  async recordReceipt(entryId: number, receipt: AnchorReceiptInput): Promise<void> {
+    await database.saveAnchorReceipt({ entryId, ...receipt });
+  }
+
+  getExplorerUrl(receipt: Pick<AnchorReceipt, "chainId" | "txHash">): string | null {
+    const base = EXPLORER_TX_URLS[receipt.chainId];
+    return base ? `${base}${receipt.txHash}` : null;
+  }
+
+  /**
+   * Confirm that the entry's current contents are included in the anchored
+   * root, then against the configured JSON-RPC endpoint that the anchor
+   * transaction succeeded, was sent to the recorded contract and emitted that
+   * root.
+   */
+  async verifyAnchor(entryId: number): Promise<AnchorVerificationResult> {
+    const checkedAt = new Date().toISOString();
+    const receipt = await database.getAnchorReceipt(entryId);
+
+    if (!receipt) {
+      return { entryId, status: "missing", reason: "No anchor receipt", checkedAt };
+    }
+
+    const inclusion = await this.checkInclusion(receipt);
+    if (inclusion) {
+      await database.setAnchorVerification(entryId, inclusion.status);
+      return { ...inclusion, entryId, receipt, checkedAt };
+    }
+
+    let check: ReceiptCheck;
+    try {
+      check = await this.checkReceipt(receipt);
+    } catch (error) {
+      console.warn("[Anchor] RPC verification failed:", error);
+      return {
+        entryId,
+        receipt,
+        status: "unreachable",
+        reason: error instanceof Error ? error.message : "RPC request failed",
+        checkedAt,
+      };
+    }
+
+    await database.setAnchorVerification(entryId, check.status);
+    return { ...check, entryId, receipt, checkedAt };
+  }
+
+  /** Returns a failed check, or null when the proof holds. */
+  private async checkInclusion(receipt: AnchorReceipt): Promise<ReceiptCheck | null> {
+    if (!receipt.proof) {
+      return { status: "mismatch", reason: "Receipt has no inclusion proof" };
+    }
+
+    const entry = await database.getEntry(receipt.entryId);
+    if (!entry) {
+      return { status: "mismatch", reason: "Entry not found" };
+    }
+
+    const result = MerkleService.verifyProof(entry, receipt.proof, receipt.merkleRoot);
+    return result.valid
+      ? null
+      : { status: "mismatch", reason: "Entry is not included in the anchored root" };
+  }
+
+  private async checkReceipt(receipt: AnchorReceipt): Promise<ReceiptCheck> {
+    const chainId = parseInt(await this.call<string>("eth_chainId", []), 16);
+    if (chainId !== receipt.chainId) {
+      return {
+        status: "mismatch",
+        reason: `RPC endpoint is on chain ${chainId}, receipt expects ${receipt.chainId}`,
+      };
+    }
+
+    const txReceipt = await this.call<RpcTransactionReceipt | null>(
+      "eth_getTransactionReceipt",
+      [receipt.txHash]
+    );
+
+    if (!txReceipt) {
+      return { status: "not_found", reason: "Transaction not found on chain" };
+    }
+
+    if (txReceipt.status !== "0x1") {
+      return { status: "mismatch", reason: "Anchor transaction reverted" };
+    }
+
+    const blockNumber = parseInt(txReceipt.blockNumber, 16);
+    if (blockNumber !== receipt.blockNumber) {
+      return {
+        status: "mismatch",
+        reason: `Transaction mined in block ${blockNumber}, receipt says ${receipt.blockNumber}`,
+      };
+    }
+
+    const contract = normalizeHex(receipt.contractAddress);
+    if (!txReceipt.to || normalizeHex(txReceipt.to) !== contract) {
+      return { status: "mismatch", reason: "Transaction was not sent to the anchor contract" };
+    }
+
+    const root = normalizeHex(receipt.merkleRoot);
+    const rootLogged = txReceipt.logs.some(
+      (log) => normalizeHex(log.address) === contract && logsRoot(log, root)
+    );
+
+    if (!rootLogged) {
+      return { status: "mismatch", reason: "Merkle root not found in contract logs" };
+    }
+
+    const latestBlock = parseInt(await this.call<string>("eth_blockNumber", []), 16);
+
+    return {
+      status: "verified",
+      confirmations: Math.max(latestBlock - blockNumber + 1, 0),
+    };
+  }
+
+  private async call<T>(method: string, params: unknown[]): Promise<T> {
+    // The demo stubs the API, not the chain; its receipts stay unverified.
+    if (DemoService.isActive()) {
+      throw new RpcError("Not available in the demo");
+    }
+
+    this.requestId += 1;
+    const response = await axios.post(
+      this.rpcUrl,
+      { jsonrpc: "2.0", id: this.requestId, method, params },
+      { timeout: RPC_TIMEOUT_MS, headers: { "Content-Type": "application/json" } }
+    );
+
+    if (response.data?.error) {
+      throw new RpcError(
+        response.data.error.message ?? `${method} failed`,
+        response.data.error.code
+      );
+    }
+
+    return response.data?.result as T;
+  }
+}
+
+export default new AnchorService();
@@ -1,28 +1,94 @@
-import axios, { AxiosInstance, AxiosError } from "axios";
+import axios, {
+  AxiosAdapter,
+  AxiosInstance,
+  AxiosError,
+  InternalAxiosRequestConfig,
+  isAxiosError,
+} from "axios";
 import * as SecureStore from "expo-secure-store";
 import { API_BASE_URL } from "../config";
+import {
+  EntryListParams,
+  EntryListResponse,
+  entryListResponse,
+  LoginRequest,
+  LoginResponse,
+  loginResponse,
+  MfaVerifyRequest,
+  OrganizationsResponse,
+  organizationsResponse,
+  parseResponse,
+  ProfileResponse,
+  profileResponse,
+  RefreshResponse,
+  refreshResponse,
+  ServerEntry,
+  serverEntry,
+  SessionResponse,
+  sessionResponse,
+  SiweNonceResponse,
+  siweNonceResponse,
+  SubmitRequest,
+  SyncRequest,
+  SyncResponse,
+  syncResponse,
+  UploadResponse,
+  uploadResponse,
+} from "../utils/apiContract";
+import { WireEntry } from "../utils/entryWire";
+
+/** `session_expired`: the refresh token was refused and the tokens are gone. */
+export type AuthEvent = "token_refreshed" | "session_expired";
+
+type AuthEventListener = (event: AuthEvent) => void;
+
+interface RetryableRequest extends InternalAxiosRequestConfig {
+  _retry?: boolean;
+  _accessToken?: string | null;
+}
 
 class ApiClient {
   private client: AxiosInstance;
+  // Refreshes skip the interceptors, which would wait on the refresh itself.
+  private refreshClient: AxiosInstance;
+  private networkAdapter: AxiosInstance["defaults"]["adapter"];
   private accessToken: string | null = null;
   private refreshToken: string | null = null;
+  private refreshing: Promise<string | null> | null = null;
+  private authListeners: Set<AuthEventListener> = new Set();
 
   constructor() {
-    this.client = axios.create({
+    const config = {
       baseURL: API_BASE_URL,
       timeout: 30000,
       headers: {
         "Content-Type": "application/json",
       },
-    });
+    };
+    this.client = axios.create(config);
+    this.refreshClient = axios.create(config);
+    this.networkAdapter = this.client.defaults.adapter;
 
     this.setupInterceptors();
   }
 
+  /**
+   * Answer every request with `adapter` instead of sending it, or go back to
+   * the network with null. Demo mode uses this so nothing leaves the device.
+   */
+  setAdapter(adapter: AxiosAdapter | null) {
+    this.client.defaults.adapter = adapter ?? this.networkAdapter;
+    this.refreshClient.defaults.adapter = adapter ?? this.networkAdapter;
+  }
+
   private setupInterceptors() {
     // Attach tokens before each request
     this.client.interceptors.request.use(
-      async (config) => {
+      async (config: RetryableRequest) => {
+        // Requests made while a refresh is running wait for the new token.
+        if (this.refreshing) {
+          await this.refreshing.catch(() => null);
+        }
         if (!this.accessToken) {
           this.accessToken = await SecureStore.getItemAsync("access_token");
         }
@@ -30,6 +96,7 @@ class ApiClient {
         if (this.accessToken) {
           config.headers.Authorization = `Bearer ${this.accessToken}`;
         }
+        config._accessToken = this.accessToken;
 
         return config;
       },
@@ -40,24 +107,37 @@ class ApiClient {
     this.client.interceptors.response.use(
       (response) => response,
       async (error: AxiosError) => {
-        const originalRequest = error.config as any;
+        const originalRequest = error.config as RetryableRequest | undefined;
 
-        if (error.response?.status === 401 && !originalRequest._retry) {
-          originalRequest._retry = true;
+        // A 401 from a sign-in endpoint means bad credentials, not a stale token.
+        const isAuthRequest = originalRequest?.url?.startsWith("/auth/");
+        if (
+          !originalRequest ||
+          error.response?.status !== 401 ||
+          originalRequest._retry ||
+          isAuthRequest
+        ) {
+          return Promise.reject(error);
+        }
+        originalRequest._retry = true;
 
+        // Parallel 401s share one refresh; a request that was sent with a
+        // token that has since been replaced just goes again.
+        let accessToken: string | null;
+        if (this.accessToken && this.accessToken !== originalRequest._accessToken) {
+          accessToken = this.accessToken;
+        } else {
           try {
-            const newAccessToken = await this.refreshAccessToken();
-            if (newAccessToken) {
-              originalRequest.headers.Authorization = `Bearer ${newAccessToken}`;
-              return this.client(originalRequest);
-            }
-          } catch (refreshError) {
-            await this.logout();
-            throw refreshError;
+            accessToken = await this.refreshSession();
+          } catch {
+            return Promise.reject(error);
           }
         }
 
-        return Promise.reject(error);
+        if (!accessToken) {
+          return Promise.reject(error);
+        }
+        return this.client(originalRequest);
       }
     );
   }
@@ -69,6 +149,13 @@ class ApiClient {
     await SecureStore.setItemAsync("refresh_token", refreshToken);
   }
 
+  async getAccessToken(): Promise<string | null> {
+    if (!this.accessToken) {
+      this.accessToken = await SecureStore.getItemAsync("access_token");
+    }
+    return this.accessToken;
+  }
+
   async clearTokens() {
     this.accessToken = null;
     this.refreshToken = null;
@@ -76,6 +163,42 @@ class ApiClient {
     await SecureStore.deleteItemAsync("refresh_token");
   }
 
+  /** Listen for token refreshes and expired sessions. */
+  onAuthEvent(listener: AuthEventListener): () => void {
+    this.authListeners.add(listener);
+    return () => {
+      this.authListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Refresh the access token, at most once at a time. Resolves to null when
+   * the server refused the refresh token, after ending the session; a
+   * network failure rejects and leaves the session alone.
+   */
+  private refreshSession(): Promise<string | null> {
+    if (!this.refreshing) {
+      this.refreshing = this.refreshAccessToken()
+        .then(async (accessToken) => {
+          if (accessToken) {
+            this.emitAuthEvent("token_refreshed");
+          } else if (this.refreshToken) {
+            await this.clearTokens();
+            this.emitAuthEvent("session_expired");
+          }
+          return accessToken;
+        })
+        .finally(() => {
+          this.refreshing = null;
+        });
+    }
+    return this.refreshing;
+  }
+
+  private emitAuthEvent(event: AuthEvent) {
+    this.authListeners.forEach((listener) => listener(event));
+  }
+
   private async refreshAccessToken(): Promise<string | null> {
     if (!this.refreshToken) {
       this.refreshToken = await SecureStore.getItemAsync("refresh_token");
@@ -86,28 +209,52 @@ class ApiClient {
     }
 
     try {
-      const response = await axios.post(`${API_BASE_URL}/auth/refresh`, {
+      const response = await this.refreshClient.post("/auth/refresh", {
         refresh_token: this.refreshToken,
       });
 
-      const { access_token } = response.data;
+      const { access_token }: RefreshResponse = parseResponse(
+        refreshResponse,
+        response.data,
+        "POST /auth/refresh"
+      );
       this.accessToken = access_token;
       await SecureStore.setItemAsync("access_token", access_token);
 
       return access_token;
-    } catch {
-      return null;
+    } catch (error) {
+      if (isAxiosError(error) && error.response && error.response.status < 500) {
+        return null;
+      }
+      throw error;
     }
   }
 
   // Auth endpoints
-  async login(email: string, password: string, totpCode?: string) {
-    const response = await this.client.post("/auth/login", {
-      email,
-      password,
-      totp_code: totpCode,
+  async login(email: string, password: string): Promise<LoginResponse> {
+    const body: LoginRequest = { email, password };
+    const response = await this.client.post("/auth/login", body);
+    return parseResponse(loginResponse, response.data, "POST /auth/login");
+  }
+
+  async verifyMfa(request: MfaVerifyRequest): Promise<SessionResponse> {
+    const response = await this.client.post("/auth/mfa/verify", request);
+    return parseResponse(sessionResponse, response.data, "POST /auth/mfa/verify");
+  }
+
+  async getSiweNonce(address: string): Promise<SiweNonceResponse> {
+    const response = await this.client.get("/auth/siwe/nonce", {
+      params: { address },
     });
-    return response.data;
+    return parseResponse(siweNonceResponse, response.data, "GET /auth/siwe/nonce");
+  }
+
+  async loginWithSiwe(message: string, signature: string): Promise<SessionResponse> {
+    const response = await this.client.post("/auth/siwe/verify", {
+      message,
+      signature,
+    });
+    return parseResponse(sessionResponse, response.data, "POST /auth/siwe/verify");
   }
 
   async logout() {
@@ -122,59 +269,81 @@ class ApiClient {
     }
   }
 
+  async getProfile(): Promise<ProfileResponse> {
+    const response = await this.client.get("/pilots/me");
+    return parseResponse(profileResponse, response.data, "GET /pilots/me");
+  }
+
   // Flight entries endpoints
-  async getEntries(params?: {
-    status?: string;
-    page?: number;
-    per_page?: number;
-  }) {
+  async getEntries(params?: EntryListParams): Promise<EntryListResponse> {
     const response = await this.client.get("/pilots/me/entries", { params });
-    return response.data;
+    return parseResponse(entryListResponse, response.data, "GET /pilots/me/entries");
   }
 
-  async getEntry(id: number) {
+  async getEntry(id: number): Promise<ServerEntry> {
     const response = await this.client.get(`/pilots/me/entries/${id}`);
-    return response.data;
+    return parseResponse(serverEntry, response.data, "GET /pilots/me/entries/:id");
   }
 
-  async createEntry(entry: any) {
+  async createEntry(entry: WireEntry): Promise<ServerEntry> {
     const response = await this.client.post("/pilots/me/entries", { entry });
-    return response.data;
+    return parseResponse(serverEntry, response.data, "POST /pilots/me/entries");
   }
 
-  async updateEntry(id: number, entry: any) {
+  async updateEntry(id: number, entry: Partial<WireEntry>): Promise<ServerEntry> {
     const response = await this.client.patch(`/pilots/me/entries/${id}`, {
       entry,
     });
-    return response.data;
+    return parseResponse(serverEntry, response.data, "PATCH /pilots/me/entries/:id");
   }
 
-  async deleteEntry(id: number) {
+  async deleteEntry(id: number): Promise<void> {
     await this.client.delete(`/pilots/me/entries/${id}`);
   }
 
-  async submitEntry(id: number, organizationId: number) {
-    const response = await this.client.post(`/pilots/me/entries/${id}/submit`, {
-      organization_id: organizationId,
-    });
-    return response.data;
+  async getOrganizations(): Promise<OrganizationsResponse> {
+    const response = await this.client.get("/pilots/me/organizations");
+    return parseResponse(
+      organizationsResponse,
+      response.data,
+      "GET /pilots/me/organizations"
+    );
   }
 
-  async syncEntries(entries: any[]) {
-    const response = await this.client.post("/pilots/me/entries/sync", {
-      entries,
+  async submitEntry(id: number, organizationId: number): Promise<ServerEntry> {
+    const body: SubmitRequest = { organization_id: organizationId };
+    const response = await this.client.post(`/pilots/me/entries/${id}/submit`, body);
+    return parseResponse(
+      serverEntry,
+      response.data,
+      "POST /pilots/me/entries/:id/submit"
+    );
+  }
+
+  async syncEntries(entries: WireEntry[], idempotencyKey: string): Promise<SyncResponse> {
+    const body: SyncRequest = { entries };
+    const response = await this.client.post("/pilots/me/entries/sync", body, {
+      headers: { "Idempotency-Key": idempotencyKey },
     });
-    return response.data;
+    return parseResponse(syncResponse, response.data, "POST /pilots/me/entries/sync");
   }
 
   // File upload
-  async uploadAttachment(uri: string, filename: string) {
+  async uploadAttachment(
+    uri: string,
+    filename: string,
+    contentType: string,
+    checksum?: string
+  ): Promise<UploadResponse> {
     const formData = new FormData();
     formData.append("file", {
       uri,
       name: filename,
-      type: "image/jpeg",
+      type: contentType,
     } as any);
+    if (checksum) {
+      formData.append("checksum", checksum);
+    }
 
     const response = await this.client.post("/uploads", formData, {
       headers: {
@@ -182,7 +351,7 @@ class ApiClient {
       },
     });
 
-    return response.data;
+    return parseResponse(uploadResponse, response.data, "POST /uploads");
   }
 }
 
@@ -0,0 +1,267 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Crypto from "expo-crypto";
+import * as SecureStore from "expo-secure-store";
+import { AppState, AppStateStatus, NativeEventSubscription } from "react-native";
+import ApiClient from "./apiClient";
+import AttachmentService from "./attachmentService";
+import database from "./database";
+import DemoService from "./demoService";
+import SigningService from "./signingService";
+import WalletService from "./walletService";
+import { hashPin, isValidPin, PinHash, verifyPin } from "../utils/pinHash";
+
+const SETTINGS_KEY = "@flightlog:app_lock";
+const PIN_KEY = "app_lock_pin";
+const FAILED_ATTEMPTS_KEY = "app_lock_failed_attempts";
+
+/** Wrong PINs in a row before everything on the device is erased. */
+export const WIPE_AFTER_ATTEMPTS = 10;
+
+/** Seconds in the background before the app locks; 0 locks straight away. */
+export const AUTO_LOCK_OPTIONS = [0, 60, 5 * 60, 15 * 60, 60 * 60];
+
+export interface AppLockSettings {
+  enabled: boolean;
+  autoLockSeconds: number;
+}
+
+export interface AppLockState extends AppLockSettings {
+  locked: boolean;
+  failedAttempts: number;
+}
+
+export type UnlockResult =
+  | { status: "unlocked" }
+  | { status: "invalid"; attemptsRemaining: number }
+  | { status: "wiped" };
+
+type StateListener = (state: AppLockState) => void;
+
+const DEFAULT_SETTINGS: AppLockSettings = {
+  enabled: false,
+  autoLockSeconds: 60,
+};
+
+export function formatAutoLock(seconds: number): string {
+  if (seconds === 0) {
+    return "Immediately";
+  }
+  return seconds < 60 * 60 ? `${seconds / 60} min` : `${seconds / 3600} h`;
+}
+
+/**
+ * Guards the logbook with a PIN. The app locks on launch and after
+ * `autoLockSeconds` in the background; `WIPE_AFTER_ATTEMPTS` wrong PINs in
+ * a row erase the local database, tokens and device keys. The PIN is kept
+ * only as a salted hash in secure storage.
+ */
+class AppLockService {
+  private settings: AppLockSettings = { ...DEFAULT_SETTINGS };
+  private locked = false;
+  private failedAttempts = 0;
+  private backgroundedAt: number | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private listeners: Set<StateListener> = new Set();
+  private wipeListeners: Set<() => void> = new Set();
+
+  /** Load the settings and lock if a PIN is set; call once on launch. */
+  async start(): Promise<AppLockState> {
+    try {
+      const stored = await AsyncStorage.getItem(SETTINGS_KEY);
+      this.settings = { ...DEFAULT_SETTINGS, ...(stored ? JSON.parse(stored) : {}) };
+      this.failedAttempts = Number(await SecureStore.getItemAsync(FAILED_ATTEMPTS_KEY)) || 0;
+      // Settings without a stored PIN cannot be unlocked; treat them as off.
+      if (this.settings.enabled && !(await this.loadPin())) {
+        this.settings.enabled = false;
+      }
+    } catch (error) {
+      console.warn("Failed to load app lock settings:", error);
+    }
+
+    this.locked = this.settings.enabled;
+    if (!this.appStateSubscription) {
+      this.appStateSubscription = AppState.addEventListener(
+        "change",
+        this.handleAppStateChange
+      );
+    }
+    this.notify();
+    return this.getState();
+  }
+
+  stop(): void {
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+  }
+
+  getState(): AppLockState {
+    return {
+      ...this.settings,
+      locked: this.locked,
+      failedAttempts: this.failedAttempts,
+    };
+  }
+
+  /** Called with the current state now and on every change. */
+  onStateChange(listener: StateListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getState());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Called after too many wrong PINs erased the local data. */
+  onWipe(listener: () => void): () => void {
+    this.wipeListeners.add(listener);
+    return () => {
+      this.wipeListeners.delete(listener);
+    };
+  }
+
+  /** Turn the lock on, or replace the PIN when it is already on. */
+  async setPin(pin: string): Promise<void> {
+    if (!isValidPin(pin)) {
+      throw new Error("PIN must be 4 to 8 digits");
+    }
+
+    const stored = await hashPin(pin, Crypto.getRandomBytes(16));
+    await SecureStore.setItemAsync(PIN_KEY, JSON.stringify(stored));
+    await this.resetFailedAttempts();
+    await this.saveSettings({ ...this.settings, enabled: true });
+  }
+
+  /** Check a PIN without counting it as an unlock attempt. */
+  async checkPin(pin: string): Promise<boolean> {
+    const stored = await this.loadPin();
+    return stored != null && (await verifyPin(pin, stored));
+  }
+
+  async disable(): Promise<void> {
+    await SecureStore.deleteItemAsync(PIN_KEY);
+    await this.resetFailedAttempts();
+    this.locked = false;
+    await this.saveSettings({ ...this.settings, enabled: false });
+  }
+
+  async setAutoLockTimeout(seconds: number): Promise<void> {
+    if (!AUTO_LOCK_OPTIONS.includes(seconds)) {
+      throw new Error(`Unsupported auto-lock timeout: ${seconds}`);
+    }
+    await this.saveSettings({ ...this.settings, autoLockSeconds: seconds });
+  }
+
+  lock(): void {
+    if (this.settings.enabled && !this.locked) {
+      this.locked = true;
+      this.notify();
+    }
+  }
+
+  /**
+   * Try a PIN on the lock screen. Wrong PINs are counted in secure storage,
+   * so restarting the app does not reset the count.
+   */
+  async unlock(pin: string): Promise<UnlockResult> {
+    if (await this.checkPin(pin)) {
+      await this.resetFailedAttempts();
+      this.locked = false;
+      this.notify();
+      return { status: "unlocked" };
+    }
+
+    this.failedAttempts += 1;
+    await SecureStore.setItemAsync(FAILED_ATTEMPTS_KEY, String(this.failedAttempts));
+
+    if (this.failedAttempts >= WIPE_AFTER_ATTEMPTS) {
+      await this.wipe();
+      return { status: "wiped" };
+    }
+
+    this.notify();
+    return {
+      status: "invalid",
+      attemptsRemaining: WIPE_AFTER_ATTEMPTS - this.failedAttempts,
+    };
+  }
+
+  private handleAppStateChange = (next: AppStateStatus) => {
+    if (!this.settings.enabled) {
+      return;
+    }
+
+    if (next === "background") {
+      this.backgroundedAt = this.backgroundedAt ?? Date.now();
+      if (this.settings.autoLockSeconds === 0) {
+        this.lock();
+      }
+    } else if (next === "active" && this.backgroundedAt !== null) {
+      const away = Date.now() - this.backgroundedAt;
+      this.backgroundedAt = null;
+      if (away >= this.settings.autoLockSeconds * 1000) {
+        this.lock();
+      }
+    }
+  };
+
+  /**
+   * Erase everything personal on the device. Each step runs even if an
+   * earlier one fails, so a partial failure never leaves data behind that
+   * could have been removed.
+   */
+  private async wipe(): Promise<void> {
+    console.warn("[AppLock] Too many wrong PINs; erasing local data");
+
+    const storedUser = await AsyncStorage.getItem("user").catch(() => null);
+    const pilotId: number | undefined = storedUser ? JSON.parse(storedUser).id : undefined;
+
+    const steps: (() => Promise<unknown>)[] = [
+      // Back to the real database first, so that is what gets wiped.
+      () => (DemoService.isActive() ? DemoService.exit() : Promise.resolve()),
+      () => database.wipeUserData(),
+      async () => AttachmentService.deleteAllLocalCopies(),
+      () => ApiClient.clearTokens(),
+      () => WalletService.forgetKey(),
+      () => (pilotId != null ? SigningService.forgetKey(pilotId) : Promise.resolve()),
+      () => SecureStore.deleteItemAsync(PIN_KEY),
+      () => SecureStore.deleteItemAsync(FAILED_ATTEMPTS_KEY),
+      () => AsyncStorage.clear(),
+    ];
+    for (const step of steps) {
+      try {
+        await step();
+      } catch (error) {
+        console.error("[AppLock] Wipe step failed:", error);
+      }
+    }
+
+    this.settings = { ...DEFAULT_SETTINGS };
+    this.failedAttempts = 0;
+    this.locked = false;
+    this.wipeListeners.forEach((listener) => listener());
+    this.notify();
+  }
+
+  private async loadPin(): Promise<PinHash | null> {
+    const stored = await SecureStore.getItemAsync(PIN_KEY);
+    return stored ? JSON.parse(stored) : null;
+  }
+
+  private async resetFailedAttempts(): Promise<void> {
+    this.failedAttempts = 0;
+    await SecureStore.deleteItemAsync(FAILED_ATTEMPTS_KEY);
+  }
+
+  private async saveSettings(settings: AppLockSettings): Promise<void> {
+    this.settings = settings;
+    await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    this.notify();
+  }
+
+  private notify() {
+    const state = this.getState();
+    this.listeners.forEach((listener) => listener(state));
+  }
+}
+
+export default new AppLockService();
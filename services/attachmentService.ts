@@ -0,0 +1,196 @@
+import { Directory, File, Paths } from "expo-file-system";
+import * as Crypto from "expo-crypto";
+import { sha256 } from "@noble/hashes/sha256";
+import { bytesToHex } from "@noble/hashes/utils";
+import ApiClient from "./apiClient";
+import database, { FlightEntry } from "./database";
+import { detectContentType } from "../utils/contentType";
+
+/** One item of an entry's `attachments` JSON. */
+export interface EntryAttachment {
+  uri?: string;
+  filename: string;
+  size: number;
+  // Present on attachments that came from the server.
+  remoteId?: string;
+  checksum?: string;
+  contentType?: string;
+}
+
+/** Server-side reference to an uploaded attachment. */
+export interface UploadedAttachment {
+  filename: string;
+  size: number;
+  contentType: string;
+  checksum: string;
+  remoteId: string;
+}
+
+const ATTACHMENT_DIRECTORY = "attachments";
+
+/**
+ * The file behind an attachment is gone, so retrying cannot help; only the
+ * pilot can, by removing or replacing the photo.
+ */
+export class MissingAttachmentError extends Error {
+  constructor(readonly filename: string) {
+    super(`Attachment ${filename} is no longer on this device`);
+    this.name = "MissingAttachmentError";
+  }
+}
+
+export function parseAttachments(value: string | undefined): EntryAttachment[] {
+  if (!value) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+class AttachmentService {
+  /**
+   * Copy a picked photo into the app's documents and return the copy's URI.
+   * Pickers hand out cache files the system may clear before the entry
+   * syncs.
+   */
+  keepLocalCopy(uri: string, filename: string): string {
+    const directory = new Directory(Paths.document, ATTACHMENT_DIRECTORY);
+    directory.create({ idempotent: true, intermediates: true });
+
+    const copy = new File(directory, `${Crypto.randomUUID()}-${filename}`);
+    new File(uri).copy(copy);
+    return copy.uri;
+  }
+
+  /**
+   * Delete the copies made by `keepLocalCopy` for these attachments. Versions
+   * of an entry share their photos, so a copy that any entry in the open
+   * database still lists is kept. Files outside the attachment directory are
+   * never touched.
+   */
+  async deleteLocalCopies(attachments: EntryAttachment[]): Promise<void> {
+    for (const { uri } of attachments) {
+      if (!uri) {
+        continue;
+      }
+
+      const directory = new Directory(Paths.document, ATTACHMENT_DIRECTORY);
+      if (!uri.startsWith(directory.uri) || (await database.isAttachmentInUse(uri))) {
+        continue;
+      }
+
+      try {
+        const file = new File(uri);
+        if (file.exists) {
+          file.delete();
+        }
+      } catch (error) {
+        console.warn("[Attachments] Could not delete a local copy:", error);
+      }
+    }
+  }
+
+  /** Delete every copy made by `keepLocalCopy`, whatever still lists it. */
+  deleteAllLocalCopies(): void {
+    const directory = new Directory(Paths.document, ATTACHMENT_DIRECTORY);
+    if (directory.exists) {
+      directory.delete();
+    }
+  }
+
+  /**
+   * Upload every attachment of an entry that the server does not have yet
+   * and return references to all of them. Each finished upload is recorded
+   * straight away, so after a failure the next sync resumes with the files
+   * that are still missing. Throws if any attachment cannot be uploaded, with
+   * a MissingAttachmentError if its file is gone.
+   */
+  async uploadForEntry(entry: FlightEntry): Promise<UploadedAttachment[]> {
+    const uploaded: UploadedAttachment[] = [];
+
+    for (const attachment of parseAttachments(entry.attachments)) {
+      uploaded.push(await this.uploadAttachment(entry.id!, attachment));
+    }
+
+    return uploaded;
+  }
+
+  private async uploadAttachment(
+    entryId: number,
+    attachment: EntryAttachment
+  ): Promise<UploadedAttachment> {
+    if (attachment.remoteId && attachment.checksum && attachment.contentType) {
+      return this.toReference(attachment, {
+        contentType: attachment.contentType,
+        checksum: attachment.checksum,
+        remoteId: attachment.remoteId,
+      });
+    }
+
+    if (!attachment.uri) {
+      throw new MissingAttachmentError(attachment.filename);
+    }
+
+    const recorded = await database.getAttachmentUpload(entryId, attachment.uri);
+    if (recorded) {
+      return this.toReference(attachment, recorded);
+    }
+
+    const file = new File(attachment.uri);
+    if (!file.exists) {
+      throw new MissingAttachmentError(attachment.filename);
+    }
+
+    const bytes = await file.bytes();
+    const checksum = bytesToHex(sha256(bytes));
+    const contentType = detectContentType(bytes, attachment.filename);
+
+    // Versions of an entry share their photos; never upload the same bytes twice.
+    const previous = await database.findAttachmentUploadByChecksum(checksum);
+    let remoteId = previous?.remoteId;
+
+    if (!remoteId) {
+      const response = await ApiClient.uploadAttachment(
+        attachment.uri,
+        attachment.filename,
+        contentType,
+        checksum
+      );
+      remoteId = String(response.id);
+    }
+
+    const upload = { contentType, checksum, remoteId };
+    await database.saveAttachmentUpload({
+      ...upload,
+      entryId,
+      localUri: attachment.uri,
+      filename: attachment.filename,
+      size: bytes.length,
+      uploadedAt: new Date().toISOString(),
+    });
+
+    return this.toReference(attachment, upload);
+  }
+
+  // Filename and size come from the entry itself: they are part of its hash,
+  // and the copy the server sends back must hash the same.
+  private toReference(
+    attachment: EntryAttachment,
+    upload: Pick<UploadedAttachment, "contentType" | "checksum" | "remoteId">
+  ): UploadedAttachment {
+    return {
+      filename: attachment.filename,
+      size: attachment.size,
+      contentType: upload.contentType,
+      checksum: upload.checksum,
+      remoteId: upload.remoteId,
+    };
+  }
+}
+
+export default new AttachmentService();
@@ -0,0 +1,176 @@
+import database, { EntryConflict, FlightEntry } from "./database";
+import { canonicalizeEntry, canonicalJson } from "../utils/entryHash";
+
+type ServerEntry = Omit<FlightEntry, "id" | "createdAt" | "updatedAt">;
+
+/**
+ * Logged fields the pilot can pick between when resolving a conflict. Every
+ * hashed field but the pilot is listed, since any of them can cause one.
+ */
+export const CONFLICT_FIELDS = [
+  { key: "flightDate", label: "Date" },
+  { key: "aircraftReg", label: "Aircraft" },
+  { key: "aircraftType", label: "Type" },
+  { key: "routeFrom", label: "From" },
+  { key: "routeTo", label: "To" },
+  { key: "departureAirportIcao", label: "Departure Airport" },
+  { key: "arrivalAirportIcao", label: "Arrival Airport" },
+  { key: "departureTimezone", label: "Departure Timezone" },
+  { key: "arrivalTimezone", label: "Arrival Timezone" },
+  { key: "departureTimeUtc", label: "Out (UTC)" },
+  { key: "arrivalTimeUtc", label: "In (UTC)" },
+  { key: "picTime", label: "PIC" },
+  { key: "sicTime", label: "SIC" },
+  { key: "dualTime", label: "Dual" },
+  { key: "nightTime", label: "Night" },
+  { key: "instrumentTime", label: "Instrument" },
+  { key: "totalTime", label: "Total" },
+  { key: "landingsDay", label: "Day Landings" },
+  { key: "landingsNight", label: "Night Landings" },
+  { key: "nightTimeMethod", label: "Night Method" },
+  { key: "nightTimeCalculatedAt", label: "Night Calculated" },
+  { key: "remarks", label: "Remarks" },
+  { key: "attachments", label: "Attachments" },
+  { key: "additionalData", label: "Flight Details" },
+] as const;
+
+export type ConflictField = (typeof CONFLICT_FIELDS)[number]["key"];
+
+export type ConflictSide = "local" | "server";
+
+export type ConflictResolution =
+  | ConflictSide
+  | Partial<Record<ConflictField, ConflictSide>>;
+
+export interface ConflictDetail {
+  conflict: EntryConflict;
+  local: FlightEntry;
+  server: ServerEntry;
+  differingFields: ConflictField[];
+}
+
+// Compared as the content hash sees them, so the fields behind a conflict
+// always show up and key order or local attachment paths never do.
+function differingFields(local: FlightEntry, server: ServerEntry) {
+  const localView = JSON.parse(canonicalizeEntry(local));
+  const serverView = JSON.parse(canonicalizeEntry(server));
+  return CONFLICT_FIELDS.map((field) => field.key).filter(
+    (key) => canonicalJson(localView[key]) !== canonicalJson(serverView[key])
+  );
+}
+
+class ConflictService {
+  /**
+   * Persist a conflict between the pilot's unsynced local copy and a server
+   * copy that moved on from the same base revision.
+   */
+  async recordConflict(local: FlightEntry, server: ServerEntry): Promise<number> {
+    const conflictId = await database.saveConflict({
+      entryId: local.id!,
+      serverId: server.serverId ?? local.serverId!,
+      localSnapshot: JSON.stringify(local),
+      serverSnapshot: JSON.stringify(server),
+      serverRevision: server.baseRevision,
+    });
+
+    console.warn(
+      `[Sync] Conflict on entry ${local.id} (server ${server.serverId}), revision ${server.baseRevision}`
+    );
+    return conflictId;
+  }
+
+  async getOpenConflicts(): Promise<ConflictDetail[]> {
+    const conflicts = await database.getOpenConflicts();
+    const details: ConflictDetail[] = [];
+
+    for (const conflict of conflicts) {
+      const detail = await this.loadDetail(conflict);
+      if (detail) {
+        details.push(detail);
+      }
+    }
+
+    return details;
+  }
+
+  /**
+   * Resolve a conflict by keeping the local copy, taking the server copy, or
+   * picking each differing field. Local and merged results are pushed on the
+   * next sync against the server's revision; nothing is discarded silently.
+   */
+  async resolve(conflictId: number, resolution: ConflictResolution): Promise<void> {
+    const conflict = await database.getConflict(conflictId);
+    if (!conflict || conflict.resolvedAt) {
+      throw new Error("Conflict not found or already resolved");
+    }
+
+    const detail = await this.loadDetail(conflict);
+    if (!detail) {
+      throw new Error("Conflicting entry no longer exists");
+    }
+
+    const { local, server } = detail;
+    const revision = { baseRevision: server.baseRevision };
+
+    if (resolution === "local") {
+      await database.updateEntry(local.id!, { ...revision, syncStatus: "pending" });
+    } else if (resolution === "server") {
+      const entryId = await database.updateEntry(local.id!, {
+        ...this.takeFromServer(detail, detail.differingFields),
+        ...revision,
+        syncStatus: "synced",
+        lastSyncedAt: new Date().toISOString(),
+      });
+      if (server.status !== local.status) {
+        await database.updateEntry(
+          entryId,
+          { status: server.status },
+          { fromServer: true }
+        );
+      }
+    } else {
+      const fromServer = detail.differingFields.filter(
+        (key) => resolution[key] === "server"
+      );
+
+      await database.updateEntry(local.id!, {
+        ...this.takeFromServer(detail, fromServer),
+        ...revision,
+        syncStatus: "pending",
+      });
+    }
+
+    await database.markConflictResolved(
+      conflictId,
+      typeof resolution === "string" ? resolution : "merged"
+    );
+  }
+
+  private async loadDetail(conflict: EntryConflict): Promise<ConflictDetail | null> {
+    // The pilot may have edited the entry since; resolve against its latest version.
+    const local = await database.getEntryByServerId(conflict.serverId);
+    if (!local) {
+      return null;
+    }
+
+    const server = JSON.parse(conflict.serverSnapshot) as ServerEntry;
+    return {
+      conflict,
+      local,
+      server,
+      differingFields: differingFields(local, server),
+    };
+  }
+
+  // Only differing fields are written, so unchanged entries are not versioned.
+  private takeFromServer(
+    detail: ConflictDetail,
+    fields: ConflictField[]
+  ): Partial<FlightEntry> {
+    return Object.fromEntries(
+      fields.map((key) => [key, detail.server[key]])
+    ) as Partial<FlightEntry>;
+  }
+}
+
+export default new ConflictService();
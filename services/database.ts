@@ -1,11 +1,57 @@
 import * as SQLite from "expo-sqlite";
+import * as Crypto from "expo-crypto";
 import { MigrationManager } from "./migrations/MigrationManager";
+import { computeEntryHash } from "../utils/entryHash";
+import { MerkleProofStep } from "../utils/merkle";
+import { computeChainHash, GENESIS_HASH } from "../utils/hashChain";
+import {
+  canTransition,
+  EntryStatus,
+  isStatusReachable,
+  StatusTransitionError,
+} from "../utils/entryStatus";
+
+// Each airport reference is stored as a local row id and an ICAO code.
+const AIRPORT_FIELDS = [
+  ["departureAirportId", "departureAirportIcao"],
+  ["arrivalAirportId", "arrivalAirportIcao"],
+] as const;
+
+// Hash, chain, version and signature columns are derived and never written
+// directly.
+const DERIVED_ENTRY_FIELDS = [
+  "id",
+  "clientUuid",
+  "createdAt",
+  "entryHash",
+  "prevHash",
+  "chainHash",
+  "chainSeq",
+  "version",
+  "supersedesId",
+  "supersededBy",
+  "signature",
+  "signerPublicKey",
+  "signedAt",
+  "deletedAt",
+];
+
+export const DATABASE_NAME = "flightlog.db";
+// The demo logbook lives in its own file so it never mixes with real entries.
+export const DEMO_DATABASE_NAME = "flightlog-demo.db";
+
+// Sync runs kept for diagnostics; older runs are dropped as new ones finish.
+const SYNC_HISTORY_LIMIT = 200;
+// Inbox notifications kept; the oldest are dropped as new ones arrive.
+const NOTIFICATION_LIMIT = 200;
 
 export interface FlightEntry {
   id?: number;
+  // Stable across reinstalls and shared by every version of the entry.
+  clientUuid?: string;
   serverId?: number;
   pilotId: number;
-  status: "draft" | "submitted" | "approved" | "anchored";
+  status: "draft" | "submitted" | "approved" | "rejected" | "anchored";
   flightDate: string;
   aircraftReg: string;
   aircraftType?: string;
@@ -24,13 +70,16 @@ export interface FlightEntry {
   entryHash?: string;
   batchId?: string;
   version?: string;
-  syncStatus: "pending" | "synced" | "error";
+  syncStatus: "pending" | "synced" | "error" | "conflict";
   lastSyncedAt?: string;
   createdAt: string;
   updatedAt: string;
 
   departureAirportId?: number;
   arrivalAirportId?: number;
+  // Kept alongside the local airport ids, which differ between devices.
+  departureAirportIcao?: string;
+  arrivalAirportIcao?: string;
   departureTimezone?: string;
   arrivalTimezone?: string;
   departureTimeUtc?: string;
@@ -38,6 +87,28 @@ export interface FlightEntry {
   nightTimeMethod?: "manual" | "calculated" | "estimated";
   nightTimeCalculatedAt?: string;
   additionalData?: string;
+
+  prevHash?: string;
+  chainHash?: string;
+  chainSeq?: number;
+  supersedesId?: number;
+  supersededBy?: number;
+
+  signature?: string;
+  signerPublicKey?: string;
+  signedAt?: string;
+
+  /** Server revision the local copy was last reconciled with. */
+  baseRevision?: string;
+  // Set when a synced entry is deleted; the row is kept until the server
+  // confirms the delete.
+  deletedAt?: string;
+
+  // Review workflow, owned by the server.
+  organizationId?: number;
+  submittedAt?: string;
+  reviewedAt?: string;
+  rejectionReason?: string;
 }
 
 export interface AdditionalFlightData {
@@ -78,8 +149,153 @@ export interface Airport {
   active: boolean;
 }
 
+export interface MerkleBatch {
+  id: number;
+  root: string;
+  leafCount: number;
+  createdAt: string;
+}
+
+export interface MerkleProofRecord {
+  entryId: number;
+  batchId: number;
+  leafIndex: number;
+  leafHash: string;
+  siblings: MerkleProofStep[];
+}
+
+export type AnchorVerificationStatus =
+  | "verified"
+  | "mismatch"
+  | "not_found"
+  | "unreachable";
+
+export interface AnchorReceipt {
+  entryId: number;
+  chainId: number;
+  contractAddress: string;
+  txHash: string;
+  blockNumber: number;
+  merkleRoot: string;
+  /** The server's inclusion proof from the entry's hash up to `merkleRoot`. */
+  proof?: MerkleProofStep[];
+  verificationStatus?: AnchorVerificationStatus;
+  verifiedAt?: string;
+  createdAt: string;
+}
+
+export interface EntryWriteOptions {
+  /**
+   * The write records what the server reports, which may be several workflow
+   * steps on from the local copy. Local writes create drafts and move one
+   * step at a time.
+   */
+  fromServer?: boolean;
+}
+
+export interface OutboxItem {
+  entryId: number;
+  aircraftReg: string;
+  flightDate: string;
+  attempts: number;
+  /** Not retried until the pilot fixes the entry. */
+  permanent: boolean;
+  lastAttemptAt?: string;
+  nextAttemptAt?: string;
+  lastError?: string;
+}
+
+export type SyncOperationType = "create" | "update" | "delete";
+
+export interface SyncOperation {
+  id: number;
+  entryId: number;
+  op: SyncOperationType;
+  createdAt: string;
+  appliedAt?: string;
+}
+
+export interface AttachmentUpload {
+  entryId: number;
+  localUri: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  checksum: string;
+  remoteId: string;
+  uploadedAt: string;
+}
+
+export type SyncTrigger = "manual" | "background" | "auto";
+
+export interface SyncRun {
+  id: number;
+  trigger: SyncTrigger;
+  startedAt: string;
+  finishedAt: string;
+  success: boolean;
+  pushed: number;
+  pulled: number;
+  deleted: number;
+  failed: number;
+  conflicts: number;
+  httpStatus?: number;
+  error?: string;
+}
+
+export type SyncRunAction = "push" | "delete" | "pull" | "attachment";
+
+export type SyncRunOutcome =
+  | "synced"
+  | "deleted"
+  | "inserted"
+  | "updated"
+  | "conflict"
+  | "failed";
+
+/** What happened to one entry during a sync run. */
+export interface SyncRunEntry {
+  id: number;
+  runId: number;
+  entryId?: number;
+  clientUuid?: string;
+  aircraftReg: string;
+  flightDate: string;
+  action: SyncRunAction;
+  outcome: SyncRunOutcome;
+  httpStatus?: number;
+  error?: string;
+}
+
+/** A review status change reported by the server, shown in the inbox. */
+export interface EntryNotification {
+  id: number;
+  entryId?: number;
+  clientUuid?: string;
+  aircraftReg: string;
+  flightDate: string;
+  fromStatus: FlightEntry["status"];
+  toStatus: FlightEntry["status"];
+  reason?: string;
+  createdAt: string;
+  readAt?: string;
+}
+
+export interface EntryConflict {
+  id: number;
+  entryId: number;
+  serverId: number;
+  localSnapshot: string;
+  serverSnapshot: string;
+  serverRevision?: string;
+  detectedAt: string;
+  resolvedAt?: string;
+  resolution?: string;
+}
+
 type FlightRow = {
   id: number;
+  client_uuid: string | null;
   server_id: number | null;
   pilot_id: number;
   status: string;
@@ -105,6 +321,8 @@ type FlightRow = {
   updated_at: string;
   departure_airport_id: number | null;
   arrival_airport_id: number | null;
+  departure_airport_icao: string | null;
+  arrival_airport_icao: string | null;
   departure_timezone: string | null;
   arrival_timezone: string | null;
   departure_time_utc: string | null;
@@ -112,6 +330,133 @@ type FlightRow = {
   night_time_method: string | null;
   night_time_calculated_at: string | null;
   additional_data: string | null;
+  batch_id: number | null;
+  prev_hash: string | null;
+  chain_hash: string | null;
+  chain_seq: number | null;
+  version: number | null;
+  supersedes_id: number | null;
+  superseded_by: number | null;
+  signature: string | null;
+  signer_public_key: string | null;
+  signed_at: string | null;
+  base_revision: string | null;
+  deleted_at: string | null;
+  organization_id: number | null;
+  submitted_at: string | null;
+  reviewed_at: string | null;
+  rejection_reason: string | null;
+};
+
+type MerkleBatchRow = {
+  id: number;
+  root: string;
+  leaf_count: number;
+  created_at: string;
+};
+
+type MerkleProofRow = {
+  entry_id: number;
+  batch_id: number;
+  leaf_index: number;
+  leaf_hash: string;
+  siblings: string;
+};
+
+type AnchorReceiptRow = {
+  entry_id: number;
+  chain_id: number;
+  contract_address: string;
+  tx_hash: string;
+  block_number: number;
+  merkle_root: string;
+  proof: string | null;
+  verification_status: string | null;
+  verified_at: string | null;
+  created_at: string;
+};
+
+type EntryConflictRow = {
+  id: number;
+  entry_id: number;
+  server_id: number;
+  local_snapshot: string;
+  server_snapshot: string;
+  server_revision: string | null;
+  detected_at: string;
+  resolved_at: string | null;
+  resolution: string | null;
+};
+
+type SyncOperationRow = {
+  id: number;
+  entry_id: number;
+  op: string;
+  created_at: string;
+  applied_at: string | null;
+};
+
+type AttachmentUploadRow = {
+  entry_id: number;
+  local_uri: string;
+  filename: string;
+  content_type: string;
+  size: number;
+  checksum: string;
+  remote_id: string;
+  uploaded_at: string;
+};
+
+type SyncRunRow = {
+  id: number;
+  trigger: string;
+  started_at: string;
+  finished_at: string;
+  success: number;
+  pushed: number;
+  pulled: number;
+  deleted: number;
+  failed: number;
+  conflicts: number;
+  http_status: number | null;
+  error: string | null;
+};
+
+type SyncRunEntryRow = {
+  id: number;
+  run_id: number;
+  entry_id: number | null;
+  client_uuid: string | null;
+  aircraft_reg: string;
+  flight_date: string;
+  action: string;
+  outcome: string;
+  http_status: number | null;
+  error: string | null;
+};
+
+type NotificationRow = {
+  id: number;
+  entry_id: number | null;
+  client_uuid: string | null;
+  aircraft_reg: string;
+  flight_date: string;
+  from_status: string;
+  to_status: string;
+  reason: string | null;
+  created_at: string;
+  read_at: string | null;
+};
+
+type OutboxRow = {
+  entry_id: number;
+  aircraft_reg: string;
+  flight_date: string;
+  sync_status: string;
+  attempts: number;
+  last_attempt_at: string | null;
+  next_attempt_at: string | null;
+  last_error: string | null;
 };
 
 type AirportRow = {
@@ -132,14 +477,46 @@ type AirportRow = {
 class Database {
   private db: SQLite.SQLiteDatabase | null = null;
   private initialized = false;
+  private name = DATABASE_NAME;
 
   private async getDb(): Promise<SQLite.SQLiteDatabase> {
     if (!this.db) {
-      this.db = await SQLite.openDatabaseAsync("flightlog.db");
+      this.db = await SQLite.openDatabaseAsync(this.name);
     }
     return this.db;
   }
 
+  getName(): string {
+    return this.name;
+  }
+
+  /**
+   * Close the open file and point every later call at `name`, which is
+   * opened and migrated on first use.
+   */
+  async use(name: string): Promise<void> {
+    if (name === this.name) {
+      return;
+    }
+
+    const previous = this.db;
+    this.db = null;
+    this.initialized = false;
+    this.name = name;
+    await previous?.closeAsync();
+    // The recent-check shortcut describes the old file, not this one.
+    await MigrationManager.forceMigrationCheck();
+    console.log(`[Database] Switched to ${name}`);
+  }
+
+  /** Delete a database file. The one in use cannot be deleted. */
+  async deleteFile(name: string): Promise<void> {
+    if (name === this.name) {
+      throw new Error(`${name} is in use`);
+    }
+    await SQLite.deleteDatabaseAsync(name);
+  }
+
   async init(): Promise<void> {
     if (this.initialized) {
       return;
@@ -220,6 +597,9 @@ class Database {
         CREATE INDEX IF NOT EXISTS idx_departure_time_utc ON flight_entries(departure_time_utc);
       `);
 
+      await this.backfillEntryHashes(db);
+      await this.backfillHashChain(db);
+
       console.log("[Database] Initialization complete");
     } catch (error) {
       console.error("[Database] Initialization error:", error);
@@ -339,81 +719,121 @@ class Database {
   }
 
   async createEntry(
-    entry: Omit<FlightEntry, "id" | "createdAt" | "updatedAt">
+    entry: Omit<FlightEntry, "id" | "createdAt" | "updatedAt">,
+    options?: EntryWriteOptions
   ): Promise<number> {
+    if (entry.status !== "draft" && !options?.fromServer) {
+      throw new Error(`New entries start as drafts, not ${entry.status}`);
+    }
+
     const db = await this.getDb();
     await this.init();
 
-    const result = await db.runAsync(
-      `INSERT INTO flight_entries (
-        pilot_id, status, flight_date, aircraft_reg, aircraft_type,
-        route_from, route_to, pic_time, sic_time, dual_time,
-        night_time, instrument_time, total_time, landings_day, landings_night,
-        remarks, attachments, sync_status, entry_hash, last_synced_at,
-        server_id, departure_airport_id, arrival_airport_id,
-        departure_timezone, arrival_timezone, departure_time_utc, arrival_time_utc,
-        night_time_method, night_time_calculated_at, additional_data,
-        created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'))`,
-      [
-        entry.pilotId,
-        entry.status,
-        entry.flightDate,
-        entry.aircraftReg,
-        entry.aircraftType ?? null,
-        entry.routeFrom ?? null,
-        entry.routeTo ?? null,
-        entry.picTime,
-        entry.sicTime,
-        entry.dualTime,
-        entry.nightTime,
-        entry.instrumentTime,
-        entry.totalTime,
-        entry.landingsDay,
-        entry.landingsNight,
-        entry.remarks ?? null,
-        entry.attachments ?? null,
-        entry.syncStatus,
-        entry.entryHash ?? null,
-        entry.lastSyncedAt ?? null,
-        entry.serverId ?? null,
-        entry.departureAirportId ?? null,
-        entry.arrivalAirportId ?? null,
-        entry.departureTimezone ?? null,
-        entry.arrivalTimezone ?? null,
-        entry.departureTimeUtc ?? null,
-        entry.arrivalTimeUtc ?? null,
-        entry.nightTimeMethod ?? "manual",
-        entry.nightTimeCalculatedAt ?? null,
-        entry.additionalData ?? null,
-      ]
-    );
+    const resolved = { ...entry, ...(await this.resolveAirports(db, entry)) };
 
-    return result.lastInsertRowId;
+    let id = 0;
+    await db.withTransactionAsync(async () => {
+      id = await this.insertEntry(db, resolved);
+
+      if (entry.status !== "draft") {
+        await this.appendToChain(db, id);
+      }
+
+      if (entry.syncStatus === "pending") {
+        await this.logOperation(db, id, entry.serverId ? "update" : "create");
+      }
+    });
+
+    return id;
   }
 
-  async updateEntry(id: number, updates: Partial<FlightEntry>): Promise<void> {
+  /**
+   * Drafts are edited in place. Once an entry has left draft its logged
+   * content is immutable: content changes are written as a new version that
+   * supersedes the old row. Returns the id of the row now holding the entry.
+   */
+  async updateEntry(
+    id: number,
+    updates: Partial<FlightEntry>,
+    options?: EntryWriteOptions
+  ): Promise<number> {
     if (!updates || Object.keys(updates).length === 0) {
-      return;
+      return id;
     }
 
     const db = await this.getDb();
     await this.init();
 
+    const existing = await db.getFirstAsync<FlightRow>(
+      "SELECT * FROM flight_entries WHERE id = ?",
+      [id]
+    );
+
+    if (!existing) {
+      return id;
+    }
+
+    updates = { ...updates, ...(await this.resolveAirports(db, updates)) };
+
+    const status = existing.status as EntryStatus;
+    const allowed = options?.fromServer
+      ? isStatusReachable
+      : (from: EntryStatus, to: EntryStatus) => from === to || canTransition(from, to);
+    if (updates.status && !allowed(status, updates.status)) {
+      throw new StatusTransitionError(status, updates.status);
+    }
+
+    // Decided by the hash, not by which fields were sent, so saving an
+    // unchanged form neither versions the entry nor drops its signature.
+    const contentChanged =
+      computeEntryHash({ ...this.mapRowToEntry(existing), ...updates }) !==
+      existing.entry_hash;
+
+    if (contentChanged && existing.superseded_by != null) {
+      throw new Error("Entry has been superseded by a newer version");
+    }
+
+    if (contentChanged && existing.status !== "draft") {
+      return this.appendVersion(db, existing, updates);
+    }
+
+    const isWritable = (key: string) => !DERIVED_ENTRY_FIELDS.includes(key);
+
     const fields = Object.keys(updates)
-      .filter((key) => key !== "id" && key !== "createdAt")
+      .filter(isWritable)
       .map((key) => `${this.toSnakeCase(key)} = ?`);
 
     const values = Object.entries(updates)
-      .filter(([key]) => key !== "id" && key !== "createdAt")
+      .filter(([key]) => isWritable(key))
       .map(([, value]) => value ?? null);
 
-    await db.runAsync(
-      `UPDATE flight_entries SET ${fields.join(
-        ", "
-      )}, updated_at = datetime('now') WHERE id = ?`,
-      [...values, id]
-    );
+    if (fields.length === 0) {
+      return id;
+    }
+
+    await db.withTransactionAsync(async () => {
+      await db.runAsync(
+        `UPDATE flight_entries SET ${fields.join(
+          ", "
+        )}, updated_at = datetime('now') WHERE id = ?`,
+        [...values, id]
+      );
+
+      if (contentChanged) {
+        await this.refreshEntryHash(id);
+      }
+
+      if (existing.chain_seq == null && updates.status && updates.status !== "draft") {
+        await this.appendToChain(db, id);
+      }
+
+      const syncStatus = updates.syncStatus ?? existing.sync_status;
+      if (syncStatus === "pending" && (contentChanged || updates.syncStatus)) {
+        await this.logOperation(db, id, "update");
+      }
+    });
+
+    return id;
   }
 
   async getEntry(id: number): Promise<FlightEntry | null> {
@@ -432,6 +852,38 @@ class Database {
     return this.mapRowToEntry(row);
   }
 
+  /** Latest local version of the entry the server knows as `serverId`. */
+  async getEntryByServerId(serverId: number): Promise<FlightEntry | null> {
+    const db = await this.getDb();
+    await this.init();
+
+    const row = await db.getFirstAsync<FlightRow>(
+      `SELECT * FROM flight_entries
+       WHERE server_id = ? AND superseded_by IS NULL
+       ORDER BY id DESC
+       LIMIT 1`,
+      [serverId]
+    );
+
+    return row ? this.mapRowToEntry(row) : null;
+  }
+
+  /** Latest local version of the entry with the given client UUID. */
+  async getEntryByClientUuid(clientUuid: string): Promise<FlightEntry | null> {
+    const db = await this.getDb();
+    await this.init();
+
+    const row = await db.getFirstAsync<FlightRow>(
+      `SELECT * FROM flight_entries
+       WHERE client_uuid = ? AND superseded_by IS NULL
+       ORDER BY id DESC
+       LIMIT 1`,
+      [clientUuid]
+    );
+
+    return row ? this.mapRowToEntry(row) : null;
+  }
+
   async getAllEntries(filters?: {
     status?: string;
     limit?: number;
@@ -439,11 +891,12 @@ class Database {
     const db = await this.getDb();
     await this.init();
 
-    let query = "SELECT * FROM flight_entries";
+    let query =
+      "SELECT * FROM flight_entries WHERE superseded_by IS NULL AND deleted_at IS NULL";
     const params: any[] = [];
 
     if (filters?.status) {
-      query += " WHERE status = ?";
+      query += " AND status = ?";
       params.push(filters.status);
     }
 
@@ -458,70 +911,1196 @@ class Database {
     return rows.map((row) => this.mapRowToEntry(row));
   }
 
-  async getPendingSyncEntries(): Promise<FlightEntry[]> {
+  /**
+   * Entries waiting to be pushed. With `dueBefore`, entries still backing off
+   * in the outbox are skipped.
+   */
+  async getPendingSyncEntries(options?: { dueBefore?: string }): Promise<FlightEntry[]> {
     const db = await this.getDb();
     await this.init();
 
-    const rows = await db.getAllAsync<FlightRow>(
-      "SELECT * FROM flight_entries WHERE sync_status = ? ORDER BY created_at ASC",
-      ["pending"]
-    );
+    let query = `SELECT e.* FROM flight_entries e
+       LEFT JOIN sync_outbox o ON o.entry_id = e.id
+       WHERE e.sync_status = 'pending' AND e.superseded_by IS NULL
+         AND e.deleted_at IS NULL`;
+    const params: any[] = [];
+
+    if (options?.dueBefore) {
+      query += " AND (o.next_attempt_at IS NULL OR o.next_attempt_at <= ?)";
+      params.push(options.dueBefore);
+    }
+
+    query += " ORDER BY e.created_at ASC";
 
+    const rows = await db.getAllAsync<FlightRow>(query, params);
     return rows.map((row) => this.mapRowToEntry(row));
   }
 
+  /**
+   * Entries the server knows about that a reviewer may still act on: pending
+   * review, or approved but not yet anchored.
+   */
+  async countEntriesAwaitingReview(): Promise<number> {
+    const db = await this.getDb();
+    await this.init();
+
+    const row = await db.getFirstAsync<{ count: number }>(
+      `SELECT COUNT(*) as count FROM flight_entries
+       WHERE status IN ('submitted', 'approved') AND server_id IS NOT NULL
+         AND superseded_by IS NULL AND deleted_at IS NULL`
+    );
+
+    return row?.count ?? 0;
+  }
+
+  /**
+   * Entries the server has never seen are removed outright. Entries it knows
+   * about are tombstoned and a delete is logged; the row is purged once the
+   * server confirms it.
+   */
   async deleteEntry(id: number): Promise<void> {
     const db = await this.getDb();
     await this.init();
-    await db.runAsync("DELETE FROM flight_entries WHERE id = ?", [id]);
+
+    const row = await db.getFirstAsync<{
+      chain_seq: number | null;
+      server_id: number | null;
+    }>("SELECT chain_seq, server_id FROM flight_entries WHERE id = ?", [id]);
+
+    if (!row) {
+      return;
+    }
+
+    if (row.chain_seq != null) {
+      throw new Error("Entries in the hash chain cannot be deleted");
+    }
+
+    if (row.server_id == null) {
+      await this.purgeEntry(id);
+      return;
+    }
+
+    await db.withTransactionAsync(async () => {
+      await db.runAsync(
+        `UPDATE flight_entries
+         SET deleted_at = ?, sync_status = 'pending', updated_at = datetime('now')
+         WHERE id = ?`,
+        [new Date().toISOString(), id]
+      );
+      await db.runAsync("DELETE FROM sync_outbox WHERE entry_id = ?", [id]);
+      await this.logOperation(db, id, "delete");
+    });
+  }
+
+  /** Remove an entry row along with its outbox and operation-log records. */
+  async purgeEntry(id: number): Promise<void> {
+    const db = await this.getDb();
+    await this.init();
+
+    await db.withTransactionAsync(async () => {
+      await db.runAsync("DELETE FROM flight_entries WHERE id = ?", [id]);
+      await db.runAsync("DELETE FROM sync_outbox WHERE entry_id = ?", [id]);
+      await db.runAsync("DELETE FROM sync_operations WHERE entry_id = ?", [id]);
+      await db.runAsync("DELETE FROM attachment_uploads WHERE entry_id = ?", [id]);
+    });
+  }
+
+  /**
+   * Operations not yet confirmed by the server, oldest first. With
+   * `dueBefore`, operations whose entry is backing off in the outbox are
+   * skipped.
+   */
+  async getPendingOperations(options?: { dueBefore?: string }): Promise<SyncOperation[]> {
+    const db = await this.getDb();
+    await this.init();
+
+    let query = `SELECT op.* FROM sync_operations op
+       LEFT JOIN sync_outbox o ON o.entry_id = op.entry_id
+       WHERE op.applied_at IS NULL`;
+    const params: any[] = [];
+
+    if (options?.dueBefore) {
+      query += " AND (o.next_attempt_at IS NULL OR o.next_attempt_at <= ?)";
+      params.push(options.dueBefore);
+    }
+
+    query += " ORDER BY op.id ASC";
+
+    const rows = await db.getAllAsync<SyncOperationRow>(query, params);
+    return rows.map((row) => ({
+      id: row.id,
+      entryId: row.entry_id,
+      op: row.op as SyncOperationType,
+      createdAt: row.created_at,
+      appliedAt: row.applied_at ?? undefined,
+    }));
+  }
+
+  async markOperationsApplied(entryId: number): Promise<void> {
+    const db = await this.getDb();
+    await this.init();
+
+    await db.runAsync(
+      "UPDATE sync_operations SET applied_at = ? WHERE entry_id = ? AND applied_at IS NULL",
+      [new Date().toISOString(), entryId]
+    );
   }
 
-  async markAsSynced(id: number, serverId: number): Promise<void> {
+  async setEntrySignature(
+    id: number,
+    signature: { signature: string; publicKey: string; signedAt: string }
+  ): Promise<void> {
     const db = await this.getDb();
     await this.init();
 
     await db.runAsync(
       `UPDATE flight_entries
-       SET sync_status = 'synced', server_id = ?, last_synced_at = datetime('now'), updated_at = datetime('now')
+       SET signature = ?, signer_public_key = ?, signed_at = ?
        WHERE id = ?`,
-      [serverId, id]
+      [signature.signature, signature.publicKey, signature.signedAt, id]
     );
   }
 
-  async getStats(): Promise<{
-    total: number;
-    pending: number;
-    synced: number;
-    lastSyncedAt: string | null;
-  }> {
+  /** Every chained entry, superseded versions included, in chain order. */
+  async getChainEntries(): Promise<FlightEntry[]> {
     const db = await this.getDb();
     await this.init();
 
-    const row = await db.getFirstAsync<{
-      total: number;
-      pending: number;
-      synced: number;
-      lastSyncedAt: string | null;
-    }>(
-      `SELECT
-        COUNT(*) as total,
+    const rows = await db.getAllAsync<FlightRow>(
+      "SELECT * FROM flight_entries WHERE chain_seq IS NOT NULL ORDER BY chain_seq ASC"
+    );
+
+    return rows.map((row) => this.mapRowToEntry(row));
+  }
+
+  async markAsSynced(
+    id: number,
+    serverId: number,
+    revision?: string
+  ): Promise<void> {
+    const db = await this.getDb();
+    await this.init();
+
+    await db.runAsync(
+      `UPDATE flight_entries
+       SET sync_status = 'synced', server_id = ?, base_revision = COALESCE(?, base_revision),
+           last_synced_at = datetime('now'), updated_at = datetime('now')
+       WHERE id = ?`,
+      [serverId, revision ?? null, id]
+    );
+    await db.runAsync("DELETE FROM sync_outbox WHERE entry_id = ?", [id]);
+    await db.runAsync(
+      "UPDATE sync_operations SET applied_at = ? WHERE entry_id = ? AND applied_at IS NULL",
+      [new Date().toISOString(), id]
+    );
+  }
+
+  /**
+   * Record a failed push attempt in the outbox. `nextAttemptAt` receives the
+   * attempt number and returns when the entry may be retried.
+   */
+  async recordSyncFailure(
+    id: number,
+    error: string,
+    nextAttemptAt: (attempt: number) => string
+  ): Promise<number> {
+    const db = await this.getDb();
+    await this.init();
+
+    const row = await db.getFirstAsync<{ attempts: number }>(
+      "SELECT attempts FROM sync_outbox WHERE entry_id = ?",
+      [id]
+    );
+    const attempts = (row?.attempts ?? 0) + 1;
+
+    await db.runAsync(
+      `INSERT OR REPLACE INTO sync_outbox (
+        entry_id, attempts, last_attempt_at, next_attempt_at, last_error
+      ) VALUES (?, ?, ?, ?, ?)`,
+      [id, attempts, new Date().toISOString(), nextAttemptAt(attempts), error]
+    );
+
+    return attempts;
+  }
+
+  /**
+   * Hold an entry back after a failure retrying cannot fix. It stays out of
+   * the sync queue until the pilot saves it again, which sets it pending.
+   */
+  async recordPermanentSyncFailure(id: number, error: string): Promise<void> {
+    const db = await this.getDb();
+    await this.init();
+
+    await db.withTransactionAsync(async () => {
+      await db.runAsync(
+        "UPDATE flight_entries SET sync_status = 'error' WHERE id = ?",
+        [id]
+      );
+      await db.runAsync(
+        `INSERT OR REPLACE INTO sync_outbox (
+          entry_id, attempts, last_attempt_at, next_attempt_at, last_error
+        ) VALUES (
+          ?, COALESCE((SELECT attempts FROM sync_outbox WHERE entry_id = ?), 0) + 1,
+          ?, NULL, ?
+        )`,
+        [id, id, new Date().toISOString(), error]
+      );
+    });
+  }
+
+  /**
+   * Entries that have failed at least one push attempt: pending ones waiting
+   * for a retry, and ones held back until the pilot fixes them.
+   */
+  async getOutboxItems(): Promise<OutboxItem[]> {
+    const db = await this.getDb();
+    await this.init();
+
+    const rows = await db.getAllAsync<OutboxRow>(
+      `SELECT o.*, e.aircraft_reg, e.flight_date, e.sync_status
+       FROM sync_outbox o
+       JOIN flight_entries e ON e.id = o.entry_id
+       WHERE e.sync_status IN ('pending', 'error') AND e.superseded_by IS NULL
+       ORDER BY o.attempts DESC, o.next_attempt_at ASC`
+    );
+
+    return rows.map((row) => ({
+      entryId: row.entry_id,
+      aircraftReg: row.aircraft_reg,
+      flightDate: row.flight_date,
+      attempts: row.attempts,
+      permanent: row.sync_status === "error",
+      lastAttemptAt: row.last_attempt_at ?? undefined,
+      nextAttemptAt: row.next_attempt_at ?? undefined,
+      lastError: row.last_error ?? undefined,
+    }));
+  }
+
+  async getAttachmentUpload(
+    entryId: number,
+    localUri: string
+  ): Promise<AttachmentUpload | null> {
+    const db = await this.getDb();
+    await this.init();
+
+    const row = await db.getFirstAsync<AttachmentUploadRow>(
+      "SELECT * FROM attachment_uploads WHERE entry_id = ? AND local_uri = ?",
+      [entryId, localUri]
+    );
+
+    return row ? this.mapRowToAttachmentUpload(row) : null;
+  }
+
+  /** Any earlier upload of the same file contents, from this or another entry. */
+  async findAttachmentUploadByChecksum(
+    checksum: string
+  ): Promise<AttachmentUpload | null> {
+    const db = await this.getDb();
+    await this.init();
+
+    const row = await db.getFirstAsync<AttachmentUploadRow>(
+      "SELECT * FROM attachment_uploads WHERE checksum = ? ORDER BY uploaded_at DESC LIMIT 1",
+      [checksum]
+    );
+
+    return row ? this.mapRowToAttachmentUpload(row) : null;
+  }
+
+  /** Whether any entry, deleted or superseded ones included, lists this file. */
+  async isAttachmentInUse(uri: string): Promise<boolean> {
+    const db = await this.getDb();
+    await this.init();
+
+    // Match the URI as it is escaped inside the attachments JSON.
+    const row = await db.getFirstAsync<{ id: number }>(
+      "SELECT id FROM flight_entries WHERE instr(attachments, ?) > 0 LIMIT 1",
+      [JSON.stringify(uri).slice(1, -1)]
+    );
+    return row != null;
+  }
+
+  /** The attachments JSON of every entry that has any. */
+  async getAllAttachments(): Promise<string[]> {
+    const db = await this.getDb();
+    await this.init();
+
+    const rows = await db.getAllAsync<{ attachments: string }>(
+      "SELECT attachments FROM flight_entries WHERE attachments IS NOT NULL"
+    );
+    return rows.map((row) => row.attachments);
+  }
+
+  async saveAttachmentUpload(upload: AttachmentUpload): Promise<void> {
+    const db = await this.getDb();
+    await this.init();
+
+    await db.runAsync(
+      `INSERT OR REPLACE INTO attachment_uploads (
+        entry_id, local_uri, filename, content_type, size, checksum, remote_id, uploaded_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        upload.entryId,
+        upload.localUri,
+        upload.filename,
+        upload.contentType,
+        upload.size,
+        upload.checksum,
+        upload.remoteId,
+        upload.uploadedAt,
+      ]
+    );
+  }
+
+  /**
+   * Store a finished sync run with its per-entry details, keeping only the
+   * most recent `SYNC_HISTORY_LIMIT` runs.
+   */
+  async saveSyncRun(
+    run: Omit<SyncRun, "id">,
+    entries: Omit<SyncRunEntry, "id" | "runId">[]
+  ): Promise<number> {
+    const db = await this.getDb();
+    await this.init();
+
+    let runId = 0;
+    await db.withTransactionAsync(async () => {
+      const result = await db.runAsync(
+        `INSERT INTO sync_runs (
+          trigger, started_at, finished_at, success, pushed, pulled, deleted,
+          failed, conflicts, http_status, error
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          run.trigger,
+          run.startedAt,
+          run.finishedAt,
+          run.success ? 1 : 0,
+          run.pushed,
+          run.pulled,
+          run.deleted,
+          run.failed,
+          run.conflicts,
+          run.httpStatus ?? null,
+          run.error ?? null,
+        ]
+      );
+      runId = result.lastInsertRowId;
+
+      for (const entry of entries) {
+        await db.runAsync(
+          `INSERT INTO sync_run_entries (
+            run_id, entry_id, client_uuid, aircraft_reg, flight_date, action,
+            outcome, http_status, error
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            runId,
+            entry.entryId ?? null,
+            entry.clientUuid ?? null,
+            entry.aircraftReg,
+            entry.flightDate,
+            entry.action,
+            entry.outcome,
+            entry.httpStatus ?? null,
+            entry.error ?? null,
+          ]
+        );
+      }
+
+      await db.runAsync(
+        `DELETE FROM sync_run_entries WHERE run_id <= ?`,
+        [runId - SYNC_HISTORY_LIMIT]
+      );
+      await db.runAsync(`DELETE FROM sync_runs WHERE id <= ?`, [
+        runId - SYNC_HISTORY_LIMIT,
+      ]);
+    });
+
+    return runId;
+  }
+
+  /** Sync runs, newest first. */
+  async getSyncRuns(limit: number = SYNC_HISTORY_LIMIT): Promise<SyncRun[]> {
+    const db = await this.getDb();
+    await this.init();
+
+    const rows = await db.getAllAsync<SyncRunRow>(
+      "SELECT * FROM sync_runs ORDER BY id DESC LIMIT ?",
+      [limit]
+    );
+
+    return rows.map((row) => this.mapRowToSyncRun(row));
+  }
+
+  async getSyncRunEntries(runId: number): Promise<SyncRunEntry[]> {
+    const db = await this.getDb();
+    await this.init();
+
+    const rows = await db.getAllAsync<SyncRunEntryRow>(
+      "SELECT * FROM sync_run_entries WHERE run_id = ? ORDER BY id ASC",
+      [runId]
+    );
+
+    return rows.map((row) => this.mapRowToSyncRunEntry(row));
+  }
+
+  /**
+   * Every recorded sync attempt for an entry, newest first. Matched by client
+   * UUID so the history follows the entry across edits.
+   */
+  async getSyncHistoryForEntry(clientUuid: string): Promise<SyncRunEntry[]> {
+    const db = await this.getDb();
+    await this.init();
+
+    const rows = await db.getAllAsync<SyncRunEntryRow>(
+      "SELECT * FROM sync_run_entries WHERE client_uuid = ? ORDER BY id DESC",
+      [clientUuid]
+    );
+
+    return rows.map((row) => this.mapRowToSyncRunEntry(row));
+  }
+
+  /**
+   * Add a notification to the inbox, keeping only the most recent
+   * `NOTIFICATION_LIMIT`.
+   */
+  async addNotification(
+    notification: Omit<EntryNotification, "id" | "createdAt" | "readAt">
+  ): Promise<number> {
+    const db = await this.getDb();
+    await this.init();
+
+    const result = await db.runAsync(
+      `INSERT INTO notifications (
+        entry_id, client_uuid, aircraft_reg, flight_date, from_status,
+        to_status, reason, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        notification.entryId ?? null,
+        notification.clientUuid ?? null,
+        notification.aircraftReg,
+        notification.flightDate,
+        notification.fromStatus,
+        notification.toStatus,
+        notification.reason ?? null,
+        new Date().toISOString(),
+      ]
+    );
+    await db.runAsync(`DELETE FROM notifications WHERE id <= ?`, [
+      result.lastInsertRowId - NOTIFICATION_LIMIT,
+    ]);
+
+    return result.lastInsertRowId;
+  }
+
+  /** Inbox notifications, newest first. */
+  async getNotifications(
+    limit: number = NOTIFICATION_LIMIT
+  ): Promise<EntryNotification[]> {
+    const db = await this.getDb();
+    await this.init();
+
+    const rows = await db.getAllAsync<NotificationRow>(
+      "SELECT * FROM notifications ORDER BY id DESC LIMIT ?",
+      [limit]
+    );
+
+    return rows.map((row) => this.mapRowToNotification(row));
+  }
+
+  async getUnreadNotificationCount(): Promise<number> {
+    const db = await this.getDb();
+    await this.init();
+
+    const row = await db.getFirstAsync<{ count: number }>(
+      "SELECT COUNT(*) as count FROM notifications WHERE read_at IS NULL"
+    );
+
+    return row?.count ?? 0;
+  }
+
+  /** Mark one notification read, or every unread one when `id` is omitted. */
+  async markNotificationsRead(id?: number): Promise<void> {
+    const db = await this.getDb();
+    await this.init();
+
+    const now = new Date().toISOString();
+    if (id === undefined) {
+      await db.runAsync(
+        "UPDATE notifications SET read_at = ? WHERE read_at IS NULL",
+        [now]
+      );
+    } else {
+      await db.runAsync(
+        "UPDATE notifications SET read_at = ? WHERE id = ? AND read_at IS NULL",
+        [now, id]
+      );
+    }
+  }
+
+  /**
+   * Record (or refresh) the open conflict for an entry and hold the entry back
+   * from pushing until the pilot resolves it.
+   */
+  async saveConflict(
+    conflict: Omit<EntryConflict, "id" | "detectedAt" | "resolvedAt" | "resolution">
+  ): Promise<number> {
+    const db = await this.getDb();
+    await this.init();
+
+    const detectedAt = new Date().toISOString();
+    let conflictId = 0;
+
+    await db.withTransactionAsync(async () => {
+      const open = await db.getFirstAsync<{ id: number }>(
+        "SELECT id FROM entry_conflicts WHERE server_id = ? AND resolved_at IS NULL",
+        [conflict.serverId]
+      );
+
+      if (open) {
+        conflictId = open.id;
+        await db.runAsync(
+          `UPDATE entry_conflicts
+           SET entry_id = ?, local_snapshot = ?, server_snapshot = ?, server_revision = ?, detected_at = ?
+           WHERE id = ?`,
+          [
+            conflict.entryId,
+            conflict.localSnapshot,
+            conflict.serverSnapshot,
+            conflict.serverRevision ?? null,
+            detectedAt,
+            open.id,
+          ]
+        );
+      } else {
+        const result = await db.runAsync(
+          `INSERT INTO entry_conflicts (
+            entry_id, server_id, local_snapshot, server_snapshot, server_revision, detected_at
+          ) VALUES (?, ?, ?, ?, ?, ?)`,
+          [
+            conflict.entryId,
+            conflict.serverId,
+            conflict.localSnapshot,
+            conflict.serverSnapshot,
+            conflict.serverRevision ?? null,
+            detectedAt,
+          ]
+        );
+        conflictId = result.lastInsertRowId;
+      }
+
+      await db.runAsync(
+        "UPDATE flight_entries SET sync_status = 'conflict' WHERE id = ?",
+        [conflict.entryId]
+      );
+    });
+
+    return conflictId;
+  }
+
+  async getOpenConflicts(): Promise<EntryConflict[]> {
+    const db = await this.getDb();
+    await this.init();
+
+    const rows = await db.getAllAsync<EntryConflictRow>(
+      "SELECT * FROM entry_conflicts WHERE resolved_at IS NULL ORDER BY detected_at ASC"
+    );
+
+    return rows.map((row) => this.mapRowToConflict(row));
+  }
+
+  async getConflict(id: number): Promise<EntryConflict | null> {
+    const db = await this.getDb();
+    await this.init();
+
+    const row = await db.getFirstAsync<EntryConflictRow>(
+      "SELECT * FROM entry_conflicts WHERE id = ?",
+      [id]
+    );
+
+    return row ? this.mapRowToConflict(row) : null;
+  }
+
+  async markConflictResolved(id: number, resolution: string): Promise<void> {
+    const db = await this.getDb();
+    await this.init();
+
+    await db.runAsync(
+      "UPDATE entry_conflicts SET resolved_at = ?, resolution = ? WHERE id = ?",
+      [new Date().toISOString(), resolution, id]
+    );
+  }
+
+  async getUnbatchedEntries(limit: number): Promise<FlightEntry[]> {
+    const db = await this.getDb();
+    await this.init();
+
+    const rows = await db.getAllAsync<FlightRow>(
+      `SELECT * FROM flight_entries
+       WHERE batch_id IS NULL AND status != 'draft' AND entry_hash IS NOT NULL
+       ORDER BY id ASC
+       LIMIT ?`,
+      [limit]
+    );
+
+    return rows.map((row) => this.mapRowToEntry(row));
+  }
+
+  async createMerkleBatch(
+    root: string,
+    proofs: Omit<MerkleProofRecord, "batchId">[]
+  ): Promise<number> {
+    const db = await this.getDb();
+    await this.init();
+
+    let batchId = 0;
+    await db.withTransactionAsync(async () => {
+      const result = await db.runAsync(
+        `INSERT INTO merkle_batches (root, leaf_count, created_at)
+         VALUES (?, ?, ?)`,
+        [root, proofs.length, new Date().toISOString()]
+      );
+      batchId = result.lastInsertRowId;
+
+      for (const proof of proofs) {
+        await db.runAsync(
+          `INSERT OR REPLACE INTO merkle_proofs (
+            entry_id, batch_id, leaf_index, leaf_hash, siblings
+          ) VALUES (?, ?, ?, ?, ?)`,
+          [
+            proof.entryId,
+            batchId,
+            proof.leafIndex,
+            proof.leafHash,
+            JSON.stringify(proof.siblings),
+          ]
+        );
+        await db.runAsync(
+          "UPDATE flight_entries SET batch_id = ? WHERE id = ?",
+          [batchId, proof.entryId]
+        );
+      }
+    });
+
+    return batchId;
+  }
+
+  async getMerkleBatch(id: number): Promise<MerkleBatch | null> {
+    const db = await this.getDb();
+    await this.init();
+
+    const row = await db.getFirstAsync<MerkleBatchRow>(
+      "SELECT * FROM merkle_batches WHERE id = ?",
+      [id]
+    );
+
+    return row
+      ? {
+          id: row.id,
+          root: row.root,
+          leafCount: row.leaf_count,
+          createdAt: row.created_at,
+        }
+      : null;
+  }
+
+  async getMerkleProof(entryId: number): Promise<MerkleProofRecord | null> {
+    const db = await this.getDb();
+    await this.init();
+
+    const row = await db.getFirstAsync<MerkleProofRow>(
+      "SELECT * FROM merkle_proofs WHERE entry_id = ?",
+      [entryId]
+    );
+
+    if (!row) {
+      return null;
+    }
+
+    let siblings: MerkleProofStep[] = [];
+    try {
+      siblings = JSON.parse(row.siblings);
+    } catch (error) {
+      console.warn("[Database] Failed to parse Merkle proof:", error);
+    }
+
+    return {
+      entryId: row.entry_id,
+      batchId: row.batch_id,
+      leafIndex: row.leaf_index,
+      leafHash: row.leaf_hash,
+      siblings,
+    };
+  }
+
+  async saveAnchorReceipt(
+    receipt: Omit<AnchorReceipt, "verificationStatus" | "verifiedAt" | "createdAt">
+  ): Promise<void> {
+    const db = await this.getDb();
+    await this.init();
+
+    await db.runAsync(
+      `INSERT OR REPLACE INTO anchor_receipts (
+        entry_id, chain_id, contract_address, tx_hash, block_number,
+        merkle_root, proof, verification_status, verified_at, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, NULL, NULL, ?)`,
+      [
+        receipt.entryId,
+        receipt.chainId,
+        receipt.contractAddress.toLowerCase(),
+        receipt.txHash.toLowerCase(),
+        receipt.blockNumber,
+        receipt.merkleRoot.toLowerCase(),
+        receipt.proof ? JSON.stringify(receipt.proof) : null,
+        new Date().toISOString(),
+      ]
+    );
+  }
+
+  async getAnchorReceipt(entryId: number): Promise<AnchorReceipt | null> {
+    const db = await this.getDb();
+    await this.init();
+
+    const row = await db.getFirstAsync<AnchorReceiptRow>(
+      "SELECT * FROM anchor_receipts WHERE entry_id = ?",
+      [entryId]
+    );
+
+    if (!row) {
+      return null;
+    }
+
+    let proof: MerkleProofStep[] | undefined;
+    if (row.proof) {
+      try {
+        proof = JSON.parse(row.proof);
+      } catch (error) {
+        console.warn("[Database] Failed to parse anchor proof:", error);
+      }
+    }
+
+    return {
+      entryId: row.entry_id,
+      chainId: row.chain_id,
+      contractAddress: row.contract_address,
+      txHash: row.tx_hash,
+      blockNumber: row.block_number,
+      merkleRoot: row.merkle_root,
+      proof,
+      verificationStatus:
+        (row.verification_status as AnchorVerificationStatus | null) ??
+        undefined,
+      verifiedAt: row.verified_at ?? undefined,
+      createdAt: row.created_at,
+    };
+  }
+
+  async setAnchorVerification(
+    entryId: number,
+    status: AnchorVerificationStatus
+  ): Promise<void> {
+    const db = await this.getDb();
+    await this.init();
+
+    await db.runAsync(
+      `UPDATE anchor_receipts
+       SET verification_status = ?, verified_at = ?
+       WHERE entry_id = ?`,
+      [status, new Date().toISOString(), entryId]
+    );
+  }
+
+  async getStats(): Promise<{
+    total: number;
+    pending: number;
+    synced: number;
+    conflicts: number;
+    lastSyncedAt: string | null;
+  }> {
+    const db = await this.getDb();
+    await this.init();
+
+    const row = await db.getFirstAsync<{
+      total: number;
+      pending: number;
+      synced: number;
+      conflicts: number;
+      lastSyncedAt: string | null;
+    }>(
+      `SELECT
+        COUNT(*) as total,
         SUM(CASE WHEN sync_status = 'pending' THEN 1 ELSE 0 END) as pending,
         SUM(CASE WHEN sync_status = 'synced' THEN 1 ELSE 0 END) as synced,
+        SUM(CASE WHEN sync_status = 'conflict' THEN 1 ELSE 0 END) as conflicts,
         MAX(last_synced_at) as lastSyncedAt
-       FROM flight_entries`
+       FROM flight_entries
+       WHERE superseded_by IS NULL AND deleted_at IS NULL`
     );
 
     return {
       total: row?.total ?? 0,
       pending: row?.pending ?? 0,
       synced: row?.synced ?? 0,
+      conflicts: row?.conflicts ?? 0,
       lastSyncedAt: row?.lastSyncedAt ?? null,
     };
   }
 
+  /**
+   * Delete everything the pilot recorded on this device: entries, their
+   * history, sync state and notifications. Airports and the schema version
+   * are not personal and stay, so the app works again without a re-seed.
+   */
+  async wipeUserData(): Promise<void> {
+    const db = await this.getDb();
+    await this.init();
+
+    const tables = await db.getAllAsync<{ name: string }>(
+      `SELECT name FROM sqlite_master
+       WHERE type = 'table'
+         AND name NOT LIKE 'sqlite_%'
+         AND name NOT IN ('airports', 'schema_migrations')`
+    );
+
+    await db.withTransactionAsync(async () => {
+      for (const { name } of tables) {
+        await db.runAsync(`DELETE FROM "${name}"`);
+      }
+    });
+    // Reclaim the freed pages so deleted rows do not linger in the file.
+    await db.execAsync("VACUUM;");
+    console.log(`[Database] Wiped ${tables.length} tables of user data`);
+  }
+
+  /**
+   * Fill in whichever half of an airport reference the caller left out: the
+   * ICAO code from a local id, or the local id from a code.
+   */
+  private async resolveAirports(
+    db: SQLite.SQLiteDatabase,
+    entry: Partial<FlightEntry>
+  ): Promise<Partial<FlightEntry>> {
+    const resolved: Partial<FlightEntry> = {};
+
+    for (const [idKey, codeKey] of AIRPORT_FIELDS) {
+      if (idKey in entry && !(codeKey in entry)) {
+        const id = entry[idKey];
+        const row =
+          id == null
+            ? null
+            : await db.getFirstAsync<{ icao_code: string }>(
+                "SELECT icao_code FROM airports WHERE id = ?",
+                [id]
+              );
+        resolved[codeKey] = row?.icao_code;
+      } else if (codeKey in entry && !(idKey in entry)) {
+        const code = entry[codeKey];
+        const row =
+          code == null
+            ? null
+            : await db.getFirstAsync<{ id: number }>(
+                "SELECT id FROM airports WHERE icao_code = ?",
+                [code]
+              );
+        resolved[idKey] = row?.id;
+      }
+    }
+
+    return resolved;
+  }
+
+  private async refreshEntryHash(id: number): Promise<void> {
+    const db = await this.getDb();
+    const row = await db.getFirstAsync<FlightRow>(
+      "SELECT * FROM flight_entries WHERE id = ?",
+      [id]
+    );
+
+    if (!row) {
+      return;
+    }
+
+    // A signature covers the old contents, so it is dropped with the old hash.
+    await db.runAsync(
+      `UPDATE flight_entries
+       SET entry_hash = ?, signature = NULL, signer_public_key = NULL, signed_at = NULL
+       WHERE id = ?`,
+      [computeEntryHash(this.mapRowToEntry(row)), id]
+    );
+  }
+
+  private async backfillEntryHashes(db: SQLite.SQLiteDatabase): Promise<void> {
+    const rows = await db.getAllAsync<FlightRow>(
+      "SELECT * FROM flight_entries WHERE entry_hash IS NULL"
+    );
+
+    if (rows.length === 0) {
+      return;
+    }
+
+    console.log(`[Database] Hashing ${rows.length} legacy entries...`);
+    await db.withTransactionAsync(async () => {
+      for (const row of rows) {
+        await db.runAsync(
+          "UPDATE flight_entries SET entry_hash = ? WHERE id = ?",
+          [computeEntryHash(this.mapRowToEntry(row)), row.id]
+        );
+      }
+    });
+  }
+
+  private async insertEntry(
+    db: SQLite.SQLiteDatabase,
+    entry: Omit<FlightEntry, "id" | "createdAt" | "updatedAt">,
+    lineage?: { version: number; supersedesId: number }
+  ): Promise<number> {
+    const result = await db.runAsync(
+      `INSERT INTO flight_entries (
+        pilot_id, status, flight_date, aircraft_reg, aircraft_type,
+        route_from, route_to, pic_time, sic_time, dual_time,
+        night_time, instrument_time, total_time, landings_day, landings_night,
+        remarks, attachments, sync_status, entry_hash, last_synced_at,
+        server_id, departure_airport_id, arrival_airport_id,
+        departure_airport_icao, arrival_airport_icao, departure_timezone, arrival_timezone, departure_time_utc, arrival_time_utc,
+        night_time_method, night_time_calculated_at, additional_data,
+        base_revision, version, supersedes_id, client_uuid, organization_id,
+        submitted_at, reviewed_at, rejection_reason, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'))`,
+      [
+        entry.pilotId,
+        entry.status,
+        entry.flightDate,
+        entry.aircraftReg,
+        entry.aircraftType ?? null,
+        entry.routeFrom ?? null,
+        entry.routeTo ?? null,
+        entry.picTime,
+        entry.sicTime,
+        entry.dualTime,
+        entry.nightTime,
+        entry.instrumentTime,
+        entry.totalTime,
+        entry.landingsDay,
+        entry.landingsNight,
+        entry.remarks ?? null,
+        entry.attachments ?? null,
+        entry.syncStatus,
+        computeEntryHash(entry),
+        entry.lastSyncedAt ?? null,
+        entry.serverId ?? null,
+        entry.departureAirportId ?? null,
+        entry.arrivalAirportId ?? null,
+        entry.departureAirportIcao ?? null,
+        entry.arrivalAirportIcao ?? null,
+        entry.departureTimezone ?? null,
+        entry.arrivalTimezone ?? null,
+        entry.departureTimeUtc ?? null,
+        entry.arrivalTimeUtc ?? null,
+        entry.nightTimeMethod ?? "manual",
+        entry.nightTimeCalculatedAt ?? null,
+        entry.additionalData ?? null,
+        entry.baseRevision ?? null,
+        lineage?.version ?? 1,
+        lineage?.supersedesId ?? null,
+        entry.clientUuid ?? Crypto.randomUUID(),
+        entry.organizationId ?? null,
+        entry.submittedAt ?? null,
+        entry.reviewedAt ?? null,
+        entry.rejectionReason ?? null,
+      ]
+    );
+
+    return result.lastInsertRowId;
+  }
+
+  /**
+   * Link an entry onto the tail of the local hash chain. Entries join the
+   * chain once, when they leave draft.
+   */
+  private async appendToChain(db: SQLite.SQLiteDatabase, id: number): Promise<void> {
+    const row = await db.getFirstAsync<FlightRow>(
+      "SELECT * FROM flight_entries WHERE id = ?",
+      [id]
+    );
+
+    if (!row || row.chain_seq != null || !row.entry_hash) {
+      return;
+    }
+
+    const tail = await db.getFirstAsync<{ chain_hash: string; chain_seq: number }>(
+      `SELECT chain_hash, chain_seq FROM flight_entries
+       WHERE chain_seq IS NOT NULL
+       ORDER BY chain_seq DESC
+       LIMIT 1`
+    );
+
+    const prevHash = tail?.chain_hash ?? GENESIS_HASH;
+
+    await db.runAsync(
+      "UPDATE flight_entries SET prev_hash = ?, chain_hash = ?, chain_seq = ? WHERE id = ?",
+      [
+        prevHash,
+        computeChainHash(prevHash, row.entry_hash),
+        (tail?.chain_seq ?? 0) + 1,
+        id,
+      ]
+    );
+  }
+
+  private async logOperation(
+    db: SQLite.SQLiteDatabase,
+    entryId: number,
+    op: SyncOperationType
+  ): Promise<void> {
+    await db.runAsync(
+      "INSERT INTO sync_operations (entry_id, op, created_at) VALUES (?, ?, ?)",
+      [entryId, op, new Date().toISOString()]
+    );
+  }
+
+  private async appendVersion(
+    db: SQLite.SQLiteDatabase,
+    existing: FlightRow,
+    updates: Partial<FlightEntry>
+  ): Promise<number> {
+    const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...current } =
+      this.mapRowToEntry(existing);
+
+    const next = {
+      ...current,
+      ...Object.fromEntries(
+        Object.entries(updates).filter(([key]) => !DERIVED_ENTRY_FIELDS.includes(key))
+      ),
+      // A version never drops back to draft; it stays in the chain.
+      status:
+        updates.status && updates.status !== "draft"
+          ? updates.status
+          : current.status,
+      batchId: undefined,
+      syncStatus: updates.syncStatus ?? "pending",
+    };
+
+    let newId = 0;
+    await db.withTransactionAsync(async () => {
+      newId = await this.insertEntry(db, next, {
+        version: (existing.version ?? 1) + 1,
+        supersedesId: existing.id,
+      });
+
+      await db.runAsync(
+        "UPDATE flight_entries SET superseded_by = ?, updated_at = datetime('now') WHERE id = ?",
+        [newId, existing.id]
+      );
+
+      await this.appendToChain(db, newId);
+
+      if (next.syncStatus === "pending") {
+        await this.logOperation(db, newId, "update");
+      }
+    });
+
+    console.log(
+      `[Database] Entry ${existing.id} superseded by version ${(existing.version ?? 1) + 1} (${newId})`
+    );
+
+    return newId;
+  }
+
+  private async backfillHashChain(db: SQLite.SQLiteDatabase): Promise<void> {
+    const rows = await db.getAllAsync<{ id: number }>(
+      `SELECT id FROM flight_entries
+       WHERE status != 'draft' AND chain_seq IS NULL AND entry_hash IS NOT NULL
+       ORDER BY created_at ASC, id ASC`
+    );
+
+    if (rows.length === 0) {
+      return;
+    }
+
+    console.log(`[Database] Chaining ${rows.length} legacy entries...`);
+    await db.withTransactionAsync(async () => {
+      for (const row of rows) {
+        await this.appendToChain(db, row.id);
+      }
+    });
+  }
+
+  private mapRowToAttachmentUpload(row: AttachmentUploadRow): AttachmentUpload {
+    return {
+      entryId: row.entry_id,
+      localUri: row.local_uri,
+      filename: row.filename,
+      contentType: row.content_type,
+      size: row.size,
+      checksum: row.checksum,
+      remoteId: row.remote_id,
+      uploadedAt: row.uploaded_at,
+    };
+  }
+
+  private mapRowToSyncRun(row: SyncRunRow): SyncRun {
+    return {
+      id: row.id,
+      trigger: row.trigger as SyncTrigger,
+      startedAt: row.started_at,
+      finishedAt: row.finished_at,
+      success: row.success === 1,
+      pushed: row.pushed,
+      pulled: row.pulled,
+      deleted: row.deleted,
+      failed: row.failed,
+      conflicts: row.conflicts,
+      httpStatus: row.http_status ?? undefined,
+      error: row.error ?? undefined,
+    };
+  }
+
+  private mapRowToSyncRunEntry(row: SyncRunEntryRow): SyncRunEntry {
+    return {
+      id: row.id,
+      runId: row.run_id,
+      entryId: row.entry_id ?? undefined,
+      clientUuid: row.client_uuid ?? undefined,
+      aircraftReg: row.aircraft_reg,
+      flightDate: row.flight_date,
+      action: row.action as SyncRunAction,
+      outcome: row.outcome as SyncRunOutcome,
+      httpStatus: row.http_status ?? undefined,
+      error: row.error ?? undefined,
+    };
+  }
+
+  private mapRowToNotification(row: NotificationRow): EntryNotification {
+    return {
+      id: row.id,
+      entryId: row.entry_id ?? undefined,
+      clientUuid: row.client_uuid ?? undefined,
+      aircraftReg: row.aircraft_reg,
+      flightDate: row.flight_date,
+      fromStatus: row.from_status as FlightEntry["status"],
+      toStatus: row.to_status as FlightEntry["status"],
+      reason: row.reason ?? undefined,
+      createdAt: row.created_at,
+      readAt: row.read_at ?? undefined,
+    };
+  }
+
+  private mapRowToConflict(row: EntryConflictRow): EntryConflict {
+    return {
+      id: row.id,
+      entryId: row.entry_id,
+      serverId: row.server_id,
+      localSnapshot: row.local_snapshot,
+      serverSnapshot: row.server_snapshot,
+      serverRevision: row.server_revision ?? undefined,
+      detectedAt: row.detected_at,
+      resolvedAt: row.resolved_at ?? undefined,
+      resolution: row.resolution ?? undefined,
+    };
+  }
+
   private mapRowToEntry(row: FlightRow): FlightEntry {
     return {
       id: row.id,
+      clientUuid: row.client_uuid ?? undefined,
       serverId: row.server_id ?? undefined,
       pilotId: row.pilot_id,
       status: row.status as FlightEntry["status"],
@@ -541,14 +2120,16 @@ class Database {
       remarks: row.remarks ?? undefined,
       attachments: row.attachments ?? undefined,
       entryHash: row.entry_hash ?? undefined,
-      batchId: undefined,
-      version: undefined,
+      batchId: row.batch_id != null ? row.batch_id.toString() : undefined,
+      version: row.version != null ? row.version.toString() : undefined,
       syncStatus: row.sync_status as FlightEntry["syncStatus"],
       lastSyncedAt: row.last_synced_at ?? undefined,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
       departureAirportId: row.departure_airport_id ?? undefined,
       arrivalAirportId: row.arrival_airport_id ?? undefined,
+      departureAirportIcao: row.departure_airport_icao ?? undefined,
+      arrivalAirportIcao: row.arrival_airport_icao ?? undefined,
       departureTimezone: row.departure_timezone ?? undefined,
       arrivalTimezone: row.arrival_timezone ?? undefined,
       departureTimeUtc: row.departure_time_utc ?? undefined,
@@ -556,6 +2137,20 @@ class Database {
       nightTimeMethod: (row.night_time_method as FlightEntry["nightTimeMethod"]) ?? "manual",
       nightTimeCalculatedAt: row.night_time_calculated_at ?? undefined,
       additionalData: row.additional_data ?? undefined,
+      prevHash: row.prev_hash ?? undefined,
+      chainHash: row.chain_hash ?? undefined,
+      chainSeq: row.chain_seq ?? undefined,
+      supersedesId: row.supersedes_id ?? undefined,
+      supersededBy: row.superseded_by ?? undefined,
+      signature: row.signature ?? undefined,
+      signerPublicKey: row.signer_public_key ?? undefined,
+      signedAt: row.signed_at ?? undefined,
+      baseRevision: row.base_revision ?? undefined,
+      deletedAt: row.deleted_at ?? undefined,
+      organizationId: row.organization_id ?? undefined,
+      submittedAt: row.submitted_at ?? undefined,
+      reviewedAt: row.reviewed_at ?? undefined,
+      rejectionReason: row.rejection_reason ?? undefined,
     };
   }
 
@@ -0,0 +1,166 @@
+import {
+  AxiosAdapter,
+  AxiosError,
+  AxiosHeaders,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from "axios";
+import database from "./database";
+import {
+  ApiErrorBody,
+  ApiOrganization,
+  ApiUser,
+  EntryListResponse,
+  OrganizationsResponse,
+  ProfileResponse,
+  ServerEntry,
+  SubmitRequest,
+  SyncRequest,
+  SyncResponse,
+  UploadResponse,
+} from "../utils/apiContract";
+
+export const DEMO_USER: ApiUser = {
+  id: 0,
+  email: "demo@flightlog.app",
+  name: "Demo Pilot",
+  role: "demo",
+  license_no: "DEMO-0000",
+};
+
+export const DEMO_ORGANIZATION: ApiOrganization = {
+  id: 1,
+  name: "FlightLog Demo Airline",
+};
+
+type RouteHandler = (params: string[], body: any) => unknown | Promise<unknown>;
+
+/**
+ * The API as the demo sees it. It only ever answers from the device: pushes
+ * are acknowledged as if a server had stored them, and there is never
+ * anything to pull.
+ */
+const ROUTES: [string, RegExp, RouteHandler][] = [
+  ["get", /^\/pilots\/me$/, (): ProfileResponse => ({ user: DEMO_USER })],
+  [
+    "get",
+    /^\/pilots\/me\/entries$/,
+    (): EntryListResponse => ({
+      entries: [],
+      meta: { page: 1, total: 0, total_pages: 1 },
+    }),
+  ],
+  [
+    "get",
+    /^\/pilots\/me\/organizations$/,
+    (): OrganizationsResponse => ({ organizations: [DEMO_ORGANIZATION] }),
+  ],
+  ["post", /^\/pilots\/me\/entries\/sync$/, (_params, body: SyncRequest) => acknowledge(body)],
+  ["delete", /^\/pilots\/me\/entries\/(\d+)$/, () => ({})],
+  [
+    "post",
+    /^\/pilots\/me\/entries\/(\d+)\/submit$/,
+    ([id], body: SubmitRequest) => submit(Number(id), body),
+  ],
+  ["post", /^\/uploads$/, (): UploadResponse => ({ id: `demo-${Date.now()}` })],
+];
+
+class DemoApiError extends Error {
+  constructor(
+    public status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+// Demo entries keep their local id as their server id; the demo file is the
+// only place they exist.
+function acknowledge({ entries }: SyncRequest): SyncResponse {
+  const revision = new Date().toISOString();
+  return {
+    synced: entries.map((entry) => ({
+      client_uuid: entry.client_uuid,
+      local_id: entry.local_id,
+      server_id: entry.server_id ?? entry.local_id!,
+      revision,
+    })),
+  };
+}
+
+async function submit(serverId: number, { organization_id }: SubmitRequest): Promise<ServerEntry> {
+  const entry = await database.getEntryByServerId(serverId);
+  if (!entry) {
+    throw new DemoApiError(404, "Entry not found");
+  }
+
+  const submittedAt = new Date().toISOString();
+  return {
+    id: serverId,
+    server_id: serverId,
+    pilot_id: entry.pilotId,
+    status: "submitted",
+    flight_date: entry.flightDate,
+    aircraft_reg: entry.aircraftReg,
+    organization_id,
+    submitted_at: submittedAt,
+    revision: submittedAt,
+  };
+}
+
+function respond(
+  config: InternalAxiosRequestConfig,
+  status: number,
+  data: unknown
+): AxiosResponse {
+  return { status, statusText: "", headers: new AxiosHeaders(), config, data };
+}
+
+function parseBody(data: unknown): unknown {
+  if (typeof data !== "string") {
+    return data;
+  }
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+export const demoAdapter: AxiosAdapter = async (config) => {
+  const method = (config.method ?? "get").toLowerCase();
+  const path = (config.url ?? "").split("?")[0];
+
+  for (const [routeMethod, pattern, handler] of ROUTES) {
+    const match = routeMethod === method ? path.match(pattern) : null;
+    if (!match) {
+      continue;
+    }
+
+    try {
+      const data = await handler(match.slice(1), parseBody(config.data));
+      return respond(config, 200, data);
+    } catch (error) {
+      const status = error instanceof DemoApiError ? error.status : 500;
+      const body: ApiErrorBody = {
+        error: error instanceof Error ? error.message : "Demo request failed",
+      };
+      throw new AxiosError(
+        body.error!,
+        AxiosError.ERR_BAD_REQUEST,
+        config,
+        null,
+        respond(config, status, body)
+      );
+    }
+  }
+
+  const body: ApiErrorBody = { error: "Not available in the demo" };
+  throw new AxiosError(
+    body.error!,
+    AxiosError.ERR_BAD_REQUEST,
+    config,
+    null,
+    respond(config, 404, body)
+  );
+};
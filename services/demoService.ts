@@ -0,0 +1,152 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import ApiClient from "./apiClient";
+import AttachmentService, { parseAttachments } from "./attachmentService";
+import database, { Airport, DATABASE_NAME, DEMO_DATABASE_NAME } from "./database";
+import SigningService from "./signingService";
+import { DEMO_ORGANIZATION, DEMO_USER, demoAdapter } from "./demoBackend";
+import { buildDemoLogbook, DEMO_AIRPORTS } from "../utils/demoLogbook";
+
+const DEMO_MODE_KEY = "@flightlog:demo_mode";
+const DEMO_KEY_SUFFIX = ":demo";
+
+const bundledAirports = require("../assets/mockAirports.json") as Array<
+  Omit<Airport, "id">
+>;
+
+/**
+ * "Try demo": a sample logbook in its own database file, with every API call
+ * answered on the device. Nothing from the demo reaches a real account and
+ * nothing from a real account shows in the demo.
+ */
+class DemoService {
+  private active = false;
+  private restoring: Promise<boolean> | null = null;
+  private listeners: Set<(active: boolean) => void> = new Set();
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * The AsyncStorage key to use for account data such as caches and sync
+   * cursors, so the demo keeps its own copy.
+   */
+  scopedKey(key: string): string {
+    return this.active ? `${key}${DEMO_KEY_SUFFIX}` : key;
+  }
+
+  /** Called after switching into or out of the demo's database. */
+  onChange(listener: (active: boolean) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Reopen the demo if the app was closed in it. Must finish before anything
+   * touches the database, so the right file is opened.
+   */
+  restore(): Promise<boolean> {
+    if (!this.restoring) {
+      this.restoring = AsyncStorage.getItem(DEMO_MODE_KEY).then(async (stored) => {
+        if (stored === "true") {
+          await this.activate();
+        }
+        return this.active;
+      });
+      this.restoring.catch(() => {
+        this.restoring = null;
+      });
+    }
+    return this.restoring;
+  }
+
+  /** Switch to the demo, seeding its logbook the first time. */
+  async enter(): Promise<void> {
+    if (this.active) {
+      return;
+    }
+
+    await this.activate();
+    await AsyncStorage.setItem(DEMO_MODE_KEY, "true");
+
+    try {
+      if ((await database.getStats()).total === 0) {
+        await this.seed();
+      }
+    } catch (error) {
+      await this.exit();
+      throw error;
+    }
+    this.notify();
+  }
+
+  /** Go back to the real database and discard everything the demo stored. */
+  async exit(): Promise<void> {
+    // Demo photos share the attachment directory with real ones; note which
+    // are the demo's before its database closes.
+    const demoAttachments = (await database.getAllAttachments()).flatMap(parseAttachments);
+
+    ApiClient.setAdapter(null);
+    await database.use(DATABASE_NAME);
+    this.active = false;
+    const demoKeys = (await AsyncStorage.getAllKeys()).filter((key) =>
+      key.endsWith(DEMO_KEY_SUFFIX)
+    );
+    await AsyncStorage.multiRemove([DEMO_MODE_KEY, ...demoKeys]);
+
+    await SigningService.forgetKey(DEMO_USER.id);
+    await AttachmentService.deleteLocalCopies(demoAttachments);
+    try {
+      await database.deleteFile(DEMO_DATABASE_NAME);
+    } catch (error) {
+      console.warn("[Demo] Could not delete the demo database:", error);
+    }
+    this.notify();
+  }
+
+  private async activate() {
+    // Stub the API before the demo file opens, so no request made from here
+    // on can reach the server.
+    ApiClient.setAdapter(demoAdapter);
+    await database.use(DEMO_DATABASE_NAME);
+    await database.init();
+    this.active = true;
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener(this.active));
+  }
+
+  private async seed() {
+    await database.bulkInsertAirports(bundledAirports);
+
+    const airports: Record<string, Airport> = {};
+    for (const code of DEMO_AIRPORTS) {
+      const airport = await database.getAirportByCode(code);
+      if (!airport) {
+        throw new Error(`Demo airport ${code} is missing`);
+      }
+      airports[code] = airport;
+    }
+
+    const entries = buildDemoLogbook({
+      pilotId: DEMO_USER.id,
+      organizationId: DEMO_ORGANIZATION.id,
+      airports,
+    });
+    const revision = new Date().toISOString();
+    // The demo backend stands in for the server that reviewed these.
+    for (const entry of entries) {
+      const id = await database.createEntry(entry, { fromServer: true });
+      if (entry.syncStatus === "synced") {
+        await database.markAsSynced(id, id, revision);
+      }
+    }
+
+    console.log(`[Demo] Seeded ${entries.length} sample flights`);
+  }
+}
+
+export default new DemoService();
@@ -0,0 +1,125 @@
+import database, { FlightEntry } from "./database";
+import { computeEntryHash } from "../utils/entryHash";
+import { computeChainHash, GENESIS_HASH } from "../utils/hashChain";
+
+export type EntryIntegrityStatus = "valid" | "mismatch" | "missing";
+
+export interface EntryIntegrityResult {
+  entryId: number;
+  status: EntryIntegrityStatus;
+  storedHash: string | null;
+  computedHash: string;
+}
+
+export interface IntegrityReport {
+  checked: number;
+  valid: number;
+  flagged: EntryIntegrityResult[];
+  verifiedAt: string;
+}
+
+export interface ChainBreak {
+  entryId: number;
+  chainSeq: number;
+  reason: string;
+}
+
+export interface ChainAuditReport {
+  valid: boolean;
+  length: number;
+  headHash: string;
+  firstBreak?: ChainBreak;
+  auditedAt: string;
+}
+
+class IntegrityService {
+  verifyEntry(entry: FlightEntry): EntryIntegrityResult {
+    const computedHash = computeEntryHash(entry);
+    const storedHash = entry.entryHash ?? null;
+
+    let status: EntryIntegrityStatus = "valid";
+    if (!storedHash) {
+      status = "missing";
+    } else if (storedHash !== computedHash) {
+      status = "mismatch";
+    }
+
+    return {
+      entryId: entry.id!,
+      status,
+      storedHash,
+      computedHash,
+    };
+  }
+
+  /**
+   * Recompute the canonical hash of every stored entry and flag rows whose
+   * stored hash is missing or no longer matches their contents.
+   */
+  async verifyAllEntries(): Promise<IntegrityReport> {
+    const entries = await database.getAllEntries();
+    const results = entries.map((entry) => this.verifyEntry(entry));
+    const flagged = results.filter((result) => result.status !== "valid");
+
+    if (flagged.length > 0) {
+      console.warn(
+        `[Integrity] ${flagged.length} of ${results.length} entries failed verification`
+      );
+    }
+
+    return {
+      checked: results.length,
+      valid: results.length - flagged.length,
+      flagged,
+      verifiedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Walk the hash chain from genesis and report the first link that no longer
+   * holds: an edited row, a removed or reordered entry, or a rewritten link.
+   */
+  async auditChain(): Promise<ChainAuditReport> {
+    const entries = await database.getChainEntries();
+    const auditedAt = new Date().toISOString();
+
+    let prevHash = GENESIS_HASH;
+
+    for (const [index, entry] of entries.entries()) {
+      const chainSeq = entry.chainSeq!;
+      const fail = (reason: string): ChainAuditReport => {
+        console.warn(`[Integrity] Chain broken at #${chainSeq}: ${reason}`);
+        return {
+          valid: false,
+          length: entries.length,
+          headHash: prevHash,
+          firstBreak: { entryId: entry.id!, chainSeq, reason },
+          auditedAt,
+        };
+      };
+
+      if (chainSeq !== index + 1) {
+        return fail(`Expected entry #${index + 1}, found #${chainSeq}`);
+      }
+
+      if (entry.prevHash !== prevHash) {
+        return fail("Link does not point to the previous entry");
+      }
+
+      const entryHash = computeEntryHash(entry);
+      if (entryHash !== entry.entryHash) {
+        return fail("Entry contents changed after it was chained");
+      }
+
+      if (computeChainHash(prevHash, entryHash) !== entry.chainHash) {
+        return fail("Chain hash does not match");
+      }
+
+      prevHash = entry.chainHash!;
+    }
+
+    return { valid: true, length: entries.length, headHash: prevHash, auditedAt };
+  }
+}
+
+export default new IntegrityService();
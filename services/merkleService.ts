@@ -0,0 +1,141 @@
+import database, { FlightEntry, MerkleBatch } from "./database";
+import { computeEntryHash } from "../utils/entryHash";
+import {
+  buildMerkleTree,
+  computeRootFromProof,
+  getMerkleProof,
+  MerkleProofStep,
+} from "../utils/merkle";
+
+const MAX_BATCH_SIZE = 256;
+
+export interface InclusionResult {
+  entryId: number;
+  valid: boolean;
+  batchId?: number;
+  root?: string;
+  leafIndex?: number;
+  reason?: string;
+}
+
+class MerkleService {
+  /**
+   * Group every submitted entry that is not yet part of a batch into Merkle
+   * batches and persist the root plus each entry's inclusion proof.
+   */
+  async batchPendingEntries(): Promise<MerkleBatch[]> {
+    const batches: MerkleBatch[] = [];
+
+    for (;;) {
+      const entries = await database.getUnbatchedEntries(MAX_BATCH_SIZE);
+      if (entries.length === 0) {
+        break;
+      }
+
+      const tree = buildMerkleTree(entries.map((entry) => entry.entryHash!));
+      const proofs = entries.map((entry, leafIndex) => ({
+        entryId: entry.id!,
+        leafIndex,
+        leafHash: entry.entryHash!,
+        siblings: getMerkleProof(tree, leafIndex),
+      }));
+
+      const batchId = await database.createMerkleBatch(tree.root, proofs);
+      const batch = await database.getMerkleBatch(batchId);
+      if (batch) {
+        batches.push(batch);
+      }
+
+      if (entries.length < MAX_BATCH_SIZE) {
+        break;
+      }
+    }
+
+    if (batches.length > 0) {
+      console.log(`[Merkle] Created ${batches.length} batch(es)`);
+    }
+
+    return batches;
+  }
+
+  /**
+   * Verify offline that the entry's current contents are included in the
+   * batch root recorded for it.
+   */
+  async verifyInclusion(entryId: number): Promise<InclusionResult> {
+    const entry = await database.getEntry(entryId);
+    if (!entry) {
+      return { entryId, valid: false, reason: "Entry not found" };
+    }
+
+    const proof = await database.getMerkleProof(entryId);
+    if (!proof) {
+      return { entryId, valid: false, reason: "Entry has not been batched" };
+    }
+
+    const batch = await database.getMerkleBatch(proof.batchId);
+    if (!batch) {
+      return {
+        entryId,
+        valid: false,
+        batchId: proof.batchId,
+        reason: "Batch record is missing",
+      };
+    }
+
+    const result = {
+      entryId,
+      batchId: batch.id,
+      root: batch.root,
+      leafIndex: proof.leafIndex,
+    };
+
+    const currentHash = computeEntryHash(entry);
+    if (currentHash !== proof.leafHash) {
+      return {
+        ...result,
+        valid: false,
+        reason: "Entry changed after it was batched",
+      };
+    }
+
+    try {
+      const computedRoot = computeRootFromProof(currentHash, proof.siblings);
+      if (computedRoot !== batch.root) {
+        return { ...result, valid: false, reason: "Proof does not match batch root" };
+      }
+    } catch (error) {
+      console.error("[Merkle] Proof verification error:", error);
+      return { ...result, valid: false, reason: "Proof is malformed" };
+    }
+
+    return { ...result, valid: true };
+  }
+
+  /**
+   * Verify a proof supplied by someone else, such as the server's proof for
+   * an anchored root, against the entry's current contents.
+   */
+  verifyProof(
+    entry: FlightEntry,
+    proof: MerkleProofStep[],
+    root: string
+  ): InclusionResult {
+    const expectedRoot = root.toLowerCase().replace(/^0x/, "");
+    const result = { entryId: entry.id!, root: expectedRoot };
+
+    try {
+      const computedRoot = computeRootFromProof(computeEntryHash(entry), proof);
+      if (computedRoot !== expectedRoot) {
+        return { ...result, valid: false, reason: "Proof does not match the root" };
+      }
+    } catch (error) {
+      console.error("[Merkle] Proof verification error:", error);
+      return { ...result, valid: false, reason: "Proof is malformed" };
+    }
+
+    return { ...result, valid: true };
+  }
+}
+
+export default new MerkleService();
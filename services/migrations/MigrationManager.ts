@@ -1,8 +1,10 @@
 import * as SQLite from "expo-sqlite";
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Crypto from "expo-crypto";
 
-const TARGET_SCHEMA_VERSION = 2;
+const TARGET_SCHEMA_VERSION = 17;
 const MIGRATION_CHECK_KEY = "@flightlog:last_migration_check";
+const MIGRATION_VERSION_KEY = "@flightlog:last_migration_version";
 const MIGRATION_CHECK_INTERVAL = 24 * 60 * 60 * 1000; // 24 hours
 
 export class MigrationManager {
@@ -42,6 +44,10 @@ export class MigrationManager {
 
       this.currentSessionVersion = TARGET_SCHEMA_VERSION;
       await AsyncStorage.setItem(MIGRATION_CHECK_KEY, new Date().toISOString());
+      await AsyncStorage.setItem(
+        MIGRATION_VERSION_KEY,
+        TARGET_SCHEMA_VERSION.toString()
+      );
     } catch (error) {
       console.error("[Migration] Migration failed:", error);
       throw new Error(
@@ -88,6 +94,96 @@ export class MigrationManager {
         this.migration_v2(db)
       );
     }
+
+    if (fromVersion < 3) {
+      await this.runMigration(db, 3, "Merkle batches and inclusion proofs", () =>
+        this.migration_v3(db)
+      );
+    }
+
+    if (fromVersion < 4) {
+      await this.runMigration(db, 4, "On-chain anchor receipts", () =>
+        this.migration_v4(db)
+      );
+    }
+
+    if (fromVersion < 5) {
+      await this.runMigration(db, 5, "Append-only hash chain and entry versions", () =>
+        this.migration_v5(db)
+      );
+    }
+
+    if (fromVersion < 6) {
+      await this.runMigration(db, 6, "Pilot signatures on entries", () =>
+        this.migration_v6(db)
+      );
+    }
+
+    if (fromVersion < 7) {
+      await this.runMigration(db, 7, "Sync conflict tracking", () =>
+        this.migration_v7(db)
+      );
+    }
+
+    if (fromVersion < 8) {
+      await this.runMigration(db, 8, "Sync outbox with retry tracking", () =>
+        this.migration_v8(db)
+      );
+    }
+
+    if (fromVersion < 9) {
+      await this.runMigration(db, 9, "Operation log and tombstones", () =>
+        this.migration_v9(db)
+      );
+    }
+
+    if (fromVersion < 10) {
+      await this.runMigration(db, 10, "Attachment uploads", () =>
+        this.migration_v10(db)
+      );
+    }
+
+    if (fromVersion < 11) {
+      await this.runMigration(db, 11, "Client entry UUIDs", () =>
+        this.migration_v11(db)
+      );
+    }
+
+    if (fromVersion < 12) {
+      await this.runMigration(db, 12, "Sync run history", () =>
+        this.migration_v12(db)
+      );
+    }
+
+    if (fromVersion < 13) {
+      await this.runMigration(db, 13, "Organization review workflow", () =>
+        this.migration_v13(db)
+      );
+    }
+
+    if (fromVersion < 14) {
+      await this.runMigration(db, 14, "Status notification inbox", () =>
+        this.migration_v14(db)
+      );
+    }
+
+    if (fromVersion < 15) {
+      await this.runMigration(db, 15, "Allow repeated Merkle roots", () =>
+        this.migration_v15(db)
+      );
+    }
+
+    if (fromVersion < 16) {
+      await this.runMigration(db, 16, "Inclusion proofs on anchor receipts", () =>
+        this.migration_v16(db)
+      );
+    }
+
+    if (fromVersion < 17) {
+      await this.runMigration(db, 17, "Airport codes on entries", () =>
+        this.migration_v17(db)
+      );
+    }
   }
 
   private static async runMigration(
@@ -269,6 +365,337 @@ export class MigrationManager {
     console.log("[Migration v2] Migration completed");
   }
 
+  private static async migration_v3(db: SQLite.SQLiteDatabase): Promise<void> {
+    console.log("[Migration v3] Creating merkle_batches table...");
+    await db.execAsync(`
+      CREATE TABLE IF NOT EXISTS merkle_batches (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        root TEXT NOT NULL UNIQUE,
+        leaf_count INTEGER NOT NULL,
+        created_at TEXT NOT NULL
+      );
+    `);
+
+    console.log("[Migration v3] Creating merkle_proofs table...");
+    await db.execAsync(`
+      CREATE TABLE IF NOT EXISTS merkle_proofs (
+        entry_id INTEGER PRIMARY KEY,
+        batch_id INTEGER NOT NULL,
+        leaf_index INTEGER NOT NULL,
+        leaf_hash TEXT NOT NULL,
+        siblings TEXT NOT NULL,
+        FOREIGN KEY (batch_id) REFERENCES merkle_batches(id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_merkle_proofs_batch ON merkle_proofs(batch_id);
+    `);
+
+    console.log("[Migration v3] Adding batch_id column...");
+    await db.execAsync(`
+      ALTER TABLE flight_entries ADD COLUMN batch_id INTEGER;
+    `);
+
+    console.log("[Migration v3] Migration completed");
+  }
+
+  private static async migration_v4(db: SQLite.SQLiteDatabase): Promise<void> {
+    console.log("[Migration v4] Creating anchor_receipts table...");
+    await db.execAsync(`
+      CREATE TABLE IF NOT EXISTS anchor_receipts (
+        entry_id INTEGER PRIMARY KEY,
+        chain_id INTEGER NOT NULL,
+        contract_address TEXT NOT NULL,
+        tx_hash TEXT NOT NULL,
+        block_number INTEGER NOT NULL,
+        merkle_root TEXT NOT NULL,
+        verification_status TEXT,
+        verified_at TEXT,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_anchor_receipts_tx ON anchor_receipts(tx_hash);
+    `);
+
+    console.log("[Migration v4] Migration completed");
+  }
+
+  private static async migration_v5(db: SQLite.SQLiteDatabase): Promise<void> {
+    console.log("[Migration v5] Adding hash chain columns...");
+    await db.execAsync(`
+      ALTER TABLE flight_entries ADD COLUMN prev_hash TEXT;
+      ALTER TABLE flight_entries ADD COLUMN chain_hash TEXT;
+      ALTER TABLE flight_entries ADD COLUMN chain_seq INTEGER;
+    `);
+
+    console.log("[Migration v5] Adding version columns...");
+    await db.execAsync(`
+      ALTER TABLE flight_entries ADD COLUMN version INTEGER DEFAULT 1;
+      ALTER TABLE flight_entries ADD COLUMN supersedes_id INTEGER;
+      ALTER TABLE flight_entries ADD COLUMN superseded_by INTEGER;
+    `);
+
+    console.log("[Migration v5] Creating chain indexes...");
+    await db.execAsync(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_chain_seq ON flight_entries(chain_seq);
+      CREATE INDEX IF NOT EXISTS idx_superseded_by ON flight_entries(superseded_by);
+    `);
+
+    console.log("[Migration v5] Migration completed");
+  }
+
+  private static async migration_v6(db: SQLite.SQLiteDatabase): Promise<void> {
+    console.log("[Migration v6] Adding signature columns...");
+    await db.execAsync(`
+      ALTER TABLE flight_entries ADD COLUMN signature TEXT;
+      ALTER TABLE flight_entries ADD COLUMN signer_public_key TEXT;
+      ALTER TABLE flight_entries ADD COLUMN signed_at TEXT;
+    `);
+
+    console.log("[Migration v6] Migration completed");
+  }
+
+  private static async migration_v7(db: SQLite.SQLiteDatabase): Promise<void> {
+    console.log("[Migration v7] Adding base revision column...");
+    await db.execAsync(`
+      ALTER TABLE flight_entries ADD COLUMN base_revision TEXT;
+    `);
+
+    console.log("[Migration v7] Creating entry_conflicts table...");
+    await db.execAsync(`
+      CREATE TABLE IF NOT EXISTS entry_conflicts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        entry_id INTEGER NOT NULL,
+        server_id INTEGER NOT NULL,
+        local_snapshot TEXT NOT NULL,
+        server_snapshot TEXT NOT NULL,
+        server_revision TEXT,
+        detected_at TEXT NOT NULL,
+        resolved_at TEXT,
+        resolution TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_conflicts_server_id ON entry_conflicts(server_id);
+    `);
+
+    console.log("[Migration v7] Migration completed");
+  }
+
+  private static async migration_v8(db: SQLite.SQLiteDatabase): Promise<void> {
+    console.log("[Migration v8] Creating sync_outbox table...");
+    await db.execAsync(`
+      CREATE TABLE IF NOT EXISTS sync_outbox (
+        entry_id INTEGER PRIMARY KEY,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_attempt_at TEXT,
+        next_attempt_at TEXT,
+        last_error TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_outbox_next_attempt ON sync_outbox(next_attempt_at);
+    `);
+
+    // Failed pushes used to park entries in 'error' with no retry; requeue them.
+    console.log("[Migration v8] Requeueing failed entries...");
+    await db.runAsync(
+      "UPDATE flight_entries SET sync_status = 'pending' WHERE sync_status = 'error'"
+    );
+
+    console.log("[Migration v8] Migration completed");
+  }
+
+  private static async migration_v9(db: SQLite.SQLiteDatabase): Promise<void> {
+    console.log("[Migration v9] Adding tombstone column...");
+    await db.execAsync(`
+      ALTER TABLE flight_entries ADD COLUMN deleted_at TEXT;
+    `);
+
+    console.log("[Migration v9] Creating sync_operations table...");
+    await db.execAsync(`
+      CREATE TABLE IF NOT EXISTS sync_operations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        entry_id INTEGER NOT NULL,
+        op TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        applied_at TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_operations_pending ON sync_operations(applied_at, id);
+    `);
+
+    // Entries already waiting to sync get the operation that describes them.
+    console.log("[Migration v9] Logging pending entries...");
+    await db.runAsync(
+      `INSERT INTO sync_operations (entry_id, op, created_at)
+       SELECT id, CASE WHEN server_id IS NULL THEN 'create' ELSE 'update' END, ?
+       FROM flight_entries
+       WHERE sync_status = 'pending' AND superseded_by IS NULL
+       ORDER BY created_at ASC, id ASC`,
+      [new Date().toISOString()]
+    );
+
+    console.log("[Migration v9] Migration completed");
+  }
+
+  private static async migration_v10(db: SQLite.SQLiteDatabase): Promise<void> {
+    console.log("[Migration v10] Creating attachment_uploads table...");
+    await db.execAsync(`
+      CREATE TABLE IF NOT EXISTS attachment_uploads (
+        entry_id INTEGER NOT NULL,
+        local_uri TEXT NOT NULL,
+        filename TEXT NOT NULL,
+        content_type TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        checksum TEXT NOT NULL,
+        remote_id TEXT NOT NULL,
+        uploaded_at TEXT NOT NULL,
+        PRIMARY KEY (entry_id, local_uri)
+      );
+      CREATE INDEX IF NOT EXISTS idx_attachment_uploads_checksum ON attachment_uploads(checksum);
+    `);
+
+    console.log("[Migration v10] Migration completed");
+  }
+
+  private static async migration_v11(db: SQLite.SQLiteDatabase): Promise<void> {
+    console.log("[Migration v11] Adding client_uuid column...");
+    await db.execAsync(`
+      ALTER TABLE flight_entries ADD COLUMN client_uuid TEXT;
+      CREATE INDEX IF NOT EXISTS idx_flight_entries_client_uuid ON flight_entries(client_uuid);
+    `);
+
+    // Versions of an entry share the UUID of the row they supersede, so rows
+    // are assigned oldest first.
+    const rows = await db.getAllAsync<{ id: number; supersedes_id: number | null }>(
+      "SELECT id, supersedes_id FROM flight_entries ORDER BY id ASC"
+    );
+    const uuids = new Map<number, string>();
+
+    console.log(`[Migration v11] Assigning UUIDs to ${rows.length} entries...`);
+    for (const row of rows) {
+      const uuid =
+        (row.supersedes_id != null && uuids.get(row.supersedes_id)) ||
+        Crypto.randomUUID();
+      uuids.set(row.id, uuid);
+      await db.runAsync("UPDATE flight_entries SET client_uuid = ? WHERE id = ?", [
+        uuid,
+        row.id,
+      ]);
+    }
+
+    console.log("[Migration v11] Migration completed");
+  }
+
+  private static async migration_v12(db: SQLite.SQLiteDatabase): Promise<void> {
+    console.log("[Migration v12] Creating sync history tables...");
+    await db.execAsync(`
+      CREATE TABLE IF NOT EXISTS sync_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        trigger TEXT NOT NULL,
+        started_at TEXT NOT NULL,
+        finished_at TEXT NOT NULL,
+        success INTEGER NOT NULL,
+        pushed INTEGER NOT NULL DEFAULT 0,
+        pulled INTEGER NOT NULL DEFAULT 0,
+        deleted INTEGER NOT NULL DEFAULT 0,
+        failed INTEGER NOT NULL DEFAULT 0,
+        conflicts INTEGER NOT NULL DEFAULT 0,
+        http_status INTEGER,
+        error TEXT
+      );
+      CREATE TABLE IF NOT EXISTS sync_run_entries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        run_id INTEGER NOT NULL,
+        entry_id INTEGER,
+        client_uuid TEXT,
+        aircraft_reg TEXT NOT NULL,
+        flight_date TEXT NOT NULL,
+        action TEXT NOT NULL,
+        outcome TEXT NOT NULL,
+        http_status INTEGER,
+        error TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_sync_run_entries_run ON sync_run_entries(run_id);
+      CREATE INDEX IF NOT EXISTS idx_sync_run_entries_uuid ON sync_run_entries(client_uuid);
+    `);
+
+    console.log("[Migration v12] Migration completed");
+  }
+
+  private static async migration_v13(db: SQLite.SQLiteDatabase): Promise<void> {
+    console.log("[Migration v13] Adding review workflow columns...");
+    await db.execAsync(`
+      ALTER TABLE flight_entries ADD COLUMN organization_id INTEGER;
+      ALTER TABLE flight_entries ADD COLUMN submitted_at TEXT;
+      ALTER TABLE flight_entries ADD COLUMN reviewed_at TEXT;
+      ALTER TABLE flight_entries ADD COLUMN rejection_reason TEXT;
+    `);
+
+    console.log("[Migration v13] Migration completed");
+  }
+
+  private static async migration_v14(db: SQLite.SQLiteDatabase): Promise<void> {
+    console.log("[Migration v14] Creating notifications table...");
+    await db.execAsync(`
+      CREATE TABLE IF NOT EXISTS notifications (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        entry_id INTEGER,
+        client_uuid TEXT,
+        aircraft_reg TEXT NOT NULL,
+        flight_date TEXT NOT NULL,
+        from_status TEXT NOT NULL,
+        to_status TEXT NOT NULL,
+        reason TEXT,
+        created_at TEXT NOT NULL,
+        read_at TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_notifications_unread ON notifications(read_at);
+    `);
+
+    console.log("[Migration v14] Migration completed");
+  }
+
+  private static async migration_v15(db: SQLite.SQLiteDatabase): Promise<void> {
+    // Two batches over the same leaves share a root; SQLite cannot drop a
+    // UNIQUE constraint in place, so the table is rebuilt without it.
+    console.log("[Migration v15] Rebuilding merkle_batches...");
+    await db.execAsync(`
+      CREATE TABLE merkle_batches_v15 (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        root TEXT NOT NULL,
+        leaf_count INTEGER NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      INSERT INTO merkle_batches_v15 (id, root, leaf_count, created_at)
+        SELECT id, root, leaf_count, created_at FROM merkle_batches;
+      DROP TABLE merkle_batches;
+      ALTER TABLE merkle_batches_v15 RENAME TO merkle_batches;
+      CREATE INDEX IF NOT EXISTS idx_merkle_batches_root ON merkle_batches(root);
+    `);
+
+    console.log("[Migration v15] Migration completed");
+  }
+
+  private static async migration_v16(db: SQLite.SQLiteDatabase): Promise<void> {
+    console.log("[Migration v16] Adding anchor proof column...");
+    await db.execAsync(`
+      ALTER TABLE anchor_receipts ADD COLUMN proof TEXT;
+    `);
+
+    console.log("[Migration v16] Migration completed");
+  }
+
+  private static async migration_v17(db: SQLite.SQLiteDatabase): Promise<void> {
+    console.log("[Migration v17] Adding airport code columns...");
+    await db.execAsync(`
+      ALTER TABLE flight_entries ADD COLUMN departure_airport_icao TEXT;
+      ALTER TABLE flight_entries ADD COLUMN arrival_airport_icao TEXT;
+      UPDATE flight_entries SET
+        departure_airport_icao =
+          (SELECT icao_code FROM airports WHERE airports.id = departure_airport_id),
+        arrival_airport_icao =
+          (SELECT icao_code FROM airports WHERE airports.id = arrival_airport_id);
+    `);
+
+    console.log("[Migration v17] Migration completed");
+  }
+
   private static async shouldSkipMigrationCheck(): Promise<boolean> {
     try {
       const lastCheck = await AsyncStorage.getItem(MIGRATION_CHECK_KEY);
@@ -276,6 +703,12 @@ export class MigrationManager {
         return false;
       }
 
+      // An app update may ship new migrations; never skip those.
+      const lastVersion = await AsyncStorage.getItem(MIGRATION_VERSION_KEY);
+      if (lastVersion !== TARGET_SCHEMA_VERSION.toString()) {
+        return false;
+      }
+
       const lastCheckTime = new Date(lastCheck).getTime();
       const now = Date.now();
 
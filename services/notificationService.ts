@@ -0,0 +1,69 @@
+import database, { EntryNotification, FlightEntry } from "./database";
+
+type UnreadListener = (count: number) => void;
+
+/**
+ * In-app inbox of review status changes. Listeners hear the unread count
+ * whenever it may have changed, which drives the Logbook tab badge.
+ */
+class NotificationService {
+  private listeners: Set<UnreadListener> = new Set();
+
+  /** Record that the server moved an entry from one status to another. */
+  async recordStatusChange(
+    entry: FlightEntry,
+    fromStatus: FlightEntry["status"],
+    toStatus: FlightEntry["status"],
+    reason?: string
+  ): Promise<void> {
+    await database.addNotification({
+      entryId: entry.id,
+      clientUuid: entry.clientUuid,
+      aircraftReg: entry.aircraftReg,
+      flightDate: entry.flightDate,
+      fromStatus,
+      toStatus,
+      reason,
+    });
+    await this.notify();
+  }
+
+  getNotifications(): Promise<EntryNotification[]> {
+    return database.getNotifications();
+  }
+
+  getUnreadCount(): Promise<number> {
+    return database.getUnreadNotificationCount();
+  }
+
+  async markRead(id: number): Promise<void> {
+    await database.markNotificationsRead(id);
+    await this.notify();
+  }
+
+  async markAllRead(): Promise<void> {
+    await database.markNotificationsRead();
+    await this.notify();
+  }
+
+  onUnreadCountChange(listener: UnreadListener): () => void {
+    this.listeners.add(listener);
+    this.getUnreadCount()
+      .then(listener)
+      .catch((error) => console.warn("Failed to count notifications:", error));
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async notify(): Promise<void> {
+    if (this.listeners.size === 0) {
+      return;
+    }
+
+    const count = await this.getUnreadCount();
+    this.listeners.forEach((listener) => listener(count));
+  }
+}
+
+export default new NotificationService();
@@ -0,0 +1,144 @@
+import NetInfo from "@react-native-community/netinfo";
+import { AppState, AppStateStatus, NativeEventSubscription } from "react-native";
+import ApiClient from "./apiClient";
+import { ApiUser } from "../utils/apiContract";
+
+/**
+ * - `online`: the server has accepted the session since it was restored.
+ * - `offline`: signed in from stored credentials the server has not
+ *   confirmed, usually for lack of a connection. Everything local keeps
+ *   working; syncing waits.
+ * - `expired`: the server refused the session.
+ */
+export type SessionStatus = "online" | "offline" | "expired";
+
+type SessionListener = (status: SessionStatus, user?: ApiUser) => void;
+
+/**
+ * Tracks whether the signed-in session is confirmed by the server. A session
+ * restored at launch starts `offline` and is checked in the background, and
+ * again whenever the connection returns or the app comes to the foreground
+ * while unconfirmed.
+ */
+class SessionService {
+  private status: SessionStatus = "offline";
+  private active = false;
+  private unsubscribeNetInfo: (() => void) | null = null;
+  private unsubscribeAuth: (() => void) | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private revalidating: Promise<SessionStatus> | null = null;
+  private listeners: Set<SessionListener> = new Set();
+
+  /** `verified` when the session comes straight from a sign-in. */
+  start(verified: boolean): void {
+    this.stop();
+    this.active = true;
+    this.status = verified ? "online" : "offline";
+    this.notify();
+
+    this.unsubscribeAuth = ApiClient.onAuthEvent((event) => {
+      if (event === "session_expired") {
+        this.setStatus("expired");
+      } else if (this.status === "offline") {
+        this.setStatus("online");
+      }
+    });
+    this.unsubscribeNetInfo = NetInfo.addEventListener((state) => {
+      if (state.isConnected === false) {
+        this.setStatus("offline");
+      } else if (state.isConnected && this.status === "offline") {
+        void this.revalidate();
+      }
+    });
+    this.appStateSubscription = AppState.addEventListener(
+      "change",
+      this.handleAppStateChange
+    );
+
+    if (!verified) {
+      void this.revalidate();
+    }
+  }
+
+  stop(): void {
+    this.active = false;
+    this.unsubscribeAuth?.();
+    this.unsubscribeAuth = null;
+    this.unsubscribeNetInfo?.();
+    this.unsubscribeNetInfo = null;
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+  }
+
+  getStatus(): SessionStatus {
+    return this.status;
+  }
+
+  onStatusChange(listener: SessionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Ask the server whether the session is still good. A failed check leaves
+   * it `offline`; only ApiClient reporting a refused refresh token expires
+   * it. Concurrent calls share one request.
+   */
+  revalidate(): Promise<SessionStatus> {
+    if (!this.revalidating) {
+      this.revalidating = this.checkSession().finally(() => {
+        this.revalidating = null;
+      });
+    }
+    return this.revalidating;
+  }
+
+  private async checkSession(): Promise<SessionStatus> {
+    try {
+      const { user } = await ApiClient.getProfile();
+      this.setStatus("online", user);
+    } catch (error) {
+      // A 401 here can just mean the refresh could not reach the server, so
+      // only ApiClient's session_expired event ends the session.
+      if (this.status !== "expired") {
+        console.log("[Session] Could not confirm session:", this.describe(error));
+        this.setStatus("offline");
+      }
+    }
+    return this.status;
+  }
+
+  private handleAppStateChange = (next: AppStateStatus) => {
+    if (next === "active" && this.status === "offline") {
+      void this.revalidate();
+    }
+  };
+
+  private setStatus(status: SessionStatus, user?: ApiUser) {
+    if (!this.active) {
+      return;
+    }
+    // Only a new sign-in (start) clears an expired session.
+    if (this.status === "expired" && status !== "expired") {
+      return;
+    }
+    if (status === this.status && !user) {
+      return;
+    }
+
+    this.status = status;
+    this.notify(user);
+  }
+
+  private notify(user?: ApiUser) {
+    this.listeners.forEach((listener) => listener(this.status, user));
+  }
+
+  private describe(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+export default new SessionService();
@@ -0,0 +1,99 @@
+import * as Crypto from "expo-crypto";
+import * as SecureStore from "expo-secure-store";
+import { bytesToHex } from "@noble/hashes/utils";
+import database, { FlightEntry } from "./database";
+import { computeEntryHash } from "../utils/entryHash";
+import {
+  derivePublicKey,
+  isValidPrivateKey,
+  signEntryHash,
+  verifyEntrySignature,
+} from "../utils/entrySignature";
+
+export type SignatureStatus = "valid" | "invalid" | "unsigned";
+
+export interface EntrySignature {
+  signature: string;
+  publicKey: string;
+  signedAt: string;
+}
+
+const signingKeyName = (pilotId: number) => `signing_key_${pilotId}`;
+
+class SigningService {
+  private privateKeys = new Map<number, string>();
+
+  async getPublicKey(pilotId: number): Promise<string> {
+    return derivePublicKey(await this.loadPrivateKey(pilotId));
+  }
+
+  /**
+   * Sign the entry's canonical hash with the pilot's device key and store the
+   * signature on the row. Entries that already carry a valid signature for
+   * their current contents are left untouched.
+   */
+  async signEntry(entry: FlightEntry): Promise<EntrySignature> {
+    if (this.verifyEntry(entry) === "valid") {
+      return {
+        signature: entry.signature!,
+        publicKey: entry.signerPublicKey!,
+        signedAt: entry.signedAt!,
+      };
+    }
+
+    const privateKey = await this.loadPrivateKey(entry.pilotId);
+    const result: EntrySignature = {
+      signature: signEntryHash(computeEntryHash(entry), privateKey),
+      publicKey: derivePublicKey(privateKey),
+      signedAt: new Date().toISOString(),
+    };
+
+    await database.setEntrySignature(entry.id!, result);
+    return result;
+  }
+
+  /** Check the stored signature against the entry's current contents. */
+  verifyEntry(entry: FlightEntry): SignatureStatus {
+    if (!entry.signature || !entry.signerPublicKey) {
+      return "unsigned";
+    }
+
+    return verifyEntrySignature(
+      computeEntryHash(entry),
+      entry.signature,
+      entry.signerPublicKey
+    )
+      ? "valid"
+      : "invalid";
+  }
+
+  /** Delete the pilot's device key; a new one is made on the next signature. */
+  async forgetKey(pilotId: number): Promise<void> {
+    this.privateKeys.delete(pilotId);
+    await SecureStore.deleteItemAsync(signingKeyName(pilotId));
+  }
+
+  private async loadPrivateKey(pilotId: number): Promise<string> {
+    const cached = this.privateKeys.get(pilotId);
+    if (cached) {
+      return cached;
+    }
+
+    let privateKey = await SecureStore.getItemAsync(signingKeyName(pilotId));
+
+    if (!privateKey) {
+      let bytes = Crypto.getRandomBytes(32);
+      while (!isValidPrivateKey(bytes)) {
+        bytes = Crypto.getRandomBytes(32);
+      }
+      privateKey = bytesToHex(bytes);
+      await SecureStore.setItemAsync(signingKeyName(pilotId), privateKey);
+      console.log(`[Signing] Generated signing key for pilot ${pilotId}`);
+    }
+
+    this.privateKeys.set(pilotId, privateKey);
+    return privateKey;
+  }
+}
+
+export default new SigningService();
@@ -0,0 +1,301 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { AppState, AppStateStatus, NativeEventSubscription } from "react-native";
+import ApiClient from "./apiClient";
+import AnchorService from "./anchorService";
+import NotificationService from "./notificationService";
+import database, { FlightEntry } from "./database";
+import DemoService from "./demoService";
+import { STATUS_CHANNEL_URL } from "../config";
+import { BackoffOptions, computeBackoffDelay } from "../utils/backoff";
+import { decodeWireEntry } from "../utils/entryWire";
+import { parseResponse, ServerEntry, serverEntry } from "../utils/apiContract";
+import { isStatusReachable } from "../utils/entryStatus";
+
+const LAST_CHECK_KEY = "@flightlog:status_checked_at";
+const POLL_INTERVAL_MS = 2 * 60 * 1000;
+const PAGE_SIZE = 100;
+const MAX_PAGES = 20;
+
+const CHANNEL_BACKOFF: BackoffOptions = {
+  baseDelayMs: 5 * 1000,
+  maxDelayMs: 5 * 60 * 1000,
+};
+
+type IncomingEntry = Omit<FlightEntry, "id" | "createdAt" | "updatedAt">;
+type RefreshListener = (changed: number) => void;
+
+/**
+ * Keeps review statuses current between full syncs. While the app is in the
+ * foreground it asks the server for entries changed since the last check;
+ * when a status channel is configured, changes pushed over it are applied
+ * as they arrive and polling pauses until the channel drops.
+ */
+class StatusRefreshService {
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private channel: WebSocket | null = null;
+  private channelOpen = false;
+  private channelAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private refreshing: Promise<number> | null = null;
+  private listeners: Set<RefreshListener> = new Set();
+
+  start(): void {
+    if (this.pollTimer) {
+      return;
+    }
+
+    this.pollTimer = setInterval(() => {
+      if (!this.channelOpen && AppState.currentState === "active") {
+        void this.refresh();
+      }
+    }, POLL_INTERVAL_MS);
+    this.appStateSubscription = AppState.addEventListener(
+      "change",
+      this.handleAppStateChange
+    );
+
+    this.connectChannel();
+    void this.refresh();
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.disconnectChannel();
+  }
+
+  /** Called with the number of entries updated by each refresh or push. */
+  onStatusRefresh(listener: RefreshListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Fetch entries the server changed since the last check and apply their
+   * review status. Resolves with the number of entries updated; concurrent
+   * calls share one request.
+   */
+  refresh(): Promise<number> {
+    if (!this.refreshing) {
+      this.refreshing = this.fetchChanges()
+        .catch((error) => {
+          console.warn("Status refresh failed:", error);
+          return 0;
+        })
+        .finally(() => {
+          this.refreshing = null;
+        });
+    }
+
+    return this.refreshing;
+  }
+
+  /**
+   * Apply the review fields of a server copy to the local entry and put the
+   * transition in the inbox. Statuses that would move the entry backwards
+   * through the workflow are ignored. Returns whether anything changed.
+   */
+  async applyServerStatus(
+    local: FlightEntry,
+    incoming: IncomingEntry
+  ): Promise<boolean> {
+    const reviewChanged =
+      local.status !== incoming.status ||
+      local.reviewedAt !== incoming.reviewedAt ||
+      local.rejectionReason !== incoming.rejectionReason;
+
+    if (!reviewChanged) {
+      return false;
+    }
+
+    if (!isStatusReachable(local.status, incoming.status)) {
+      console.warn(
+        `[Status] Ignoring status ${incoming.status} for entry ${local.id} (${local.status} locally)`
+      );
+      return false;
+    }
+
+    await database.updateEntry(
+      local.id!,
+      {
+        status: incoming.status,
+        organizationId: incoming.organizationId,
+        submittedAt: incoming.submittedAt,
+        reviewedAt: incoming.reviewedAt,
+        rejectionReason: incoming.rejectionReason,
+      },
+      { fromServer: true }
+    );
+
+    if (local.status !== incoming.status) {
+      await NotificationService.recordStatusChange(
+        local,
+        local.status,
+        incoming.status,
+        incoming.rejectionReason
+      );
+    }
+
+    return true;
+  }
+
+  private handleAppStateChange = (state: AppStateStatus) => {
+    if (state === "active" && !this.channelOpen) {
+      void this.refresh();
+    }
+  };
+
+  private async fetchChanges(): Promise<number> {
+    if ((await database.countEntriesAwaitingReview()) === 0) {
+      return 0;
+    }
+
+    const lastCheckKey = DemoService.scopedKey(LAST_CHECK_KEY);
+    const since = await AsyncStorage.getItem(lastCheckKey);
+    const requestedAt = new Date().toISOString();
+    let serverTime: string | undefined;
+    let changed = 0;
+
+    for (let page = 1; page <= MAX_PAGES; page += 1) {
+      const response = await ApiClient.getEntries({
+        page,
+        per_page: PAGE_SIZE,
+        ...(since ? { updated_since: since } : {}),
+      });
+
+      const items = response.entries;
+      serverTime = serverTime ?? response.meta?.server_time;
+
+      for (const item of items) {
+        if (await this.applyItem(item)) {
+          changed += 1;
+        }
+      }
+
+      const totalPages = response.meta?.total_pages;
+      const hasMore =
+        typeof totalPages === "number" ? page < totalPages : items.length === PAGE_SIZE;
+      if (!hasMore) {
+        break;
+      }
+    }
+
+    // Prefer the server's clock so device clock drift cannot skip changes.
+    await AsyncStorage.setItem(lastCheckKey, serverTime ?? requestedAt);
+    this.notify(changed);
+    return changed;
+  }
+
+  /** Apply one server entry; content changes are left to the next sync. */
+  private async applyItem(item: ServerEntry): Promise<boolean> {
+    const decoded = decodeWireEntry(item);
+    if (!decoded) {
+      return false;
+    }
+
+    const incoming = decoded.entry;
+    let local = await database.getEntryByServerId(incoming.serverId!);
+    if (!local && incoming.clientUuid) {
+      local = await database.getEntryByClientUuid(incoming.clientUuid);
+    }
+    if (!local || local.deletedAt || local.supersededBy != null) {
+      return false;
+    }
+
+    const changed = await this.applyServerStatus(local, incoming);
+
+    const receipt = AnchorService.parseAnchorPayload(item.anchor);
+    if (changed && incoming.status === "anchored" && receipt) {
+      await AnchorService.recordReceipt(local.id!, receipt);
+    }
+
+    return changed;
+  }
+
+  private connectChannel(): void {
+    // The demo has no server to hear from.
+    if (!STATUS_CHANNEL_URL || this.channel || DemoService.isActive()) {
+      return;
+    }
+
+    const socket = new WebSocket(STATUS_CHANNEL_URL);
+    this.channel = socket;
+
+    socket.onopen = async () => {
+      const token = await ApiClient.getAccessToken();
+      socket.send(JSON.stringify({ type: "authenticate", token }));
+      this.channelOpen = true;
+      this.channelAttempts = 0;
+      // Catch up on anything that changed while the channel was down.
+      void this.refresh();
+    };
+
+    socket.onmessage = (event) => {
+      void this.handleChannelMessage(event.data);
+    };
+
+    socket.onclose = () => {
+      this.channel = null;
+      this.channelOpen = false;
+      this.scheduleReconnect();
+    };
+  }
+
+  private disconnectChannel(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    const socket = this.channel;
+    this.channel = null;
+    this.channelOpen = false;
+    if (socket) {
+      socket.onclose = null;
+      socket.close();
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.pollTimer || this.reconnectTimer) {
+      return;
+    }
+
+    this.channelAttempts += 1;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connectChannel();
+    }, computeBackoffDelay(this.channelAttempts, CHANNEL_BACKOFF));
+  }
+
+  private async handleChannelMessage(data: unknown): Promise<void> {
+    try {
+      const message = JSON.parse(String(data));
+      if (message?.type !== "entry.status_changed") {
+        return;
+      }
+
+      const entry = parseResponse(serverEntry, message.entry, "status channel");
+      if (await this.applyItem(entry)) {
+        this.notify(1);
+      }
+    } catch (error) {
+      console.warn("Failed to apply status update:", error);
+    }
+  }
+
+  private notify(changed: number) {
+    if (changed > 0) {
+      this.listeners.forEach((listener) => listener(changed));
+    }
+  }
+}
+
+export default new StatusRefreshService();
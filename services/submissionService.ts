@@ -0,0 +1,79 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import ApiClient from "./apiClient";
+import database, { FlightEntry } from "./database";
+import DemoService from "./demoService";
+import SyncService from "./syncService";
+import { canSubmit, StatusTransitionError } from "../utils/entryStatus";
+import { readWireRevision } from "../utils/entryWire";
+
+const ORGANIZATIONS_KEY = "@flightlog:organizations";
+
+/** An operator or training organization that reviews the pilot's entries. */
+export interface Organization {
+  id: number;
+  name: string;
+}
+
+class SubmissionService {
+  /**
+   * The pilot's organizations. The last list fetched is kept so the picker
+   * still works when the API cannot be reached.
+   */
+  async getOrganizations(): Promise<Organization[]> {
+    try {
+      const { organizations: items } = await ApiClient.getOrganizations();
+      const organizations = items.map(({ id, name }) => ({ id, name }));
+
+      await AsyncStorage.setItem(
+        DemoService.scopedKey(ORGANIZATIONS_KEY),
+        JSON.stringify(organizations)
+      );
+      return organizations;
+    } catch (error) {
+      console.warn("Failed to fetch organizations, using cached list:", error);
+      const cached = await AsyncStorage.getItem(DemoService.scopedKey(ORGANIZATIONS_KEY));
+      return cached ? JSON.parse(cached) : [];
+    }
+  }
+
+  /**
+   * Submit an entry to an organization for review. Drafts and rejected
+   * entries can be submitted; unsent changes are pushed first. Throws if the
+   * entry cannot be submitted or the server refuses.
+   */
+  async submit(entryId: number, organizationId: number): Promise<FlightEntry> {
+    let entry = await database.getEntry(entryId);
+    if (!entry) {
+      throw new Error("Entry not found");
+    }
+    if (entry.supersededBy != null) {
+      throw new Error("A newer version of this entry exists; submit that one");
+    }
+    if (!canSubmit(entry.status)) {
+      throw new StatusTransitionError(entry.status, "submitted");
+    }
+
+    if (entry.syncStatus !== "synced" || entry.serverId == null) {
+      const pushed = await SyncService.pushEntry(entryId);
+      entry = await database.getEntry(entryId);
+      if (!pushed.success || entry?.serverId == null) {
+        throw new Error(pushed.error || "The entry could not be sent to the server");
+      }
+    }
+
+    const response = await ApiClient.submitEntry(entry.serverId, organizationId);
+
+    await database.updateEntry(entryId, {
+      status: "submitted",
+      organizationId,
+      submittedAt: response.submitted_at ?? new Date().toISOString(),
+      reviewedAt: undefined,
+      rejectionReason: undefined,
+      baseRevision: readWireRevision(response) ?? entry.baseRevision,
+    });
+
+    return (await database.getEntry(entryId))!;
+  }
+}
+
+export default new SubmissionService();
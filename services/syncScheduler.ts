@@ -0,0 +1,160 @@
+import NetInfo, { NetInfoState } from "@react-native-community/netinfo";
+import SyncService, { SyncResult } from "./syncService";
+import {
+  cellularCarrier,
+  DEFAULT_SYNC_POLICY,
+  loadHomeCarrier,
+  loadSyncPolicy,
+  saveHomeCarrier,
+  saveSyncPolicy,
+  syncBlockedReason,
+  SyncPolicy,
+} from "../utils/syncPolicy";
+
+// Saves tend to come in bursts (edit, save, edit again); wait for a pause.
+const SAVE_SYNC_DELAY_MS = 5000;
+
+type PolicyListener = (policy: SyncPolicy) => void;
+type AutoSyncListener = (result: SyncResult) => void;
+
+/**
+ * Runs silent syncs without the pilot asking: when connectivity returns,
+ * shortly after an entry is saved, and in the background at the policy's
+ * interval. Every automatic sync is subject to the user's sync policy.
+ */
+class SyncScheduler {
+  private policy: SyncPolicy = { ...DEFAULT_SYNC_POLICY };
+  private homeCarrier: string | null = null;
+  private unsubscribeNetInfo: (() => void) | null = null;
+  private lastState: NetInfoState | null = null;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private policyListeners: Set<PolicyListener> = new Set();
+  private syncListeners: Set<AutoSyncListener> = new Set();
+
+  async start(): Promise<void> {
+    if (this.unsubscribeNetInfo) {
+      return;
+    }
+
+    this.policy = await loadSyncPolicy();
+    this.homeCarrier = await loadHomeCarrier();
+    this.notifyPolicy();
+
+    await SyncService.registerBackgroundSync(this.policy.backgroundIntervalMinutes);
+    this.unsubscribeNetInfo = NetInfo.addEventListener((state) => {
+      void this.handleNetworkChange(state);
+    });
+  }
+
+  async stop(): Promise<void> {
+    this.unsubscribeNetInfo?.();
+    this.unsubscribeNetInfo = null;
+    this.lastState = null;
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    await SyncService.unregisterBackgroundSync();
+  }
+
+  getPolicy(): SyncPolicy {
+    return this.policy;
+  }
+
+  getHomeCarrier(): string | null {
+    return this.homeCarrier;
+  }
+
+  async setPolicy(updates: Partial<SyncPolicy>): Promise<SyncPolicy> {
+    const previous = this.policy;
+    this.policy = { ...previous, ...updates };
+    await saveSyncPolicy(this.policy);
+    this.notifyPolicy();
+
+    if (this.policy.backgroundIntervalMinutes !== previous.backgroundIntervalMinutes) {
+      await SyncService.registerBackgroundSync(this.policy.backgroundIntervalMinutes);
+    }
+
+    // Loosening the policy can allow a sync on the connection we already have.
+    if (
+      this.lastState &&
+      this.blockedOn(this.lastState, previous) &&
+      !this.blockedOn(this.lastState, this.policy)
+    ) {
+      void this.runSync();
+    }
+
+    return this.policy;
+  }
+
+  onPolicyChange(listener: PolicyListener): () => void {
+    this.policyListeners.add(listener);
+    listener(this.policy);
+    return () => {
+      this.policyListeners.delete(listener);
+    };
+  }
+
+  /** Called with the result of every sync the scheduler starts. */
+  onAutoSync(listener: AutoSyncListener): () => void {
+    this.syncListeners.add(listener);
+    return () => {
+      this.syncListeners.delete(listener);
+    };
+  }
+
+  /** Ask for a sync after an entry was saved; repeated calls are debounced. */
+  requestSync(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      void this.runSync();
+    }, SAVE_SYNC_DELAY_MS);
+  }
+
+  private async handleNetworkChange(state: NetInfoState): Promise<void> {
+    const carrier = cellularCarrier(state);
+    if (carrier && !this.homeCarrier) {
+      this.homeCarrier = carrier;
+      await saveHomeCarrier(carrier);
+    }
+
+    const previous = this.lastState;
+    this.lastState = state;
+
+    // The first event only reports the connection the app started on.
+    if (!previous) {
+      return;
+    }
+
+    if (this.blockedOn(previous, this.policy) && !this.blockedOn(state, this.policy)) {
+      await this.runSync();
+    }
+  }
+
+  private blockedOn(state: NetInfoState, policy: SyncPolicy): boolean {
+    return syncBlockedReason(state, policy, this.homeCarrier) !== null;
+  }
+
+  private async runSync(): Promise<void> {
+    try {
+      const state = await NetInfo.fetch();
+      if (this.blockedOn(state, this.policy)) {
+        return;
+      }
+
+      const result = await SyncService.syncNow({ silent: true, trigger: "auto" });
+      this.syncListeners.forEach((listener) => listener(result));
+    } catch (error) {
+      console.warn("Scheduled sync failed:", error);
+    }
+  }
+
+  private notifyPolicy() {
+    this.policyListeners.forEach((listener) => listener(this.policy));
+  }
+}
+
+export default new SyncScheduler();
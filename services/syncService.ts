@@ -3,7 +3,41 @@ import * as BackgroundFetch from "expo-background-fetch";
 import * as TaskManager from "expo-task-manager";
 import { isAxiosError } from "axios";
 import ApiClient from "./apiClient";
-import database, { FlightEntry } from "./database";
+import { SYNC_BATCH_SIZE } from "../config";
+import database, {
+  FlightEntry,
+  OutboxItem,
+  SyncRun,
+  SyncRunAction,
+  SyncRunEntry,
+  SyncRunOutcome,
+  SyncTrigger,
+} from "./database";
+import MerkleService from "./merkleService";
+import AnchorService from "./anchorService";
+import SigningService, { EntrySignature } from "./signingService";
+import ConflictService from "./conflictService";
+import AttachmentService, {
+  MissingAttachmentError,
+  parseAttachments,
+  UploadedAttachment,
+} from "./attachmentService";
+import StatusRefreshService from "./statusRefreshService";
+import { canonicalJson, computeEntryHash, sha256Hex } from "../utils/entryHash";
+import { computeBackoffDelay } from "../utils/backoff";
+import { decodeWireEntry, encodeWireEntry, readWireRevision } from "../utils/entryWire";
+import {
+  ServerEntry,
+  SyncAck,
+  SyncEntryRef,
+  SyncResponse,
+} from "../utils/apiContract";
+import {
+  DEFAULT_SYNC_POLICY,
+  loadHomeCarrier,
+  loadSyncPolicy,
+  syncBlockedReason,
+} from "../utils/syncPolicy";
 
 export type SyncPhase = "idle" | "syncing" | "success" | "error";
 
@@ -17,6 +51,7 @@ export interface SyncStats {
   total: number;
   pending: number;
   synced: number;
+  conflicts: number;
   lastSyncedAt: string | null;
 }
 
@@ -24,12 +59,39 @@ export interface SyncResult {
   success: boolean;
   synced?: number;
   failed?: number;
+  deleted?: number;
+  batches?: number;
+  failedBatches?: number;
+  pulled?: number;
+  conflicts?: number;
+  // Entries held back until the pilot replaces a photo that is gone.
+  missingAttachments?: number;
   error?: string;
+  // HTTP status of the request that failed the whole run.
+  httpStatus?: number;
+}
+
+interface PullResult {
+  inserted: number;
+  updated: number;
+  conflicts: number;
 }
 
 type StatusListener = (status: SyncStatus) => void;
 
+type RunEntryNote = Omit<SyncRunEntry, "id" | "runId">;
+
+type ReplayStep =
+  | { kind: "push"; entries: FlightEntry[] }
+  | { kind: "delete"; entry: FlightEntry };
+
 const BACKGROUND_SYNC_TASK = "BLOCKCHAIN_LOGBOOK_BACKGROUND_SYNC";
+const PULL_PAGE_SIZE = 100;
+// Share of the progress bar given to sending local changes; the pull fills
+// the rest.
+const PUSH_PROGRESS_SHARE = 90;
+// Guards against a server that ignores the page parameter.
+const MAX_PULL_PAGES = 500;
 
 let syncServiceRef: SyncService | null = null;
 
@@ -37,7 +99,8 @@ try {
   TaskManager.defineTask(BACKGROUND_SYNC_TASK, async () => {
     try {
       const state = await NetInfo.fetch();
-      if (!state.isConnected) {
+      const policy = await loadSyncPolicy();
+      if (syncBlockedReason(state, policy, await loadHomeCarrier())) {
         return BackgroundFetch.BackgroundFetchResult.NoData;
       }
 
@@ -45,8 +108,13 @@ try {
         syncServiceRef = new SyncService();
       }
 
-      const result = await syncServiceRef.syncNow({ silent: true });
-      if (result.success && (result.synced ?? 0) > 0) {
+      const result = await syncServiceRef.syncNow({
+        silent: true,
+        trigger: "background",
+      });
+      const changes =
+        (result.synced ?? 0) + (result.deleted ?? 0) + (result.pulled ?? 0);
+      if (result.success && changes > 0) {
         return BackgroundFetch.BackgroundFetchResult.NewData;
       }
       return BackgroundFetch.BackgroundFetchResult.NoData;
@@ -67,6 +135,9 @@ class SyncService {
   private listeners: Set<StatusListener> = new Set();
   private currentStatus: SyncStatus = { status: "idle", progress: 0 };
   private syncing = false;
+  private backgroundIntervalMinutes: number | null = null;
+  // Per-entry outcomes of the run in progress, saved with it to the history.
+  private runEntries: RunEntryNote[] = [];
 
   onSyncStatusChange(listener: StatusListener): () => void {
     this.listeners.add(listener);
@@ -76,18 +147,29 @@ class SyncService {
     };
   }
 
-  async registerBackgroundSync(): Promise<void> {
+  /**
+   * Register the background fetch task, or re-register it when the interval
+   * has changed since the last call.
+   */
+  async registerBackgroundSync(
+    intervalMinutes = DEFAULT_SYNC_POLICY.backgroundIntervalMinutes
+  ): Promise<void> {
     try {
       const isRegistered = await TaskManager.isTaskRegisteredAsync(
         BACKGROUND_SYNC_TASK
       );
-      if (!isRegistered) {
-        await BackgroundFetch.registerTaskAsync(BACKGROUND_SYNC_TASK, {
-          minimumInterval: 15 * 60, // 15 minutes
-          stopOnTerminate: false,
-          startOnBoot: true,
-        });
+      if (isRegistered && this.backgroundIntervalMinutes === intervalMinutes) {
+        return;
       }
+      if (isRegistered) {
+        await BackgroundFetch.unregisterTaskAsync(BACKGROUND_SYNC_TASK);
+      }
+      await BackgroundFetch.registerTaskAsync(BACKGROUND_SYNC_TASK, {
+        minimumInterval: intervalMinutes * 60,
+        stopOnTerminate: false,
+        startOnBoot: true,
+      });
+      this.backgroundIntervalMinutes = intervalMinutes;
     } catch (error) {
       console.warn("Failed to register background sync:", error);
     }
@@ -101,6 +183,7 @@ class SyncService {
       if (isRegistered) {
         await BackgroundFetch.unregisterTaskAsync(BACKGROUND_SYNC_TASK);
       }
+      this.backgroundIntervalMinutes = null;
     } catch (error) {
       console.warn("Failed to unregister background sync:", error);
     }
@@ -110,14 +193,56 @@ class SyncService {
     return database.getStats();
   }
 
-  async syncNow(options?: { silent?: boolean }): Promise<SyncResult> {
+  /** Entries whose pushes have failed and are waiting to be retried. */
+  async getRetryQueue(): Promise<OutboxItem[]> {
+    return database.getOutboxItems();
+  }
+
+  /** Recorded sync runs, newest first. */
+  async getSyncHistory(): Promise<SyncRun[]> {
+    return database.getSyncRuns();
+  }
+
+  async getSyncRunEntries(runId: number): Promise<SyncRunEntry[]> {
+    return database.getSyncRunEntries(runId);
+  }
+
+  /** Every recorded sync attempt for one entry, across its versions. */
+  async getEntrySyncHistory(clientUuid: string): Promise<SyncRunEntry[]> {
+    return database.getSyncHistoryForEntry(clientUuid);
+  }
+
+  /**
+   * Replay the local operation log, then pull server changes. Background
+   * (silent) runs only retry entries whose backoff has elapsed; a manual sync
+   * retries all of them unless `force` is false. Every run that starts is
+   * recorded in the sync history.
+   */
+  async syncNow(options?: {
+    silent?: boolean;
+    force?: boolean;
+    trigger?: SyncTrigger;
+  }): Promise<SyncResult> {
     if (this.syncing) {
       return { success: false, error: "Sync already in progress" };
     }
 
     this.syncing = true;
     const silent = options?.silent ?? false;
+    const force = options?.force ?? !silent;
+    const startedAt = new Date().toISOString();
+    this.runEntries = [];
+
+    try {
+      const result = await this.runSync(silent, force);
+      await this.recordRun(options?.trigger ?? "manual", startedAt, result);
+      return result;
+    } finally {
+      this.syncing = false;
+    }
+  }
 
+  private async runSync(silent: boolean, force: boolean): Promise<SyncResult> {
     if (!silent) {
       this.updateStatus({ status: "syncing", progress: 0 });
     }
@@ -128,168 +253,612 @@ class SyncService {
         throw new Error("No internet connection");
       }
 
-      const pendingEntries = await database.getPendingSyncEntries();
-      const total = pendingEntries.length;
+      const result = await this.replayOperations(force, silent);
 
-      if (total === 0) {
-        if (!silent) {
-          this.updateStatus({ status: "idle", progress: 100 });
-        }
-        return { success: true, synced: 0, failed: 0 };
-      }
-
-      const result = await this.pushEntries(pendingEntries, silent);
+      // Pull even after a partial push failure so server-side changes
+      // (approvals, anchors, other devices) still arrive.
+      const pulled = await this.pullEntries(silent);
+      result.pulled = pulled.inserted + pulled.updated;
+      result.conflicts = (result.conflicts ?? 0) + pulled.conflicts;
 
       if (result.failed && result.failed > 0) {
         const message = result.error || "Some entries failed to sync";
         if (!silent) {
           this.updateStatus({ status: "error", progress: 100, message });
         }
-        return { success: false, ...result, error: message };
+        return { ...result, success: false, error: message };
       }
 
+      await this.buildMerkleBatches();
+
       if (!silent) {
         this.updateStatus({ status: "success", progress: 100 });
         this.updateStatus({ status: "idle", progress: 100 });
       }
 
-      return { success: true, ...result };
+      return { ...result, success: true };
     } catch (error) {
       const message = this.parseError(error);
       if (!silent) {
         this.updateStatus({ status: "error", progress: 0, message });
       }
-      return { success: false, failed: 0, error: message };
-    } finally {
-      this.syncing = false;
+      return {
+        success: false,
+        failed: 0,
+        error: message,
+        httpStatus: this.httpStatus(error),
+      };
     }
   }
 
-  private async pushEntries(
-    entries: FlightEntry[],
-    silent: boolean
-  ): Promise<SyncResult> {
-    const total = entries.length;
-    if (total === 0) {
-      return { success: true, synced: 0, failed: 0 };
+  /**
+   * Push one entry straight away, outside a full sync. Submission uses this
+   * so the reviewer sees the entry as the pilot last saved it.
+   */
+  async pushEntry(entryId: number): Promise<SyncResult> {
+    if (this.syncing) {
+      return { success: false, error: "Sync already in progress" };
     }
 
-    try {
-      const payload = entries.map((entry) => this.serializeEntry(entry));
-      const response: any = await ApiClient.syncEntries(payload);
-
-      const failedItems: any[] = Array.isArray(response?.failed)
-        ? response.failed
-        : [];
-      const syncedItems: any[] = Array.isArray(response?.synced)
-        ? response.synced
-        : [];
+    const entry = await database.getEntry(entryId);
+    if (!entry || entry.syncStatus !== "pending") {
+      return {
+        success: false,
+        error:
+          entry?.syncStatus === "conflict"
+            ? "Resolve the sync conflict on this entry first"
+            : "Entry has no changes to send",
+      };
+    }
 
-      let syncedCount = 0;
-      let failedCount = failedItems.length;
+    this.syncing = true;
+    const startedAt = new Date().toISOString();
+    this.runEntries = [];
 
-      for (const entry of entries) {
-        const matched = syncedItems.find((item) => {
-          const localId = item?.localId ?? item?.local_id ?? item?.id;
-          return localId === entry.id;
-        });
+    try {
+      const result = await this.pushEntries([entry]);
+      await this.recordRun("manual", startedAt, result);
+      return result;
+    } finally {
+      this.syncing = false;
+    }
+  }
 
-        if (matched || syncedItems.length === 0) {
-          const serverId =
-            matched?.serverId ??
-            matched?.server_id ??
-            entry.serverId ??
-            entry.id!;
-          await database.markAsSynced(entry.id!, serverId);
-          syncedCount += 1;
-        }
-      }
+  /**
+   * Send logged operations to the server in the order they were made. Runs
+   * of creates and updates are pushed through the bulk endpoint in batches of
+   * `SYNC_BATCH_SIZE`; a delete waits until everything logged before it has
+   * been sent. A failed batch only holds back its own entries: they back off
+   * in the outbox while the remaining batches carry on.
+   */
+  private async replayOperations(
+    force: boolean,
+    silent: boolean
+  ): Promise<SyncResult> {
+    const steps = await this.planReplay(force);
+    const result: SyncResult = {
+      success: true,
+      synced: 0,
+      failed: 0,
+      deleted: 0,
+      conflicts: 0,
+      missingAttachments: 0,
+      batches: 0,
+      failedBatches: 0,
+    };
 
-      if (failedCount > 0) {
-        for (const failed of failedItems) {
-          const localId =
-            failed?.localId ?? failed?.local_id ?? failed?.id ?? null;
-          if (localId) {
-            await database.updateEntry(localId, { syncStatus: "error" });
-          }
+    const total = steps.reduce(
+      (sum, step) => sum + (step.kind === "push" ? step.entries.length : 1),
+      0
+    );
+    let done = 0;
+
+    for (const step of steps) {
+      if (step.kind === "delete") {
+        await this.replayDelete(step.entry, result);
+        done += 1;
+      } else {
+        const pushed = await this.pushEntries(step.entries);
+        result.synced! += pushed.synced ?? 0;
+        result.failed! += pushed.failed ?? 0;
+        result.conflicts! += pushed.conflicts ?? 0;
+        result.missingAttachments! += pushed.missingAttachments ?? 0;
+        result.error = pushed.error ?? result.error;
+        result.batches! += 1;
+        if (!pushed.success) {
+          result.failedBatches! += 1;
         }
+        done += step.entries.length;
       }
 
       if (!silent) {
         this.updateStatus({
           status: "syncing",
-          progress: 100,
+          progress: Math.round((done / total) * PUSH_PROGRESS_SHARE),
+          message: `Sent ${done} of ${total} changes`,
         });
       }
+    }
 
-      const errorMessage = Array.isArray(response?.errors)
-        ? response.errors.join(", ")
-        : response?.error;
+    result.success = result.failed === 0;
+    return result;
+  }
 
-      return {
-        success: failedCount === 0,
-        synced: syncedCount,
-        failed: failedCount,
-        error: errorMessage,
-      };
-    } catch (error) {
-      if (isAxiosError(error) && error.message === "Network Error") {
-        for (const entry of entries) {
-          await database.markAsSynced(entry.id!, entry.serverId ?? entry.id!);
+  /** Turn the pending operation log into push batches and deletes, in order. */
+  private async planReplay(force: boolean): Promise<ReplayStep[]> {
+    const operations = await database.getPendingOperations(
+      force ? undefined : { dueBefore: new Date().toISOString() }
+    );
+    const steps: ReplayStep[] = [];
+    const queued = new Set<number>();
+    let batch: FlightEntry[] | null = null;
+
+    for (const operation of operations) {
+      const entry = await database.getEntry(operation.entryId);
+
+      if (operation.op === "delete") {
+        batch = null;
+        if (entry) {
+          steps.push({ kind: "delete", entry });
+        } else {
+          await database.markOperationsApplied(operation.entryId);
         }
-        if (!silent) {
-          this.updateStatus({
-            status: "syncing",
-            progress: 100,
-          });
+        continue;
+      }
+
+      // A later version, a tombstone or a server-side overwrite has already
+      // taken this operation's place.
+      if (
+        !entry ||
+        entry.supersededBy != null ||
+        entry.deletedAt ||
+        entry.syncStatus === "synced"
+      ) {
+        await database.markOperationsApplied(operation.entryId);
+        continue;
+      }
+
+      // Entries held back by a conflict or a missing attachment wait for the
+      // pilot. Later operations on an entry already queued are covered by
+      // pushing its current row.
+      if (entry.syncStatus !== "pending" || queued.has(entry.id!)) {
+        continue;
+      }
+
+      if (!batch || batch.length >= SYNC_BATCH_SIZE) {
+        batch = [];
+        steps.push({ kind: "push", entries: batch });
+      }
+      batch.push(entry);
+      queued.add(entry.id!);
+    }
+
+    return steps;
+  }
+
+  private async replayDelete(entry: FlightEntry, result: SyncResult): Promise<void> {
+    try {
+      if (entry.serverId != null) {
+        await ApiClient.deleteEntry(entry.serverId);
+      }
+    } catch (error) {
+      // Already gone on the server is what the tombstone asked for.
+      if (!isAxiosError(error) || error.response?.status !== 404) {
+        await this.recordFailure(entry, "delete", error);
+        result.failed! += 1;
+        return;
+      }
+    }
+
+    await database.purgeEntry(entry.id!);
+    await AttachmentService.deleteLocalCopies(parseAttachments(entry.attachments));
+    this.noteEntry(entry, "delete", "deleted");
+    result.deleted! += 1;
+  }
+
+  /** Push one batch of entries in a single request. */
+  private async pushEntries(pending: FlightEntry[]): Promise<SyncResult> {
+    if (pending.length === 0) {
+      return { success: true, synced: 0, failed: 0 };
+    }
+
+    // An entry is only pushed once all of its attachments are on the server.
+    // Uploads that finished are kept, so a retry picks up where this one
+    // stopped.
+    const entries: FlightEntry[] = [];
+    const attachmentsById = new Map<number, UploadedAttachment[]>();
+    let attachmentError: string | undefined;
+    let missingAttachments = 0;
+
+    for (const entry of pending) {
+      try {
+        attachmentsById.set(entry.id!, await AttachmentService.uploadForEntry(entry));
+        entries.push(entry);
+      } catch (error) {
+        attachmentError = this.parseError(error);
+        if (error instanceof MissingAttachmentError) {
+          this.noteEntry(entry, "attachment", "failed", error);
+          await database.recordPermanentSyncFailure(entry.id!, error.message);
+          missingAttachments += 1;
+        } else {
+          await this.recordFailure(entry, "attachment", error);
         }
-        return {
-          success: true,
-          synced: entries.length,
-          failed: 0,
-        };
       }
+    }
+
+    const attachmentFailures = pending.length - entries.length;
+    if (entries.length === 0) {
+      return {
+        success: false,
+        synced: 0,
+        failed: attachmentFailures,
+        missingAttachments,
+        error: attachmentError,
+      };
+    }
 
+    let response: SyncResponse;
+    try {
+      const payload = [];
+      for (const entry of entries) {
+        const signature = await SigningService.signEntry(entry);
+        payload.push(
+          await this.serializeEntry(entry, signature, attachmentsById.get(entry.id!)!)
+        );
+      }
+      // The same batch always carries the same key, so a retry after a
+      // timeout the server did commit is answered from its record.
+      response = await ApiClient.syncEntries(payload, sha256Hex(canonicalJson(payload)));
+    } catch (error) {
+      // Nothing was confirmed, so nothing is synced: every entry stays in the
+      // outbox and is retried with backoff.
       const message = this.parseError(error);
       for (const entry of entries) {
-        await database.updateEntry(entry.id!, { syncStatus: "error" });
+        await this.recordFailure(entry, "push", error);
       }
       return {
         success: false,
         synced: 0,
-        failed: entries.length,
+        failed: pending.length,
+        missingAttachments,
         error: message,
       };
     }
-  }
 
-  private serializeEntry(entry: FlightEntry) {
+    const failedItems = response.failed ?? [];
+    const syncedItems = response.synced;
+    // Results are matched by client UUID; servers that predate it echo the
+    // local row id instead.
+    const isResultFor = (item: SyncEntryRef, entry: FlightEntry) =>
+      item.client_uuid != null
+        ? item.client_uuid === entry.clientUuid
+        : item.local_id === entry.id;
+
+    // The server rejects writes whose base revision is stale and returns
+    // its current copy so the pilot can resolve the difference.
+    const conflictItems = response.conflicts ?? [];
+    const conflictedIds = new Set<number>();
+
+    for (const item of conflictItems) {
+      const entry = entries.find((candidate) => isResultFor(item, candidate));
+      const server = await this.deserializeEntry(item.server);
+      if (entry && server) {
+        await ConflictService.recordConflict(entry, server);
+        this.noteEntry(entry, "push", "conflict");
+        conflictedIds.add(entry.id!);
+      }
+    }
+
+    let syncedCount = 0;
+    let failedCount = attachmentFailures;
+
+    for (const entry of entries) {
+      if (conflictedIds.has(entry.id!)) {
+        continue;
+      }
+
+      const failed = failedItems.find((item) => isResultFor(item, entry));
+      const matched = syncedItems.find((item) => isResultFor(item, entry));
+
+      if (failed || !matched) {
+        await this.recordFailure(
+          entry,
+          "push",
+          failed?.error ?? "Not acknowledged by server"
+        );
+        failedCount += 1;
+        continue;
+      }
+
+      await database.markAsSynced(
+        entry.id!,
+        matched.server_id,
+        readWireRevision(matched)
+      );
+      await this.recordAnchor(entry.id!, matched);
+      this.noteEntry(entry, "push", "synced");
+      syncedCount += 1;
+    }
+
+    const errorMessage = response.errors?.join(", ") ?? response.error;
+
     return {
-      local_id: entry.id,
-      server_id: entry.serverId,
-      pilot_id: entry.pilotId,
-      status: entry.status,
-      flight_date: entry.flightDate,
-      aircraft_reg: entry.aircraftReg,
-      aircraft_type: entry.aircraftType,
-      route_from: entry.routeFrom,
-      route_to: entry.routeTo,
-      pic_time: entry.picTime,
-      sic_time: entry.sicTime,
-      dual_time: entry.dualTime,
-      night_time: entry.nightTime,
-      instrument_time: entry.instrumentTime,
-      total_time: entry.totalTime,
-      landings_day: entry.landingsDay,
-      landings_night: entry.landingsNight,
-      remarks: entry.remarks,
-      attachments: entry.attachments,
-      sync_status: entry.syncStatus,
-      last_synced_at: entry.lastSyncedAt,
-      entry_hash: entry.entryHash,
-      created_at: entry.createdAt,
-      updated_at: entry.updatedAt,
+      success: failedCount === 0,
+      synced: syncedCount,
+      failed: failedCount,
+      conflicts: conflictedIds.size,
+      missingAttachments,
+      error: errorMessage ?? attachmentError,
+    };
+  }
+
+  private async recordFailure(
+    entry: FlightEntry,
+    action: SyncRunAction,
+    failure: unknown
+  ): Promise<void> {
+    const error = typeof failure === "string" ? failure : this.parseError(failure);
+    this.noteEntry(entry, action, "failed", failure);
+    const attempts = await database.recordSyncFailure(entry.id!, error, (attempt) =>
+      new Date(Date.now() + computeBackoffDelay(attempt)).toISOString()
+    );
+    console.warn(`[Sync] Entry ${entry.id} failed attempt ${attempts}: ${error}`);
+  }
+
+  private noteEntry(
+    entry: Pick<FlightEntry, "id" | "clientUuid" | "aircraftReg" | "flightDate">,
+    action: SyncRunAction,
+    outcome: SyncRunOutcome,
+    failure?: unknown
+  ) {
+    this.runEntries.push({
+      entryId: entry.id,
+      clientUuid: entry.clientUuid,
+      aircraftReg: entry.aircraftReg,
+      flightDate: entry.flightDate,
+      action,
+      outcome,
+      httpStatus: this.httpStatus(failure),
+      error:
+        failure === undefined
+          ? undefined
+          : typeof failure === "string"
+            ? failure
+            : this.parseError(failure),
+    });
+  }
+
+  /** Save the finished run to the sync history; never fails the sync. */
+  private async recordRun(
+    trigger: SyncTrigger,
+    startedAt: string,
+    result: SyncResult
+  ): Promise<void> {
+    try {
+      await database.saveSyncRun(
+        {
+          trigger,
+          startedAt,
+          finishedAt: new Date().toISOString(),
+          success: result.success,
+          pushed: result.synced ?? 0,
+          pulled: result.pulled ?? 0,
+          deleted: result.deleted ?? 0,
+          failed: result.failed ?? 0,
+          conflicts: result.conflicts ?? 0,
+          httpStatus: result.httpStatus,
+          error: result.error,
+        },
+        this.runEntries
+      );
+    } catch (error) {
+      console.warn("Failed to record sync run:", error);
+    }
+  }
+
+  /**
+   * Page through the pilot's server entries and merge them into the local
+   * database, matching rows by server id.
+   */
+  private async pullEntries(silent: boolean): Promise<PullResult> {
+    const result: PullResult = { inserted: 0, updated: 0, conflicts: 0 };
+
+    for (let page = 1; page <= MAX_PULL_PAGES; page += 1) {
+      const response = await ApiClient.getEntries({
+        page,
+        per_page: PULL_PAGE_SIZE,
+      });
+      const items = response.entries;
+
+      for (const item of items) {
+        const outcome = await this.mergeServerEntry(item);
+        if (outcome) {
+          result[outcome] += 1;
+        }
+      }
+
+      const totalPages = response.meta?.total_pages;
+
+      if (!silent) {
+        const pulledShare =
+          typeof totalPages === "number" && totalPages > 0
+            ? Math.min(page / totalPages, 1)
+            : 0;
+        this.updateStatus({
+          status: "syncing",
+          progress: Math.round(
+            PUSH_PROGRESS_SHARE + pulledShare * (100 - PUSH_PROGRESS_SHARE)
+          ),
+          message: `Downloaded page ${page}`,
+        });
+      }
+      const hasMore =
+        typeof totalPages === "number"
+          ? page < totalPages
+          : items.length === PULL_PAGE_SIZE;
+
+      if (!hasMore) {
+        break;
+      }
+    }
+
+    if (result.inserted > 0 || result.updated > 0) {
+      console.log(
+        `[Sync] Pulled ${result.inserted} new and ${result.updated} updated entries`
+      );
+    }
+
+    return result;
+  }
+
+  private async mergeServerEntry(
+    item: ServerEntry
+  ): Promise<keyof PullResult | null> {
+    const incoming = await this.deserializeEntry(item);
+    if (!incoming) {
+      return null;
+    }
+
+    const serverId = incoming.serverId!;
+    let local = await database.getEntryByServerId(serverId);
+
+    // A push the server committed but never confirmed left the local entry
+    // without its server id; the client UUID still ties the two together.
+    if (!local && incoming.clientUuid) {
+      local = await database.getEntryByClientUuid(incoming.clientUuid);
+      if (local) {
+        await database.updateEntry(local.id!, { serverId });
+        local = { ...local, serverId };
+      }
+    }
+
+    // A pending local delete wins; the tombstone keeps the entry from being
+    // pulled back in.
+    if (local?.deletedAt) {
+      return null;
+    }
+
+    if (!local) {
+      const id = await database.createEntry(incoming, { fromServer: true });
+      await this.recordServerSignature(id, item);
+      await this.recordAnchor(id, item);
+      this.noteEntry({ ...incoming, id }, "pull", "inserted");
+      return "inserted";
+    }
+
+    let entryId = local.id!;
+    let changed = false;
+
+    const { status: _status, ...content } = incoming;
+    // Fields the wire format does not carry keep their local values.
+    const contentDiffers =
+      computeEntryHash({ ...local, ...content }) !== computeEntryHash(local);
+    const serverMoved =
+      incoming.baseRevision !== undefined &&
+      incoming.baseRevision !== local.baseRevision;
+
+    if (local.syncStatus !== "synced") {
+      // Unsynced local edits are kept. If the server copy also changed since
+      // the revision they were based on, neither side may silently win.
+      if (contentDiffers && serverMoved) {
+        await ConflictService.recordConflict(local, incoming);
+        this.noteEntry(local, "pull", "conflict");
+        return "conflicts";
+      }
+    } else if (contentDiffers) {
+      entryId = await database.updateEntry(entryId, content);
+      await this.recordServerSignature(entryId, item);
+      changed = true;
+    } else if (serverMoved) {
+      await database.updateEntry(entryId, { baseRevision: incoming.baseRevision });
+    }
+
+    if (
+      await StatusRefreshService.applyServerStatus(
+        { ...local, id: entryId },
+        incoming
+      )
+    ) {
+      changed = true;
+    }
+
+    if (incoming.status === "anchored") {
+      await this.recordAnchor(entryId, item);
+    }
+
+    if (!changed) {
+      return null;
+    }
+
+    this.noteEntry({ ...local, id: entryId }, "pull", "updated");
+    return "updated";
+  }
+
+  private async recordServerSignature(
+    entryId: number,
+    item: ServerEntry
+  ): Promise<void> {
+    if (!item.signature || !item.signer_public_key) {
+      return;
+    }
+
+    const entry = await database.getEntry(entryId);
+    if (!entry) {
+      return;
+    }
+
+    const signature: EntrySignature = {
+      signature: item.signature,
+      publicKey: item.signer_public_key,
+      signedAt: item.signed_at ?? new Date().toISOString(),
+    };
+
+    // Only keep signatures that cover the contents we stored.
+    const candidate = {
+      ...entry,
+      signature: signature.signature,
+      signerPublicKey: signature.publicKey,
     };
+    if (SigningService.verifyEntry(candidate) === "valid") {
+      await database.setEntrySignature(entryId, signature);
+    }
+  }
+
+  // The database resolves local airport ids from the ICAO codes on write.
+  private async deserializeEntry(
+    item: ServerEntry
+  ): Promise<Omit<FlightEntry, "id" | "createdAt" | "updatedAt"> | null> {
+    return decodeWireEntry(item)?.entry ?? null;
+  }
+
+  private async recordAnchor(
+    entryId: number,
+    item: Pick<SyncAck, "anchor">
+  ): Promise<void> {
+    const receipt = AnchorService.parseAnchorPayload(item.anchor);
+    if (!receipt) {
+      return;
+    }
+
+    await AnchorService.recordReceipt(entryId, receipt);
+    await database.updateEntry(entryId, { status: "anchored" }, { fromServer: true });
+  }
+
+  private async buildMerkleBatches(): Promise<void> {
+    try {
+      await MerkleService.batchPendingEntries();
+    } catch (error) {
+      // Batching is retried on the next sync; never fail the sync over it.
+      console.warn("Failed to build Merkle batches:", error);
+    }
+  }
+
+  private async serializeEntry(
+    entry: FlightEntry,
+    signature: EntrySignature,
+    attachments: UploadedAttachment[]
+  ) {
+    return encodeWireEntry(entry, { attachments, signature });
   }
 
   private updateStatus(status: SyncStatus) {
@@ -297,6 +866,10 @@ class SyncService {
     this.listeners.forEach((listener) => listener(status));
   }
 
+  private httpStatus(error: unknown): number | undefined {
+    return isAxiosError(error) ? error.response?.status : undefined;
+  }
+
   private parseError(error: unknown): string {
     if (isAxiosError(error)) {
       return (
@@ -0,0 +1,52 @@
+import * as Crypto from "expo-crypto";
+import * as SecureStore from "expo-secure-store";
+import { bytesToHex } from "@noble/hashes/utils";
+import { isValidPrivateKey } from "../utils/entrySignature";
+import { deriveAddress, signPersonalMessage } from "../utils/siwe";
+
+const WALLET_KEY_NAME = "wallet_private_key";
+
+/**
+ * Device-held Ethereum account used for Sign-In with Ethereum. The key never
+ * leaves secure storage; only the address and signatures are shared.
+ */
+class WalletService {
+  private privateKey: string | null = null;
+
+  async getAddress(): Promise<string> {
+    return deriveAddress(await this.loadPrivateKey());
+  }
+
+  async signMessage(message: string): Promise<string> {
+    return signPersonalMessage(message, await this.loadPrivateKey());
+  }
+
+  /** Delete the device wallet; a new address is made when it is next used. */
+  async forgetKey(): Promise<void> {
+    this.privateKey = null;
+    await SecureStore.deleteItemAsync(WALLET_KEY_NAME);
+  }
+
+  private async loadPrivateKey(): Promise<string> {
+    if (this.privateKey) {
+      return this.privateKey;
+    }
+
+    let privateKey = await SecureStore.getItemAsync(WALLET_KEY_NAME);
+
+    if (!privateKey) {
+      let bytes = Crypto.getRandomBytes(32);
+      while (!isValidPrivateKey(bytes)) {
+        bytes = Crypto.getRandomBytes(32);
+      }
+      privateKey = bytesToHex(bytes);
+      await SecureStore.setItemAsync(WALLET_KEY_NAME, privateKey);
+      console.log("[Wallet] Generated device wallet key");
+    }
+
+    this.privateKey = privateKey;
+    return privateKey;
+  }
+}
+
+export default new WalletService();
@@ -0,0 +1,505 @@
+import {
+  CREW_ROLES,
+  WireAdditionalData,
+  WireAttachment,
+  WireCrewMember,
+  WireEntry,
+} from "./entryWire";
+import { FlightEntry } from "../services/database";
+import { EntryStatus, STATUS_TRANSITIONS } from "./entryStatus";
+
+/**
+ * Request and response models for every API endpoint, with validators that
+ * check responses at runtime. `ApiClient` runs each response through its
+ * validator, so callers can rely on the declared types; a payload that does
+ * not match throws an `ApiContractError` naming the endpoint and the field.
+ *
+ * Validators only check the fields declared here and pass any others
+ * through, so the server can add fields without breaking older apps.
+ */
+
+// ------------------------------------------------------------------ models
+
+export interface ApiUser {
+  id: number;
+  email: string;
+  name: string;
+  role: string;
+  license_no?: string;
+  wallet_address?: string;
+}
+
+export interface LoginRequest {
+  email: string;
+  password: string;
+}
+
+export interface SessionResponse {
+  access_token: string;
+  refresh_token: string;
+  expires_in?: number;
+  user: ApiUser;
+}
+
+export type MfaMethod = "totp" | "recovery_code";
+
+/** Password accepted; a second factor is needed to finish signing in. */
+export interface MfaChallengeResponse {
+  mfa_required: true;
+  challenge_token: string;
+  methods: MfaMethod[];
+  expires_in?: number;
+}
+
+export type LoginResponse = SessionResponse | MfaChallengeResponse;
+
+export interface MfaVerifyRequest {
+  challenge_token: string;
+  totp_code?: string;
+  recovery_code?: string;
+}
+
+export interface RefreshResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number;
+}
+
+export interface ProfileResponse {
+  user: ApiUser;
+}
+
+export interface SiweNonceResponse {
+  nonce: string;
+}
+
+/** One sibling on the path from an entry's leaf to the anchored root. */
+export interface ApiProofStep {
+  hash: string;
+  position: "left" | "right";
+}
+
+/**
+ * Where the batch holding an entry was anchored on chain. Every field is
+ * optional: the server sends what it has while the anchor is under way.
+ */
+export interface ApiAnchor {
+  chain_id?: number;
+  contract_address?: string;
+  tx_hash?: string;
+  block_number?: number;
+  merkle_root?: string;
+  proof?: ApiProofStep[];
+}
+
+/** An entry as the server returns it: the wire format plus review state. */
+export interface ServerEntry
+  extends Partial<Omit<WireEntry, "status" | "attachments">> {
+  id?: number;
+  server_id?: number;
+  pilot_id: number;
+  status: EntryStatus;
+  flight_date: string;
+  aircraft_reg: string;
+  // Formats 1 and 2 sent the device attachment list as a JSON string.
+  attachments?: WireAttachment[] | string;
+  revision?: string | number;
+  organization_id?: number;
+  submitted_at?: string;
+  reviewed_at?: string;
+  rejection_reason?: string;
+  anchor?: ApiAnchor;
+}
+
+export interface EntryListParams {
+  status?: string;
+  page?: number;
+  per_page?: number;
+  updated_since?: string;
+}
+
+export interface EntryListResponse {
+  entries: ServerEntry[];
+  meta?: {
+    page?: number;
+    per_page?: number;
+    total?: number;
+    total_pages?: number;
+    server_time?: string;
+  };
+}
+
+export interface SyncRequest {
+  entries: WireEntry[];
+}
+
+/** Identifies which pushed entry a sync result is about. */
+export interface SyncEntryRef {
+  client_uuid?: string;
+  local_id?: number;
+}
+
+/** An entry the server stored. */
+export interface SyncAck extends SyncEntryRef {
+  server_id: number;
+  revision?: string | number;
+  updated_at?: string;
+  anchor?: ApiAnchor;
+}
+
+export interface SyncFailure extends SyncEntryRef {
+  error?: string;
+}
+
+/** An entry refused because its base revision is stale. */
+export interface SyncConflict extends SyncEntryRef {
+  server: ServerEntry;
+}
+
+export interface SyncResponse {
+  synced: SyncAck[];
+  failed?: SyncFailure[];
+  conflicts?: SyncConflict[];
+  errors?: string[];
+  error?: string;
+}
+
+export interface SubmitRequest {
+  organization_id: number;
+}
+
+export interface ApiOrganization {
+  id: number;
+  name: string;
+}
+
+export interface OrganizationsResponse {
+  organizations: ApiOrganization[];
+}
+
+export interface UploadResponse {
+  id: string | number;
+  checksum?: string;
+  size?: number;
+  content_type?: string;
+}
+
+/** Body of an error response. */
+export interface ApiErrorBody {
+  error?: string;
+  code?: string;
+  attempts_remaining?: number;
+  retry_after?: number;
+}
+
+// -------------------------------------------------------------- validation
+
+export class ApiContractError extends Error {
+  constructor(
+    readonly endpoint: string,
+    readonly detail: string
+  ) {
+    super(`Invalid response from ${endpoint}: ${detail}`);
+    this.name = "ApiContractError";
+  }
+}
+
+class ValidationIssue extends Error {}
+
+type Validator<T> = (value: unknown, path: string) => T;
+
+const describe = (value: unknown) =>
+  value === null ? "null" : Array.isArray(value) ? "an array" : typeof value;
+
+const fail = (path: string, expected: string, value: unknown): never => {
+  throw new ValidationIssue(
+    `${path || "body"} must be ${expected}, got ${describe(value)}`
+  );
+};
+
+const child = (path: string, key: string | number) =>
+  typeof key === "number" ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const string: Validator<string> = (value, path) =>
+  typeof value === "string" ? value : fail(path, "a string", value);
+
+const number: Validator<number> = (value, path) =>
+  typeof value === "number" && Number.isFinite(value)
+    ? value
+    : fail(path, "a number", value);
+
+const integer: Validator<number> = (value, path) =>
+  Number.isInteger(value) ? (value as number) : fail(path, "an integer", value);
+
+const stringOrInteger: Validator<string | number> = (value, path) =>
+  typeof value === "string" || Number.isInteger(value)
+    ? (value as string | number)
+    : fail(path, "a string or an integer", value);
+
+const isTrue: Validator<true> = (value, path) =>
+  value === true ? true : fail(path, "true", value);
+
+const record: Validator<Record<string, unknown>> = (value, path) =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : fail(path, "an object", value);
+
+/** Missing and null both read as absent. */
+function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+  return (value, path) => (value == null ? undefined : validator(value, path));
+}
+
+function oneOf<T extends string>(values: readonly T[]): Validator<T> {
+  return (value, path) =>
+    values.includes(value as T)
+      ? (value as T)
+      : fail(path, `one of ${values.join(", ")}`, value);
+}
+
+function arrayOf<T>(item: Validator<T>): Validator<T[]> {
+  return (value, path) =>
+    Array.isArray(value)
+      ? value.map((element, index) => item(element, child(path, index)))
+      : fail(path, "an array", value);
+}
+
+type Shape<T> = { [K in keyof T]-?: Validator<T[K]> };
+
+function object<T>(shape: Shape<T>): Validator<T> {
+  return (value, path) => {
+    const source = record(value, path);
+    const result: Record<string, unknown> = { ...source };
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      result[key] = shape[key](source[key], child(path, key));
+    }
+    return result as T;
+  };
+}
+
+// ------------------------------------------------------------- validators
+
+const user = object<ApiUser>({
+  id: integer,
+  email: string,
+  name: string,
+  role: string,
+  license_no: optional(string),
+  wallet_address: optional(string),
+});
+
+export const sessionResponse = object<SessionResponse>({
+  access_token: string,
+  refresh_token: string,
+  expires_in: optional(number),
+  user,
+});
+
+const mfaChallengeResponse = object<MfaChallengeResponse>({
+  mfa_required: isTrue,
+  challenge_token: string,
+  methods: arrayOf(oneOf<MfaMethod>(["totp", "recovery_code"])),
+  expires_in: optional(number),
+});
+
+export const loginResponse: Validator<LoginResponse> = (value, path) =>
+  record(value, path).mfa_required === true
+    ? mfaChallengeResponse(value, path)
+    : sessionResponse(value, path);
+
+export function isMfaChallenge(
+  response: LoginResponse
+): response is MfaChallengeResponse {
+  return (response as MfaChallengeResponse).mfa_required === true;
+}
+
+export const refreshResponse = object<RefreshResponse>({
+  access_token: string,
+  refresh_token: optional(string),
+  expires_in: optional(number),
+});
+
+export const profileResponse = object<ProfileResponse>({ user });
+
+export const siweNonceResponse = object<SiweNonceResponse>({ nonce: string });
+
+const crewMember = object<WireCrewMember>({
+  name: string,
+  role: oneOf(CREW_ROLES),
+  license_no: optional(string),
+});
+
+const additionalData = object<WireAdditionalData>({
+  flight_number: optional(string),
+  scheduled_out: optional(string),
+  scheduled_in: optional(string),
+  actual_out: optional(string),
+  actual_in: optional(string),
+  scheduled_out_utc: optional(string),
+  scheduled_in_utc: optional(string),
+  actual_out_utc: optional(string),
+  actual_in_utc: optional(string),
+  fdp_start: optional(string),
+  fdp_end: optional(string),
+  fdp_hours: optional(number),
+  fuel_loaded: optional(number),
+  distance_nm: optional(number),
+  crew_members: optional(arrayOf(crewMember)),
+});
+
+const attachment = object<WireAttachment>({
+  filename: string,
+  size: integer,
+  content_type: string,
+  checksum: string,
+  remote_id: string,
+});
+
+const attachments: Validator<WireAttachment[] | string> = (value, path) =>
+  typeof value === "string" ? value : arrayOf(attachment)(value, path);
+
+const anchor = object<ApiAnchor>({
+  chain_id: optional(integer),
+  contract_address: optional(string),
+  tx_hash: optional(string),
+  block_number: optional(integer),
+  merkle_root: optional(string),
+  proof: optional(
+    arrayOf(
+      object<ApiProofStep>({
+        hash: string,
+        position: oneOf<ApiProofStep["position"]>(["left", "right"]),
+      })
+    )
+  ),
+});
+
+const entryFields = object<ServerEntry>({
+  format_version: optional(integer),
+  id: optional(integer),
+  server_id: optional(integer),
+  client_uuid: optional(string),
+  local_id: optional(integer),
+  pilot_id: integer,
+  status: oneOf(Object.keys(STATUS_TRANSITIONS) as EntryStatus[]),
+  flight_date: string,
+  aircraft_reg: string,
+  aircraft_type: optional(string),
+  route_from: optional(string),
+  route_to: optional(string),
+  departure_airport_icao: optional(string),
+  arrival_airport_icao: optional(string),
+  departure_timezone: optional(string),
+  arrival_timezone: optional(string),
+  departure_time_utc: optional(string),
+  arrival_time_utc: optional(string),
+  pic_time: optional(number),
+  sic_time: optional(number),
+  dual_time: optional(number),
+  night_time: optional(number),
+  instrument_time: optional(number),
+  total_time: optional(number),
+  landings_day: optional(integer),
+  landings_night: optional(integer),
+  night_time_method: optional(
+    oneOf<NonNullable<FlightEntry["nightTimeMethod"]>>([
+      "manual",
+      "calculated",
+      "estimated",
+    ])
+  ),
+  night_time_calculated_at: optional(string),
+  remarks: optional(string),
+  attachments: optional(attachments),
+  additional_data: optional(additionalData),
+  sync_status: optional(
+    oneOf<FlightEntry["syncStatus"]>(["pending", "synced", "error", "conflict"])
+  ),
+  last_synced_at: optional(string),
+  entry_hash: optional(string),
+  base_revision: optional(string),
+  signature: optional(string),
+  signer_public_key: optional(string),
+  signature_algorithm: optional(string),
+  signed_at: optional(string),
+  created_at: optional(string),
+  updated_at: optional(string),
+  revision: optional(stringOrInteger),
+  organization_id: optional(integer),
+  submitted_at: optional(string),
+  reviewed_at: optional(string),
+  rejection_reason: optional(string),
+  anchor: optional(anchor),
+});
+
+export const serverEntry: Validator<ServerEntry> = (value, path) => {
+  const entry = entryFields(value, path);
+  if (entry.id === undefined && entry.server_id === undefined) {
+    fail(child(path, "id"), "an integer", undefined);
+  }
+  return entry;
+};
+
+export const entryListResponse = object<EntryListResponse>({
+  entries: arrayOf(serverEntry),
+  meta: optional(
+    object<NonNullable<EntryListResponse["meta"]>>({
+      page: optional(integer),
+      per_page: optional(integer),
+      total: optional(integer),
+      total_pages: optional(integer),
+      server_time: optional(string),
+    })
+  ),
+});
+
+const entryRef = {
+  client_uuid: optional(string),
+  local_id: optional(integer),
+};
+
+export const syncResponse = object<SyncResponse>({
+  synced: arrayOf(
+    object<SyncAck>({
+      ...entryRef,
+      server_id: integer,
+      revision: optional(stringOrInteger),
+      updated_at: optional(string),
+      anchor: optional(anchor),
+    })
+  ),
+  failed: optional(
+    arrayOf(object<SyncFailure>({ ...entryRef, error: optional(string) }))
+  ),
+  conflicts: optional(
+    arrayOf(object<SyncConflict>({ ...entryRef, server: serverEntry }))
+  ),
+  errors: optional(arrayOf(string)),
+  error: optional(string),
+});
+
+export const organizationsResponse = object<OrganizationsResponse>({
+  organizations: arrayOf(object<ApiOrganization>({ id: integer, name: string })),
+});
+
+export const uploadResponse = object<UploadResponse>({
+  id: stringOrInteger,
+  checksum: optional(string),
+  size: optional(integer),
+  content_type: optional(string),
+});
+
+/** Check `data` against `validator`, naming `endpoint` in any error. */
+export function parseResponse<T>(
+  validator: Validator<T>,
+  data: unknown,
+  endpoint: string
+): T {
+  try {
+    return validator(data, "");
+  } catch (error) {
+    if (error instanceof ValidationIssue) {
+      throw new ApiContractError(endpoint, error.message);
+    }
+    throw error;
+  }
+}
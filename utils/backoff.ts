@@ -0,0 +1,25 @@
+export interface BackoffOptions {
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const SYNC_BACKOFF: BackoffOptions = {
+  baseDelayMs: 30 * 1000,
+  maxDelayMs: 6 * 60 * 60 * 1000,
+};
+
+/**
+ * Delay before retry number `attempt` (1-based): exponential growth capped at
+ * `maxDelayMs`, with "equal jitter" so a batch of failed entries does not
+ * retry in lockstep. The result lies in [delay / 2, delay].
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  options: BackoffOptions = SYNC_BACKOFF,
+  random: () => number = Math.random
+): number {
+  const exponent = Math.max(attempt - 1, 0);
+  const delay = Math.min(options.baseDelayMs * 2 ** exponent, options.maxDelayMs);
+  const half = delay / 2;
+  return Math.round(half + random() * half);
+}
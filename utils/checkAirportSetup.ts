@@ -1,10 +1,16 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import AirportSeeder from "./airportSeeder";
+import DemoService from "../services/demoService";
 
 const AIRPORT_SETUP_KEY = "airport_database_seeded";
 
 export async function shouldShowAirportSetup(): Promise<boolean> {
   try {
+    // The demo brings its own airports.
+    if (DemoService.isActive()) {
+      return false;
+    }
+
     const seeded = await AsyncStorage.getItem(AIRPORT_SETUP_KEY);
     if (seeded === "true") {
       const count = await AirportSeeder.getAirportCount();
@@ -0,0 +1,65 @@
+const FALLBACK_CONTENT_TYPE = "application/octet-stream";
+
+const EXTENSION_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  heic: "image/heic",
+  heif: "image/heif",
+  pdf: "application/pdf",
+};
+
+// ISO-BMFF brands used by HEIC/HEIF photos from iOS and recent Android cameras.
+const HEIC_BRANDS = ["heic", "heix", "hevc", "hevx", "heim", "heis"];
+const HEIF_BRANDS = ["mif1", "msf1"];
+
+const ascii = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...bytes.subarray(start, end));
+
+const startsWith = (bytes: Uint8Array, signature: number[]) =>
+  signature.every((byte, index) => bytes[index] === byte);
+
+function sniffContentType(bytes: Uint8Array): string | null {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) {
+    return "image/jpeg";
+  }
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return "image/png";
+  }
+  if (ascii(bytes, 0, 4) === "GIF8") {
+    return "image/gif";
+  }
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 12) === "WEBP") {
+    return "image/webp";
+  }
+  if (ascii(bytes, 0, 5) === "%PDF-") {
+    return "application/pdf";
+  }
+  if (ascii(bytes, 4, 8) === "ftyp") {
+    const brand = ascii(bytes, 8, 12);
+    if (HEIC_BRANDS.includes(brand)) {
+      return "image/heic";
+    }
+    if (HEIF_BRANDS.includes(brand)) {
+      return "image/heif";
+    }
+  }
+  return null;
+}
+
+/**
+ * Content type of a file, read from its leading bytes. The file name is
+ * only consulted when the bytes are not a format we recognise; picker file
+ * names are often wrong (`.jpg` on HEIC photos, for one).
+ */
+export function detectContentType(bytes: Uint8Array, filename?: string): string {
+  const sniffed = sniffContentType(bytes);
+  if (sniffed) {
+    return sniffed;
+  }
+
+  const extension = filename?.split(".").pop()?.toLowerCase();
+  return (extension && EXTENSION_TYPES[extension]) || FALLBACK_CONTENT_TYPE;
+}
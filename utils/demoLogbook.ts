@@ -0,0 +1,286 @@
+import { AdditionalFlightData, Airport, FlightEntry } from "../services/database";
+import NightTimeCalculator from "./nightTimeCalculator";
+import { utcToLocalTime } from "./timezoneUtils";
+
+export type DemoEntry = Omit<FlightEntry, "id" | "createdAt" | "updatedAt">;
+
+// ICAO codes the sample logbook flies between; all are in the bundled
+// development airport set.
+export const DEMO_AIRPORTS = [
+  "OMDB",
+  "OMAA",
+  "OTHH",
+  "VIDP",
+  "EGLL",
+  "LFPG",
+  "VHHH",
+  "FAOR",
+  "ZBAA",
+];
+
+export const DEMO_LOGBOOK_DAYS = 120;
+
+interface Sector {
+  flightNumber: string;
+  from: string;
+  to: string;
+  /** Off-blocks, UTC, as HH:MM. */
+  outUtc: string;
+  blockMinutes: number;
+  /** Days after the start of the trip. */
+  day?: number;
+}
+
+interface Trip {
+  fleet: "narrow" | "wide";
+  sectors: Sector[];
+}
+
+const FLEET = {
+  narrow: [
+    { reg: "A6-FDK", type: "A320" },
+    { reg: "A6-FDR", type: "A320" },
+    { reg: "A6-FNJ", type: "A321" },
+  ],
+  wide: [
+    { reg: "A6-EQB", type: "B77W" },
+    { reg: "A6-EQN", type: "B77W" },
+    { reg: "A6-EWD", type: "B788" },
+  ],
+};
+
+// A Dubai-based pilot's rotations: captain on the narrowbody, first officer
+// on the widebody.
+const TRIPS: Trip[] = [
+  {
+    fleet: "narrow",
+    sectors: [
+      { flightNumber: "FL101", from: "OMDB", to: "OTHH", outUtc: "04:10", blockMinutes: 75 },
+      { flightNumber: "FL102", from: "OTHH", to: "OMDB", outUtc: "06:20", blockMinutes: 70 },
+    ],
+  },
+  {
+    fleet: "narrow",
+    sectors: [
+      { flightNumber: "FL211", from: "OMDB", to: "OMAA", outUtc: "17:40", blockMinutes: 65 },
+      { flightNumber: "FL212", from: "OMAA", to: "OMDB", outUtc: "19:35", blockMinutes: 60 },
+    ],
+  },
+  {
+    fleet: "narrow",
+    sectors: [
+      { flightNumber: "FL431", from: "OMDB", to: "VIDP", outUtc: "20:50", blockMinutes: 200 },
+      { flightNumber: "FL432", from: "VIDP", to: "OMDB", outUtc: "01:15", blockMinutes: 225, day: 1 },
+    ],
+  },
+  {
+    fleet: "wide",
+    sectors: [
+      { flightNumber: "FL001", from: "OMDB", to: "EGLL", outUtc: "03:30", blockMinutes: 455 },
+      { flightNumber: "FL002", from: "EGLL", to: "OMDB", outUtc: "13:40", blockMinutes: 415, day: 2 },
+    ],
+  },
+  {
+    fleet: "wide",
+    sectors: [
+      { flightNumber: "FL073", from: "OMDB", to: "LFPG", outUtc: "10:05", blockMinutes: 420 },
+      { flightNumber: "FL074", from: "LFPG", to: "OMDB", outUtc: "20:25", blockMinutes: 390, day: 1 },
+    ],
+  },
+  {
+    fleet: "wide",
+    sectors: [
+      { flightNumber: "FL380", from: "OMDB", to: "VHHH", outUtc: "22:45", blockMinutes: 470 },
+      { flightNumber: "FL381", from: "VHHH", to: "OMDB", outUtc: "15:20", blockMinutes: 535, day: 2 },
+    ],
+  },
+  {
+    fleet: "wide",
+    sectors: [
+      { flightNumber: "FL761", from: "OMDB", to: "FAOR", outUtc: "05:25", blockMinutes: 490 },
+      { flightNumber: "FL762", from: "FAOR", to: "OMDB", outUtc: "20:35", blockMinutes: 470, day: 1 },
+    ],
+  },
+  {
+    fleet: "wide",
+    sectors: [
+      { flightNumber: "FL306", from: "OMDB", to: "ZBAA", outUtc: "00:15", blockMinutes: 440 },
+      { flightNumber: "FL307", from: "ZBAA", to: "OMDB", outUtc: "16:10", blockMinutes: 515, day: 2 },
+    ],
+  },
+];
+
+const REJECTION_REASON = "Block times do not match the tech log. Please check and resubmit.";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Small seeded generator so every demo starts with the same logbook.
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * A realistic sample logbook covering the `DEMO_LOGBOOK_DAYS` before
+ * `today`. Older flights have been reviewed by `organizationId`, the last few
+ * weeks are awaiting review and the last week is still in draft and unsynced.
+ * `airports` must hold every code in `DEMO_AIRPORTS`.
+ */
+export function buildDemoLogbook(options: {
+  pilotId: number;
+  organizationId: number;
+  airports: Record<string, Airport>;
+  today?: Date;
+}): DemoEntry[] {
+  const { pilotId, organizationId, airports, today = new Date() } = options;
+  const random = createRandom(20251002);
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+  const startOfToday = Date.parse(`${toDateString(today)}T00:00:00Z`);
+  const entries: DemoEntry[] = [];
+
+  let tripStart = startOfToday - DEMO_LOGBOOK_DAYS * DAY_MS;
+  let flyingSector = random() < 0.5;
+  let rejected = false;
+
+  while (true) {
+    const trip = pick(TRIPS);
+    const tripDays = Math.max(...trip.sectors.map((sector) => sector.day ?? 0));
+    if (tripStart + tripDays * DAY_MS >= startOfToday) {
+      break;
+    }
+
+    const aircraft = pick(FLEET[trip.fleet]);
+    for (const sector of trip.sectors) {
+      const departure = airports[sector.from];
+      const arrival = airports[sector.to];
+      const [hours, minutes] = sector.outUtc.split(":").map(Number);
+      // A few minutes either side of the schedule, as on the line.
+      const outMs =
+        tripStart +
+        (sector.day ?? 0) * DAY_MS +
+        (hours * 60 + minutes + Math.round(random() * 20 - 5)) * 60000;
+      const blockMinutes = sector.blockMinutes + Math.round(random() * 20 - 8);
+      const departureTimeUtc = new Date(outMs).toISOString();
+      const arrivalTimeUtc = new Date(outMs + blockMinutes * 60000).toISOString();
+
+      const night = NightTimeCalculator.calculate(
+        departureTimeUtc,
+        arrivalTimeUtc,
+        departure.latitude,
+        departure.longitude,
+        arrival.latitude,
+        arrival.longitude,
+        blockMinutes / 60
+      );
+      const nightTime = Math.min(Math.round(night.nightTime * 60), blockMinutes);
+      const landedAtNight = night.details?.arrivalInNight ?? nightTime > 0;
+
+      // Pilot flying and pilot monitoring alternate; only the pilot flying
+      // logs the landing and most of the instrument time.
+      flyingSector = !flyingSector;
+      const captain = trip.fleet === "narrow";
+      const instrumentTime = flyingSector ? Math.round(random() * 30) : 0;
+
+      const additionalData: AdditionalFlightData = {
+        flightNumber: sector.flightNumber,
+        actualOut: utcToLocalTime(departureTimeUtc, departure.timezone ?? "UTC"),
+        actualIn: utcToLocalTime(arrivalTimeUtc, arrival.timezone ?? "UTC"),
+        actualOutUtc: departureTimeUtc,
+        actualInUtc: arrivalTimeUtc,
+      };
+
+      const flightDate = departureTimeUtc.slice(0, 10);
+      const age = (startOfToday - Date.parse(`${flightDate}T00:00:00Z`)) / DAY_MS;
+      const review = reviewFor(age, outMs, organizationId, random, () => {
+        const first = !rejected;
+        rejected = true;
+        return first;
+      });
+
+      entries.push({
+        pilotId,
+        ...review,
+        flightDate,
+        aircraftReg: aircraft.reg,
+        aircraftType: aircraft.type,
+        routeFrom: departure.icaoCode,
+        routeTo: arrival.icaoCode,
+        departureAirportId: departure.id,
+        arrivalAirportId: arrival.id,
+        departureTimezone: departure.timezone,
+        arrivalTimezone: arrival.timezone,
+        departureTimeUtc,
+        arrivalTimeUtc,
+        picTime: captain ? blockMinutes : 0,
+        sicTime: captain ? 0 : blockMinutes,
+        dualTime: 0,
+        nightTime,
+        instrumentTime,
+        totalTime: blockMinutes,
+        landingsDay: flyingSector && !landedAtNight ? 1 : 0,
+        landingsNight: flyingSector && landedAtNight ? 1 : 0,
+        nightTimeMethod: night.method,
+        nightTimeCalculatedAt: night.calculatedAt,
+        additionalData: JSON.stringify(additionalData),
+      });
+    }
+
+    // Two to four days off between trips.
+    tripStart += (tripDays + 2 + Math.floor(random() * 3)) * DAY_MS;
+  }
+
+  return entries;
+}
+
+function reviewFor(
+  ageDays: number,
+  departureMs: number,
+  organizationId: number,
+  random: () => number,
+  takeRejection: () => boolean
+): Pick<
+  DemoEntry,
+  | "status"
+  | "syncStatus"
+  | "organizationId"
+  | "submittedAt"
+  | "reviewedAt"
+  | "rejectionReason"
+> {
+  if (ageDays <= 7) {
+    return { status: "draft", syncStatus: "pending" };
+  }
+
+  const submittedAt = new Date(departureMs + (1 + random() * 2) * DAY_MS).toISOString();
+  if (ageDays <= 28) {
+    return { status: "submitted", syncStatus: "synced", organizationId, submittedAt };
+  }
+
+  const reviewedAt = new Date(Date.parse(submittedAt) + (1 + random() * 4) * DAY_MS).toISOString();
+  if (ageDays <= 45 && takeRejection()) {
+    return {
+      status: "rejected",
+      syncStatus: "synced",
+      organizationId,
+      submittedAt,
+      reviewedAt,
+      rejectionReason: REJECTION_REASON,
+    };
+  }
+  return {
+    status: "approved",
+    syncStatus: "synced",
+    organizationId,
+    submittedAt,
+    reviewedAt,
+  };
+}
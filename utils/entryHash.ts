@@ -0,0 +1,134 @@
+import { sha256 } from "@noble/hashes/sha256";
+import { bytesToHex, utf8ToBytes } from "@noble/hashes/utils";
+import { FlightEntry } from "../services/database";
+
+export const ENTRY_HASH_VERSION = 2;
+
+/**
+ * Fields that make up the logged content of an entry. Local bookkeeping
+ * (ids, sync state, timestamps, workflow status) is deliberately excluded so
+ * the hash only changes when what the pilot logged changes. Airports are
+ * hashed by ICAO code, since their row ids differ between devices.
+ */
+export const HASHED_ENTRY_FIELDS = [
+  "pilotId",
+  "flightDate",
+  "aircraftReg",
+  "aircraftType",
+  "routeFrom",
+  "routeTo",
+  "departureAirportIcao",
+  "arrivalAirportIcao",
+  "departureTimezone",
+  "arrivalTimezone",
+  "departureTimeUtc",
+  "arrivalTimeUtc",
+  "picTime",
+  "sicTime",
+  "dualTime",
+  "nightTime",
+  "instrumentTime",
+  "totalTime",
+  "landingsDay",
+  "landingsNight",
+  "nightTimeMethod",
+  "nightTimeCalculatedAt",
+  "remarks",
+  "attachments",
+  "additionalData",
+] as const;
+
+export type HashedEntryField = (typeof HASHED_ENTRY_FIELDS)[number];
+
+export type HashableEntry = Pick<FlightEntry, HashedEntryField>;
+
+function sortValue(value: unknown): unknown {
+  if (value === undefined || value === null) {
+    return null;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => sortValue(item));
+  }
+
+  if (typeof value === "object") {
+    return Object.keys(value as Record<string, unknown>)
+      .sort()
+      .reduce((acc, key) => {
+        acc[key] = sortValue((value as Record<string, unknown>)[key]);
+        return acc;
+      }, {} as Record<string, unknown>);
+  }
+
+  return value;
+}
+
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(sortValue(value));
+}
+
+function parseJsonField(value: string | undefined): unknown {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    // Keep unparseable payloads as raw text so they still contribute to the hash.
+    return value;
+  }
+}
+
+function canonicalAttachments(value: string | undefined): unknown {
+  const parsed = parseJsonField(value);
+  if (!Array.isArray(parsed)) {
+    return parsed;
+  }
+
+  // Local URIs differ between devices and reinstalls; only hash what was attached.
+  return parsed.map((item) =>
+    item && typeof item === "object"
+      ? { filename: item.filename ?? null, size: item.size ?? null }
+      : item
+  );
+}
+
+export function canonicalizeEntry(entry: HashableEntry): string {
+  return canonicalJson({
+    v: ENTRY_HASH_VERSION,
+    pilotId: entry.pilotId,
+    flightDate: entry.flightDate,
+    aircraftReg: entry.aircraftReg,
+    aircraftType: entry.aircraftType,
+    routeFrom: entry.routeFrom,
+    routeTo: entry.routeTo,
+    departureAirportIcao: entry.departureAirportIcao,
+    arrivalAirportIcao: entry.arrivalAirportIcao,
+    departureTimezone: entry.departureTimezone,
+    arrivalTimezone: entry.arrivalTimezone,
+    departureTimeUtc: entry.departureTimeUtc,
+    arrivalTimeUtc: entry.arrivalTimeUtc,
+    picTime: entry.picTime,
+    sicTime: entry.sicTime,
+    dualTime: entry.dualTime,
+    nightTime: entry.nightTime,
+    instrumentTime: entry.instrumentTime,
+    totalTime: entry.totalTime,
+    landingsDay: entry.landingsDay,
+    landingsNight: entry.landingsNight,
+    nightTimeMethod: entry.nightTimeMethod ?? "manual",
+    nightTimeCalculatedAt: entry.nightTimeCalculatedAt,
+    remarks: entry.remarks,
+    attachments: canonicalAttachments(entry.attachments),
+    additionalData: parseJsonField(entry.additionalData),
+  });
+}
+
+export function sha256Hex(value: string): string {
+  return bytesToHex(sha256(utf8ToBytes(value)));
+}
+
+export function computeEntryHash(entry: HashableEntry): string {
+  return sha256Hex(canonicalizeEntry(entry));
+}
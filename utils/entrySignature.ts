@@ -0,0 +1,44 @@
+import { secp256k1 } from "@noble/curves/secp256k1";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+
+export const SIGNATURE_ALGORITHM = "secp256k1";
+
+export function isValidPrivateKey(privateKey: Uint8Array): boolean {
+  return secp256k1.utils.isValidSecretKey(privateKey);
+}
+
+/** Compressed (33 byte) public key, hex encoded. */
+export function derivePublicKey(privateKeyHex: string): string {
+  return bytesToHex(secp256k1.getPublicKey(hexToBytes(privateKeyHex), true));
+}
+
+/**
+ * Sign an entry's canonical SHA-256 hash. Returns the 64 byte compact (r || s)
+ * signature, hex encoded. Signing is deterministic (RFC 6979).
+ */
+export function signEntryHash(entryHash: string, privateKeyHex: string): string {
+  return secp256k1
+    .sign(hexToBytes(entryHash), hexToBytes(privateKeyHex))
+    .toCompactHex();
+}
+
+/**
+ * Check that `signature` over `entryHash` was produced by the holder of
+ * `publicKey`. Needs nothing but the three values, so the server or any third
+ * party can run the same check.
+ */
+export function verifyEntrySignature(
+  entryHash: string,
+  signature: string,
+  publicKey: string
+): boolean {
+  try {
+    return secp256k1.verify(
+      hexToBytes(signature),
+      hexToBytes(entryHash),
+      hexToBytes(publicKey)
+    );
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,68 @@
+import { FlightEntry } from "../services/database";
+
+export type EntryStatus = FlightEntry["status"];
+
+/**
+ * Review workflow. A rejected entry goes back to the pilot, who edits and
+ * resubmits it; approval is final and leads only to anchoring.
+ */
+export const STATUS_TRANSITIONS: Record<EntryStatus, EntryStatus[]> = {
+  draft: ["submitted"],
+  submitted: ["approved", "rejected"],
+  rejected: ["submitted"],
+  approved: ["anchored"],
+  anchored: [],
+};
+
+export class StatusTransitionError extends Error {
+  constructor(
+    readonly from: EntryStatus,
+    readonly to: EntryStatus
+  ) {
+    super(`Cannot move an entry from ${from} to ${to}`);
+    this.name = "StatusTransitionError";
+  }
+}
+
+/** Whether a single step of the workflow leads from `from` to `to`. */
+export function canTransition(from: EntryStatus, to: EntryStatus): boolean {
+  return STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Whether `to` can follow `from` through any number of steps. The server may
+ * move an entry on by several steps between two pulls (approved and anchored,
+ * say), so statuses it reports are checked against this rather than a single
+ * step.
+ */
+export function isStatusReachable(from: EntryStatus, to: EntryStatus): boolean {
+  if (from === to) {
+    return true;
+  }
+
+  const seen = new Set<EntryStatus>([from]);
+  const queue: EntryStatus[] = [from];
+
+  while (queue.length > 0) {
+    for (const next of STATUS_TRANSITIONS[queue.shift()!] ?? []) {
+      if (next === to) {
+        return true;
+      }
+      if (!seen.has(next)) {
+        seen.add(next);
+        queue.push(next);
+      }
+    }
+  }
+
+  return false;
+}
+
+/** Entries the pilot may still change: drafts and entries sent back. */
+export function isEditableStatus(status: EntryStatus): boolean {
+  return status === "draft" || status === "rejected";
+}
+
+export function canSubmit(status: EntryStatus): boolean {
+  return canTransition(status, "submitted");
+}
@@ -0,0 +1,367 @@
+import { AdditionalFlightData, FlightEntry } from "../services/database";
+import { EntryAttachment, UploadedAttachment } from "../services/attachmentService";
+import { SIGNATURE_ALGORITHM } from "./entrySignature";
+import { ServerEntry, SyncAck } from "./apiContract";
+
+/**
+ * Version of the entry payload exchanged with the server. Version 1 carried
+ * only the original logbook columns; version 2 adds airport references, UTC
+ * block times, night-time provenance and the additional flight data; version
+ * 3 sends attachments as uploaded file references instead of device URIs.
+ */
+export const WIRE_FORMAT_VERSION = 3;
+
+export interface WireAttachment {
+  filename: string;
+  size: number;
+  content_type: string;
+  checksum: string;
+  remote_id: string;
+}
+
+export interface WireCrewMember {
+  name: string;
+  role: "PIC" | "SIC" | "RELIEF";
+  license_no?: string;
+}
+
+export interface WireAdditionalData {
+  flight_number?: string;
+  scheduled_out?: string;
+  scheduled_in?: string;
+  actual_out?: string;
+  actual_in?: string;
+  scheduled_out_utc?: string;
+  scheduled_in_utc?: string;
+  actual_out_utc?: string;
+  actual_in_utc?: string;
+  fdp_start?: string;
+  fdp_end?: string;
+  fdp_hours?: number;
+  fuel_loaded?: number;
+  distance_nm?: number;
+  crew_members?: WireCrewMember[];
+  // Keys this version does not know about travel unchanged.
+  [key: string]: unknown;
+}
+
+export interface WireEntry {
+  format_version: number;
+  client_uuid?: string;
+  local_id?: number;
+  server_id?: number;
+  pilot_id: number;
+  status: FlightEntry["status"];
+  flight_date: string;
+  aircraft_reg: string;
+  aircraft_type?: string;
+  route_from?: string;
+  route_to?: string;
+  departure_airport_icao?: string;
+  arrival_airport_icao?: string;
+  departure_timezone?: string;
+  arrival_timezone?: string;
+  departure_time_utc?: string;
+  arrival_time_utc?: string;
+  pic_time: number;
+  sic_time: number;
+  dual_time: number;
+  night_time: number;
+  instrument_time: number;
+  total_time: number;
+  landings_day: number;
+  landings_night: number;
+  night_time_method?: FlightEntry["nightTimeMethod"];
+  night_time_calculated_at?: string;
+  remarks?: string;
+  attachments: WireAttachment[];
+  additional_data: WireAdditionalData | null;
+  sync_status: FlightEntry["syncStatus"];
+  last_synced_at?: string;
+  entry_hash?: string;
+  base_revision?: string;
+  signature?: string;
+  signer_public_key?: string;
+  signature_algorithm?: string;
+  signed_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DecodedWireEntry {
+  entry: Omit<FlightEntry, "id" | "createdAt" | "updatedAt">;
+}
+
+// Scalar fields of AdditionalFlightData, their wire names and types.
+const ADDITIONAL_DATA_FIELDS: [
+  keyof AdditionalFlightData & string,
+  string,
+  "string" | "number",
+][] = [
+  ["flightNumber", "flight_number", "string"],
+  ["scheduledOut", "scheduled_out", "string"],
+  ["scheduledIn", "scheduled_in", "string"],
+  ["actualOut", "actual_out", "string"],
+  ["actualIn", "actual_in", "string"],
+  ["scheduledOutUtc", "scheduled_out_utc", "string"],
+  ["scheduledInUtc", "scheduled_in_utc", "string"],
+  ["actualOutUtc", "actual_out_utc", "string"],
+  ["actualInUtc", "actual_in_utc", "string"],
+  ["fdpStart", "fdp_start", "string"],
+  ["fdpEnd", "fdp_end", "string"],
+  ["fdpHours", "fdp_hours", "number"],
+  ["fuelLoaded", "fuel_loaded", "number"],
+  ["distanceNm", "distance_nm", "number"],
+];
+
+export const CREW_ROLES: readonly WireCrewMember["role"][] = ["PIC", "SIC", "RELIEF"];
+
+const isPresent = (value: unknown) => value !== undefined && value !== null;
+
+function encodeAdditionalData(value: string | undefined): WireAdditionalData | null {
+  if (!value) {
+    return null;
+  }
+
+  let data: AdditionalFlightData;
+  try {
+    data = JSON.parse(value);
+  } catch {
+    return null;
+  }
+
+  const wire: WireAdditionalData = {};
+  const known = new Set<string>(["crewMembers"]);
+
+  for (const [key, wireKey] of ADDITIONAL_DATA_FIELDS) {
+    known.add(key);
+    if (isPresent(data[key])) {
+      wire[wireKey] = data[key];
+    }
+  }
+
+  if (Array.isArray(data.crewMembers)) {
+    wire.crew_members = data.crewMembers.map((member) => ({
+      name: member.name,
+      role: member.role,
+      ...(member.licenseNo ? { license_no: member.licenseNo } : {}),
+    }));
+  }
+
+  for (const [key, extra] of Object.entries(data)) {
+    if (!known.has(key) && isPresent(extra)) {
+      wire[key] = extra;
+    }
+  }
+
+  return wire;
+}
+
+// Absent and null values are dropped so a round trip reproduces the stored
+// JSON, and with it the entry hash.
+function decodeCrewMember(
+  wire: unknown
+): NonNullable<AdditionalFlightData["crewMembers"]>[number] | null {
+  if (!wire || typeof wire !== "object") {
+    return null;
+  }
+
+  const { name, role, license_no } = wire as Record<string, unknown>;
+  if (typeof name !== "string" || !CREW_ROLES.includes(role as WireCrewMember["role"])) {
+    return null;
+  }
+  return {
+    name,
+    role: role as WireCrewMember["role"],
+    ...(typeof license_no === "string" && license_no ? { licenseNo: license_no } : {}),
+  };
+}
+
+function decodeAdditionalData(wire: unknown): string | undefined {
+  if (!wire || typeof wire !== "object") {
+    return undefined;
+  }
+
+  const source = wire as Record<string, unknown>;
+  const data: AdditionalFlightData = {};
+  const known = new Set<string>(["crew_members"]);
+
+  for (const [key, wireKey, type] of ADDITIONAL_DATA_FIELDS) {
+    known.add(wireKey);
+    const value = source[wireKey];
+    if (typeof value === type) {
+      data[key] = value;
+    }
+  }
+
+  if (Array.isArray(source.crew_members)) {
+    data.crewMembers = source.crew_members
+      .map(decodeCrewMember)
+      .filter((member) => member !== null);
+  }
+
+  for (const [key, extra] of Object.entries(source)) {
+    if (!known.has(key) && isPresent(extra)) {
+      data[key] = extra;
+    }
+  }
+
+  return Object.keys(data).length > 0 ? JSON.stringify(data) : undefined;
+}
+
+function decodeAttachments(wire: unknown, formatVersion: number): string | undefined {
+  if (formatVersion < 3) {
+    return typeof wire === "string" ? wire : undefined;
+  }
+  if (!Array.isArray(wire) || wire.length === 0) {
+    return undefined;
+  }
+
+  const attachments: EntryAttachment[] = wire.map((item: WireAttachment) => ({
+    filename: item.filename,
+    size: item.size,
+    remoteId: item.remote_id,
+    checksum: item.checksum,
+    contentType: item.content_type,
+  }));
+  return JSON.stringify(attachments);
+}
+
+export function readWireRevision(
+  item: Pick<SyncAck, "revision" | "updated_at">
+): string | undefined {
+  const revision = item.revision ?? item.updated_at;
+  return revision != null ? String(revision) : undefined;
+}
+
+export function encodeWireEntry(
+  entry: FlightEntry,
+  options: {
+    attachments?: UploadedAttachment[];
+    signature?: { signature: string; publicKey: string; signedAt: string };
+  } = {}
+): WireEntry {
+  return {
+    format_version: WIRE_FORMAT_VERSION,
+    client_uuid: entry.clientUuid,
+    local_id: entry.id,
+    server_id: entry.serverId,
+    pilot_id: entry.pilotId,
+    status: entry.status,
+    flight_date: entry.flightDate,
+    aircraft_reg: entry.aircraftReg,
+    aircraft_type: entry.aircraftType,
+    route_from: entry.routeFrom,
+    route_to: entry.routeTo,
+    departure_airport_icao: entry.departureAirportIcao,
+    arrival_airport_icao: entry.arrivalAirportIcao,
+    departure_timezone: entry.departureTimezone,
+    arrival_timezone: entry.arrivalTimezone,
+    departure_time_utc: entry.departureTimeUtc,
+    arrival_time_utc: entry.arrivalTimeUtc,
+    pic_time: entry.picTime,
+    sic_time: entry.sicTime,
+    dual_time: entry.dualTime,
+    night_time: entry.nightTime,
+    instrument_time: entry.instrumentTime,
+    total_time: entry.totalTime,
+    landings_day: entry.landingsDay,
+    landings_night: entry.landingsNight,
+    night_time_method: entry.nightTimeMethod,
+    night_time_calculated_at: entry.nightTimeCalculatedAt,
+    remarks: entry.remarks,
+    attachments: (options.attachments ?? []).map((attachment) => ({
+      filename: attachment.filename,
+      size: attachment.size,
+      content_type: attachment.contentType,
+      checksum: attachment.checksum,
+      remote_id: attachment.remoteId,
+    })),
+    additional_data: encodeAdditionalData(entry.additionalData),
+    sync_status: entry.syncStatus,
+    last_synced_at: entry.lastSyncedAt,
+    entry_hash: entry.entryHash,
+    base_revision: entry.baseRevision,
+    signature: options.signature?.signature,
+    signer_public_key: options.signature?.publicKey,
+    signature_algorithm: options.signature ? SIGNATURE_ALGORITHM : undefined,
+    signed_at: options.signature?.signedAt,
+    created_at: entry.createdAt,
+    updated_at: entry.updatedAt,
+  };
+}
+
+/**
+ * Decode a server entry. Payloads without `format_version` are version 1 and
+ * leave the extended fields out entirely, so merging them keeps the local
+ * values. Payloads from a newer format are rejected rather than half-read.
+ */
+export function decodeWireEntry(item: ServerEntry): DecodedWireEntry | null {
+  const serverId = Number(item.server_id ?? item.id);
+  const pilotId = Number(item.pilot_id);
+  const formatVersion = Number(item.format_version ?? 1);
+
+  if (
+    !Number.isInteger(serverId) ||
+    !Number.isInteger(pilotId) ||
+    !item.flight_date ||
+    !item.aircraft_reg
+  ) {
+    return null;
+  }
+
+  if (!Number.isInteger(formatVersion) || formatVersion > WIRE_FORMAT_VERSION) {
+    console.warn(
+      `[Sync] Skipping entry ${serverId} in unsupported format ${item.format_version}`
+    );
+    return null;
+  }
+
+  const entry: DecodedWireEntry["entry"] = {
+    clientUuid: item.client_uuid ?? undefined,
+    serverId,
+    pilotId,
+    status: item.status,
+    flightDate: item.flight_date,
+    aircraftReg: item.aircraft_reg,
+    aircraftType: item.aircraft_type ?? undefined,
+    routeFrom: item.route_from ?? undefined,
+    routeTo: item.route_to ?? undefined,
+    picTime: item.pic_time ?? 0,
+    sicTime: item.sic_time ?? 0,
+    dualTime: item.dual_time ?? 0,
+    nightTime: item.night_time ?? 0,
+    instrumentTime: item.instrument_time ?? 0,
+    totalTime: item.total_time ?? 0,
+    landingsDay: item.landings_day ?? 0,
+    landingsNight: item.landings_night ?? 0,
+    remarks: item.remarks ?? undefined,
+    attachments: decodeAttachments(item.attachments, formatVersion),
+    syncStatus: "synced",
+    lastSyncedAt: new Date().toISOString(),
+    baseRevision: readWireRevision(item),
+    organizationId: item.organization_id ?? undefined,
+    submittedAt: item.submitted_at ?? undefined,
+    reviewedAt: item.reviewed_at ?? undefined,
+    rejectionReason: item.rejection_reason ?? undefined,
+  };
+
+  if (formatVersion < 2) {
+    return { entry };
+  }
+
+  return {
+    entry: {
+      ...entry,
+      departureAirportIcao: item.departure_airport_icao ?? undefined,
+      arrivalAirportIcao: item.arrival_airport_icao ?? undefined,
+      departureTimezone: item.departure_timezone ?? undefined,
+      arrivalTimezone: item.arrival_timezone ?? undefined,
+      departureTimeUtc: item.departure_time_utc ?? undefined,
+      arrivalTimeUtc: item.arrival_time_utc ?? undefined,
+      nightTimeMethod: item.night_time_method ?? "manual",
+      nightTimeCalculatedAt: item.night_time_calculated_at ?? undefined,
+      additionalData: decodeAdditionalData(item.additional_data),
+    },
+  };
+}
@@ -0,0 +1,9 @@
+import { sha256 } from "@noble/hashes/sha256";
+import { bytesToHex, concatBytes, hexToBytes } from "@noble/hashes/utils";
+
+/** prev_hash of the first entry in a logbook. */
+export const GENESIS_HASH = "0".repeat(64);
+
+export function computeChainHash(prevHash: string, entryHash: string): string {
+  return bytesToHex(sha256(concatBytes(hexToBytes(prevHash), hexToBytes(entryHash))));
+}
@@ -0,0 +1,108 @@
+import { sha256 } from "@noble/hashes/sha256";
+import { bytesToHex, concatBytes, hexToBytes } from "@noble/hashes/utils";
+
+export interface MerkleProofStep {
+  hash: string;
+  position: "left" | "right";
+}
+
+export interface MerkleTree {
+  root: string;
+  levels: string[][];
+}
+
+// Domain separation prefixes (RFC 6962) so a leaf can never be passed off as
+// an interior node.
+const LEAF_PREFIX = new Uint8Array([0x00]);
+const NODE_PREFIX = new Uint8Array([0x01]);
+
+export function hashLeaf(entryHash: string): string {
+  return bytesToHex(sha256(concatBytes(LEAF_PREFIX, hexToBytes(entryHash))));
+}
+
+export function hashNode(left: string, right: string): string {
+  return bytesToHex(
+    sha256(concatBytes(NODE_PREFIX, hexToBytes(left), hexToBytes(right)))
+  );
+}
+
+/**
+ * Build a tree over the given entry hashes. An odd node at the end of a level
+ * is promoted unchanged rather than duplicated, which avoids the duplicate-leaf
+ * ambiguity of Bitcoin-style trees.
+ */
+export function buildMerkleTree(entryHashes: string[]): MerkleTree {
+  if (entryHashes.length === 0) {
+    throw new Error("Cannot build a Merkle tree without leaves");
+  }
+
+  const levels: string[][] = [entryHashes.map((hash) => hashLeaf(hash))];
+
+  while (levels[levels.length - 1].length > 1) {
+    const current = levels[levels.length - 1];
+    const next: string[] = [];
+
+    for (let i = 0; i < current.length; i += 2) {
+      if (i + 1 < current.length) {
+        next.push(hashNode(current[i], current[i + 1]));
+      } else {
+        next.push(current[i]);
+      }
+    }
+
+    levels.push(next);
+  }
+
+  return { root: levels[levels.length - 1][0], levels };
+}
+
+export function getMerkleProof(tree: MerkleTree, leafIndex: number): MerkleProofStep[] {
+  if (leafIndex < 0 || leafIndex >= tree.levels[0].length) {
+    throw new Error(`Leaf index ${leafIndex} is out of range`);
+  }
+
+  const proof: MerkleProofStep[] = [];
+  let index = leafIndex;
+
+  for (let level = 0; level < tree.levels.length - 1; level += 1) {
+    const nodes = tree.levels[level];
+    const isRight = index % 2 === 1;
+    const siblingIndex = isRight ? index - 1 : index + 1;
+
+    if (siblingIndex < nodes.length) {
+      proof.push({
+        hash: nodes[siblingIndex],
+        position: isRight ? "left" : "right",
+      });
+    }
+
+    index = Math.floor(index / 2);
+  }
+
+  return proof;
+}
+
+export function computeRootFromProof(
+  entryHash: string,
+  proof: MerkleProofStep[]
+): string {
+  return proof.reduce(
+    (current, step) =>
+      step.position === "left"
+        ? hashNode(step.hash, current)
+        : hashNode(current, step.hash),
+    hashLeaf(entryHash)
+  );
+}
+
+export function verifyMerkleProof(
+  entryHash: string,
+  proof: MerkleProofStep[],
+  root: string
+): boolean {
+  try {
+    return computeRootFromProof(entryHash, proof) === root;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,82 @@
+import { isAxiosError } from "axios";
+import { ApiErrorBody, MfaMethod } from "./apiContract";
+
+export const TOTP_CODE_LENGTH = 6;
+
+export type MfaFailureReason = "invalid_code" | "locked" | "expired";
+
+/** A second-factor attempt the server refused. */
+export class MfaError extends Error {
+  constructor(
+    readonly reason: MfaFailureReason,
+    message: string,
+    readonly attemptsRemaining?: number,
+    readonly retryAfterSeconds?: number
+  ) {
+    super(message);
+    this.name = "MfaError";
+  }
+}
+
+/**
+ * Authenticator codes are digits only; recovery codes are matched without
+ * spaces and case, so "7kq2 m9xd" and "7KQ2-M9XD" are the same code.
+ */
+export function normalizeMfaCode(code: string, method: MfaMethod): string {
+  const compact = code.replace(/\s+/g, "");
+  return method === "totp" ? compact : compact.toUpperCase();
+}
+
+export function isWellFormedMfaCode(code: string, method: MfaMethod): boolean {
+  const normalized = normalizeMfaCode(code, method);
+  return method === "totp"
+    ? new RegExp(`^\\d{${TOTP_CODE_LENGTH}}$`).test(normalized)
+    : /^[A-Z0-9]{4,}(-[A-Z0-9]{4,})*$/.test(normalized) &&
+        normalized.replace(/-/g, "").length >= 8;
+}
+
+function formatWait(seconds: number): string {
+  const minutes = Math.ceil(seconds / 60);
+  return minutes <= 1 ? "a minute" : `${minutes} minutes`;
+}
+
+/**
+ * Map a failed sign-in request to an `MfaError` when the server's answer is
+ * about the second factor: a wrong code, a lockout after too many wrong
+ * codes, or an expired challenge. Anything else returns null.
+ */
+export function toMfaError(error: unknown): MfaError | null {
+  if (!isAxiosError<ApiErrorBody>(error) || !error.response) {
+    return null;
+  }
+
+  const { status, data } = error.response;
+  if (status === 423 || data?.code === "mfa_locked") {
+    const retryAfter = data?.retry_after;
+    return new MfaError(
+      "locked",
+      retryAfter
+        ? `Too many incorrect codes. Try again in ${formatWait(retryAfter)}.`
+        : "Too many incorrect codes. Try again later.",
+      0,
+      retryAfter
+    );
+  }
+  if (data?.code === "challenge_expired") {
+    return new MfaError(
+      "expired",
+      "The sign-in request expired. Enter your password again."
+    );
+  }
+  if (data?.code === "invalid_code") {
+    const remaining = data.attempts_remaining;
+    return new MfaError(
+      "invalid_code",
+      remaining == null
+        ? "Incorrect code."
+        : `Incorrect code. ${remaining} ${remaining === 1 ? "attempt" : "attempts"} left.`,
+      remaining
+    );
+  }
+  return null;
+}
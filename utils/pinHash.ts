@@ -0,0 +1,51 @@
+import { pbkdf2Async } from "@noble/hashes/pbkdf2";
+import { sha256 } from "@noble/hashes/sha256";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+
+export const PIN_MIN_LENGTH = 4;
+export const PIN_MAX_LENGTH = 8;
+
+// PBKDF2 rounds for a new PIN, kept low enough to check in well under a
+// second on a phone; the attempt limit does the rest. Stored with the hash,
+// so raising it later does not break existing PINs.
+export const PIN_HASH_ITERATIONS = 20000;
+
+/** A PIN as stored: never the PIN itself, only a salted PBKDF2 hash. */
+export interface PinHash {
+  salt: string;
+  hash: string;
+  iterations: number;
+}
+
+export function isValidPin(pin: string): boolean {
+  return new RegExp(`^\\d{${PIN_MIN_LENGTH},${PIN_MAX_LENGTH}}$`).test(pin);
+}
+
+export async function hashPin(
+  pin: string,
+  salt: Uint8Array,
+  iterations: number = PIN_HASH_ITERATIONS
+): Promise<PinHash> {
+  const hash = await pbkdf2Async(sha256, pin, salt, {
+    c: iterations,
+    dkLen: 32,
+    asyncTick: 20,
+  });
+  return { salt: bytesToHex(salt), hash: bytesToHex(hash), iterations };
+}
+
+export async function verifyPin(pin: string, stored: PinHash): Promise<boolean> {
+  const candidate = await hashPin(pin, hexToBytes(stored.salt), stored.iterations);
+  return constantTimeEqual(hexToBytes(candidate.hash), hexToBytes(stored.hash));
+}
+
+function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let difference = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    difference |= a[i] ^ b[i];
+  }
+  return difference === 0;
+}
@@ -0,0 +1,111 @@
+import { secp256k1 } from "@noble/curves/secp256k1";
+import { keccak_256 } from "@noble/hashes/sha3";
+import { bytesToHex, hexToBytes, utf8ToBytes } from "@noble/hashes/utils";
+
+export interface SiweMessageParams {
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+}
+
+function strip0x(value: string): string {
+  return value.startsWith("0x") ? value.slice(2) : value;
+}
+
+/** EIP-55 mixed-case checksum encoding of a 20 byte address. */
+export function toChecksumAddress(address: string): string {
+  const lower = strip0x(address).toLowerCase();
+  const hash = bytesToHex(keccak_256(utf8ToBytes(lower)));
+
+  let checksummed = "0x";
+  for (let i = 0; i < lower.length; i += 1) {
+    checksummed +=
+      parseInt(hash[i], 16) >= 8 ? lower[i].toUpperCase() : lower[i];
+  }
+  return checksummed;
+}
+
+function addressFromPublicKey(publicKey: Uint8Array): string {
+  // Uncompressed key without the 0x04 prefix; address is the last 20 bytes.
+  const hash = keccak_256(publicKey.slice(1));
+  return toChecksumAddress(bytesToHex(hash.slice(-20)));
+}
+
+export function deriveAddress(privateKeyHex: string): string {
+  return addressFromPublicKey(
+    secp256k1.getPublicKey(hexToBytes(strip0x(privateKeyHex)), false)
+  );
+}
+
+/** EIP-4361 plain-text message, field order as required by the spec. */
+export function buildSiweMessage(params: SiweMessageParams): string {
+  const lines = [
+    `${params.domain} wants you to sign in with your Ethereum account:`,
+    toChecksumAddress(params.address),
+    "",
+  ];
+
+  if (params.statement) {
+    lines.push(params.statement, "");
+  }
+
+  lines.push(
+    `URI: ${params.uri}`,
+    "Version: 1",
+    `Chain ID: ${params.chainId}`,
+    `Nonce: ${params.nonce}`,
+    `Issued At: ${params.issuedAt}`
+  );
+
+  if (params.expirationTime) {
+    lines.push(`Expiration Time: ${params.expirationTime}`);
+  }
+
+  return lines.join("\n");
+}
+
+/** EIP-191 `personal_sign` digest. */
+function hashPersonalMessage(message: string): Uint8Array {
+  const body = utf8ToBytes(message);
+  const prefix = utf8ToBytes(`\x19Ethereum Signed Message:\n${body.length}`);
+  const data = new Uint8Array(prefix.length + body.length);
+  data.set(prefix);
+  data.set(body, prefix.length);
+  return keccak_256(data);
+}
+
+/** 65 byte r || s || v signature, as returned by wallets for personal_sign. */
+export function signPersonalMessage(message: string, privateKeyHex: string): string {
+  const signature = secp256k1.sign(
+    hashPersonalMessage(message),
+    hexToBytes(strip0x(privateKeyHex))
+  );
+  const v = (27 + signature.recovery).toString(16);
+  return `0x${signature.toCompactHex()}${v}`;
+}
+
+export function recoverPersonalMessageSigner(
+  message: string,
+  signatureHex: string
+): string | null {
+  try {
+    const bytes = hexToBytes(strip0x(signatureHex));
+    if (bytes.length !== 65) {
+      return null;
+    }
+
+    const recovery = bytes[64] >= 27 ? bytes[64] - 27 : bytes[64];
+    const publicKey = secp256k1.Signature.fromCompact(bytes.slice(0, 64))
+      .addRecoveryBit(recovery)
+      .recoverPublicKey(hashPersonalMessage(message));
+
+    return addressFromPublicKey(publicKey.toRawBytes(false));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,108 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { NetInfoState, NetInfoStateType } from "@react-native-community/netinfo";
+
+const SYNC_POLICY_KEY = "@flightlog:sync_policy";
+const HOME_CARRIER_KEY = "@flightlog:home_carrier";
+
+/** When automatic (background, reconnect and after-save) syncs may run. */
+export interface SyncPolicy {
+  wifiOnly: boolean;
+  avoidRoaming: boolean;
+  backgroundIntervalMinutes: number;
+}
+
+export const DEFAULT_SYNC_POLICY: SyncPolicy = {
+  wifiOnly: false,
+  avoidRoaming: true,
+  backgroundIntervalMinutes: 15,
+};
+
+// The OS treats the interval as a minimum and never runs fetches more often
+// than every 15 minutes.
+export const BACKGROUND_INTERVAL_OPTIONS = [15, 30, 60, 240];
+
+export async function loadSyncPolicy(): Promise<SyncPolicy> {
+  try {
+    const stored = await AsyncStorage.getItem(SYNC_POLICY_KEY);
+    if (!stored) {
+      return { ...DEFAULT_SYNC_POLICY };
+    }
+    const policy = { ...DEFAULT_SYNC_POLICY, ...JSON.parse(stored) };
+    if (!BACKGROUND_INTERVAL_OPTIONS.includes(policy.backgroundIntervalMinutes)) {
+      policy.backgroundIntervalMinutes = DEFAULT_SYNC_POLICY.backgroundIntervalMinutes;
+    }
+    return policy;
+  } catch (error) {
+    console.warn("Failed to load sync policy:", error);
+    return { ...DEFAULT_SYNC_POLICY };
+  }
+}
+
+export async function saveSyncPolicy(policy: SyncPolicy): Promise<void> {
+  await AsyncStorage.setItem(SYNC_POLICY_KEY, JSON.stringify(policy));
+}
+
+export async function loadHomeCarrier(): Promise<string | null> {
+  return AsyncStorage.getItem(HOME_CARRIER_KEY);
+}
+
+export async function saveHomeCarrier(carrier: string): Promise<void> {
+  await AsyncStorage.setItem(HOME_CARRIER_KEY, carrier);
+}
+
+export function cellularCarrier(state: NetInfoState): string | null {
+  if (state.type !== NetInfoStateType.cellular) {
+    return null;
+  }
+  return state.details?.carrier || null;
+}
+
+/**
+ * NetInfo has no roaming flag. On Android it reports the carrier of the
+ * network the phone is attached to, so a cellular connection through a
+ * carrier other than the first one we saw counts as roaming. iOS reports the
+ * SIM's carrier wherever the phone is, so roaming is not detected there;
+ * pilots who fly abroad should use Wi-Fi only.
+ */
+export function isRoaming(state: NetInfoState, homeCarrier: string | null): boolean {
+  const carrier = cellularCarrier(state);
+  return Boolean(carrier && homeCarrier && carrier !== homeCarrier);
+}
+
+/**
+ * Why the policy does not allow an automatic sync on this connection, or
+ * null when it does. Manual syncs are not subject to the policy.
+ */
+export function syncBlockedReason(
+  state: NetInfoState,
+  policy: SyncPolicy,
+  homeCarrier: string | null
+): string | null {
+  if (!state.isConnected || state.isInternetReachable === false) {
+    return "Offline";
+  }
+  if (policy.wifiOnly && state.type !== NetInfoStateType.wifi && state.type !== NetInfoStateType.ethernet) {
+    return "Waiting for Wi-Fi";
+  }
+  if (policy.avoidRoaming && isRoaming(state, homeCarrier)) {
+    return "Paused while roaming";
+  }
+  return null;
+}
+
+export function formatSyncInterval(minutes: number): string {
+  if (minutes < 60) {
+    return `${minutes} min`;
+  }
+  const hours = minutes / 60;
+  return hours === 1 ? "1 hour" : `${hours} hours`;
+}
+
+export function describeSyncPolicy(policy: SyncPolicy): string {
+  const network = policy.wifiOnly
+    ? "Wi-Fi only"
+    : policy.avoidRoaming
+      ? "Wi-Fi or cellular, not when roaming"
+      : "Any connection";
+  return `${network} · every ${formatSyncInterval(policy.backgroundIntervalMinutes)}`;
+}